@@ -1,10 +1,20 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { APP_INTERCEPTOR } from '@nestjs/core';
 import { AuthModule } from './auth/auth.module';
 import { TenantsModule } from './tenants/tenants.module';
 import { ContactsModule } from './contacts/contacts.module';
+import { PipelineModule } from './pipeline/pipeline.module';
+import { OrganizationsModule } from './organizations/organizations.module';
 import { DonationsModule } from './donations/donations.module';
+import { CampaignsModule } from './campaigns/campaigns.module';
+import { GrantsModule } from './grants/grants.module';
+import { StaffModule } from './staff/staff.module';
+import { SearchModule } from './search/search.module';
 import { ReportsModule } from './reports/reports.module';
+import { DashboardsModule } from './dashboards/dashboards.module';
+import { AuditLogsModule } from './audit-logs/audit-logs.module';
+import { AuditInterceptor } from './common/interceptors/audit.interceptor';
 
 @Module({
   imports: [
@@ -14,8 +24,19 @@ import { ReportsModule } from './reports/reports.module';
     AuthModule,
     TenantsModule,
     ContactsModule,
+    PipelineModule,
+    OrganizationsModule,
     DonationsModule,
+    CampaignsModule,
+    GrantsModule,
+    StaffModule,
+    SearchModule,
     ReportsModule,
+    DashboardsModule,
+    AuditLogsModule,
+  ],
+  providers: [
+    { provide: APP_INTERCEPTOR, useClass: AuditInterceptor },
   ],
 })
 export class AppModule {}
@@ -0,0 +1,105 @@
+import { AuditChainRow, canonicalJson, hashAuditEntry, verifyAuditRows } from '@crmblr/db';
+
+const tenantId = '00000000-0000-0000-0000-000000000001';
+
+// A valid chain of `count` rows, each hashed over the one before
+function buildChain(count: number): AuditChainRow[] {
+  const rows: AuditChainRow[] = [];
+  for (let seq = 1; seq <= count; seq++) {
+    const content = {
+      tenantId,
+      seq,
+      userId: null,
+      action: 'update',
+      entity: 'contacts',
+      entityId: `contact-${seq}`,
+      meta: { before: { stage: 'identified' }, after: { stage: 'qualified' } },
+      ip: '10.0.0.1',
+      ua: 'jest',
+      createdAt: new Date(Date.UTC(2025, 0, seq)),
+    };
+    const prevHash = rows.length ? rows[rows.length - 1].hash : null;
+    rows.push({ ...content, id: `row-${seq}`, prevHash, hash: hashAuditEntry(content, prevHash) });
+  }
+  return rows;
+}
+
+describe('audit chain', () => {
+  describe('canonicalJson', () => {
+    it('sorts keys at every level and drops undefined values', () => {
+      expect(canonicalJson({ b: 1, a: { d: [2, { f: 3, e: undefined }], c: null } })).toBe(
+        '{"a":{"c":null,"d":[2,{"f":3}]},"b":1}',
+      );
+    });
+
+    it('writes dates as ISO strings', () => {
+      expect(canonicalJson({ at: new Date('2025-01-01T00:00:00Z') })).toBe('{"at":"2025-01-01T00:00:00.000Z"}');
+    });
+  });
+
+  describe('hashAuditEntry', () => {
+    it('does not depend on the key order of meta', () => {
+      const [row] = buildChain(1);
+      const reordered = { ...row, meta: { after: { stage: 'qualified' }, before: { stage: 'identified' } } };
+
+      expect(hashAuditEntry(reordered, null)).toBe(row.hash);
+    });
+
+    it('depends on the previous hash', () => {
+      const [row] = buildChain(1);
+
+      expect(hashAuditEntry(row, 'other')).not.toBe(row.hash);
+    });
+  });
+
+  describe('verifyAuditRows', () => {
+    it('accepts an intact chain, also when checked in batches', () => {
+      const rows = buildChain(5);
+
+      expect(verifyAuditRows(rows, null)).toEqual({ valid: true, checked: 5 });
+      expect(verifyAuditRows(rows.slice(3), { seq: 3, hash: rows[2].hash })).toEqual({ valid: true, checked: 2 });
+    });
+
+    it('points at a row whose content was changed', () => {
+      const rows = buildChain(5);
+      rows[2] = { ...rows[2], meta: { before: { stage: 'identified' }, after: { stage: 'stewarded' } } };
+
+      expect(verifyAuditRows(rows, null)).toEqual({
+        valid: false,
+        checked: 2,
+        brokenAt: { id: 'row-3', seq: 3, reason: 'content hash mismatch' },
+      });
+    });
+
+    it('points at the row after a deleted one', () => {
+      const rows = buildChain(5);
+      rows.splice(1, 1);
+
+      expect(verifyAuditRows(rows, null)).toEqual({
+        valid: false,
+        checked: 1,
+        brokenAt: { id: 'row-3', seq: 3, reason: 'sequence gap' },
+      });
+    });
+
+    it('points at rows that were swapped, even with their seq rewritten', () => {
+      const rows = buildChain(5);
+      [rows[1], rows[2]] = [rows[2], rows[1]];
+
+      expect(verifyAuditRows(rows, null).brokenAt).toEqual({ id: 'row-3', seq: 3, reason: 'sequence gap' });
+
+      const renumbered = rows.map((row, index) => ({ ...row, seq: index + 1 }));
+      expect(verifyAuditRows(renumbered, null).brokenAt).toEqual({ id: 'row-3', seq: 2, reason: 'previous hash mismatch' });
+    });
+
+    it('rejects a batch that does not continue the previous one', () => {
+      const rows = buildChain(5);
+
+      expect(verifyAuditRows(rows.slice(3), { seq: 3, hash: 'forged' }).brokenAt).toEqual({
+        id: 'row-4',
+        seq: 4,
+        reason: 'previous hash mismatch',
+      });
+    });
+  });
+});
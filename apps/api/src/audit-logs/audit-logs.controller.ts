@@ -0,0 +1,35 @@
+import { Controller, Get, UseGuards, Request } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiHeader } from '@nestjs/swagger';
+import { TenantGuard } from '../common/guards/tenant.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { CurrentTenant } from '../common/decorators/current-tenant.decorator';
+import { Roles } from '../common/decorators/roles.decorator';
+import { ApiListQuery, ListQuery } from '../common/decorators/list-query.decorator';
+import { ParsedListQuery } from '../common/list-query';
+import { AUDIT_LOG_LIST_SPEC, AuditLogsService } from './audit-logs.service';
+
+@ApiTags('audit-logs')
+@Controller('audit-logs')
+@UseGuards(TenantGuard, RolesGuard)
+@ApiBearerAuth()
+@ApiHeader({ name: 'x-tenant-id', description: 'Tenant ID or slug' })
+export class AuditLogsController {
+  constructor(private readonly auditLogsService: AuditLogsService) {}
+
+  @Get()
+  @Roles('auditLogs', 'read')
+  @ApiOperation({ summary: 'List audit log entries, filtered by entity, user and date range' })
+  @ApiListQuery(AUDIT_LOG_LIST_SPEC)
+  @ApiResponse({ status: 200, description: 'Audit log entries retrieved successfully' })
+  async findAll(@ListQuery(AUDIT_LOG_LIST_SPEC) query: ParsedListQuery, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.auditLogsService.findAll(query, tenantId, req.user.sub);
+  }
+
+  @Get('verify')
+  @Roles('auditLogs', 'read')
+  @ApiOperation({ summary: 'Walk the hash chain and report the first broken link' })
+  @ApiResponse({ status: 200, description: 'Chain verification result' })
+  async verify(@CurrentTenant('tenantId') tenantId: string) {
+    return this.auditLogsService.verify(tenantId);
+  }
+}
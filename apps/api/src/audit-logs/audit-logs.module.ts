@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { AuditLogsService } from './audit-logs.service';
+import { AuditLogsController } from './audit-logs.controller';
+
+@Module({
+  providers: [AuditLogsService],
+  controllers: [AuditLogsController],
+  exports: [AuditLogsService],
+})
+export class AuditLogsModule {}
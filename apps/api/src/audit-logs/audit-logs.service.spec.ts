@@ -0,0 +1,49 @@
+import { randomUUID } from 'crypto';
+import { db } from '@crmblr/db';
+import { parseListQuery } from '../common/list-query';
+import { AUDIT_LOG_LIST_SPEC, AuditLogsService } from './audit-logs.service';
+
+// Needs a migrated database with rls_policies.sql applied; these run only when DATABASE_URL is set
+const describeWithDatabase = process.env.DATABASE_URL ? describe : describe.skip;
+
+describeWithDatabase('AuditLogsService', () => {
+  const service = new AuditLogsService();
+  const suffix = randomUUID().slice(0, 8);
+  let tenantId: string;
+  let userId: string;
+
+  beforeAll(async () => {
+    const tenant = await db.client.tenant.create({ data: { name: 'Audit', slug: `audit-${suffix}` } });
+    const user = await db.client.user.create({
+      data: {
+        email: `audit-${suffix}@example.com`,
+        name: 'Auditor',
+        cognitoId: `audit-${suffix}`,
+        userTenants: { create: { tenantId: tenant.id, role: 'admin' } },
+      },
+    });
+    tenantId = tenant.id;
+    userId = user.id;
+
+    for (const action of ['create', 'update']) {
+      await db.appendAuditLog({ tenantId, userId, action, entity: 'contacts', entityId: randomUUID() });
+    }
+  });
+
+  afterAll(async () => {
+    await db.client.user.deleteMany({ where: { id: userId } });
+    await db.client.tenant.deleteMany({ where: { id: tenantId } });
+    await db.disconnect();
+  });
+
+  it('deletes a user with audit history and keeps the entries and the chain intact', async () => {
+    await db.client.user.delete({ where: { id: userId } });
+
+    const page = await service.findAll(parseListQuery({}, AUDIT_LOG_LIST_SPEC), tenantId, randomUUID());
+    expect(page.data).toEqual([
+      expect.objectContaining({ userId, user: null }),
+      expect.objectContaining({ userId, user: null }),
+    ]);
+    expect(await service.verify(tenantId)).toEqual({ valid: true, checked: 2 });
+  });
+});
@@ -0,0 +1,44 @@
+import { Injectable } from '@nestjs/common';
+import { db, Prisma } from '@crmblr/db';
+import { ListQuerySpec, ParsedListQuery, toPaginatedResponse, toPrismaArgs } from '../common/list-query';
+
+export const AUDIT_LOG_LIST_SPEC: ListQuerySpec = {
+  fields: {
+    entity: { type: 'string' },
+    entityId: { type: 'uuid' },
+    action: { type: 'enum', values: ['create', 'update', 'delete'] },
+    userId: { type: 'uuid' },
+    createdAt: { type: 'date', sortable: true },
+  },
+  defaultSort: '-createdAt',
+};
+
+@Injectable()
+export class AuditLogsService {
+  async findAll(query: ParsedListQuery, tenantId: string, userId: string) {
+    const client = db.forTenant(tenantId, userId);
+    const args = toPrismaArgs<Prisma.AuditLogWhereInput, Prisma.AuditLogOrderByWithRelationInput>(query, AUDIT_LOG_LIST_SPEC);
+
+    const [rows, total] = await Promise.all([
+      client.auditLog.findMany(args),
+      client.auditLog.count({ where: args.where }),
+    ]);
+
+    // Entries outlive their users, so a deleted user shows up as null
+    const userIds = [...new Set(rows.flatMap(row => (row.userId ? [row.userId] : [])))];
+    const users = await client.user.findMany({
+      where: { id: { in: userIds } },
+      select: { id: true, name: true, email: true },
+    });
+    const withUsers = rows.map(row => ({
+      ...row,
+      user: users.find(user => user.id === row.userId) ?? null,
+    }));
+
+    return toPaginatedResponse(withUsers, total, query);
+  }
+
+  async verify(tenantId: string) {
+    return db.verifyAuditChain(tenantId);
+  }
+}
@@ -1,7 +1,7 @@
 import { Injectable } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { cognitoAuth } from '@crmblr/auth';
-import { db } from '@crmblr/db';
+import { db, NO_TENANT_ID } from '@crmblr/db';
 import { JWTPayload } from '@crmblr/types';
 
 @Injectable()
@@ -30,18 +30,14 @@ export class AuthService {
   }
 
   async getUserTenants(userId: string) {
-    // Set user context for RLS
-    await db.setTenantContext('00000000-0000-0000-0000-000000000000', userId);
-    
-    const userTenants = await db.client.userTenant.findMany({
+    // Only the user context matters for RLS here
+    const userTenants = await db.forTenant(NO_TENANT_ID, userId).userTenant.findMany({
       where: { userId },
       include: {
         tenant: true,
       },
     });
 
-    await db.clearTenantContext();
-    
     return userTenants.map(ut => ({
       id: ut.tenant.id,
       name: ut.tenant.name,
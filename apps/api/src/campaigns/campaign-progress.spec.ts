@@ -0,0 +1,47 @@
+import { buildDailyProgress, dayRange, progressPercentage } from './campaign-progress';
+
+describe('campaign progress', () => {
+  it('rounds progress to a whole percentage', () => {
+    expect(progressPercentage(1825, 10000)).toBe(18);
+    expect(progressPercentage(8500, 15000)).toBe(57);
+    expect(progressPercentage(12000, 10000)).toBe(120);
+  });
+
+  it('reports no progress for a zero target', () => {
+    expect(progressPercentage(500, 0)).toBe(0);
+  });
+
+  it('emits a running total for every day in the window', () => {
+    const points = buildDailyProgress(new Date('2025-01-01'), new Date('2025-01-04'), [
+      { amount: 100, date: new Date('2025-01-01T15:00:00Z') },
+      { amount: 50, date: new Date('2025-01-03T09:00:00Z') },
+      { amount: 25, date: new Date('2025-01-03T18:00:00Z') },
+    ]);
+
+    expect(points).toEqual([
+      { date: '2025-01-01', amount: 100, cumulative: 100 },
+      { date: '2025-01-02', amount: 0, cumulative: 100 },
+      { date: '2025-01-03', amount: 75, cumulative: 175 },
+      { date: '2025-01-04', amount: 0, cumulative: 175 },
+    ]);
+  });
+
+  it('folds donations outside the window into the first and last day', () => {
+    const points = buildDailyProgress(new Date('2025-01-01'), new Date('2025-01-02'), [
+      { amount: 10, date: new Date('2024-12-20') },
+      { amount: 20, date: new Date('2025-02-01') },
+    ]);
+
+    expect(points).toEqual([
+      { date: '2025-01-01', amount: 10, cumulative: 10 },
+      { date: '2025-01-02', amount: 20, cumulative: 30 },
+    ]);
+  });
+
+  it('spans the whole UTC day of a moment', () => {
+    expect(dayRange(new Date('2025-12-31T15:30:00Z'))).toEqual({
+      start: new Date('2025-12-31T00:00:00Z'),
+      end: new Date('2026-01-01T00:00:00Z'),
+    });
+  });
+});
@@ -0,0 +1,60 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CampaignProgressPoint {
+  date: string;
+  amount: number;
+  cumulative: number;
+}
+
+export function progressPercentage(currentAmount: number, targetAmount: number): number {
+  if (targetAmount <= 0) {
+    return 0;
+  }
+  return Math.round((currentAmount / targetAmount) * 100);
+}
+
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function startOfDay(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+// The UTC day holding `date`, from its first instant up to (not including) the next day's
+export function dayRange(date: Date): { start: Date; end: Date } {
+  const start = startOfDay(date);
+  return { start: new Date(start), end: new Date(start + DAY_MS) };
+}
+
+/**
+ * One point per UTC day from `from` to `to` with the running total of donations.
+ * Donations dated outside the window are folded into the first or last day so the
+ * final point always matches the campaign total.
+ */
+export function buildDailyProgress(
+  from: Date,
+  to: Date,
+  donations: { amount: number; date: Date }[],
+): CampaignProgressPoint[] {
+  const first = startOfDay(from);
+  const last = Math.max(first, startOfDay(to));
+
+  const byDay = new Map<string, number>();
+  for (const donation of donations) {
+    const day = Math.min(Math.max(startOfDay(donation.date), first), last);
+    const key = dayKey(new Date(day));
+    byDay.set(key, (byDay.get(key) || 0) + donation.amount);
+  }
+
+  const points: CampaignProgressPoint[] = [];
+  let cumulative = 0;
+  for (let day = first; day <= last; day += DAY_MS) {
+    const key = dayKey(new Date(day));
+    const amount = byDay.get(key) || 0;
+    cumulative += amount;
+    points.push({ date: key, amount, cumulative });
+  }
+
+  return points;
+}
@@ -0,0 +1,95 @@
+import { Controller, Get, Post, Body, Patch, Param, Delete, Query, UseGuards, Request } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiHeader } from '@nestjs/swagger';
+import { TenantGuard } from '../common/guards/tenant.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { CurrentTenant } from '../common/decorators/current-tenant.decorator';
+import { Roles } from '../common/decorators/roles.decorator';
+import { CampaignsService } from './campaigns.service';
+import { CreateCampaignDto, UpdateCampaignDto } from './dto/create-campaign.dto';
+import { ActiveCampaignsDto } from './dto/active-campaigns.dto';
+import { AttributeDonationsDto } from './dto/attribute-donations.dto';
+
+@ApiTags('campaigns')
+@Controller('campaigns')
+@UseGuards(TenantGuard, RolesGuard)
+@ApiBearerAuth()
+@ApiHeader({ name: 'x-tenant-id', description: 'Tenant ID or slug' })
+export class CampaignsController {
+  constructor(private readonly campaignsService: CampaignsService) {}
+
+  @Post()
+  @Roles('campaigns', 'create')
+  @ApiOperation({ summary: 'Create a new campaign' })
+  @ApiResponse({ status: 201, description: 'Campaign created successfully' })
+  async create(@Body() createCampaignDto: CreateCampaignDto, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.campaignsService.create(createCampaignDto, tenantId, req.user.sub);
+  }
+
+  @Get()
+  @Roles('campaigns', 'read')
+  @ApiOperation({ summary: 'List campaigns with progress' })
+  @ApiResponse({ status: 200, description: 'Campaigns retrieved successfully' })
+  async findAll(@CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.campaignsService.findAll(tenantId, req.user.sub);
+  }
+
+  @Get('active')
+  @Roles('campaigns', 'read')
+  @ApiOperation({ summary: 'List campaigns running on a given date' })
+  @ApiResponse({ status: 200, description: 'Active campaigns retrieved successfully' })
+  async findActive(@Query() query: ActiveCampaignsDto, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.campaignsService.findActive(query.date ?? new Date(), tenantId, req.user.sub);
+  }
+
+  @Get(':id')
+  @Roles('campaigns', 'read')
+  @ApiOperation({ summary: 'Get campaign by ID with progress' })
+  @ApiResponse({ status: 200, description: 'Campaign retrieved successfully' })
+  async findOne(@Param('id') id: string, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.campaignsService.findOne(id, tenantId, req.user.sub);
+  }
+
+  @Get(':id/progress')
+  @Roles('campaigns', 'read')
+  @ApiOperation({ summary: 'Get daily cumulative totals for a thermometer chart' })
+  @ApiResponse({ status: 200, description: 'Progress retrieved successfully' })
+  async getProgress(@Param('id') id: string, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.campaignsService.getProgress(id, tenantId, req.user.sub);
+  }
+
+  @Get(':id/donations')
+  @Roles('campaigns', 'read')
+  @ApiOperation({ summary: 'List donations attributed to a campaign' })
+  @ApiResponse({ status: 200, description: 'Donations retrieved successfully' })
+  async getDonations(@Param('id') id: string, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.campaignsService.getDonations(id, tenantId, req.user.sub);
+  }
+
+  @Post(':id/donations')
+  @Roles('donations', 'update', {
+    entity: 'campaigns',
+    snapshot: false,
+    after: (result, request) => ({ donationIds: request.body.donationIds, ...result }),
+  })
+  @ApiOperation({ summary: 'Attribute existing donations to a campaign' })
+  @ApiResponse({ status: 201, description: 'Donations attributed successfully' })
+  async attributeDonations(@Param('id') id: string, @Body() attributeDonationsDto: AttributeDonationsDto, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.campaignsService.attributeDonations(id, attributeDonationsDto, tenantId, req.user.sub);
+  }
+
+  @Patch(':id')
+  @Roles('campaigns', 'update')
+  @ApiOperation({ summary: 'Update campaign' })
+  @ApiResponse({ status: 200, description: 'Campaign updated successfully' })
+  async update(@Param('id') id: string, @Body() updateCampaignDto: UpdateCampaignDto, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.campaignsService.update(id, updateCampaignDto, tenantId, req.user.sub);
+  }
+
+  @Delete(':id')
+  @Roles('campaigns', 'delete')
+  @ApiOperation({ summary: 'Delete campaign' })
+  @ApiResponse({ status: 200, description: 'Campaign deleted successfully' })
+  async remove(@Param('id') id: string, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.campaignsService.remove(id, tenantId, req.user.sub);
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { CampaignsService } from './campaigns.service';
+import { CampaignsController } from './campaigns.controller';
+
+@Module({
+  providers: [CampaignsService],
+  controllers: [CampaignsController],
+  exports: [CampaignsService],
+})
+export class CampaignsModule {}
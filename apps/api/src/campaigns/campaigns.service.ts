@@ -0,0 +1,181 @@
+import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
+import { db } from '@crmblr/db';
+import { AttributeDonationsRequest, CreateCampaignRequest, UpdateCampaignRequest } from '@crmblr/types';
+import { buildDailyProgress, dayRange, progressPercentage } from './campaign-progress';
+
+@Injectable()
+export class CampaignsService {
+  async create(createCampaignDto: CreateCampaignRequest, tenantId: string, userId: string) {
+    this.assertDateRange(createCampaignDto.startDate, createCampaignDto.endDate);
+
+    return db.forTenant(tenantId, userId).campaign.create({
+      data: {
+        tenantId,
+        ...createCampaignDto,
+      },
+    });
+  }
+
+  async findAll(tenantId: string, userId: string) {
+    const campaigns = await db.forTenant(tenantId, userId).campaign.findMany({
+      orderBy: { startDate: 'desc' },
+    });
+
+    return this.withProgress(campaigns, tenantId, userId);
+  }
+
+  // Campaigns running at any time on the given UTC day, including their first and last days
+  async findActive(date: Date, tenantId: string, userId: string) {
+    const day = dayRange(date);
+    const campaigns = await db.forTenant(tenantId, userId).campaign.findMany({
+      where: {
+        startDate: { lt: day.end },
+        endDate: { gte: day.start },
+      },
+      orderBy: { endDate: 'asc' },
+    });
+
+    return this.withProgress(campaigns, tenantId, userId);
+  }
+
+  async findOne(id: string, tenantId: string, userId: string) {
+    const client = db.forTenant(tenantId, userId);
+
+    const [campaign, totals] = await Promise.all([
+      client.campaign.findUnique({ where: { id } }),
+      client.donation.aggregate({
+        where: { campaignId: id },
+        _sum: { amount: true },
+        _count: true,
+      }),
+    ]);
+
+    if (!campaign) {
+      throw new NotFoundException('Campaign not found');
+    }
+
+    const currentAmount = Number(totals._sum.amount || 0);
+
+    return {
+      ...campaign,
+      donationCount: totals._count,
+      currentAmount,
+      progressPercentage: progressPercentage(currentAmount, Number(campaign.targetAmount)),
+    };
+  }
+
+  // Daily cumulative totals from the start date to the end date (or today, if sooner)
+  async getProgress(id: string, tenantId: string, userId: string) {
+    const client = db.forTenant(tenantId, userId);
+
+    const [campaign, donations] = await Promise.all([
+      client.campaign.findUnique({ where: { id } }),
+      client.donation.findMany({
+        where: { campaignId: id },
+        select: { amount: true, date: true },
+      }),
+    ]);
+
+    if (!campaign) {
+      throw new NotFoundException('Campaign not found');
+    }
+
+    const now = new Date();
+    const until = campaign.endDate < now ? campaign.endDate : now;
+    const points = buildDailyProgress(
+      campaign.startDate,
+      until,
+      donations.map(donation => ({ amount: Number(donation.amount), date: donation.date })),
+    );
+
+    return {
+      campaignId: campaign.id,
+      targetAmount: Number(campaign.targetAmount),
+      points,
+    };
+  }
+
+  async getDonations(id: string, tenantId: string, userId: string) {
+    return db.forTenant(tenantId, userId).donation.findMany({
+      where: { campaignId: id },
+      include: {
+        contact: true,
+        organization: true,
+      },
+      orderBy: { date: 'desc' },
+    });
+  }
+
+  async attributeDonations(id: string, request: AttributeDonationsRequest, tenantId: string, userId: string) {
+    return db.withTenant(tenantId, userId, async (tx) => {
+      const campaign = await tx.campaign.findUnique({ where: { id } });
+      if (!campaign) {
+        throw new NotFoundException('Campaign not found');
+      }
+
+      const result = await tx.donation.updateMany({
+        where: { id: { in: request.donationIds } },
+        data: { campaignId: id },
+      });
+
+      return { attributed: result.count };
+    });
+  }
+
+  async update(id: string, updateCampaignDto: UpdateCampaignRequest, tenantId: string, userId: string) {
+    return db.withTenant(tenantId, userId, async (tx) => {
+      const campaign = await tx.campaign.findUnique({ where: { id } });
+      if (!campaign) {
+        throw new NotFoundException('Campaign not found');
+      }
+
+      this.assertDateRange(
+        updateCampaignDto.startDate ?? campaign.startDate,
+        updateCampaignDto.endDate ?? campaign.endDate,
+      );
+
+      return tx.campaign.update({
+        where: { id },
+        data: updateCampaignDto,
+      });
+    });
+  }
+
+  async remove(id: string, tenantId: string, userId: string) {
+    await db.forTenant(tenantId, userId).campaign.delete({
+      where: { id },
+    });
+  }
+
+  private async withProgress<T extends { id: string; targetAmount: unknown }>(
+    campaigns: T[],
+    tenantId: string,
+    userId: string,
+  ) {
+    if (campaigns.length === 0) {
+      return [];
+    }
+
+    const totals = await db.forTenant(tenantId, userId).donation.groupBy({
+      by: ['campaignId'],
+      where: { campaignId: { in: campaigns.map(campaign => campaign.id) } },
+      _sum: { amount: true },
+    });
+    const raised = new Map(totals.map(total => [total.campaignId, Number(total._sum.amount || 0)]));
+
+    return campaigns.map(campaign => {
+      const currentAmount = raised.get(campaign.id) || 0;
+      return {
+        ...campaign,
+        currentAmount,
+        progressPercentage: progressPercentage(currentAmount, Number(campaign.targetAmount)),
+      };
+    });
+  }
+
+  private assertDateRange(startDate: Date, endDate: Date) {
+    if (endDate < startDate) {
+      throw new BadRequestException('Campaign end date must not be before its start date');
+    }
+  }
+}
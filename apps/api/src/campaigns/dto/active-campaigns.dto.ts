@@ -0,0 +1,11 @@
+import { IsOptional, IsDate } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ActiveCampaignsDto {
+  @ApiProperty({ description: 'Date the campaigns must be running on (defaults to today)', required: false })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  date?: Date;
+}
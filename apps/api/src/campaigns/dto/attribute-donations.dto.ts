@@ -0,0 +1,10 @@
+import { IsArray, ArrayNotEmpty, IsUUID } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class AttributeDonationsDto {
+  @ApiProperty({ description: 'Donations to credit to this campaign', type: [String] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsUUID('all', { each: true })
+  donationIds: string[];
+}
@@ -0,0 +1,59 @@
+import { IsString, IsOptional, IsNumber, IsDate, IsObject, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateCampaignDto {
+  @ApiProperty({ description: 'Campaign name' })
+  @IsString()
+  name: string;
+
+  @ApiProperty({ description: 'Fundraising goal' })
+  @IsNumber()
+  @Min(0)
+  targetAmount: number;
+
+  @ApiProperty({ description: 'First day of the campaign' })
+  @Type(() => Date)
+  @IsDate()
+  startDate: Date;
+
+  @ApiProperty({ description: 'Last day of the campaign' })
+  @Type(() => Date)
+  @IsDate()
+  endDate: Date;
+
+  @ApiProperty({ description: 'Custom fields', required: false })
+  @IsOptional()
+  @IsObject()
+  custom?: any;
+}
+
+export class UpdateCampaignDto {
+  @ApiProperty({ description: 'Campaign name', required: false })
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @ApiProperty({ description: 'Fundraising goal', required: false })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  targetAmount?: number;
+
+  @ApiProperty({ description: 'First day of the campaign', required: false })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  startDate?: Date;
+
+  @ApiProperty({ description: 'Last day of the campaign', required: false })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  endDate?: Date;
+
+  @ApiProperty({ description: 'Custom fields', required: false })
+  @IsOptional()
+  @IsObject()
+  custom?: any;
+}
@@ -0,0 +1,30 @@
+import { diffRecords, toAuditJson } from './audit-diff';
+
+describe('audit diff', () => {
+  it('lists only the fields that changed', () => {
+    const before = { id: '1', amount: '100.00', thankYouStatus: 'pending', updatedAt: new Date('2025-01-01') };
+    const after = { id: '1', amount: '250.00', thankYouStatus: 'pending', updatedAt: new Date('2025-01-02') };
+
+    expect(diffRecords(before, after)).toEqual({
+      amount: { from: '100.00', to: '250.00' },
+    });
+  });
+
+  it('compares dates and nested objects by value', () => {
+    const before = { date: new Date('2025-01-01'), custom: { tier: 'gold' } };
+
+    expect(diffRecords(before, { date: new Date('2025-01-01'), custom: { tier: 'gold' } })).toEqual({});
+    expect(diffRecords(before, { date: new Date('2025-01-01'), custom: { tier: 'silver' } })).toEqual({
+      custom: { from: { tier: 'gold' }, to: { tier: 'silver' } },
+    });
+  });
+
+  it('ignores fields that only one side has', () => {
+    expect(diffRecords({ id: '1' }, { id: '1', contact: { id: '2' } })).toEqual({});
+  });
+
+  it('serializes values into plain JSON', () => {
+    expect(toAuditJson({ date: new Date('2025-01-01T00:00:00Z') })).toEqual({ date: '2025-01-01T00:00:00.000Z' });
+    expect(toAuditJson(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,30 @@
+// Fields that change on every write and would only add noise to a diff
+const IGNORED_FIELDS = ['updatedAt'];
+
+export interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+// Converts Dates, Decimals and nested objects into plain JSON for the meta column
+export function toAuditJson(value: unknown): any {
+  return value === undefined ? null : JSON.parse(JSON.stringify(value));
+}
+
+// Top-level fields whose JSON value differs between the two snapshots
+export function diffRecords(before: Record<string, unknown>, after: Record<string, unknown>): Record<string, FieldChange> {
+  const changes: Record<string, FieldChange> = {};
+  const beforeJson = toAuditJson(before) || {};
+  const afterJson = toAuditJson(after) || {};
+
+  for (const field of Object.keys(afterJson)) {
+    if (IGNORED_FIELDS.includes(field) || !(field in beforeJson)) {
+      continue;
+    }
+    if (JSON.stringify(beforeJson[field]) !== JSON.stringify(afterJson[field])) {
+      changes[field] = { from: beforeJson[field], to: afterJson[field] };
+    }
+  }
+
+  return changes;
+}
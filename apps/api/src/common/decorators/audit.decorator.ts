@@ -0,0 +1,30 @@
+import { SetMetadata } from '@nestjs/common';
+import { PermissionAction, PermissionResource } from '../permissions';
+
+export const AUDIT_KEY = 'audit';
+
+// Overrides for routes that do not change the checked resource's row named by `:id`
+export interface AuditOptions {
+  // Resource the entry is recorded against; defaults to the checked resource
+  entity?: PermissionResource;
+  // Route parameter holding the entity's id; defaults to `id`
+  param?: string;
+  // The entity's state after the route, picked from its result; defaults to the result
+  after?: (result: any, request: any) => unknown;
+  // False for routes that change rows other than the entity itself, such as
+  // attributing donations to a campaign, so its row is not recorded as `before`
+  snapshot?: boolean;
+  // False for routes no entry can outlive, such as deleting a tenant, whose audit
+  // chain goes with it; the route is then not audited at all
+  record?: boolean;
+}
+
+export interface AuditTarget extends AuditOptions {
+  resource: PermissionResource;
+  action: PermissionAction;
+}
+
+// Marks a route for AuditInterceptor. Roles() applies this too, so only routes
+// without a permission check (such as creating a tenant) need it directly.
+export const Audit = (resource: PermissionResource, action: PermissionAction, options: AuditOptions = {}) =>
+  SetMetadata(AUDIT_KEY, { resource, action, ...options } as AuditTarget);
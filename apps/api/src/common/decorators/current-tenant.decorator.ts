@@ -0,0 +1,10 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { TenantMembership } from '@crmblr/types';
+
+// Reads the membership that TenantGuard attached to the request
+export const CurrentTenant = createParamDecorator(
+  (field: keyof TenantMembership | undefined, ctx: ExecutionContext) => {
+    const tenant: TenantMembership | undefined = ctx.switchToHttp().getRequest().tenant;
+    return field ? tenant?.[field] : tenant;
+  },
+);
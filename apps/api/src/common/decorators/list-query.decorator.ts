@@ -0,0 +1,31 @@
+import { applyDecorators, createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { ApiQuery } from '@nestjs/swagger';
+import { ListQuerySpec, MAX_PAGE_SIZE, parseListQuery } from '../list-query';
+
+// Parses page/cursor, sort and field filters from the query string against a resource spec
+export const ListQuery = createParamDecorator(
+  (spec: ListQuerySpec, ctx: ExecutionContext) => parseListQuery(ctx.switchToHttp().getRequest().query, spec),
+);
+
+// Swagger documentation for the list query DSL
+export const ApiListQuery = (spec: ListQuerySpec) => {
+  const sortable = Object.keys(spec.fields).filter(field => spec.fields[field].sortable);
+
+  return applyDecorators(
+    ApiQuery({ name: 'page', required: false, type: Number }),
+    ApiQuery({ name: 'limit', required: false, type: Number, description: `Page size (max ${MAX_PAGE_SIZE})` }),
+    ApiQuery({ name: 'cursor', required: false, description: 'Continue from pagination.nextCursor instead of using page' }),
+    ApiQuery({ name: 'sort', required: false, description: `Comma-separated, prefix with - for descending. Sortable: ${sortable.join(', ')}` }),
+    ...(spec.searchFields?.length
+      ? [ApiQuery({ name: 'search', required: false, description: `Matches ${spec.searchFields.join(', ')}` })]
+      : []),
+    ...Object.entries(spec.fields).map(([field, definition]) =>
+      ApiQuery({
+        name: field,
+        required: false,
+        enum: definition.values as string[] | undefined,
+        description: `Filter by ${field}; operators via ${field}[op]=value`,
+      }),
+    ),
+  );
+};
@@ -0,0 +1,12 @@
+import { applyDecorators, SetMetadata } from '@nestjs/common';
+import { PermissionAction, PermissionResource, rolesFor } from '../permissions';
+import { Audit, AuditOptions } from './audit.decorator';
+
+export const ROLES_KEY = 'roles';
+
+// Restricts a route to the roles the permission matrix allows for this action
+export const Roles = (resource: PermissionResource, action: PermissionAction, audit?: AuditOptions) =>
+  applyDecorators(
+    SetMetadata(ROLES_KEY, rolesFor(resource, action)),
+    Audit(resource, action, audit),
+  );
@@ -0,0 +1,28 @@
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { TenantMembership, UserRole } from '@crmblr/types';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+
+// Must run after TenantGuard, which attaches the caller's tenant role
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const roles = this.reflector.getAllAndOverride<UserRole[]>(ROLES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!roles) {
+      return true;
+    }
+
+    const tenant: TenantMembership | undefined = context.switchToHttp().getRequest().tenant;
+    if (!tenant || !roles.includes(tenant.role)) {
+      throw new ForbiddenException('Your role does not allow this action');
+    }
+
+    return true;
+  }
+}
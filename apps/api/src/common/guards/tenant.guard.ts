@@ -1,23 +1,27 @@
-import { Injectable, CanActivate, ExecutionContext, BadRequestException } from '@nestjs/common';
+import { Injectable, CanActivate, ExecutionContext, BadRequestException, ForbiddenException } from '@nestjs/common';
+import { db } from '@crmblr/db';
 import { JwtAuthGuard } from './jwt-auth.guard';
 
 @Injectable()
 export class TenantGuard extends JwtAuthGuard implements CanActivate {
-  canActivate(context: ExecutionContext) {
-    return super.canActivate(context);
-  }
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    await super.canActivate(context);
 
-  handleRequest(err: any, user: any, info: any, context: ExecutionContext) {
     const request = context.switchToHttp().getRequest();
-    const tenantId = request.headers['x-tenant-id'];
+    const tenantRef = request.headers['x-tenant-id'];
     
-    if (!tenantId) {
+    if (!tenantRef) {
       throw new BadRequestException('Missing tenant ID');
     }
 
-    // Set tenant context for RLS
-    // This would be done in a middleware or interceptor in a real implementation
+    // The header may carry either the tenant UUID or its slug
+    const membership = await db.findMembership(request.user.sub, tenantRef);
+    if (!membership) {
+      throw new ForbiddenException('You do not have access to this tenant');
+    }
+
+    request.tenant = membership;
     
-    return user;
+    return true;
   }
 }
@@ -0,0 +1,157 @@
+import { randomUUID } from 'crypto';
+import { CallHandler, ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { lastValueFrom, of } from 'rxjs';
+import { db } from '@crmblr/db';
+import { UserRole } from '@crmblr/types';
+import { TenantsController } from '../../tenants/tenants.controller';
+import { AUDIT_KEY, AuditTarget } from '../decorators/audit.decorator';
+import { AuditInterceptor } from './audit.interceptor';
+
+describe('AuditInterceptor', () => {
+  const tenantId = randomUUID();
+  const userId = randomUUID();
+  const contactId = randomUUID();
+  const stored = { id: contactId, firstName: 'Ada', stage: 'identified' };
+
+  let appendAuditLog: jest.Mock;
+  let findUnique: jest.Mock;
+  let interceptor: AuditInterceptor;
+
+  beforeEach(() => {
+    appendAuditLog = jest.fn().mockResolvedValue(undefined);
+    findUnique = jest.fn().mockResolvedValue(stored);
+    jest.spyOn(db, 'appendAuditLog').mockImplementation(appendAuditLog);
+    jest.spyOn(db, 'forTenant').mockReturnValue({ contact: { findUnique }, campaign: { findUnique } } as any);
+    interceptor = new AuditInterceptor(new Reflector());
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  // Runs a route marked with `target` that returns `result`
+  async function run(
+    target: AuditTarget,
+    request: Record<string, unknown>,
+    result: unknown,
+    handle: CallHandler['handle'] = () => of(result),
+  ) {
+    const handler = () => undefined;
+    Reflect.defineMetadata(AUDIT_KEY, target, handler);
+    const context = {
+      getHandler: () => handler,
+      getClass: () => class {},
+      switchToHttp: () => ({ getRequest: () => request }),
+    } as unknown as ExecutionContext;
+    const next: CallHandler = { handle };
+
+    return lastValueFrom(interceptor.intercept(context, next));
+  }
+
+  function request(params: Record<string, string> = {}, body: unknown = {}) {
+    return {
+      params,
+      body,
+      ip: '203.0.113.7',
+      headers: { 'user-agent': 'jest', 'x-forwarded-for': '198.51.100.1' },
+      user: { sub: userId },
+      tenant: { tenantId, role: UserRole.ADMIN },
+    };
+  }
+
+  it('records a create against the new row', async () => {
+    const created = { id: contactId, firstName: 'Ada' };
+
+    await expect(run({ resource: 'contacts', action: 'create' }, request(), created)).resolves.toBe(created);
+    expect(findUnique).not.toHaveBeenCalled();
+    expect(appendAuditLog).toHaveBeenCalledWith({
+      tenantId,
+      userId,
+      action: 'create',
+      entity: 'contacts',
+      entityId: contactId,
+      meta: { before: null, after: created },
+      ip: '203.0.113.7',
+      ua: 'jest',
+    });
+  });
+
+  it('records an update with the row it replaced and the changed fields', async () => {
+    const updated = { ...stored, stage: 'qualified' };
+
+    await run({ resource: 'contacts', action: 'update' }, request({ id: contactId }), updated);
+    expect(findUnique).toHaveBeenCalledWith({ where: { id: contactId } });
+    expect(appendAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'update',
+      entity: 'contacts',
+      entityId: contactId,
+      meta: {
+        before: stored,
+        after: updated,
+        changes: { stage: { from: 'identified', to: 'qualified' } },
+      },
+    }));
+  });
+
+  it('records a delete with the row it removed', async () => {
+    await run({ resource: 'contacts', action: 'delete' }, request({ id: contactId }), undefined);
+    expect(appendAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'delete',
+      entity: 'contacts',
+      entityId: contactId,
+      meta: { before: stored, after: null },
+    }));
+  });
+
+  it('takes the id from the named route parameter and the state from the result', async () => {
+    const moved = { contact: { ...stored, stage: 'qualified' }, event: { id: randomUUID(), stage: 'qualified' } };
+
+    await run(
+      { resource: 'contacts', action: 'update', param: 'contactId', after: result => result.contact },
+      request({ contactId }),
+      moved,
+    );
+    expect(appendAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+      entity: 'contacts',
+      entityId: contactId,
+      meta: expect.objectContaining({ before: stored, after: moved.contact }),
+    }));
+  });
+
+  it('records routes that change other rows against the named entity without a snapshot', async () => {
+    const campaignId = randomUUID();
+    const donationIds = [randomUUID(), randomUUID()];
+
+    await run(
+      {
+        resource: 'donations',
+        action: 'update',
+        entity: 'campaigns',
+        snapshot: false,
+        after: (result, req) => ({ donationIds: req.body.donationIds, ...result }),
+      },
+      request({ id: campaignId }, { donationIds }),
+      { attributed: 2 },
+    );
+    expect(findUnique).not.toHaveBeenCalled();
+    expect(appendAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+      entity: 'campaigns',
+      entityId: campaignId,
+      meta: { before: null, after: { donationIds, attributed: 2 } },
+    }));
+  });
+
+  it('leaves deleting a tenant unrecorded, as its audit chain goes with it', async () => {
+    const target: AuditTarget = Reflect.getMetadata(AUDIT_KEY, TenantsController.prototype.remove);
+    expect(target).toMatchObject({ resource: 'tenants', action: 'delete', record: false });
+
+    const next = jest.fn(() => of(undefined));
+    await run(target, request({ id: tenantId }), undefined, next);
+    expect(next).toHaveBeenCalled();
+    expect(appendAuditLog).not.toHaveBeenCalled();
+  });
+
+  it('leaves reads unrecorded', async () => {
+    await run({ resource: 'contacts', action: 'read' }, request({ id: contactId }), stored);
+    expect(appendAuditLog).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,125 @@
+import { Injectable, NestInterceptor, ExecutionContext, CallHandler, Logger } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Observable, from, mergeMap } from 'rxjs';
+import { db, TenantClient } from '@crmblr/db';
+import { TenantMembership } from '@crmblr/types';
+import { AUDIT_KEY, AuditTarget } from '../decorators/audit.decorator';
+import { PermissionAction, PermissionResource } from '../permissions';
+import { diffRecords, toAuditJson } from '../audit-diff';
+
+const AUDITED_ACTIONS: PermissionAction[] = ['create', 'update', 'delete'];
+
+// Reads the current row so updates and deletes can record what they replaced
+const LOADERS: Partial<Record<PermissionResource, (client: TenantClient, id: string) => Promise<unknown>>> = {
+  tenants: (client, id) => client.tenant.findUnique({ where: { id } }),
+  contacts: (client, id) => client.contact.findUnique({ where: { id } }),
+  organizations: (client, id) => client.organization.findUnique({ where: { id } }),
+  donations: (client, id) => client.donation.findUnique({ where: { id } }),
+  campaigns: (client, id) => client.campaign.findUnique({ where: { id } }),
+  grants: (client, id) => client.grantApp.findUnique({ where: { id } }),
+  staff: (client, id) => client.staff.findUnique({ where: { id } }),
+  reports: (client, id) => client.report.findUnique({ where: { id } }),
+  dashboards: (client, id) => client.dashboard.findUnique({ where: { id } }),
+};
+
+// Client address and user agent of a request, for audit entries. The address is
+// Express's request.ip, which honours X-Forwarded-For only from trusted proxies.
+export function requestOrigin(request: any): { ip?: string; ua?: string } {
+  return {
+    ip: request.ip,
+    ua: request.headers?.['user-agent'],
+  };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Writes an AuditLog row for every create, update and delete route
+@Injectable()
+export class AuditInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(AuditInterceptor.name);
+
+  constructor(private reflector: Reflector) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const target = this.reflector.getAllAndOverride<AuditTarget>(AUDIT_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!target || target.record === false || !AUDITED_ACTIONS.includes(target.action)) {
+      return next.handle();
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const userId: string | undefined = request.user?.sub;
+    const tenant: TenantMembership | undefined = request.tenant;
+    const entityId: string | undefined = request.params?.[target.param ?? 'id'];
+
+    return from(this.loadBefore(target, tenant, userId, entityId)).pipe(
+      mergeMap(before =>
+        next.handle().pipe(
+          mergeMap(async result => {
+            await this.record(target, request, userId, tenant, entityId, before, result);
+            return result;
+          }),
+        ),
+      ),
+    );
+  }
+
+  private async loadBefore(target: AuditTarget, tenant: TenantMembership | undefined, userId: string, entityId: string) {
+    const load = LOADERS[target.entity ?? target.resource];
+    if (target.action === 'create' || target.snapshot === false || !load || !tenant || !entityId) {
+      return null;
+    }
+
+    try {
+      return await load(db.forTenant(tenant.tenantId, userId), entityId);
+    } catch {
+      // Not every route id names a row of the audited resource
+      return null;
+    }
+  }
+
+  private async record(
+    target: AuditTarget,
+    request: any,
+    userId: string | undefined,
+    tenant: TenantMembership | undefined,
+    entityId: string | undefined,
+    before: unknown,
+    result: unknown,
+  ) {
+    const created = target.action === 'create' && isRecord(result) ? result : null;
+    // A new tenant has no membership on the request yet, so take its id from the result
+    const tenantId = tenant?.tenantId ?? (target.resource === 'tenants' ? (created?.id as string) : undefined);
+    if (!tenantId) {
+      return;
+    }
+
+    const after = target.action === 'delete' ? null : target.after ? target.after(result, request) : result;
+    const meta: Record<string, unknown> = {
+      before: toAuditJson(before),
+      after: toAuditJson(after),
+    };
+    if (isRecord(before) && isRecord(after)) {
+      meta.changes = diffRecords(before, after);
+    }
+
+    try {
+      await db.appendAuditLog({
+        tenantId,
+        userId,
+        action: target.action,
+        entity: target.entity ?? target.resource,
+        entityId: (created?.id as string) ?? entityId,
+        meta,
+        ...requestOrigin(request),
+      });
+    } catch (error) {
+      // The write itself succeeded; a failed audit entry must not turn it into an error
+      this.logger.error(`Failed to write audit log for ${target.action} ${target.entity ?? target.resource}`, error);
+    }
+  }
+}
@@ -0,0 +1,120 @@
+import { BadRequestException } from '@nestjs/common';
+import { ListQuerySpec, parseListQuery, toPaginatedResponse, toPrismaArgs } from './list-query';
+
+const spec: ListQuerySpec = {
+  fields: {
+    lastName: { type: 'string', sortable: true },
+    stage: { type: 'enum', values: ['identified', 'qualified', 'cultivated'] },
+    score: { type: 'number', sortable: true },
+    createdAt: { type: 'date', sortable: true },
+  },
+  defaultSort: '-createdAt',
+  searchFields: ['lastName'],
+  customFields: true,
+};
+
+describe('list query', () => {
+  it('applies defaults', () => {
+    const query = parseListQuery({}, spec);
+
+    expect(query).toEqual({ limit: 25, sort: [{ field: 'createdAt', direction: 'desc' }], filters: [] });
+    expect(toPrismaArgs(query, spec)).toEqual({
+      where: {},
+      orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+      take: 26,
+      skip: 0,
+    });
+  });
+
+  it('builds filters from the query string', () => {
+    const query = parseListQuery(
+      {
+        stage: { in: 'qualified,cultivated' },
+        score: { gte: '50' },
+        createdAt: { between: '2025-01-01,2025-03-31' },
+        lastName: { contains: 'smi' },
+        'custom.tier': 'gold',
+      },
+      spec,
+    );
+
+    expect(toPrismaArgs(query, spec).where).toEqual({
+      AND: [
+        { stage: { in: ['qualified', 'cultivated'] } },
+        { score: { gte: 50 } },
+        { createdAt: { gte: new Date('2025-01-01'), lt: new Date('2025-04-01') } },
+        { lastName: { contains: 'smi', mode: 'insensitive' } },
+        { OR: [{ custom: { path: ['tier'], equals: 'gold' } }] },
+      ],
+    });
+  });
+
+  it('treats a date equality as the whole day', () => {
+    const query = parseListQuery({ createdAt: '2025-01-01' }, spec);
+
+    expect(toPrismaArgs(query, spec).where).toEqual({
+      AND: [{ createdAt: { gte: new Date('2025-01-01'), lt: new Date('2025-01-02') } }],
+    });
+  });
+
+  it('includes the whole last day in date ranges', () => {
+    const where = (createdAt: Record<string, string>) =>
+      toPrismaArgs(parseListQuery({ createdAt }, spec), spec).where;
+
+    expect(where({ between: '2024-01-01,2024-12-31' })).toEqual({
+      AND: [{ createdAt: { gte: new Date('2024-01-01'), lt: new Date('2025-01-01') } }],
+    });
+    expect(where({ lte: '2024-12-31' })).toEqual({ AND: [{ createdAt: { lt: new Date('2025-01-01') } }] });
+    expect(where({ gt: '2024-12-31' })).toEqual({ AND: [{ createdAt: { gte: new Date('2025-01-01') } }] });
+    expect(where({ gte: '2024-12-31', lt: '2025-01-02' })).toEqual({
+      AND: [{ createdAt: { gte: new Date('2024-12-31') } }, { createdAt: { lt: new Date('2025-01-02') } }],
+    });
+  });
+
+  it('matches numeric custom values stored either way', () => {
+    const query = parseListQuery({ 'custom.year': '2024' }, spec);
+
+    expect(toPrismaArgs(query, spec).where).toEqual({
+      AND: [{ OR: [{ custom: { path: ['year'], equals: '2024' } }, { custom: { path: ['year'], equals: 2024 } }] }],
+    });
+  });
+
+  it('searches across the search fields', () => {
+    const query = parseListQuery({ search: 'smith' }, spec);
+
+    expect(toPrismaArgs(query, spec).where).toEqual({
+      AND: [{ OR: [{ lastName: { contains: 'smith', mode: 'insensitive' } }] }],
+    });
+  });
+
+  it('paginates by page or cursor', () => {
+    expect(toPrismaArgs(parseListQuery({ page: '3', limit: '10' }, spec), spec)).toMatchObject({ take: 11, skip: 20 });
+
+    const cursor = '6f1c1c1e-8a3b-4d9a-9b7e-0a6f0f7d2c11';
+    expect(toPrismaArgs(parseListQuery({ cursor }, spec), spec)).toMatchObject({ cursor: { id: cursor }, skip: 1 });
+  });
+
+  it('rejects unknown fields, bad operators and bad values', () => {
+    const attempt = (query: Record<string, unknown>) => () => parseListQuery(query, spec);
+
+    expect(attempt({ email: 'a@b.c' })).toThrow(BadRequestException);
+    expect(attempt({ stage: { gte: 'qualified' } })).toThrow(BadRequestException);
+    expect(attempt({ stage: 'lapsed' })).toThrow(BadRequestException);
+    expect(attempt({ score: { between: '1' } })).toThrow(BadRequestException);
+    expect(attempt({ sort: 'stage' })).toThrow(BadRequestException);
+    expect(attempt({ limit: '500' })).toThrow(BadRequestException);
+    expect(attempt({ page: '2', cursor: '6f1c1c1e-8a3b-4d9a-9b7e-0a6f0f7d2c11' })).toThrow(BadRequestException);
+  });
+
+  it('reports the next cursor when more rows exist', () => {
+    const rows = [{ id: 'a' }, { id: 'b' }, { id: 'c' }];
+    const query = parseListQuery({ limit: '2' }, spec);
+
+    expect(toPaginatedResponse(rows, 5, query)).toEqual({
+      success: true,
+      data: [{ id: 'a' }, { id: 'b' }],
+      pagination: { page: 1, limit: 2, total: 5, totalPages: 3, nextCursor: 'b' },
+    });
+    expect(toPaginatedResponse(rows.slice(0, 2), 2, query).pagination.nextCursor).toBeNull();
+  });
+});
@@ -0,0 +1,297 @@
+import { BadRequestException } from '@nestjs/common';
+import { z } from 'zod';
+import { PaginatedResponse } from '@crmblr/types';
+
+// Shared query DSL for list endpoints:
+//   ?page=2&limit=50                         offset pagination
+//   ?cursor=<id>&limit=50                    keyset pagination (use pagination.nextCursor)
+//   ?sort=-date,lastName                     comma-separated, "-" for descending
+//   ?stage=qualified                         equality (a whole UTC day for dates)
+//   ?stage[in]=qualified,cultivated          any of
+//   ?score[gte]=50                           gt, gte, lt, lte on numbers and dates
+//   ?date[between]=2025-01-01,2025-03-31     inclusive range
+//   ?name[contains]=arts                     case-insensitive substring on strings
+//   ?custom.tier=gold                        custom field equality (or [contains])
+//   ?search=smith                            substring match across the resource's search fields
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RESERVED_PARAMS = ['page', 'limit', 'cursor', 'sort', 'search'];
+
+export type ListFieldType = 'string' | 'number' | 'date' | 'uuid' | 'enum';
+export type FilterOperator = 'eq' | 'in' | 'gt' | 'gte' | 'lt' | 'lte' | 'between' | 'contains';
+
+export interface ListFieldSpec {
+  type: ListFieldType;
+  values?: readonly string[];
+  sortable?: boolean;
+}
+
+export interface ListQuerySpec {
+  fields: Record<string, ListFieldSpec>;
+  defaultSort: string;
+  searchFields?: string[];
+  customFields?: boolean;
+}
+
+export interface ListFilter {
+  field: string;
+  operator: FilterOperator;
+  value: unknown;
+  customPath?: string[];
+}
+
+export interface ListSort {
+  field: string;
+  direction: 'asc' | 'desc';
+}
+
+export interface ParsedListQuery {
+  page?: number;
+  limit: number;
+  cursor?: string;
+  sort: ListSort[];
+  filters: ListFilter[];
+  search?: string;
+}
+
+const OPERATORS_BY_TYPE: Record<ListFieldType, FilterOperator[]> = {
+  string: ['eq', 'in', 'contains'],
+  uuid: ['eq', 'in'],
+  enum: ['eq', 'in'],
+  number: ['eq', 'in', 'gt', 'gte', 'lt', 'lte', 'between'],
+  date: ['eq', 'gt', 'gte', 'lt', 'lte', 'between'],
+};
+
+const CUSTOM_OPERATORS: FilterOperator[] = ['eq', 'contains'];
+
+const PaginationSchema = z
+  .object({
+    page: z.coerce.number().int().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+    cursor: z.string().uuid().optional(),
+    sort: z.string().optional(),
+    search: z.string().trim().min(1).optional(),
+  })
+  .refine(query => !(query.page && query.cursor), { message: 'Use either page or cursor, not both' });
+
+function scalarSchema(field: ListFieldSpec): z.ZodTypeAny {
+  switch (field.type) {
+    case 'number':
+      return z.coerce.number();
+    case 'date':
+      return z.coerce.date();
+    case 'uuid':
+      return z.string().uuid();
+    case 'enum':
+      return z.enum(field.values as [string, ...string[]]);
+    default:
+      return z.string().min(1);
+  }
+}
+
+function valueSchema(field: ListFieldSpec, operator: FilterOperator): z.ZodTypeAny {
+  const scalar = scalarSchema(field);
+  const list = z.string().transform(value => value.split(',').map(item => item.trim()));
+
+  if (operator === 'in') {
+    return list.pipe(z.array(scalar).min(1));
+  }
+  if (operator === 'between') {
+    return list.pipe(z.array(scalar).length(2, 'between expects two comma-separated values'));
+  }
+  return scalar;
+}
+
+function formatIssues(param: string, error: z.ZodError): string[] {
+  return error.issues.map(issue => `${param}: ${issue.message}`);
+}
+
+// Repeated params (?stage=a&stage=b) arrive as arrays and mean "any of"
+function operatorEntries(raw: unknown): [string, unknown][] {
+  if (Array.isArray(raw)) {
+    return [['in', raw.join(',')]];
+  }
+  if (raw && typeof raw === 'object') {
+    return Object.entries(raw);
+  }
+  return [['eq', raw]];
+}
+
+function parseSort(sort: string, spec: ListQuerySpec, errors: string[]): ListSort[] {
+  return sort
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean)
+    .map(item => {
+      const direction = item.startsWith('-') ? 'desc' : 'asc';
+      const field = item.replace(/^-/, '');
+      if (!spec.fields[field]?.sortable) {
+        errors.push(`sort: cannot sort by ${field}`);
+      }
+      return { field, direction };
+    });
+}
+
+export function parseListQuery(query: Record<string, unknown>, spec: ListQuerySpec): ParsedListQuery {
+  const errors: string[] = [];
+
+  const pagination = PaginationSchema.safeParse(query);
+  if (!pagination.success) {
+    errors.push(...formatIssues('pagination', pagination.error));
+  }
+
+  const filters: ListFilter[] = [];
+  for (const [param, raw] of Object.entries(query)) {
+    if (RESERVED_PARAMS.includes(param)) {
+      continue;
+    }
+
+    const isCustom = param.startsWith('custom.');
+    if (isCustom && !spec.customFields) {
+      errors.push(`${param}: custom field filters are not supported here`);
+      continue;
+    }
+
+    const field: ListFieldSpec = isCustom ? { type: 'string' } : spec.fields[param];
+    if (!field) {
+      errors.push(`${param}: unknown filter field`);
+      continue;
+    }
+
+    const allowed = isCustom ? CUSTOM_OPERATORS : OPERATORS_BY_TYPE[field.type];
+    for (const [operator, value] of operatorEntries(raw)) {
+      if (!allowed.includes(operator as FilterOperator)) {
+        errors.push(`${param}: operator ${operator} is not supported (use ${allowed.join(', ')})`);
+        continue;
+      }
+
+      const parsed = valueSchema(field, operator as FilterOperator).safeParse(value);
+      if (!parsed.success) {
+        errors.push(...formatIssues(param, parsed.error));
+        continue;
+      }
+
+      filters.push({
+        field: isCustom ? 'custom' : param,
+        operator: operator as FilterOperator,
+        value: parsed.data,
+        customPath: isCustom ? param.slice('custom.'.length).split('.') : undefined,
+      });
+    }
+  }
+
+  const sort = parseSort(
+    (pagination.success && pagination.data.sort) || spec.defaultSort,
+    spec,
+    errors,
+  );
+
+  if (errors.length > 0) {
+    throw new BadRequestException(errors);
+  }
+
+  const { page, limit, cursor, search } = pagination.success ? pagination.data : ({} as never);
+  return { page, limit, cursor, sort, filters, search };
+}
+
+// Custom fields are stored as JSON, so "5" may have been saved as a number or a string
+function customEquals(path: string[], value: string) {
+  const candidates: unknown[] = [value];
+  if (value !== '' && !Number.isNaN(Number(value))) {
+    candidates.push(Number(value));
+  }
+  if (value === 'true' || value === 'false') {
+    candidates.push(value === 'true');
+  }
+  return { OR: candidates.map(candidate => ({ custom: { path, equals: candidate } })) };
+}
+
+function nextDay(date: Date): Date {
+  return new Date(date.getTime() + DAY_MS);
+}
+
+function filterToWhere(filter: ListFilter): Record<string, unknown> {
+  const { field, operator, value } = filter;
+
+  if (filter.customPath) {
+    return operator === 'contains'
+      ? { custom: { path: filter.customPath, string_contains: value } }
+      : customEquals(filter.customPath, value as string);
+  }
+
+  // Dates stand for whole UTC days, so bounds after a day start at the next one
+  switch (operator) {
+    case 'eq':
+      if (value instanceof Date) {
+        return { [field]: { gte: value, lt: nextDay(value) } };
+      }
+      return { [field]: value };
+    case 'in':
+      return { [field]: { in: value } };
+    case 'between': {
+      const [from, to] = value as unknown[];
+      return { [field]: to instanceof Date ? { gte: from, lt: nextDay(to) } : { gte: from, lte: to } };
+    }
+    case 'gt':
+      return { [field]: value instanceof Date ? { gte: nextDay(value) } : { gt: value } };
+    case 'lte':
+      return { [field]: value instanceof Date ? { lt: nextDay(value) } : { lte: value } };
+    case 'contains':
+      return { [field]: { contains: value, mode: 'insensitive' } };
+    default:
+      return { [field]: { [operator]: value } };
+  }
+}
+
+/**
+ * Prisma findMany arguments; one extra row is fetched to tell whether another page
+ * exists. `Where` and `OrderBy` are the model's WhereInput and OrderByWithRelationInput,
+ * whose fields the spec has already checked the query against.
+ */
+export function toPrismaArgs<Where, OrderBy>(query: ParsedListQuery, spec: ListQuerySpec) {
+  const conditions = query.filters.map(filterToWhere);
+  if (query.search && spec.searchFields?.length) {
+    conditions.push({
+      OR: spec.searchFields.map(field => ({ [field]: { contains: query.search, mode: 'insensitive' } })),
+    });
+  }
+
+  // id breaks ties so that pages and cursors are stable
+  const sort: Record<string, 'asc' | 'desc'>[] = query.sort.map(item => ({ [item.field]: item.direction }));
+  if (!query.sort.some(item => item.field === 'id')) {
+    sort.push({ id: 'asc' });
+  }
+
+  const where = (conditions.length > 0 ? { AND: conditions } : {}) as Where;
+  const orderBy = sort as OrderBy[];
+  const take = query.limit + 1;
+
+  if (query.cursor) {
+    return { where, orderBy, take, cursor: { id: query.cursor }, skip: 1 };
+  }
+  return { where, orderBy, take, skip: ((query.page ?? 1) - 1) * query.limit };
+}
+
+export function toPaginatedResponse<T extends { id: string }>(
+  rows: T[],
+  total: number,
+  query: ParsedListQuery,
+): PaginatedResponse<T> {
+  const data = rows.slice(0, query.limit);
+  const hasMore = rows.length > query.limit;
+
+  return {
+    success: true,
+    data,
+    pagination: {
+      page: query.cursor ? undefined : query.page ?? 1,
+      limit: query.limit,
+      total,
+      totalPages: Math.ceil(total / query.limit),
+      nextCursor: hasMore ? data[data.length - 1].id : null,
+    },
+  };
+}
@@ -0,0 +1,68 @@
+import { UserRole } from '@crmblr/types';
+import { can, rolesFor, PERMISSION_MATRIX } from './permissions';
+
+describe('permission matrix', () => {
+  const allRoles = Object.values(UserRole);
+
+  it('lets every role read every resource except the audit trail', () => {
+    const resources = (Object.keys(PERMISSION_MATRIX) as Array<keyof typeof PERMISSION_MATRIX>)
+      .filter(resource => resource !== 'auditLogs');
+    for (const resource of resources) {
+      for (const role of allRoles) {
+        expect(can(role, resource, 'read')).toBe(true);
+      }
+    }
+  });
+
+  it('keeps viewers read-only', () => {
+    for (const resource of ['contacts', 'organizations', 'donations', 'campaigns', 'grants', 'reports'] as const) {
+      expect(can(UserRole.VIEWER, resource, 'create')).toBe(false);
+      expect(can(UserRole.VIEWER, resource, 'update')).toBe(false);
+      expect(can(UserRole.VIEWER, resource, 'delete')).toBe(false);
+    }
+    expect(can(UserRole.VIEWER, 'tenants', 'update')).toBe(false);
+  });
+
+  it('lets editors write but not delete', () => {
+    for (const resource of ['contacts', 'organizations', 'donations', 'campaigns', 'grants', 'reports'] as const) {
+      expect(can(UserRole.EDITOR, resource, 'create')).toBe(true);
+      expect(can(UserRole.EDITOR, resource, 'update')).toBe(true);
+      expect(can(UserRole.EDITOR, resource, 'delete')).toBe(false);
+    }
+  });
+
+  it('lets admins delete records and update the tenant', () => {
+    expect(can(UserRole.ADMIN, 'contacts', 'delete')).toBe(true);
+    expect(can(UserRole.ADMIN, 'donations', 'delete')).toBe(true);
+    expect(can(UserRole.ADMIN, 'tenants', 'update')).toBe(true);
+    expect(can(UserRole.EDITOR, 'tenants', 'update')).toBe(false);
+  });
+
+  it('reserves staff directory changes for admins', () => {
+    expect(can(UserRole.EDITOR, 'staff', 'read')).toBe(true);
+    expect(can(UserRole.EDITOR, 'staff', 'create')).toBe(false);
+    expect(rolesFor('staff', 'update')).toEqual([UserRole.OWNER, UserRole.ADMIN]);
+  });
+
+  it('lets everyone arrange their own dashboards but only admins change shared ones', () => {
+    for (const role of allRoles) {
+      expect(can(role, 'dashboards', 'update')).toBe(true);
+    }
+    expect(rolesFor('sharedDashboards', 'update')).toEqual([UserRole.OWNER, UserRole.ADMIN]);
+    expect(can(UserRole.EDITOR, 'sharedDashboards', 'create')).toBe(false);
+  });
+
+  it('limits the audit trail to admins and keeps it read-only', () => {
+    expect(rolesFor('auditLogs', 'read')).toEqual([UserRole.OWNER, UserRole.ADMIN]);
+    expect(rolesFor('auditLogs', 'delete')).toEqual([]);
+  });
+
+  it('only lets owners delete a tenant', () => {
+    expect(rolesFor('tenants', 'delete')).toEqual([UserRole.OWNER]);
+  });
+
+  it('denies actions missing from the matrix', () => {
+    expect(rolesFor('tenants', 'create')).toEqual([]);
+    expect(can(UserRole.OWNER, 'tenants', 'create')).toBe(false);
+  });
+});
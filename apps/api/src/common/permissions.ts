@@ -0,0 +1,88 @@
+import { UserRole } from '@crmblr/types';
+
+export type PermissionResource = 'tenants' | 'contacts' | 'organizations' | 'donations' | 'campaigns' | 'grants' | 'staff' | 'reports' | 'dashboards' | 'sharedDashboards' | 'auditLogs';
+export type PermissionAction = 'read' | 'create' | 'update' | 'delete';
+
+const ALL_ROLES = [UserRole.OWNER, UserRole.ADMIN, UserRole.EDITOR, UserRole.VIEWER];
+const EDITORS = [UserRole.OWNER, UserRole.ADMIN, UserRole.EDITOR];
+const ADMINS = [UserRole.OWNER, UserRole.ADMIN];
+const OWNERS = [UserRole.OWNER];
+
+// Central permission matrix: which tenant roles may perform each action.
+// Creating a tenant is not tenant-scoped, so it has no entry here.
+export const PERMISSION_MATRIX: Record<PermissionResource, Partial<Record<PermissionAction, UserRole[]>>> = {
+  tenants: {
+    read: ALL_ROLES,
+    update: ADMINS,
+    delete: OWNERS,
+  },
+  contacts: {
+    read: ALL_ROLES,
+    create: EDITORS,
+    update: EDITORS,
+    delete: ADMINS,
+  },
+  organizations: {
+    read: ALL_ROLES,
+    create: EDITORS,
+    update: EDITORS,
+    delete: ADMINS,
+  },
+  donations: {
+    read: ALL_ROLES,
+    create: EDITORS,
+    update: EDITORS,
+    delete: ADMINS,
+  },
+  campaigns: {
+    read: ALL_ROLES,
+    create: EDITORS,
+    update: EDITORS,
+    delete: ADMINS,
+  },
+  grants: {
+    read: ALL_ROLES,
+    create: EDITORS,
+    update: EDITORS,
+    delete: ADMINS,
+  },
+  // The directory itself is maintained by admins; assigning portfolios is a contacts update
+  staff: {
+    read: ALL_ROLES,
+    create: ADMINS,
+    update: ADMINS,
+    delete: ADMINS,
+  },
+  reports: {
+    read: ALL_ROLES,
+    create: EDITORS,
+    update: EDITORS,
+    delete: ADMINS,
+  },
+  // Everyone may arrange dashboards of their own
+  dashboards: {
+    read: ALL_ROLES,
+    create: ALL_ROLES,
+    update: ALL_ROLES,
+    delete: ALL_ROLES,
+  },
+  // Dashboards the whole tenant sees; checked by DashboardsService on top of dashboards
+  sharedDashboards: {
+    read: ALL_ROLES,
+    create: ADMINS,
+    update: ADMINS,
+    delete: ADMINS,
+  },
+  // Written only by AuditInterceptor
+  auditLogs: {
+    read: ADMINS,
+  },
+};
+
+export function rolesFor(resource: PermissionResource, action: PermissionAction): UserRole[] {
+  return PERMISSION_MATRIX[resource][action] ?? [];
+}
+
+export function can(role: UserRole, resource: PermissionResource, action: PermissionAction): boolean {
+  return rolesFor(resource, action).includes(role);
+}
@@ -1,50 +1,61 @@
-import { Controller, Get, Post, Body, Patch, Param, Delete, UseGuards, Request, Headers } from '@nestjs/common';
+import { Controller, Get, Post, Body, Patch, Param, Delete, UseGuards, Request } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiHeader } from '@nestjs/swagger';
 import { TenantGuard } from '../common/guards/tenant.guard';
-import { ContactsService } from './contacts.service';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { CurrentTenant } from '../common/decorators/current-tenant.decorator';
+import { Roles } from '../common/decorators/roles.decorator';
+import { ApiListQuery, ListQuery } from '../common/decorators/list-query.decorator';
+import { ParsedListQuery } from '../common/list-query';
+import { CONTACT_LIST_SPEC, ContactsService } from './contacts.service';
 import { CreateContactDto } from './dto/create-contact.dto';
 import { UpdateContactDto } from './dto/update-contact.dto';
 
 @ApiTags('contacts')
 @Controller('contacts')
-@UseGuards(TenantGuard)
+@UseGuards(TenantGuard, RolesGuard)
 @ApiBearerAuth()
-@ApiHeader({ name: 'x-tenant-id', description: 'Tenant ID' })
+@ApiHeader({ name: 'x-tenant-id', description: 'Tenant ID or slug' })
 export class ContactsController {
   constructor(private readonly contactsService: ContactsService) {}
 
   @Post()
+  @Roles('contacts', 'create')
   @ApiOperation({ summary: 'Create a new contact' })
   @ApiResponse({ status: 201, description: 'Contact created successfully' })
-  async create(@Body() createContactDto: CreateContactDto, @Headers('x-tenant-id') tenantId: string, @Request() req) {
+  async create(@Body() createContactDto: CreateContactDto, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
     return this.contactsService.create(createContactDto, tenantId, req.user.sub);
   }
 
   @Get()
-  @ApiOperation({ summary: 'Get all contacts' })
+  @Roles('contacts', 'read')
+  @ApiOperation({ summary: 'List contacts with pagination, sorting and filters' })
+  @ApiListQuery(CONTACT_LIST_SPEC)
   @ApiResponse({ status: 200, description: 'Contacts retrieved successfully' })
-  async findAll(@Headers('x-tenant-id') tenantId: string, @Request() req) {
-    return this.contactsService.findAll(tenantId, req.user.sub);
+  async findAll(@ListQuery(CONTACT_LIST_SPEC) query: ParsedListQuery, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.contactsService.findAll(query, tenantId, req.user.sub);
   }
 
   @Get(':id')
+  @Roles('contacts', 'read')
   @ApiOperation({ summary: 'Get contact by ID' })
   @ApiResponse({ status: 200, description: 'Contact retrieved successfully' })
-  async findOne(@Param('id') id: string, @Headers('x-tenant-id') tenantId: string, @Request() req) {
+  async findOne(@Param('id') id: string, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
     return this.contactsService.findOne(id, tenantId, req.user.sub);
   }
 
   @Patch(':id')
+  @Roles('contacts', 'update')
   @ApiOperation({ summary: 'Update contact' })
   @ApiResponse({ status: 200, description: 'Contact updated successfully' })
-  async update(@Param('id') id: string, @Body() updateContactDto: UpdateContactDto, @Headers('x-tenant-id') tenantId: string, @Request() req) {
+  async update(@Param('id') id: string, @Body() updateContactDto: UpdateContactDto, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
     return this.contactsService.update(id, updateContactDto, tenantId, req.user.sub);
   }
 
   @Delete(':id')
+  @Roles('contacts', 'delete')
   @ApiOperation({ summary: 'Delete contact' })
   @ApiResponse({ status: 200, description: 'Contact deleted successfully' })
-  async remove(@Param('id') id: string, @Headers('x-tenant-id') tenantId: string, @Request() req) {
+  async remove(@Param('id') id: string, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
     return this.contactsService.remove(id, tenantId, req.user.sub);
   }
 }
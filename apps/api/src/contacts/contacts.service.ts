@@ -1,68 +1,63 @@
 import { Injectable } from '@nestjs/common';
-import { db } from '@crmblr/db';
-import { CreateContactRequest, UpdateContactRequest } from '@crmblr/types';
+import { db, Prisma } from '@crmblr/db';
+import { ContactStage, CreateContactRequest, UpdateContactRequest } from '@crmblr/types';
+import { ListQuerySpec, ParsedListQuery, toPaginatedResponse, toPrismaArgs } from '../common/list-query';
+
+export const CONTACT_LIST_SPEC: ListQuerySpec = {
+  fields: {
+    firstName: { type: 'string', sortable: true },
+    lastName: { type: 'string', sortable: true },
+    email: { type: 'string' },
+    stage: { type: 'enum', values: Object.values(ContactStage) },
+    score: { type: 'number', sortable: true },
+    lifetimeValue: { type: 'number', sortable: true },
+    relationshipManagerId: { type: 'uuid' },
+    createdAt: { type: 'date', sortable: true },
+  },
+  defaultSort: '-createdAt',
+  searchFields: ['firstName', 'lastName', 'email'],
+  customFields: true,
+};
 
 @Injectable()
 export class ContactsService {
   async create(createContactDto: CreateContactRequest, tenantId: string, userId: string) {
-    await db.setTenantContext(tenantId, userId);
-    
-    const contact = await db.client.contact.create({
+    return db.forTenant(tenantId, userId).contact.create({
       data: {
         tenantId,
         ...createContactDto,
       },
     });
-
-    await db.clearTenantContext();
-    
-    return contact;
   }
 
-  async findAll(tenantId: string, userId: string) {
-    await db.setTenantContext(tenantId, userId);
-    
-    const contacts = await db.client.contact.findMany({
-      orderBy: { createdAt: 'desc' },
-    });
+  async findAll(query: ParsedListQuery, tenantId: string, userId: string) {
+    const client = db.forTenant(tenantId, userId);
+    const args = toPrismaArgs<Prisma.ContactWhereInput, Prisma.ContactOrderByWithRelationInput>(query, CONTACT_LIST_SPEC);
+
+    const [rows, total] = await Promise.all([
+      client.contact.findMany(args),
+      client.contact.count({ where: args.where }),
+    ]);
 
-    await db.clearTenantContext();
-    
-    return contacts;
+    return toPaginatedResponse(rows, total, query);
   }
 
   async findOne(id: string, tenantId: string, userId: string) {
-    await db.setTenantContext(tenantId, userId);
-    
-    const contact = await db.client.contact.findUnique({
+    return db.forTenant(tenantId, userId).contact.findUnique({
       where: { id },
     });
-
-    await db.clearTenantContext();
-    
-    return contact;
   }
 
   async update(id: string, updateContactDto: UpdateContactRequest, tenantId: string, userId: string) {
-    await db.setTenantContext(tenantId, userId);
-    
-    const contact = await db.client.contact.update({
+    return db.forTenant(tenantId, userId).contact.update({
       where: { id },
       data: updateContactDto,
     });
-
-    await db.clearTenantContext();
-    
-    return contact;
   }
 
   async remove(id: string, tenantId: string, userId: string) {
-    await db.setTenantContext(tenantId, userId);
-    
-    await db.client.contact.delete({
+    await db.forTenant(tenantId, userId).contact.delete({
       where: { id },
     });
-
-    await db.clearTenantContext();
   }
 }
@@ -37,6 +37,7 @@ export class CreateContactDto {
   custom?: any;
 }
 
+// Stage changes go through POST /pipeline/contacts/:contactId/stage so they are recorded as events
 export class UpdateContactDto {
   @ApiProperty({ description: 'First name', required: false })
   @IsOptional()
@@ -63,11 +64,6 @@ export class UpdateContactDto {
   @IsString()
   address?: string;
 
-  @ApiProperty({ description: 'Contact stage', enum: ContactStage, required: false })
-  @IsOptional()
-  @IsEnum(ContactStage)
-  stage?: ContactStage;
-
   @ApiProperty({ description: 'Custom fields', required: false })
   @IsOptional()
   @IsObject()
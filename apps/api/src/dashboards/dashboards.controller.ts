@@ -0,0 +1,106 @@
+import { Controller, Get, Post, Put, Patch, Delete, Body, Param, Query, UseGuards, Request } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiHeader } from '@nestjs/swagger';
+import { UserRole } from '@crmblr/types';
+import { TenantGuard } from '../common/guards/tenant.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { CurrentTenant } from '../common/decorators/current-tenant.decorator';
+import { Roles } from '../common/decorators/roles.decorator';
+import { DashboardsService } from './dashboards.service';
+import { CreateDashboardDto, UpdateDashboardDto } from './dto/create-dashboard.dto';
+import {
+  CreateDashboardWidgetDto,
+  UpdateDashboardLayoutDto,
+  UpdateDashboardWidgetDto,
+  WidgetDataQueryDto,
+} from './dto/dashboard-widget.dto';
+
+@ApiTags('dashboards')
+@Controller('dashboards')
+@UseGuards(TenantGuard, RolesGuard)
+@ApiBearerAuth()
+@ApiHeader({ name: 'x-tenant-id', description: 'Tenant ID or slug' })
+export class DashboardsController {
+  constructor(private readonly dashboardsService: DashboardsService) {}
+
+  @Post()
+  @Roles('dashboards', 'create')
+  @ApiOperation({ summary: 'Create a personal or shared dashboard' })
+  @ApiResponse({ status: 201, description: 'Dashboard created successfully' })
+  @ApiResponse({ status: 403, description: 'Only admins can create a shared dashboard' })
+  async create(@Body() createDashboardDto: CreateDashboardDto, @CurrentTenant('role') role: UserRole, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.dashboardsService.create(createDashboardDto, role, tenantId, req.user.sub);
+  }
+
+  @Get()
+  @Roles('dashboards', 'read')
+  @ApiOperation({ summary: 'Get the user\'s dashboards and those shared with the tenant' })
+  @ApiResponse({ status: 200, description: 'Dashboards retrieved successfully' })
+  async findAll(@CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.dashboardsService.findAll(tenantId, req.user.sub);
+  }
+
+  @Get(':id')
+  @Roles('dashboards', 'read')
+  @ApiOperation({ summary: 'Get a dashboard with its widgets' })
+  @ApiResponse({ status: 200, description: 'Dashboard retrieved successfully' })
+  async findOne(@Param('id') id: string, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.dashboardsService.findOne(id, tenantId, req.user.sub);
+  }
+
+  @Patch(':id')
+  @Roles('dashboards', 'update')
+  @ApiOperation({ summary: 'Rename a dashboard' })
+  @ApiResponse({ status: 200, description: 'Dashboard updated successfully' })
+  async update(@Param('id') id: string, @Body() updateDashboardDto: UpdateDashboardDto, @CurrentTenant('role') role: UserRole, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.dashboardsService.update(id, updateDashboardDto, role, tenantId, req.user.sub);
+  }
+
+  @Delete(':id')
+  @Roles('dashboards', 'delete')
+  @ApiOperation({ summary: 'Delete a dashboard and its widgets' })
+  @ApiResponse({ status: 200, description: 'Dashboard deleted successfully' })
+  async remove(@Param('id') id: string, @CurrentTenant('role') role: UserRole, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.dashboardsService.remove(id, role, tenantId, req.user.sub);
+  }
+
+  @Put(':id/layout')
+  @Roles('dashboards', 'update')
+  @ApiOperation({ summary: 'Save widget positions and sizes after a drag or resize' })
+  @ApiResponse({ status: 200, description: 'Layout saved successfully' })
+  async updateLayout(@Param('id') id: string, @Body() updateDashboardLayoutDto: UpdateDashboardLayoutDto, @CurrentTenant('role') role: UserRole, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.dashboardsService.updateLayout(id, updateDashboardLayoutDto, role, tenantId, req.user.sub);
+  }
+
+  @Post(':id/widgets')
+  @Roles('dashboards', 'update', { snapshot: false, after: widget => ({ addedWidget: widget }) })
+  @ApiOperation({ summary: 'Add a saved report to a dashboard as a KPI, chart or table' })
+  @ApiResponse({ status: 201, description: 'Widget added successfully' })
+  @ApiResponse({ status: 400, description: 'Parameter values do not match the report declarations' })
+  async addWidget(@Param('id') id: string, @Body() createDashboardWidgetDto: CreateDashboardWidgetDto, @CurrentTenant('role') role: UserRole, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.dashboardsService.addWidget(id, createDashboardWidgetDto, role, tenantId, req.user.sub);
+  }
+
+  @Patch(':id/widgets/:widgetId')
+  @Roles('dashboards', 'update', { snapshot: false, after: widget => ({ updatedWidget: widget }) })
+  @ApiOperation({ summary: 'Change a widget\'s type, title, values or refresh interval' })
+  @ApiResponse({ status: 200, description: 'Widget updated successfully' })
+  async updateWidget(@Param('id') id: string, @Param('widgetId') widgetId: string, @Body() updateDashboardWidgetDto: UpdateDashboardWidgetDto, @CurrentTenant('role') role: UserRole, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.dashboardsService.updateWidget(id, widgetId, updateDashboardWidgetDto, role, tenantId, req.user.sub);
+  }
+
+  @Delete(':id/widgets/:widgetId')
+  @Roles('dashboards', 'update', { snapshot: false, after: widget => ({ removedWidget: widget }) })
+  @ApiOperation({ summary: 'Remove a widget from a dashboard' })
+  @ApiResponse({ status: 200, description: 'Widget removed successfully' })
+  async removeWidget(@Param('id') id: string, @Param('widgetId') widgetId: string, @CurrentTenant('role') role: UserRole, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.dashboardsService.removeWidget(id, widgetId, role, tenantId, req.user.sub);
+  }
+
+  @Get(':id/widgets/:widgetId/data')
+  @Roles('dashboards', 'read')
+  @ApiOperation({ summary: 'Get a widget\'s report result, cached for its refresh interval' })
+  @ApiResponse({ status: 200, description: 'Widget data retrieved successfully' })
+  async getWidgetData(@Param('id') id: string, @Param('widgetId') widgetId: string, @Query() query: WidgetDataQueryDto, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.dashboardsService.getWidgetData(id, widgetId, query.refresh ?? false, tenantId, req.user.sub);
+  }
+}
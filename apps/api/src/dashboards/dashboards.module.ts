@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { CampaignsModule } from '../campaigns/campaigns.module';
+import { DonationsModule } from '../donations/donations.module';
+import { GrantsModule } from '../grants/grants.module';
+import { ReportsModule } from '../reports/reports.module';
+import { DashboardsService } from './dashboards.service';
+import { DashboardsController } from './dashboards.controller';
+import { TenantDashboardService } from './tenant-dashboard.service';
+import { TenantDashboardController } from './tenant-dashboard.controller';
+
+@Module({
+  imports: [ReportsModule, DonationsModule, GrantsModule, CampaignsModule],
+  providers: [DashboardsService, TenantDashboardService],
+  controllers: [DashboardsController, TenantDashboardController],
+})
+export class DashboardsModule {}
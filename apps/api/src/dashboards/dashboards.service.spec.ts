@@ -0,0 +1,110 @@
+import { randomUUID } from 'crypto';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { db } from '@crmblr/db';
+import { DashboardWidgetType, UserRole } from '@crmblr/types';
+import { ReportsService } from '../reports/reports.service';
+import { DashboardsService } from './dashboards.service';
+
+describe('DashboardsService', () => {
+  const tenantId = randomUUID();
+  const userId = randomUUID();
+  const widget = {
+    id: randomUUID(),
+    reportId: randomUUID(),
+    type: DashboardWidgetType.KPI,
+    values: { months: 12 },
+    refreshSeconds: 300,
+    x: 0,
+    y: 0,
+    w: 3,
+    h: 2,
+  };
+  const personal = { id: randomUUID(), ownerId: userId, widgets: [widget] };
+  const shared = { id: randomUUID(), ownerId: null, widgets: [widget] };
+
+  const report = { id: widget.reportId, sql: 'SELECT sum(amount) AS total FROM donations', chart: null, updatedAt: new Date('2025-01-01T00:00:00Z') };
+
+  let reportsService: { runSavedReport: jest.Mock; bindSavedReport: jest.Mock; execute: jest.Mock };
+  let service: DashboardsService;
+  let findFirst: jest.Mock;
+
+  beforeEach(() => {
+    reportsService = {
+      runSavedReport: jest.fn(),
+      bindSavedReport: jest.fn().mockResolvedValue({ report, sql: report.sql, values: [] }),
+      execute: jest.fn().mockResolvedValue({ data: [{ total: 10 }], rowCount: 1, limit: 1, columns: [], chart: null }),
+    };
+    service = new DashboardsService(reportsService as unknown as ReportsService);
+    findFirst = jest.fn().mockResolvedValue(personal);
+    jest.spyOn(db, 'forTenant').mockReturnValue({ dashboard: { findFirst } } as any);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('getWidgetData', () => {
+    it('serves a cached result until the refresh interval has passed', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+
+      const first = await service.getWidgetData(personal.id, widget.id, false, tenantId, userId);
+      now.mockReturnValue(1_000_000 + 299_000);
+      const second = await service.getWidgetData(personal.id, widget.id, false, tenantId, userId);
+      expect(second).toBe(first);
+      expect(reportsService.execute).toHaveBeenCalledTimes(1);
+      expect(reportsService.bindSavedReport).toHaveBeenCalledWith(widget.reportId, { months: 12 }, tenantId, userId);
+      expect(reportsService.execute).toHaveBeenCalledWith(report.sql, [], 1, tenantId, userId, null);
+
+      now.mockReturnValue(1_000_000 + 300_000);
+      const third = await service.getWidgetData(personal.id, widget.id, false, tenantId, userId);
+      expect(third.cachedAt).toBe(new Date(1_300_000).toISOString());
+      expect(reportsService.execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('runs the report again when asked to or when the values change', async () => {
+      await service.getWidgetData(personal.id, widget.id, false, tenantId, userId);
+      await service.getWidgetData(personal.id, widget.id, true, tenantId, userId);
+      expect(reportsService.execute).toHaveBeenCalledTimes(2);
+
+      findFirst.mockResolvedValue({ ...personal, widgets: [{ ...widget, values: { months: 24 } }] });
+      await service.getWidgetData(personal.id, widget.id, false, tenantId, userId);
+      expect(reportsService.execute).toHaveBeenCalledTimes(3);
+    });
+
+    it('runs the report again once it has been edited', async () => {
+      await service.getWidgetData(personal.id, widget.id, false, tenantId, userId);
+
+      const edited = { ...report, sql: 'SELECT count(*) AS total FROM donations', updatedAt: new Date('2025-02-01T00:00:00Z') };
+      reportsService.bindSavedReport.mockResolvedValue({ report: edited, sql: edited.sql, values: [] });
+      await service.getWidgetData(personal.id, widget.id, false, tenantId, userId);
+      expect(reportsService.execute).toHaveBeenCalledTimes(2);
+      expect(reportsService.execute).toHaveBeenLastCalledWith(edited.sql, [], 1, tenantId, userId, null);
+    });
+
+    it('does not count as a run of the report', async () => {
+      await service.getWidgetData(personal.id, widget.id, false, tenantId, userId);
+      expect(reportsService.runSavedReport).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('shared dashboards', () => {
+    it('can only be changed by admins', async () => {
+      findFirst.mockResolvedValue(shared);
+
+      await expect(service.update(shared.id, { name: 'Board' }, UserRole.EDITOR, tenantId, userId)).rejects.toThrow(ForbiddenException);
+      await expect(service.create({ name: 'Board', shared: true }, UserRole.VIEWER, tenantId, userId)).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('updateLayout', () => {
+    it('rejects widgets that run past the last grid column', async () => {
+      const layout = { widgets: [{ id: widget.id, x: 8, y: 0, w: 6, h: 2 }] };
+
+      await expect(service.updateLayout(personal.id, layout, UserRole.VIEWER, tenantId, userId)).rejects.toThrow(BadRequestException);
+    });
+
+    it('rejects widgets from another dashboard', async () => {
+      const layout = { widgets: [{ id: randomUUID(), x: 0, y: 0, w: 3, h: 2 }] };
+
+      await expect(service.updateLayout(personal.id, layout, UserRole.VIEWER, tenantId, userId)).rejects.toThrow(/Not on this dashboard/);
+    });
+  });
+});
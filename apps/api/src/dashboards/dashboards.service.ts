@@ -0,0 +1,267 @@
+import { BadRequestException, ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { db } from '@crmblr/db';
+import {
+  CreateDashboardRequest,
+  CreateDashboardWidgetRequest,
+  DASHBOARD_GRID_COLUMNS,
+  DashboardWidgetData,
+  DashboardWidgetPosition,
+  DashboardWidgetType,
+  UpdateDashboardLayoutRequest,
+  UpdateDashboardLayoutRequestSchema,
+  UpdateDashboardRequest,
+  UpdateDashboardWidgetRequest,
+  UserRole,
+} from '@crmblr/types';
+import { can, PermissionAction } from '../common/permissions';
+import { ReportsService } from '../reports/reports.service';
+
+const WITH_WIDGETS = { widgets: { orderBy: [{ y: 'asc' as const }, { x: 'asc' as const }] } };
+
+// Size of a new widget when none is given, in grid columns and rows
+const DEFAULT_SIZES: Record<DashboardWidgetType, { w: number; h: number }> = {
+  [DashboardWidgetType.KPI]: { w: 3, h: 2 },
+  [DashboardWidgetType.CHART]: { w: 6, h: 4 },
+  [DashboardWidgetType.TABLE]: { w: 6, h: 4 },
+};
+
+// Rows fetched for each kind of widget; a KPI only reads the first
+const ROW_LIMITS: Record<DashboardWidgetType, number> = {
+  [DashboardWidgetType.KPI]: 1,
+  [DashboardWidgetType.CHART]: 1000,
+  [DashboardWidgetType.TABLE]: 100,
+};
+
+interface CachedWidgetData {
+  // What the result depends on; moving or resizing the widget keeps it
+  key: string;
+  expiresAt: number;
+  data: DashboardWidgetData;
+}
+
+@Injectable()
+export class DashboardsService {
+  // Widget results by widget id, kept for the widget's refresh interval
+  private readonly cache = new Map<string, CachedWidgetData>();
+
+  constructor(private readonly reportsService: ReportsService) {}
+
+  async create(request: CreateDashboardRequest, role: UserRole, tenantId: string, userId: string) {
+    if (request.shared && !can(role, 'sharedDashboards', 'create')) {
+      throw new ForbiddenException('Only admins can create a shared dashboard');
+    }
+
+    return db.forTenant(tenantId, userId).dashboard.create({
+      data: {
+        tenantId,
+        name: request.name,
+        ownerId: request.shared ? null : userId,
+      },
+      include: WITH_WIDGETS,
+    });
+  }
+
+  // The user's own dashboards come before the ones shared with the tenant
+  async findAll(tenantId: string, userId: string) {
+    return db.forTenant(tenantId, userId).dashboard.findMany({
+      where: { tenantId, OR: [{ ownerId: userId }, { ownerId: null }] },
+      orderBy: [{ ownerId: { sort: 'asc', nulls: 'last' } }, { createdAt: 'asc' }],
+      include: WITH_WIDGETS,
+    });
+  }
+
+  // Personal dashboards are invisible to everyone but their owner
+  async findOne(id: string, tenantId: string, userId: string) {
+    const dashboard = await db.forTenant(tenantId, userId).dashboard.findFirst({
+      where: { id, tenantId, OR: [{ ownerId: userId }, { ownerId: null }] },
+      include: WITH_WIDGETS,
+    });
+    if (!dashboard) {
+      throw new NotFoundException('Dashboard not found');
+    }
+    return dashboard;
+  }
+
+  async update(id: string, request: UpdateDashboardRequest, role: UserRole, tenantId: string, userId: string) {
+    await this.findEditable(id, 'update', role, tenantId, userId);
+
+    return db.forTenant(tenantId, userId).dashboard.update({
+      where: { id },
+      data: { name: request.name },
+      include: WITH_WIDGETS,
+    });
+  }
+
+  async remove(id: string, role: UserRole, tenantId: string, userId: string) {
+    const dashboard = await this.findEditable(id, 'delete', role, tenantId, userId);
+
+    await db.forTenant(tenantId, userId).dashboard.delete({ where: { id } });
+    dashboard.widgets.forEach(widget => this.cache.delete(widget.id));
+    return dashboard;
+  }
+
+  /** Saves the grid after widgets were dragged or resized. */
+  async updateLayout(id: string, request: UpdateDashboardLayoutRequest, role: UserRole, tenantId: string, userId: string) {
+    const layout = UpdateDashboardLayoutRequestSchema.safeParse(request);
+    if (!layout.success) {
+      throw new BadRequestException(layout.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`));
+    }
+    const dashboard = await this.findEditable(id, 'update', role, tenantId, userId);
+
+    const unknown = layout.data.widgets.filter(position => !dashboard.widgets.some(widget => widget.id === position.id));
+    if (unknown.length > 0) {
+      throw new BadRequestException(`Not on this dashboard: ${unknown.map(position => position.id).join(', ')}`);
+    }
+    layout.data.widgets.forEach(position => this.checkFits(position));
+
+    return db.withTenant(tenantId, userId, async (tx) => {
+      for (const { id: widgetId, x, y, w, h } of layout.data.widgets) {
+        await tx.dashboardWidget.update({ where: { id: widgetId }, data: { x, y, w, h } });
+      }
+      await tx.dashboard.update({ where: { id }, data: { updatedAt: new Date() } });
+      return tx.dashboard.findUnique({ where: { id }, include: WITH_WIDGETS });
+    });
+  }
+
+  // Widgets without a position go below the ones already there
+  async addWidget(id: string, request: CreateDashboardWidgetRequest, role: UserRole, tenantId: string, userId: string) {
+    const dashboard = await this.findEditable(id, 'update', role, tenantId, userId);
+    // Also checks that the report exists and that the values suit its parameters
+    await this.reportsService.bindSavedReport(request.reportId, request.values, tenantId, userId);
+
+    const size = DEFAULT_SIZES[request.type];
+    const position = {
+      x: request.x ?? 0,
+      y: request.y ?? dashboard.widgets.reduce((bottom, widget) => Math.max(bottom, widget.y + widget.h), 0),
+      w: request.w ?? size.w,
+      h: request.h ?? size.h,
+    };
+    this.checkFits(position);
+
+    return db.forTenant(tenantId, userId).dashboardWidget.create({
+      data: {
+        tenantId,
+        dashboardId: id,
+        reportId: request.reportId,
+        type: request.type,
+        title: request.title,
+        column: request.column,
+        values: request.values as object,
+        refreshSeconds: request.refreshSeconds,
+        ...position,
+      },
+    });
+  }
+
+  async updateWidget(
+    id: string,
+    widgetId: string,
+    request: UpdateDashboardWidgetRequest,
+    role: UserRole,
+    tenantId: string,
+    userId: string,
+  ) {
+    const dashboard = await this.findEditable(id, 'update', role, tenantId, userId);
+    const widget = this.findWidget(dashboard, widgetId);
+    if (request.values) {
+      await this.reportsService.bindSavedReport(widget.reportId, request.values, tenantId, userId);
+    }
+
+    return db.forTenant(tenantId, userId).dashboardWidget.update({
+      where: { id: widgetId },
+      data: {
+        type: request.type,
+        title: request.title,
+        column: request.column,
+        values: request.values as object | undefined,
+        refreshSeconds: request.refreshSeconds,
+      },
+    });
+  }
+
+  async removeWidget(id: string, widgetId: string, role: UserRole, tenantId: string, userId: string) {
+    const dashboard = await this.findEditable(id, 'update', role, tenantId, userId);
+    const widget = this.findWidget(dashboard, widgetId);
+
+    await db.forTenant(tenantId, userId).dashboardWidget.delete({ where: { id: widgetId } });
+    this.cache.delete(widgetId);
+    return widget;
+  }
+
+  /**
+   * Result of the widget's report. A result is reused until the widget's
+   * refresh interval has passed or its report (or the report's SQL), type, values
+   * or interval change; `refresh` runs the report regardless. Widget loads are not
+   * report runs, so they leave the report's lastRunAt alone.
+   */
+  async getWidgetData(id: string, widgetId: string, refresh: boolean, tenantId: string, userId: string): Promise<DashboardWidgetData> {
+    const dashboard = await this.findOne(id, tenantId, userId);
+    const widget = this.findWidget(dashboard, widgetId);
+    const now = Date.now();
+
+    const { report, sql, values } = await this.reportsService.bindSavedReport(
+      widget.reportId,
+      widget.values as Record<string, unknown>,
+      tenantId,
+      userId,
+    );
+    const key = JSON.stringify([
+      widget.reportId,
+      report.updatedAt.toISOString(),
+      report.sql,
+      widget.type,
+      widget.values,
+      widget.refreshSeconds,
+    ]);
+
+    const cached = this.cache.get(widgetId);
+    if (!refresh && cached && cached.expiresAt > now && cached.key === key) {
+      return cached.data;
+    }
+
+    const type = widget.type as DashboardWidgetType;
+    const result = await this.reportsService.execute(sql, values, ROW_LIMITS[type], tenantId, userId, report.chart);
+    const expiresAt = now + widget.refreshSeconds * 1000;
+    const data: DashboardWidgetData = {
+      widgetId,
+      result,
+      cachedAt: new Date(now).toISOString(),
+      expiresAt: new Date(expiresAt).toISOString(),
+    };
+
+    this.prune(now);
+    this.cache.set(widgetId, { key, expiresAt, data });
+    return data;
+  }
+
+  // Anyone may change their own dashboards; shared ones need the sharedDashboards permission
+  private async findEditable(id: string, action: PermissionAction, role: UserRole, tenantId: string, userId: string) {
+    const dashboard = await this.findOne(id, tenantId, userId);
+    if (!dashboard.ownerId && !can(role, 'sharedDashboards', action)) {
+      throw new ForbiddenException('Only admins can change a shared dashboard');
+    }
+    return dashboard;
+  }
+
+  private findWidget<T extends { id: string }>(dashboard: { widgets: T[] }, widgetId: string): T {
+    const widget = dashboard.widgets.find(candidate => candidate.id === widgetId);
+    if (!widget) {
+      throw new NotFoundException('Widget not found');
+    }
+    return widget;
+  }
+
+  private checkFits(position: DashboardWidgetPosition) {
+    if (position.x + position.w > DASHBOARD_GRID_COLUMNS) {
+      throw new BadRequestException(`Widgets must fit within ${DASHBOARD_GRID_COLUMNS} grid columns`);
+    }
+  }
+
+  private prune(now: number) {
+    for (const [widgetId, entry] of this.cache) {
+      if (entry.expiresAt <= now) {
+        this.cache.delete(widgetId);
+      }
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import { IsString, IsOptional, IsBoolean, MinLength, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateDashboardDto {
+  @ApiProperty({ description: 'Dashboard name' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ description: 'Share with everyone in the tenant instead of keeping it personal', required: false, default: false })
+  @IsOptional()
+  @IsBoolean()
+  shared: boolean = false;
+}
+
+export class UpdateDashboardDto {
+  @ApiProperty({ description: 'Dashboard name' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name: string;
+}
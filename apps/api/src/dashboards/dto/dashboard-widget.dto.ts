@@ -0,0 +1,113 @@
+import { IsString, IsOptional, IsInt, IsEnum, IsObject, IsUUID, IsArray, IsBoolean, Min, Max, MaxLength } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { DASHBOARD_GRID_COLUMNS, DASHBOARD_REFRESH_SECONDS, DashboardWidgetType } from '@crmblr/types';
+
+export class CreateDashboardWidgetDto {
+  @ApiProperty({ description: 'Saved report the widget shows' })
+  @IsUUID()
+  reportId: string;
+
+  @ApiProperty({ description: 'How the result is shown', enum: DashboardWidgetType })
+  @IsEnum(DashboardWidgetType)
+  type: DashboardWidgetType;
+
+  @ApiProperty({ description: 'Title; the report name when omitted', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  title?: string;
+
+  @ApiProperty({ description: 'Column a KPI shows; the first numeric column when omitted', required: false })
+  @IsOptional()
+  @IsString()
+  column?: string;
+
+  @ApiProperty({ description: 'Parameter values by name; omitted parameters use their defaults', required: false })
+  @IsOptional()
+  @IsObject()
+  values: Record<string, unknown> = {};
+
+  @ApiProperty({
+    description: 'Seconds a result is cached before the report runs again',
+    required: false,
+    default: DASHBOARD_REFRESH_SECONDS.default,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(DASHBOARD_REFRESH_SECONDS.min)
+  @Max(DASHBOARD_REFRESH_SECONDS.max)
+  refreshSeconds: number = DASHBOARD_REFRESH_SECONDS.default;
+
+  @ApiProperty({ description: 'Grid column; placed below the other widgets when x and y are omitted', required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(DASHBOARD_GRID_COLUMNS - 1)
+  x?: number;
+
+  @ApiProperty({ description: 'Grid row', required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  y?: number;
+
+  @ApiProperty({ description: 'Width in grid columns', required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(DASHBOARD_GRID_COLUMNS)
+  w?: number;
+
+  @ApiProperty({ description: 'Height in grid rows', required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(12)
+  h?: number;
+}
+
+export class UpdateDashboardWidgetDto {
+  @ApiProperty({ enum: DashboardWidgetType, required: false })
+  @IsOptional()
+  @IsEnum(DashboardWidgetType)
+  type?: DashboardWidgetType;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  title?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  column?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsObject()
+  values?: Record<string, unknown>;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(DASHBOARD_REFRESH_SECONDS.min)
+  @Max(DASHBOARD_REFRESH_SECONDS.max)
+  refreshSeconds?: number;
+}
+
+export class UpdateDashboardLayoutDto {
+  // Checked against UpdateDashboardLayoutRequestSchema by the service
+  @ApiProperty({ description: 'New grid positions: [{ id, x, y, w, h }]' })
+  @IsArray()
+  widgets: { id: string; x: number; y: number; w: number; h: number }[];
+}
+
+export class WidgetDataQueryDto {
+  @ApiProperty({ description: 'Run the report even if a cached result has not expired', required: false })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  refresh?: boolean;
+}
@@ -0,0 +1,24 @@
+import { Controller, Get, UseGuards, Request } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiHeader } from '@nestjs/swagger';
+import { TenantGuard } from '../common/guards/tenant.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { CurrentTenant } from '../common/decorators/current-tenant.decorator';
+import { Roles } from '../common/decorators/roles.decorator';
+import { TenantDashboardService } from './tenant-dashboard.service';
+
+@ApiTags('dashboards')
+@Controller('dashboard')
+@UseGuards(TenantGuard, RolesGuard)
+@ApiBearerAuth()
+@ApiHeader({ name: 'x-tenant-id', description: 'Tenant ID or slug' })
+export class TenantDashboardController {
+  constructor(private readonly tenantDashboardService: TenantDashboardService) {}
+
+  @Get()
+  @Roles('dashboards', 'read')
+  @ApiOperation({ summary: 'Get giving, grant, pipeline and campaign figures for the tenant home page' })
+  @ApiResponse({ status: 200, description: 'Dashboard data retrieved successfully' })
+  async getDashboard(@CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.tenantDashboardService.getDashboard(tenantId, req.user.sub);
+  }
+}
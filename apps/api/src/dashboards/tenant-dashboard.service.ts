@@ -0,0 +1,127 @@
+import { Injectable } from '@nestjs/common';
+import { db } from '@crmblr/db';
+import { ContactStage, GrantStatus, TenantDashboardData } from '@crmblr/types';
+import { CampaignsService } from '../campaigns/campaigns.service';
+import { DonationsService } from '../donations/donations.service';
+import { GrantsService } from '../grants/grants.service';
+import {
+  AT_RISK_DAYS,
+  CULTIVATION_QUIET_DAYS,
+  OverviewContact,
+  summarizePipeline,
+  suggestCultivation,
+  touchCutoff,
+} from './tenant-dashboard';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Grant deadlines within this many days are shown
+const GRANT_DEADLINE_DAYS = 60;
+
+// Entries per list on the home page
+const LIST_LIMIT = 5;
+
+@Injectable()
+export class TenantDashboardService {
+  constructor(
+    private readonly donationsService: DonationsService,
+    private readonly grantsService: GrantsService,
+    private readonly campaignsService: CampaignsService,
+  ) {}
+
+  async getDashboard(tenantId: string, userId: string): Promise<TenantDashboardData> {
+    const client = db.forTenant(tenantId, userId);
+    const now = new Date();
+
+    const atRiskCutoff = touchCutoff(now, AT_RISK_DAYS);
+
+    const [kpis, last30Days, scores, deadlines, campaigns, donations, stageCounts, atRisk, cultivation] = await Promise.all([
+      this.donationsService.getKPIs(tenantId, userId),
+      client.donation.aggregate({
+        where: { date: { gte: new Date(now.getTime() - 30 * DAY_MS) } },
+        _sum: { amount: true },
+      }),
+      client.contact.aggregate({ _avg: { score: true } }),
+      this.grantsService.getUpcomingDeadlines(GRANT_DEADLINE_DAYS, tenantId, userId),
+      this.campaignsService.findActive(now, tenantId, userId),
+      client.donation.findMany({
+        orderBy: { date: 'desc' },
+        take: LIST_LIMIT,
+        include: {
+          contact: { select: { firstName: true, lastName: true } },
+          organization: { select: { name: true } },
+        },
+      }),
+      client.contact.groupBy({
+        by: ['stage'],
+        _count: { _all: true },
+      }),
+      // A contact was last touched by their latest pipeline move or gift
+      client.contact.count({
+        where: {
+          stage: { not: ContactStage.IDENTIFIED },
+          pipelineEvents: { none: { occurredAt: { gte: atRiskCutoff } } },
+          donations: { none: { date: { gte: atRiskCutoff } } },
+        },
+      }),
+      this.findCultivationCandidates(tenantId, userId, touchCutoff(now, CULTIVATION_QUIET_DAYS)),
+    ]);
+
+    return {
+      metrics: {
+        yearToDate: Number(kpis.ytdDonations),
+        last30Days: Number(last30Days._sum.amount || 0),
+        totalDonors: kpis.totalDonors,
+        avgEngagementScore: Math.round(scores._avg.score || 0),
+        pendingThankYous: kpis.pendingThankYous,
+      },
+      grantDeadlines: deadlines.slice(0, LIST_LIMIT).map(grant => ({
+        id: grant.id,
+        name: grant.name,
+        organizationName: grant.organization.name,
+        status: grant.status as GrantStatus,
+        deadline: grant.deadline.toISOString(),
+        daysRemaining: grant.daysRemaining,
+      })),
+      donorCultivation: suggestCultivation(cultivation),
+      pipelineOverview: summarizePipeline(
+        stageCounts.map(row => ({ stage: row.stage, count: row._count._all })),
+        atRisk,
+      ),
+      recentDonations: donations.map(donation => ({
+        id: donation.id,
+        donorName: donation.contact
+          ? `${donation.contact.firstName} ${donation.contact.lastName}`.trim()
+          : donation.organization?.name ?? 'Anonymous',
+        amount: Number(donation.amount),
+        date: donation.date.toISOString(),
+      })),
+      activeCampaigns: campaigns.map(campaign => ({
+        id: campaign.id,
+        name: campaign.name,
+        currentAmount: campaign.currentAmount,
+        targetAmount: Number(campaign.targetAmount),
+        progressPercentage: campaign.progressPercentage,
+        endDate: campaign.endDate.toISOString(),
+      })),
+    };
+  }
+
+  // The most engaged contacts last touched before `quietSince`, longest untouched first among equal scores
+  private async findCultivationCandidates(tenantId: string, userId: string, quietSince: Date) {
+    return db.withTenant(tenantId, userId, (tx) => tx.$queryRaw<OverviewContact[]>`
+      SELECT c.id, c."firstName", c."lastName", c.stage, c.score, touch.at AS "lastTouchAt"
+      FROM contacts c
+      CROSS JOIN LATERAL (
+        SELECT greatest(
+          (SELECT max(e."occurredAt") FROM pipeline_events e WHERE e."contactId" = c.id),
+          (SELECT max(d.date) FROM donations d WHERE d."contactId" = c.id)
+        ) AS at
+      ) touch
+      WHERE c."tenantId" = ${tenantId}::uuid
+        AND (touch.at IS NULL OR touch.at < ${quietSince})
+      ORDER BY c.score DESC, touch.at ASC NULLS FIRST
+      LIMIT ${LIST_LIMIT}
+    `);
+  }
+}
@@ -0,0 +1,62 @@
+import { ContactStage } from '@crmblr/types';
+import { summarizePipeline, suggestCultivation, touchCutoff, OverviewContact } from './tenant-dashboard';
+
+const now = new Date('2025-06-30T00:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+const contact = (id: string, stage: ContactStage, score: number, lastTouchAt: Date | null): OverviewContact => ({
+  id,
+  firstName: 'Contact',
+  lastName: id,
+  stage,
+  score,
+  lastTouchAt,
+});
+
+describe('tenant dashboard', () => {
+  describe('touchCutoff', () => {
+    it('goes back the given number of days', () => {
+      expect(touchCutoff(now, 30)).toEqual(daysAgo(30));
+    });
+  });
+
+  describe('summarizePipeline', () => {
+    it('counts contacts to qualify and in cultivation', () => {
+      const overview = summarizePipeline(
+        [
+          { stage: ContactStage.IDENTIFIED, count: 4 },
+          { stage: ContactStage.QUALIFIED, count: 2 },
+          { stage: ContactStage.SOLICITED, count: 1 },
+          { stage: ContactStage.STEWARDED, count: 7 },
+        ],
+        3,
+      );
+
+      expect(overview).toEqual({ identified: 4, inCultivation: 3, atRisk: 3 });
+    });
+
+    it('counts stages without contacts as zero', () => {
+      expect(summarizePipeline([], 0)).toEqual({ identified: 0, inCultivation: 0, atRisk: 0 });
+    });
+  });
+
+  describe('suggestCultivation', () => {
+    it('suggests the next step for each contact', () => {
+      const suggestions = suggestCultivation([
+        contact('never', ContactStage.IDENTIFIED, 25, null),
+        contact('high', ContactStage.SOLICITED, 25, daysAgo(45)),
+      ]);
+
+      expect(suggestions).toEqual([
+        { contactId: 'never', name: 'Contact never', stage: ContactStage.IDENTIFIED, lastContact: null, action: 'Initial outreach' },
+        {
+          contactId: 'high',
+          name: 'Contact high',
+          stage: ContactStage.SOLICITED,
+          lastContact: daysAgo(45).toISOString(),
+          action: 'Follow up on the ask',
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { ContactStage, DonorCultivation, PipelineOverview } from '@crmblr/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stages of contacts someone is actively working with
+const CULTIVATION_STAGES: string[] = [ContactStage.QUALIFIED, ContactStage.CULTIVATED, ContactStage.SOLICITED];
+
+// Contacts past the identified stage are at risk once they go this long untouched
+export const AT_RISK_DAYS = 180;
+
+// Contacts touched more recently than this are not suggested again
+export const CULTIVATION_QUIET_DAYS = 30;
+
+const NEXT_ACTIONS: Record<ContactStage, string> = {
+  [ContactStage.IDENTIFIED]: 'Initial outreach',
+  [ContactStage.QUALIFIED]: 'Schedule check-in call',
+  [ContactStage.CULTIVATED]: 'Invite to a site visit',
+  [ContactStage.SOLICITED]: 'Follow up on the ask',
+  [ContactStage.STEWARDED]: 'Send impact report',
+};
+
+export interface OverviewContact {
+  id: string;
+  firstName: string;
+  lastName: string;
+  stage: string;
+  score: number;
+  // Latest pipeline move or gift
+  lastTouchAt: Date | null;
+}
+
+export interface StageCount {
+  stage: string;
+  count: number;
+}
+
+// Contacts last touched before this are past the given number of quiet days
+export function touchCutoff(now: Date, days: number): Date {
+  return new Date(now.getTime() - days * DAY_MS);
+}
+
+/**
+ * Contacts still to be qualified and contacts in cultivation, from per-stage counts,
+ * next to the number of contacts past the identified stage with no pipeline move or
+ * gift in the last AT_RISK_DAYS.
+ */
+export function summarizePipeline(stageCounts: StageCount[], atRisk: number): PipelineOverview {
+  const count = (stages: string[]) => stageCounts
+    .filter(row => stages.includes(row.stage))
+    .reduce((sum, row) => sum + row.count, 0);
+
+  return {
+    identified: count([ContactStage.IDENTIFIED]),
+    inCultivation: count(CULTIVATION_STAGES),
+    atRisk,
+  };
+}
+
+/**
+ * Suggestions for the contacts the dashboard picked: the most engaged ones not touched
+ * in CULTIVATION_QUIET_DAYS, each with the next step for their stage.
+ */
+export function suggestCultivation(contacts: OverviewContact[]): DonorCultivation[] {
+  return contacts.map(contact => ({
+    contactId: contact.id,
+    name: `${contact.firstName} ${contact.lastName}`.trim(),
+    stage: contact.stage as ContactStage,
+    lastContact: contact.lastTouchAt ? contact.lastTouchAt.toISOString() : null,
+    action: NEXT_ACTIONS[contact.stage as ContactStage] ?? NEXT_ACTIONS[ContactStage.IDENTIFIED],
+  }));
+}
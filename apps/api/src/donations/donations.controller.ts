@@ -1,57 +1,69 @@
-import { Controller, Get, Post, Body, Patch, Param, Delete, UseGuards, Request, Headers } from '@nestjs/common';
+import { Controller, Get, Post, Body, Patch, Param, Delete, UseGuards, Request } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiHeader } from '@nestjs/swagger';
 import { TenantGuard } from '../common/guards/tenant.guard';
-import { DonationsService } from './donations.service';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { CurrentTenant } from '../common/decorators/current-tenant.decorator';
+import { Roles } from '../common/decorators/roles.decorator';
+import { ApiListQuery, ListQuery } from '../common/decorators/list-query.decorator';
+import { ParsedListQuery } from '../common/list-query';
+import { DONATION_LIST_SPEC, DonationsService } from './donations.service';
 import { CreateDonationDto } from './dto/create-donation.dto';
 import { UpdateDonationDto } from './dto/update-donation.dto';
 
 @ApiTags('donations')
 @Controller('donations')
-@UseGuards(TenantGuard)
+@UseGuards(TenantGuard, RolesGuard)
 @ApiBearerAuth()
-@ApiHeader({ name: 'x-tenant-id', description: 'Tenant ID' })
+@ApiHeader({ name: 'x-tenant-id', description: 'Tenant ID or slug' })
 export class DonationsController {
   constructor(private readonly donationsService: DonationsService) {}
 
   @Post()
+  @Roles('donations', 'create')
   @ApiOperation({ summary: 'Create a new donation' })
   @ApiResponse({ status: 201, description: 'Donation created successfully' })
-  async create(@Body() createDonationDto: CreateDonationDto, @Headers('x-tenant-id') tenantId: string, @Request() req) {
+  async create(@Body() createDonationDto: CreateDonationDto, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
     return this.donationsService.create(createDonationDto, tenantId, req.user.sub);
   }
 
   @Get()
-  @ApiOperation({ summary: 'Get all donations' })
+  @Roles('donations', 'read')
+  @ApiOperation({ summary: 'List donations with pagination, sorting and filters' })
+  @ApiListQuery(DONATION_LIST_SPEC)
   @ApiResponse({ status: 200, description: 'Donations retrieved successfully' })
-  async findAll(@Headers('x-tenant-id') tenantId: string, @Request() req) {
-    return this.donationsService.findAll(tenantId, req.user.sub);
+  async findAll(@ListQuery(DONATION_LIST_SPEC) query: ParsedListQuery, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.donationsService.findAll(query, tenantId, req.user.sub);
   }
 
   @Get('kpis')
+  @Roles('donations', 'read')
   @ApiOperation({ summary: 'Get donation KPIs' })
   @ApiResponse({ status: 200, description: 'KPIs retrieved successfully' })
-  async getKPIs(@Headers('x-tenant-id') tenantId: string, @Request() req) {
+  async getKPIs(@CurrentTenant('tenantId') tenantId: string, @Request() req) {
     return this.donationsService.getKPIs(tenantId, req.user.sub);
   }
 
   @Get(':id')
+  @Roles('donations', 'read')
   @ApiOperation({ summary: 'Get donation by ID' })
   @ApiResponse({ status: 200, description: 'Donation retrieved successfully' })
-  async findOne(@Param('id') id: string, @Headers('x-tenant-id') tenantId: string, @Request() req) {
+  async findOne(@Param('id') id: string, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
     return this.donationsService.findOne(id, tenantId, req.user.sub);
   }
 
   @Patch(':id')
+  @Roles('donations', 'update')
   @ApiOperation({ summary: 'Update donation' })
   @ApiResponse({ status: 200, description: 'Donation updated successfully' })
-  async update(@Param('id') id: string, @Body() updateDonationDto: UpdateDonationDto, @Headers('x-tenant-id') tenantId: string, @Request() req) {
+  async update(@Param('id') id: string, @Body() updateDonationDto: UpdateDonationDto, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
     return this.donationsService.update(id, updateDonationDto, tenantId, req.user.sub);
   }
 
   @Delete(':id')
+  @Roles('donations', 'delete')
   @ApiOperation({ summary: 'Delete donation' })
   @ApiResponse({ status: 200, description: 'Donation deleted successfully' })
-  async remove(@Param('id') id: string, @Headers('x-tenant-id') tenantId: string, @Request() req) {
+  async remove(@Param('id') id: string, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
     return this.donationsService.remove(id, tenantId, req.user.sub);
   }
 }
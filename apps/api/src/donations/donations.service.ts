@@ -1,45 +1,55 @@
 import { Injectable } from '@nestjs/common';
-import { db } from '@crmblr/db';
-import { CreateDonationRequest, UpdateDonationRequest } from '@crmblr/types';
+import { db, Prisma } from '@crmblr/db';
+import { CreateDonationRequest, ThankYouStatus, UpdateDonationRequest } from '@crmblr/types';
+import { ListQuerySpec, ParsedListQuery, toPaginatedResponse, toPrismaArgs } from '../common/list-query';
+
+export const DONATION_LIST_SPEC: ListQuerySpec = {
+  fields: {
+    amount: { type: 'number', sortable: true },
+    currency: { type: 'string' },
+    date: { type: 'date', sortable: true },
+    thankYouStatus: { type: 'enum', values: Object.values(ThankYouStatus) },
+    contactId: { type: 'uuid' },
+    organizationId: { type: 'uuid' },
+    campaignId: { type: 'uuid' },
+    createdAt: { type: 'date', sortable: true },
+  },
+  defaultSort: '-date',
+  customFields: true,
+};
 
 @Injectable()
 export class DonationsService {
   async create(createDonationDto: CreateDonationRequest, tenantId: string, userId: string) {
-    await db.setTenantContext(tenantId, userId);
-    
-    const donation = await db.client.donation.create({
+    return db.forTenant(tenantId, userId).donation.create({
       data: {
         tenantId,
         ...createDonationDto,
       },
     });
-
-    await db.clearTenantContext();
-    
-    return donation;
   }
 
-  async findAll(tenantId: string, userId: string) {
-    await db.setTenantContext(tenantId, userId);
-    
-    const donations = await db.client.donation.findMany({
-      include: {
-        contact: true,
-        organization: true,
-        campaign: true,
-      },
-      orderBy: { date: 'desc' },
-    });
+  async findAll(query: ParsedListQuery, tenantId: string, userId: string) {
+    const client = db.forTenant(tenantId, userId);
+    const args = toPrismaArgs<Prisma.DonationWhereInput, Prisma.DonationOrderByWithRelationInput>(query, DONATION_LIST_SPEC);
 
-    await db.clearTenantContext();
-    
-    return donations;
+    const [rows, total] = await Promise.all([
+      client.donation.findMany({
+        ...args,
+        include: {
+          contact: true,
+          organization: true,
+          campaign: true,
+        },
+      }),
+      client.donation.count({ where: args.where }),
+    ]);
+
+    return toPaginatedResponse(rows, total, query);
   }
 
   async findOne(id: string, tenantId: string, userId: string) {
-    await db.setTenantContext(tenantId, userId);
-    
-    const donation = await db.client.donation.findUnique({
+    return db.forTenant(tenantId, userId).donation.findUnique({
       where: { id },
       include: {
         contact: true,
@@ -47,43 +57,29 @@ export class DonationsService {
         campaign: true,
       },
     });
-
-    await db.clearTenantContext();
-    
-    return donation;
   }
 
   async update(id: string, updateDonationDto: UpdateDonationRequest, tenantId: string, userId: string) {
-    await db.setTenantContext(tenantId, userId);
-    
-    const donation = await db.client.donation.update({
+    return db.forTenant(tenantId, userId).donation.update({
       where: { id },
       data: updateDonationDto,
     });
-
-    await db.clearTenantContext();
-    
-    return donation;
   }
 
   async remove(id: string, tenantId: string, userId: string) {
-    await db.setTenantContext(tenantId, userId);
-    
-    await db.client.donation.delete({
+    await db.forTenant(tenantId, userId).donation.delete({
       where: { id },
     });
-
-    await db.clearTenantContext();
   }
 
   async getKPIs(tenantId: string, userId: string) {
-    await db.setTenantContext(tenantId, userId);
+    const client = db.forTenant(tenantId, userId);
     
     const [totalDonations, ytdDonations, totalDonors, pendingThankYous] = await Promise.all([
-      db.client.donation.aggregate({
+      client.donation.aggregate({
         _sum: { amount: true },
       }),
-      db.client.donation.aggregate({
+      client.donation.aggregate({
         _sum: { amount: true },
         where: {
           date: {
@@ -91,20 +87,18 @@ export class DonationsService {
           },
         },
       }),
-      db.client.donation.groupBy({
+      client.donation.groupBy({
         by: ['contactId'],
         where: {
           contactId: { not: null },
         },
       }),
-      db.client.donation.count({
+      client.donation.count({
         where: {
           thankYouStatus: 'pending',
         },
       }),
     ]);
-
-    await db.clearTenantContext();
     
     return {
       totalDonations: totalDonations._sum.amount || 0,
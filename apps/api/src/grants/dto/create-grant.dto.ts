@@ -0,0 +1,67 @@
+import { IsString, IsOptional, IsNumber, IsDate, IsObject, IsUUID, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateGrantDto {
+  @ApiProperty({ description: 'Funding organization ID' })
+  @IsUUID()
+  organizationId: string;
+
+  @ApiProperty({ description: 'Grant name' })
+  @IsString()
+  name: string;
+
+  @ApiProperty({ description: 'Amount requested' })
+  @IsNumber()
+  @Min(0)
+  amountRequested: number;
+
+  @ApiProperty({ description: 'Application deadline' })
+  @Type(() => Date)
+  @IsDate()
+  deadline: Date;
+
+  @ApiProperty({ description: 'Notes', required: false })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+
+  @ApiProperty({ description: 'Custom fields', required: false })
+  @IsOptional()
+  @IsObject()
+  custom?: any;
+}
+
+export class UpdateGrantDto {
+  @ApiProperty({ description: 'Funding organization ID', required: false })
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string;
+
+  @ApiProperty({ description: 'Grant name', required: false })
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @ApiProperty({ description: 'Amount requested', required: false })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  amountRequested?: number;
+
+  @ApiProperty({ description: 'Application deadline', required: false })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  deadline?: Date;
+
+  @ApiProperty({ description: 'Notes', required: false })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+
+  @ApiProperty({ description: 'Custom fields', required: false })
+  @IsOptional()
+  @IsObject()
+  custom?: any;
+}
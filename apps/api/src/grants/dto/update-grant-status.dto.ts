@@ -0,0 +1,20 @@
+import { IsString, IsOptional, IsNumber, IsEnum, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { GrantStatus } from '@crmblr/types';
+
+export class UpdateGrantStatusDto {
+  @ApiProperty({ description: 'Next status', enum: GrantStatus })
+  @IsEnum(GrantStatus)
+  status: GrantStatus;
+
+  @ApiProperty({ description: 'Amount awarded (defaults to the amount requested)', required: false })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  amountAwarded?: number;
+
+  @ApiProperty({ description: 'Notes', required: false })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
@@ -0,0 +1,29 @@
+import { GrantStatus } from '@crmblr/types';
+import { canTransitionGrant } from './grant-status';
+
+describe('grant status transitions', () => {
+  it('follows the lifecycle one step at a time', () => {
+    expect(canTransitionGrant(GrantStatus.PROSPECT, GrantStatus.SUBMITTED)).toBe(true);
+    expect(canTransitionGrant(GrantStatus.SUBMITTED, GrantStatus.AWARDED)).toBe(true);
+    expect(canTransitionGrant(GrantStatus.SUBMITTED, GrantStatus.DECLINED)).toBe(true);
+    expect(canTransitionGrant(GrantStatus.AWARDED, GrantStatus.REPORT_DUE)).toBe(true);
+  });
+
+  it('rejects skipped steps', () => {
+    expect(canTransitionGrant(GrantStatus.PROSPECT, GrantStatus.AWARDED)).toBe(false);
+    expect(canTransitionGrant(GrantStatus.PROSPECT, GrantStatus.REPORT_DUE)).toBe(false);
+    expect(canTransitionGrant(GrantStatus.SUBMITTED, GrantStatus.REPORT_DUE)).toBe(false);
+  });
+
+  it('rejects moving backwards or out of a final status', () => {
+    expect(canTransitionGrant(GrantStatus.SUBMITTED, GrantStatus.PROSPECT)).toBe(false);
+    expect(canTransitionGrant(GrantStatus.DECLINED, GrantStatus.AWARDED)).toBe(false);
+    expect(canTransitionGrant(GrantStatus.REPORT_DUE, GrantStatus.AWARDED)).toBe(false);
+  });
+
+  it('rejects staying in the same status', () => {
+    for (const status of Object.values(GrantStatus)) {
+      expect(canTransitionGrant(status, status)).toBe(false);
+    }
+  });
+});
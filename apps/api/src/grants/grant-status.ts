@@ -0,0 +1,18 @@
+import { GrantStatus } from '@crmblr/types';
+
+// Allowed moves through the grant lifecycle:
+// prospect → submitted → awarded | declined, and awarded → report_due
+export const GRANT_STATUS_TRANSITIONS: Record<GrantStatus, GrantStatus[]> = {
+  [GrantStatus.PROSPECT]: [GrantStatus.SUBMITTED],
+  [GrantStatus.SUBMITTED]: [GrantStatus.AWARDED, GrantStatus.DECLINED],
+  [GrantStatus.AWARDED]: [GrantStatus.REPORT_DUE],
+  [GrantStatus.DECLINED]: [],
+  [GrantStatus.REPORT_DUE]: [],
+};
+
+export function canTransitionGrant(from: GrantStatus, to: GrantStatus): boolean {
+  return GRANT_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+// Statuses whose money counts as awarded
+export const AWARDED_STATUSES = [GrantStatus.AWARDED, GrantStatus.REPORT_DUE];
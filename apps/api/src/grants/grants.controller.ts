@@ -0,0 +1,87 @@
+import { Controller, Get, Post, Body, Patch, Param, Delete, Query, UseGuards, Request } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiHeader } from '@nestjs/swagger';
+import { TenantGuard } from '../common/guards/tenant.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { CurrentTenant } from '../common/decorators/current-tenant.decorator';
+import { Roles } from '../common/decorators/roles.decorator';
+import { ApiListQuery, ListQuery } from '../common/decorators/list-query.decorator';
+import { ParsedListQuery } from '../common/list-query';
+import { GRANT_LIST_SPEC, GrantsService } from './grants.service';
+import { CreateGrantDto, UpdateGrantDto } from './dto/create-grant.dto';
+import { UpdateGrantStatusDto } from './dto/update-grant-status.dto';
+import { UpcomingDeadlinesDto } from './dto/upcoming-deadlines.dto';
+
+@ApiTags('grants')
+@Controller('grants')
+@UseGuards(TenantGuard, RolesGuard)
+@ApiBearerAuth()
+@ApiHeader({ name: 'x-tenant-id', description: 'Tenant ID or slug' })
+export class GrantsController {
+  constructor(private readonly grantsService: GrantsService) {}
+
+  @Post()
+  @Roles('grants', 'create')
+  @ApiOperation({ summary: 'Create a new grant application' })
+  @ApiResponse({ status: 201, description: 'Grant application created successfully' })
+  async create(@Body() createGrantDto: CreateGrantDto, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.grantsService.create(createGrantDto, tenantId, req.user.sub);
+  }
+
+  @Get()
+  @Roles('grants', 'read')
+  @ApiOperation({ summary: 'List grant applications with pagination, sorting and filters' })
+  @ApiListQuery(GRANT_LIST_SPEC)
+  @ApiResponse({ status: 200, description: 'Grant applications retrieved successfully' })
+  async findAll(@ListQuery(GRANT_LIST_SPEC) query: ParsedListQuery, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.grantsService.findAll(query, tenantId, req.user.sub);
+  }
+
+  @Get('deadlines')
+  @Roles('grants', 'read')
+  @ApiOperation({ summary: 'Get open grant applications due within N days' })
+  @ApiResponse({ status: 200, description: 'Upcoming deadlines retrieved successfully' })
+  async getUpcomingDeadlines(@Query() query: UpcomingDeadlinesDto, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.grantsService.getUpcomingDeadlines(query.days ?? 30, tenantId, req.user.sub);
+  }
+
+  @Get('totals')
+  @Roles('grants', 'read')
+  @ApiOperation({ summary: 'Get requested vs awarded totals' })
+  @ApiResponse({ status: 200, description: 'Totals retrieved successfully' })
+  async getTotals(@CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.grantsService.getTotals(tenantId, req.user.sub);
+  }
+
+  @Get(':id')
+  @Roles('grants', 'read')
+  @ApiOperation({ summary: 'Get grant application by ID' })
+  @ApiResponse({ status: 200, description: 'Grant application retrieved successfully' })
+  async findOne(@Param('id') id: string, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.grantsService.findOne(id, tenantId, req.user.sub);
+  }
+
+  @Patch(':id')
+  @Roles('grants', 'update')
+  @ApiOperation({ summary: 'Update grant application details' })
+  @ApiResponse({ status: 200, description: 'Grant application updated successfully' })
+  async update(@Param('id') id: string, @Body() updateGrantDto: UpdateGrantDto, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.grantsService.update(id, updateGrantDto, tenantId, req.user.sub);
+  }
+
+  @Patch(':id/status')
+  @Roles('grants', 'update')
+  @ApiOperation({ summary: 'Move a grant application to its next status' })
+  @ApiResponse({ status: 200, description: 'Status updated successfully' })
+  @ApiResponse({ status: 400, description: 'Transition not allowed' })
+  async updateStatus(@Param('id') id: string, @Body() updateGrantStatusDto: UpdateGrantStatusDto, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.grantsService.updateStatus(id, updateGrantStatusDto, tenantId, req.user.sub);
+  }
+
+  @Delete(':id')
+  @Roles('grants', 'delete')
+  @ApiOperation({ summary: 'Delete grant application' })
+  @ApiResponse({ status: 200, description: 'Grant application deleted successfully' })
+  async remove(@Param('id') id: string, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.grantsService.remove(id, tenantId, req.user.sub);
+  }
+}
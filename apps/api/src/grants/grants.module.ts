@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { GrantsService } from './grants.service';
+import { GrantsController } from './grants.controller';
+
+@Module({
+  providers: [GrantsService],
+  controllers: [GrantsController],
+  exports: [GrantsService],
+})
+export class GrantsModule {}
@@ -0,0 +1,148 @@
+import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
+import { db, Prisma } from '@crmblr/db';
+import { CreateGrantRequest, GrantStatus, UpdateGrantRequest, UpdateGrantStatusRequest } from '@crmblr/types';
+import { ListQuerySpec, ParsedListQuery, toPaginatedResponse, toPrismaArgs } from '../common/list-query';
+import { AWARDED_STATUSES, canTransitionGrant } from './grant-status';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Statuses that still have a deadline someone needs to act on
+const OPEN_STATUSES = [GrantStatus.PROSPECT, GrantStatus.SUBMITTED, GrantStatus.REPORT_DUE];
+
+export const GRANT_LIST_SPEC: ListQuerySpec = {
+  fields: {
+    name: { type: 'string', sortable: true },
+    status: { type: 'enum', values: Object.values(GrantStatus) },
+    organizationId: { type: 'uuid' },
+    amountRequested: { type: 'number', sortable: true },
+    amountAwarded: { type: 'number', sortable: true },
+    deadline: { type: 'date', sortable: true },
+    createdAt: { type: 'date', sortable: true },
+  },
+  defaultSort: 'deadline',
+  searchFields: ['name'],
+  customFields: true,
+};
+
+@Injectable()
+export class GrantsService {
+  // New applications start as prospects; updateStatus moves them on
+  async create(createGrantDto: CreateGrantRequest, tenantId: string, userId: string) {
+    return db.forTenant(tenantId, userId).grantApp.create({
+      data: {
+        tenantId,
+        ...createGrantDto,
+        status: GrantStatus.PROSPECT,
+      },
+    });
+  }
+
+  async findAll(query: ParsedListQuery, tenantId: string, userId: string) {
+    const client = db.forTenant(tenantId, userId);
+    const args = toPrismaArgs<Prisma.GrantAppWhereInput, Prisma.GrantAppOrderByWithRelationInput>(query, GRANT_LIST_SPEC);
+
+    const [rows, total] = await Promise.all([
+      client.grantApp.findMany({ ...args, include: { organization: true } }),
+      client.grantApp.count({ where: args.where }),
+    ]);
+
+    return toPaginatedResponse(rows, total, query);
+  }
+
+  async findOne(id: string, tenantId: string, userId: string) {
+    return db.forTenant(tenantId, userId).grantApp.findUnique({
+      where: { id },
+      include: { organization: true },
+    });
+  }
+
+  async update(id: string, updateGrantDto: UpdateGrantRequest, tenantId: string, userId: string) {
+    return db.forTenant(tenantId, userId).grantApp.update({
+      where: { id },
+      data: updateGrantDto,
+    });
+  }
+
+  async updateStatus(id: string, request: UpdateGrantStatusRequest, tenantId: string, userId: string) {
+    return db.withTenant(tenantId, userId, async (tx) => {
+      const grant = await tx.grantApp.findUnique({ where: { id } });
+      if (!grant) {
+        throw new NotFoundException('Grant application not found');
+      }
+
+      const from = grant.status as GrantStatus;
+      if (!canTransitionGrant(from, request.status)) {
+        throw new BadRequestException(`Cannot move grant from ${from} to ${request.status}`);
+      }
+
+      return tx.grantApp.update({
+        where: { id },
+        data: {
+          status: request.status,
+          notes: request.notes ?? undefined,
+          // Record the award when it happens; default to what was asked for
+          amountAwarded: request.status === GrantStatus.AWARDED
+            ? request.amountAwarded ?? grant.amountRequested
+            : undefined,
+        },
+      });
+    });
+  }
+
+  async remove(id: string, tenantId: string, userId: string) {
+    await db.forTenant(tenantId, userId).grantApp.delete({
+      where: { id },
+    });
+  }
+
+  async getUpcomingDeadlines(days: number, tenantId: string, userId: string) {
+    const now = new Date();
+    const until = new Date(now.getTime() + days * DAY_MS);
+
+    const grants = await db.forTenant(tenantId, userId).grantApp.findMany({
+      where: {
+        status: { in: OPEN_STATUSES },
+        deadline: { gte: now, lte: until },
+      },
+      include: { organization: true },
+      orderBy: { deadline: 'asc' },
+    });
+
+    return grants.map(grant => ({
+      ...grant,
+      daysRemaining: Math.ceil((grant.deadline.getTime() - now.getTime()) / DAY_MS),
+    }));
+  }
+
+  async getTotals(tenantId: string, userId: string) {
+    const client = db.forTenant(tenantId, userId);
+
+    const [requested, awarded, byStatus] = await Promise.all([
+      client.grantApp.aggregate({
+        _sum: { amountRequested: true },
+        _count: true,
+      }),
+      client.grantApp.aggregate({
+        where: { status: { in: AWARDED_STATUSES } },
+        _sum: { amountAwarded: true },
+      }),
+      client.grantApp.groupBy({
+        by: ['status'],
+        _sum: { amountRequested: true, amountAwarded: true },
+        _count: true,
+      }),
+    ]);
+
+    return {
+      grantCount: requested._count,
+      totalRequested: requested._sum.amountRequested || 0,
+      totalAwarded: awarded._sum.amountAwarded || 0,
+      byStatus: byStatus.map(group => ({
+        status: group.status,
+        count: group._count,
+        amountRequested: group._sum.amountRequested || 0,
+        amountAwarded: group._sum.amountAwarded || 0,
+      })),
+    };
+  }
+}
@@ -1,11 +1,24 @@
 import { NestFactory } from '@nestjs/core';
 import { ValidationPipe } from '@nestjs/common';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import { AppModule } from './app.module';
 import { db } from '@crmblr/db';
 
+// Express 'trust proxy' setting: a hop count, true, or a list of proxy addresses
+function trustProxy(value: string | undefined): number | boolean | string {
+  if (!value) return false;
+  if (/^\d+$/.test(value)) return Number(value);
+  if (value === 'true' || value === 'false') return value === 'true';
+  return value;
+}
+
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
+
+  // Client addresses in audit logs come from request.ip, which only reads
+  // X-Forwarded-For when it was set by a trusted proxy
+  app.set('trust proxy', trustProxy(process.env.TRUST_PROXY));
   
   // Enable CORS
   app.enableCors({
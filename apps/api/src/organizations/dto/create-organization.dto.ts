@@ -0,0 +1,55 @@
+import { IsString, IsOptional, IsEnum, IsObject, IsUrl } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { OrganizationType } from '@crmblr/types';
+
+export class CreateOrganizationDto {
+  @ApiProperty({ description: 'Organization name' })
+  @IsString()
+  name: string;
+
+  @ApiProperty({ description: 'Organization type', enum: OrganizationType })
+  @IsEnum(OrganizationType)
+  type: OrganizationType;
+
+  @ApiProperty({ description: 'Website URL', required: false })
+  @IsOptional()
+  @IsUrl()
+  website?: string;
+
+  @ApiProperty({ description: 'Location', required: false })
+  @IsOptional()
+  @IsString()
+  location?: string;
+
+  @ApiProperty({ description: 'Custom fields', required: false })
+  @IsOptional()
+  @IsObject()
+  custom?: any;
+}
+
+export class UpdateOrganizationDto {
+  @ApiProperty({ description: 'Organization name', required: false })
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @ApiProperty({ description: 'Organization type', enum: OrganizationType, required: false })
+  @IsOptional()
+  @IsEnum(OrganizationType)
+  type?: OrganizationType;
+
+  @ApiProperty({ description: 'Website URL', required: false })
+  @IsOptional()
+  @IsUrl()
+  website?: string;
+
+  @ApiProperty({ description: 'Location', required: false })
+  @IsOptional()
+  @IsString()
+  location?: string;
+
+  @ApiProperty({ description: 'Custom fields', required: false })
+  @IsOptional()
+  @IsObject()
+  custom?: any;
+}
@@ -0,0 +1,61 @@
+import { Controller, Get, Post, Body, Patch, Param, Delete, UseGuards, Request } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiHeader } from '@nestjs/swagger';
+import { TenantGuard } from '../common/guards/tenant.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { CurrentTenant } from '../common/decorators/current-tenant.decorator';
+import { Roles } from '../common/decorators/roles.decorator';
+import { ApiListQuery, ListQuery } from '../common/decorators/list-query.decorator';
+import { ParsedListQuery } from '../common/list-query';
+import { ORGANIZATION_LIST_SPEC, OrganizationsService } from './organizations.service';
+import { CreateOrganizationDto, UpdateOrganizationDto } from './dto/create-organization.dto';
+
+@ApiTags('organizations')
+@Controller('organizations')
+@UseGuards(TenantGuard, RolesGuard)
+@ApiBearerAuth()
+@ApiHeader({ name: 'x-tenant-id', description: 'Tenant ID or slug' })
+export class OrganizationsController {
+  constructor(private readonly organizationsService: OrganizationsService) {}
+
+  @Post()
+  @Roles('organizations', 'create')
+  @ApiOperation({ summary: 'Create a new organization' })
+  @ApiResponse({ status: 201, description: 'Organization created successfully' })
+  async create(@Body() createOrganizationDto: CreateOrganizationDto, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.organizationsService.create(createOrganizationDto, tenantId, req.user.sub);
+  }
+
+  @Get()
+  @Roles('organizations', 'read')
+  @ApiOperation({ summary: 'List organizations with pagination, sorting and filters' })
+  @ApiListQuery(ORGANIZATION_LIST_SPEC)
+  @ApiResponse({ status: 200, description: 'Organizations retrieved successfully' })
+  async findAll(@ListQuery(ORGANIZATION_LIST_SPEC) query: ParsedListQuery, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.organizationsService.findAll(query, tenantId, req.user.sub);
+  }
+
+  @Get(':id')
+  @Roles('organizations', 'read')
+  @ApiOperation({ summary: 'Get organization with donations, grant applications and totals' })
+  @ApiResponse({ status: 200, description: 'Organization retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Organization not found' })
+  async findOne(@Param('id') id: string, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.organizationsService.findOne(id, tenantId, req.user.sub);
+  }
+
+  @Patch(':id')
+  @Roles('organizations', 'update')
+  @ApiOperation({ summary: 'Update organization' })
+  @ApiResponse({ status: 200, description: 'Organization updated successfully' })
+  async update(@Param('id') id: string, @Body() updateOrganizationDto: UpdateOrganizationDto, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.organizationsService.update(id, updateOrganizationDto, tenantId, req.user.sub);
+  }
+
+  @Delete(':id')
+  @Roles('organizations', 'delete')
+  @ApiOperation({ summary: 'Delete organization' })
+  @ApiResponse({ status: 200, description: 'Organization deleted successfully' })
+  async remove(@Param('id') id: string, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.organizationsService.remove(id, tenantId, req.user.sub);
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { OrganizationsService } from './organizations.service';
+import { OrganizationsController } from './organizations.controller';
+
+@Module({
+  providers: [OrganizationsService],
+  controllers: [OrganizationsController],
+  exports: [OrganizationsService],
+})
+export class OrganizationsModule {}
@@ -0,0 +1,93 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { db, Prisma } from '@crmblr/db';
+import { CreateOrganizationRequest, OrganizationType, UpdateOrganizationRequest } from '@crmblr/types';
+import { ListQuerySpec, ParsedListQuery, toPaginatedResponse, toPrismaArgs } from '../common/list-query';
+
+export const ORGANIZATION_LIST_SPEC: ListQuerySpec = {
+  fields: {
+    name: { type: 'string', sortable: true },
+    type: { type: 'enum', values: Object.values(OrganizationType) },
+    location: { type: 'string' },
+    relationshipManagerId: { type: 'uuid' },
+    createdAt: { type: 'date', sortable: true },
+  },
+  defaultSort: 'name',
+  searchFields: ['name'],
+  customFields: true,
+};
+
+@Injectable()
+export class OrganizationsService {
+  async create(createOrganizationDto: CreateOrganizationRequest, tenantId: string, userId: string) {
+    return db.forTenant(tenantId, userId).organization.create({
+      data: {
+        tenantId,
+        ...createOrganizationDto,
+      },
+    });
+  }
+
+  async findAll(query: ParsedListQuery, tenantId: string, userId: string) {
+    const client = db.forTenant(tenantId, userId);
+    const args = toPrismaArgs<Prisma.OrganizationWhereInput, Prisma.OrganizationOrderByWithRelationInput>(query, ORGANIZATION_LIST_SPEC);
+
+    const [rows, total] = await Promise.all([
+      client.organization.findMany(args),
+      client.organization.count({ where: args.where }),
+    ]);
+
+    return toPaginatedResponse(rows, total, query);
+  }
+
+  // Organization with its donations and grant applications plus running totals
+  async findOne(id: string, tenantId: string, userId: string) {
+    const client = db.forTenant(tenantId, userId);
+
+    const [organization, donationTotals, grantTotals] = await Promise.all([
+      client.organization.findUnique({
+        where: { id },
+        include: {
+          donations: { orderBy: { date: 'desc' } },
+          grantApps: { orderBy: { deadline: 'asc' } },
+        },
+      }),
+      client.donation.aggregate({
+        where: { organizationId: id },
+        _sum: { amount: true },
+        _count: true,
+      }),
+      client.grantApp.aggregate({
+        where: { organizationId: id },
+        _sum: { amountRequested: true },
+        _count: true,
+      }),
+    ]);
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    return {
+      ...organization,
+      totals: {
+        donationCount: donationTotals._count,
+        donationAmount: donationTotals._sum.amount || 0,
+        grantCount: grantTotals._count,
+        grantAmountRequested: grantTotals._sum.amountRequested || 0,
+      },
+    };
+  }
+
+  async update(id: string, updateOrganizationDto: UpdateOrganizationRequest, tenantId: string, userId: string) {
+    return db.forTenant(tenantId, userId).organization.update({
+      where: { id },
+      data: updateOrganizationDto,
+    });
+  }
+
+  async remove(id: string, tenantId: string, userId: string) {
+    await db.forTenant(tenantId, userId).organization.delete({
+      where: { id },
+    });
+  }
+}
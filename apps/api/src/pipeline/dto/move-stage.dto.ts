@@ -0,0 +1,21 @@
+import { IsString, IsOptional, IsEnum, IsDate } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { ContactStage } from '@crmblr/types';
+
+export class MoveStageDto {
+  @ApiProperty({ description: 'Stage to move the contact to', enum: ContactStage })
+  @IsEnum(ContactStage)
+  stage: ContactStage;
+
+  @ApiProperty({ description: 'Note recorded with the move', required: false })
+  @IsOptional()
+  @IsString()
+  note?: string;
+
+  @ApiProperty({ description: 'When the move happened, no earlier than the latest move (defaults to now)', required: false })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  occurredAt?: Date;
+}
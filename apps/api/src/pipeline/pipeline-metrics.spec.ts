@@ -0,0 +1,42 @@
+import { ContactStage } from '@crmblr/types';
+import { summarizePipelineMetrics } from './pipeline-metrics';
+
+describe('pipeline metrics', () => {
+  it('counts contacts per stage in pipeline order', () => {
+    const metrics = summarizePipelineMetrics(
+      [
+        { stage: ContactStage.SOLICITED, count: 1 },
+        { stage: ContactStage.IDENTIFIED, count: 2 },
+      ],
+      [],
+      0,
+      90,
+    );
+
+    expect(metrics.stages.map(stage => [stage.stage, stage.count])).toEqual([
+      [ContactStage.IDENTIFIED, 2],
+      [ContactStage.QUALIFIED, 0],
+      [ContactStage.CULTIVATED, 0],
+      [ContactStage.SOLICITED, 1],
+      [ContactStage.STEWARDED, 0],
+    ]);
+  });
+
+  it('averages the days in each stage over its stints', () => {
+    const metrics = summarizePipelineMetrics(
+      [],
+      [
+        { stage: ContactStage.QUALIFIED, stints: 2, days: 60.4 },
+        { stage: ContactStage.CULTIVATED, stints: 3, days: 10 },
+      ],
+      4,
+      30,
+    );
+
+    const byStage = Object.fromEntries(metrics.stages.map(stage => [stage.stage, stage.averageDaysInStage]));
+    expect(byStage[ContactStage.QUALIFIED]).toBe(30);
+    expect(byStage[ContactStage.CULTIVATED]).toBe(3);
+    expect(byStage[ContactStage.STEWARDED]).toBe(0);
+    expect(metrics).toMatchObject({ advancedInWindow: 4, windowDays: 30 });
+  });
+});
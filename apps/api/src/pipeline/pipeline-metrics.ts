@@ -0,0 +1,52 @@
+import { ContactStage } from '@crmblr/types';
+
+export const STAGE_ORDER: ContactStage[] = [
+  ContactStage.IDENTIFIED,
+  ContactStage.QUALIFIED,
+  ContactStage.CULTIVATED,
+  ContactStage.SOLICITED,
+  ContactStage.STEWARDED,
+];
+
+export interface StageCount {
+  stage: string;
+  count: number;
+}
+
+// Number and total length of the stints spent in a stage
+export interface StageStints {
+  stage: string;
+  stints: number;
+  days: number;
+}
+
+export interface StageMetrics {
+  stage: ContactStage;
+  count: number;
+  averageDaysInStage: number;
+}
+
+export interface PipelineMetrics {
+  stages: StageMetrics[];
+  advancedInWindow: number;
+  windowDays: number;
+}
+
+/** Per-stage counts and average days in stage in pipeline order, with stages nobody is in as zero. */
+export function summarizePipelineMetrics(
+  counts: StageCount[],
+  stints: StageStints[],
+  advancedInWindow: number,
+  windowDays: number,
+): PipelineMetrics {
+  const stages = STAGE_ORDER.map(stage => {
+    const stageStints = stints.find(row => row.stage === stage);
+    return {
+      stage,
+      count: counts.find(row => row.stage === stage)?.count ?? 0,
+      averageDaysInStage: stageStints?.stints ? Math.round(stageStints.days / stageStints.stints) : 0,
+    };
+  });
+
+  return { stages, advancedInWindow, windowDays };
+}
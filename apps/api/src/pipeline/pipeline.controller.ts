@@ -0,0 +1,43 @@
+import { Controller, Get, Post, Body, Param, Query, UseGuards, Request } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiHeader } from '@nestjs/swagger';
+import { TenantGuard } from '../common/guards/tenant.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { CurrentTenant } from '../common/decorators/current-tenant.decorator';
+import { Roles } from '../common/decorators/roles.decorator';
+import { PipelineService } from './pipeline.service';
+import { MoveStageDto } from './dto/move-stage.dto';
+import { PipelineMetricsDto } from './dto/pipeline-metrics.dto';
+
+@ApiTags('pipeline')
+@Controller('pipeline')
+@UseGuards(TenantGuard, RolesGuard)
+@ApiBearerAuth()
+@ApiHeader({ name: 'x-tenant-id', description: 'Tenant ID or slug' })
+export class PipelineController {
+  constructor(private readonly pipelineService: PipelineService) {}
+
+  @Post('contacts/:contactId/stage')
+  @Roles('contacts', 'update', { param: 'contactId', after: result => result.contact })
+  @ApiOperation({ summary: 'Move a contact to a new pipeline stage' })
+  @ApiResponse({ status: 201, description: 'Contact moved and pipeline event recorded' })
+  @ApiResponse({ status: 400, description: 'Contact is already in that stage, or the move is dated before their latest one' })
+  async moveStage(@Param('contactId') contactId: string, @Body() moveStageDto: MoveStageDto, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.pipelineService.moveStage(contactId, moveStageDto, tenantId, req.user.sub);
+  }
+
+  @Get('contacts/:contactId/history')
+  @Roles('contacts', 'read')
+  @ApiOperation({ summary: 'Get the stage history for a contact' })
+  @ApiResponse({ status: 200, description: 'Stage history retrieved successfully' })
+  async getHistory(@Param('contactId') contactId: string, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.pipelineService.getHistory(contactId, tenantId, req.user.sub);
+  }
+
+  @Get('metrics')
+  @Roles('contacts', 'read')
+  @ApiOperation({ summary: 'Get stage counts, time in stage and recent advances' })
+  @ApiResponse({ status: 200, description: 'Pipeline metrics retrieved successfully' })
+  async getMetrics(@Query() query: PipelineMetricsDto, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.pipelineService.getMetrics(query.days ?? 90, tenantId, req.user.sub);
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { PipelineService } from './pipeline.service';
+import { PipelineController } from './pipeline.controller';
+
+@Module({
+  providers: [PipelineService],
+  controllers: [PipelineController],
+  exports: [PipelineService],
+})
+export class PipelineModule {}
@@ -0,0 +1,122 @@
+import { randomUUID } from 'crypto';
+import { db } from '@crmblr/db';
+import { ContactStage } from '@crmblr/types';
+import { PipelineService } from './pipeline.service';
+
+// Needs a migrated database with rls_policies.sql applied; these run only when DATABASE_URL is set
+const describeWithDatabase = process.env.DATABASE_URL ? describe : describe.skip;
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+interface SeedContact {
+  stage: ContactStage;
+  createdAt: Date;
+  moves?: [ContactStage, Date][];
+}
+
+describeWithDatabase('PipelineService.getMetrics', () => {
+  const service = new PipelineService();
+  const userId = randomUUID();
+  const tenantIds: string[] = [];
+
+  // A tenant of its own per case, created as the table owner, which row security does not apply to
+  async function seed(contacts: SeedContact[]) {
+    const tenant = await db.client.tenant.create({
+      data: { name: 'Pipeline', slug: `pipeline-${randomUUID().slice(0, 8)}` },
+    });
+    tenantIds.push(tenant.id);
+
+    for (const contact of contacts) {
+      await db.client.contact.create({
+        data: {
+          tenantId: tenant.id,
+          firstName: 'Test',
+          lastName: 'Contact',
+          stage: contact.stage,
+          createdAt: contact.createdAt,
+          pipelineEvents: {
+            create: (contact.moves ?? []).map(([stage, occurredAt]) => ({ tenantId: tenant.id, stage, occurredAt })),
+          },
+        },
+      });
+    }
+    return tenant.id;
+  }
+
+  const averages = async (tenantId: string, windowDays = 90) => {
+    const metrics = await service.getMetrics(windowDays, tenantId, userId);
+    return Object.fromEntries(metrics.stages.map(stage => [stage.stage, stage.averageDaysInStage]));
+  };
+
+  afterAll(async () => {
+    await db.client.tenant.deleteMany({ where: { id: { in: tenantIds } } });
+    await db.disconnect();
+  });
+
+  it('averages time in stage across completed and current stints', async () => {
+    const tenantId = await seed([
+      {
+        stage: ContactStage.CULTIVATED,
+        createdAt: daysAgo(100),
+        moves: [[ContactStage.QUALIFIED, daysAgo(60)], [ContactStage.CULTIVATED, daysAgo(20)]],
+      },
+      { stage: ContactStage.QUALIFIED, createdAt: daysAgo(20) },
+    ]);
+
+    // First contact: qualified for 40 days (finished); second: no events, qualified since creation 20 days ago
+    expect(await averages(tenantId)).toMatchObject({
+      [ContactStage.QUALIFIED]: 30,
+      [ContactStage.CULTIVATED]: 20,
+      [ContactStage.STEWARDED]: 0,
+    });
+  });
+
+  it('counts the time from creation to the first move as identified', async () => {
+    const tenantId = await seed([
+      { stage: ContactStage.QUALIFIED, createdAt: daysAgo(50), moves: [[ContactStage.QUALIFIED, daysAgo(20)]] },
+      { stage: ContactStage.IDENTIFIED, createdAt: daysAgo(10) },
+    ]);
+
+    // First contact: identified for 30 days before qualifying; second: identified since creation 10 days ago
+    expect(await averages(tenantId)).toMatchObject({ [ContactStage.IDENTIFIED]: 20, [ContactStage.QUALIFIED]: 20 });
+  });
+
+  it('leaves out stints that ended before the window', async () => {
+    const tenantId = await seed([
+      {
+        stage: ContactStage.CULTIVATED,
+        createdAt: daysAgo(300),
+        moves: [[ContactStage.QUALIFIED, daysAgo(250)], [ContactStage.CULTIVATED, daysAgo(100)]],
+      },
+      {
+        stage: ContactStage.SOLICITED,
+        createdAt: daysAgo(60),
+        moves: [[ContactStage.QUALIFIED, daysAgo(50)], [ContactStage.SOLICITED, daysAgo(40)]],
+      },
+    ]);
+
+    // The first contact's 150 days as qualified ended 100 days ago
+    expect(await averages(tenantId)).toMatchObject({
+      [ContactStage.IDENTIFIED]: 10,
+      [ContactStage.QUALIFIED]: 10,
+      [ContactStage.CULTIVATED]: 100,
+    });
+  });
+
+  it('only counts forward moves inside the window as advances', async () => {
+    const tenantId = await seed([
+      { stage: ContactStage.QUALIFIED, createdAt: daysAgo(200), moves: [[ContactStage.QUALIFIED, daysAgo(5)]] },
+      {
+        stage: ContactStage.QUALIFIED,
+        createdAt: daysAgo(200),
+        moves: [[ContactStage.SOLICITED, daysAgo(150)], [ContactStage.QUALIFIED, daysAgo(5)]],
+      },
+      { stage: ContactStage.QUALIFIED, createdAt: daysAgo(200), moves: [[ContactStage.QUALIFIED, daysAgo(120)]] },
+    ]);
+
+    const metrics = await service.getMetrics(90, tenantId, userId);
+    expect(metrics.advancedInWindow).toBe(1);
+    expect(metrics.windowDays).toBe(90);
+    expect(metrics.stages.find(stage => stage.stage === ContactStage.QUALIFIED)?.count).toBe(3);
+  });
+});
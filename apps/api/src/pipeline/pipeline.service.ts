@@ -0,0 +1,140 @@
+import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
+import { db, Prisma } from '@crmblr/db';
+import { ContactStage, MoveContactStageRequest } from '@crmblr/types';
+import { STAGE_ORDER, StageStints, summarizePipelineMetrics } from './pipeline-metrics';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class PipelineService {
+  // Records the move and updates the contact's stage in one transaction. A move may
+  // be backdated, but not to before the contact existed or their latest move, since
+  // the contact's stage must stay that of their latest event.
+  async moveStage(contactId: string, request: MoveContactStageRequest, tenantId: string, userId: string) {
+    return db.withTenant(tenantId, userId, async (tx) => {
+      const contact = await tx.contact.findUnique({ where: { id: contactId } });
+      if (!contact) {
+        throw new NotFoundException('Contact not found');
+      }
+      if (contact.stage === request.stage) {
+        throw new BadRequestException(`Contact is already in the ${request.stage} stage`);
+      }
+
+      const now = new Date();
+      const occurredAt = request.occurredAt ?? now;
+      const latest = await tx.pipelineEvent.findFirst({
+        where: { contactId },
+        orderBy: { occurredAt: 'desc' },
+      });
+      if (occurredAt > now) {
+        throw new BadRequestException('A move cannot be recorded in the future');
+      }
+      if (occurredAt < contact.createdAt) {
+        throw new BadRequestException('A move cannot predate the contact');
+      }
+      if (latest && occurredAt < latest.occurredAt) {
+        throw new BadRequestException(`A move cannot predate the contact's latest move on ${latest.occurredAt.toISOString()}`);
+      }
+
+      const event = await tx.pipelineEvent.create({
+        data: {
+          tenantId,
+          contactId,
+          stage: request.stage,
+          note: request.note,
+          occurredAt,
+        },
+      });
+
+      const updated = await tx.contact.update({
+        where: { id: contactId },
+        data: { stage: request.stage },
+      });
+
+      return { contact: updated, event };
+    });
+  }
+
+  async getHistory(contactId: string, tenantId: string, userId: string) {
+    const client = db.forTenant(tenantId, userId);
+
+    const contact = await client.contact.findUnique({ where: { id: contactId } });
+    if (!contact) {
+      throw new NotFoundException('Contact not found');
+    }
+
+    return client.pipelineEvent.findMany({
+      where: { contactId },
+      orderBy: { occurredAt: 'asc' },
+    });
+  }
+
+  /**
+   * Stage counts, average time spent in each stage and the number of contacts that
+   * moved forward at least once in the trailing window, all aggregated in the database.
+   */
+  async getMetrics(windowDays: number, tenantId: string, userId: string) {
+    const now = new Date();
+    const windowStart = new Date(now.getTime() - windowDays * DAY_MS);
+
+    return db.withTenant(tenantId, userId, async (tx) => {
+      const counts = await tx.contact.groupBy({ by: ['stage'], _count: { _all: true } });
+      const stints = await this.sumStints(tx, tenantId, now, windowStart);
+      const [{ advanced }] = await this.countAdvanced(tx, tenantId, windowStart);
+
+      return summarizePipelineMetrics(
+        counts.map(row => ({ stage: row.stage, count: row._count._all })),
+        stints,
+        advanced,
+        windowDays,
+      );
+    });
+  }
+
+  // A stint in a stage runs from the event that entered it to the next event (or
+  // `now`). Contacts start out as identified, so the time from creation to the
+  // first event is a stint in that stage; contacts without events have sat in their
+  // current stage since creation. Only stints that ended in the window, or still
+  // go on, count.
+  private sumStints(tx: Prisma.TransactionClient, tenantId: string, now: Date, windowStart: Date) {
+    return tx.$queryRaw<StageStints[]>`
+      WITH moves AS (
+        SELECT e.stage, e."occurredAt" AS started,
+          coalesce(lead(e."occurredAt") OVER (PARTITION BY e."contactId" ORDER BY e."occurredAt"), ${now}) AS ended
+        FROM pipeline_events e
+        WHERE e."tenantId" = ${tenantId}::uuid
+      ),
+      arrivals AS (
+        SELECT CASE WHEN moved.at IS NULL THEN c.stage ELSE ${ContactStage.IDENTIFIED}::text END AS stage,
+          c."createdAt" AS started,
+          coalesce(moved.at, ${now}) AS ended
+        FROM contacts c
+        CROSS JOIN LATERAL (
+          SELECT min(e."occurredAt") AS at FROM pipeline_events e WHERE e."contactId" = c.id
+        ) moved
+        WHERE c."tenantId" = ${tenantId}::uuid
+      )
+      SELECT stint.stage, count(*)::int AS stints,
+        sum(greatest(extract(epoch FROM stint.ended - stint.started), 0) / 86400)::float8 AS days
+      FROM (SELECT * FROM moves UNION ALL SELECT * FROM arrivals) stint
+      WHERE stint.ended >= ${windowStart}
+      GROUP BY stint.stage
+    `;
+  }
+
+  // Contacts with a move in the window to a later stage than the one they left
+  private countAdvanced(tx: Prisma.TransactionClient, tenantId: string, windowStart: Date) {
+    return tx.$queryRaw<{ advanced: number }[]>`
+      SELECT count(DISTINCT move."contactId")::int AS advanced
+      FROM (
+        SELECT e."contactId", e.stage, e."occurredAt",
+          lag(e.stage, 1, ${ContactStage.IDENTIFIED}::text) OVER (PARTITION BY e."contactId" ORDER BY e."occurredAt") AS previous
+        FROM pipeline_events e
+        WHERE e."tenantId" = ${tenantId}::uuid
+      ) move
+      WHERE move."occurredAt" >= ${windowStart}
+        AND coalesce(array_position(${STAGE_ORDER}::text[], move.stage), 0)
+          > coalesce(array_position(${STAGE_ORDER}::text[], move.previous), 0)
+    `;
+  }
+}
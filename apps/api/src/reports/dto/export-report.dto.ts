@@ -0,0 +1,41 @@
+import { IsString, IsOptional, IsInt, IsObject, IsEnum, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { REPORT_EXPORT_ROW_LIMIT, ReportExportFormat } from '@crmblr/types';
+
+export class ExportReportDto {
+  @ApiProperty({ description: 'SQL query to export' })
+  @IsString()
+  sql: string;
+
+  @ApiProperty({ description: 'File format', enum: ReportExportFormat })
+  @IsEnum(ReportExportFormat)
+  format: ReportExportFormat;
+
+  @ApiProperty({ description: 'Maximum number of rows to export', required: false, default: REPORT_EXPORT_ROW_LIMIT })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(REPORT_EXPORT_ROW_LIMIT)
+  limit: number = REPORT_EXPORT_ROW_LIMIT;
+}
+
+export class ExportSavedReportDto {
+  @ApiProperty({ description: 'File format', enum: ReportExportFormat })
+  @IsEnum(ReportExportFormat)
+  format: ReportExportFormat;
+
+  @ApiProperty({ description: 'Parameter values by name; omitted parameters use their defaults', required: false })
+  @IsOptional()
+  @IsObject()
+  values: Record<string, unknown> = {};
+
+  @ApiProperty({ description: 'Maximum number of rows to export', required: false, default: REPORT_EXPORT_ROW_LIMIT })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(REPORT_EXPORT_ROW_LIMIT)
+  limit: number = REPORT_EXPORT_ROW_LIMIT;
+}
@@ -1,4 +1,4 @@
-import { IsString, IsOptional, IsNumber, Min, Max } from 'class-validator';
+import { IsString, IsOptional, IsNumber, IsInt, Min, Max } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 export class GenerateReportDto {
@@ -10,6 +10,25 @@ export class GenerateReportDto {
   @IsOptional()
   @IsString()
   module?: string;
+
+  @ApiProperty({ description: "Model to use instead of the tenant's default", required: false })
+  @IsOptional()
+  @IsString()
+  model?: string;
+
+  @ApiProperty({ description: 'Sampling temperature', required: false, minimum: 0, maximum: 2 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(2)
+  temperature?: number;
+
+  @ApiProperty({ description: 'Maximum number of tokens to generate', required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(4000)
+  maxTokens?: number;
 }
 
 export class RunReportDto {
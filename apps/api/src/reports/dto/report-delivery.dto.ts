@@ -0,0 +1,26 @@
+import { IsString, IsOptional, IsArray, IsEmail, IsEnum, Matches, ValidateIf } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { ReportFormat } from '@crmblr/types';
+
+export class ReportDeliveryDto {
+  @ApiProperty({ description: 'Cron expression, e.g. "0 8 * * 1" for Mondays at 8:00; null to stop', nullable: true })
+  @ValidateIf((dto) => dto.schedule !== null)
+  @IsString()
+  @Matches(/^\S+(\s+\S+){4}$/, { message: 'schedule must be a cron expression with five fields' })
+  schedule: string | null;
+
+  @ApiProperty({ description: 'IANA time zone the schedule is read in', required: false, default: 'UTC' })
+  @IsOptional()
+  @IsString()
+  timezone: string = 'UTC';
+
+  @ApiProperty({ description: 'Email addresses the result is sent to', type: [String] })
+  @IsArray()
+  @IsEmail({}, { each: true })
+  recipients: string[];
+
+  @ApiProperty({ description: 'Attachment format', enum: ReportFormat, required: false, default: ReportFormat.CSV })
+  @IsOptional()
+  @IsEnum(ReportFormat)
+  format: ReportFormat = ReportFormat.CSV;
+}
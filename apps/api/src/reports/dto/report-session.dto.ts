@@ -0,0 +1,27 @@
+import { IsString, IsOptional, IsNumber, IsInt, Min, Max } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ReportSessionTurnDto {
+  @ApiProperty({ description: 'Follow-up prompt, e.g. "now only last year"' })
+  @IsString()
+  prompt: string;
+
+  @ApiProperty({ description: "Model to use instead of the tenant's default", required: false })
+  @IsOptional()
+  @IsString()
+  model?: string;
+
+  @ApiProperty({ description: 'Sampling temperature', required: false, minimum: 0, maximum: 2 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(2)
+  temperature?: number;
+
+  @ApiProperty({ description: 'Maximum number of tokens to generate', required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(4000)
+  maxTokens?: number;
+}
@@ -1,10 +1,43 @@
-import { IsString, IsOptional, IsObject } from 'class-validator';
+import { IsString, IsOptional, IsInt, IsObject, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { ChartSpec } from '@crmblr/types';
 
 export class RunReportDto {
+  @ApiProperty({ description: 'SQL query to execute' })
   @IsString()
   sql: string;
 
+  @ApiProperty({ description: 'Maximum number of rows to return', required: false, default: 100 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  limit: number = 100;
+
+  // Checked against the result columns by the service
+  @ApiProperty({ description: 'Chart suggested when the SQL was generated', required: false })
+  @IsOptional()
+  @IsObject()
+  chart?: ChartSpec;
+}
+
+export class RunSavedReportDto {
+  @ApiProperty({
+    description: 'Parameter values by name; omitted parameters use their defaults',
+    required: false,
+    example: { min_amount: 500, months: 24 },
+  })
   @IsOptional()
   @IsObject()
-  limit?: number;
+  values: Record<string, unknown> = {};
+
+  @ApiProperty({ description: 'Maximum number of rows to return', required: false, default: 100 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  limit: number = 100;
 }
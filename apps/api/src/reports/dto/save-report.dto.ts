@@ -1,4 +1,5 @@
-import { IsString, IsOptional } from 'class-validator';
+import { IsString, IsOptional, IsArray, IsObject } from 'class-validator';
+import { ChartSpec, ReportParameter } from '@crmblr/types';
 
 export class SaveReportDto {
   @IsString()
@@ -10,4 +11,14 @@ export class SaveReportDto {
   @IsOptional()
   @IsString()
   description?: string;
+
+  // Checked against ReportParametersSchema by the service
+  @IsOptional()
+  @IsArray()
+  parameters?: ReportParameter[];
+
+  // Checked against ChartSpecSchema by the service; null shows the result as a table
+  @IsOptional()
+  @IsObject()
+  chart?: ChartSpec | null;
 }
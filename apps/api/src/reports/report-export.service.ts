@@ -0,0 +1,275 @@
+import { Injectable, Logger, RequestTimeoutException } from '@nestjs/common';
+import { Response } from 'express';
+import { db, QueryTimeoutError } from '@crmblr/db';
+import {
+  ExportReportRequest,
+  ExportSavedReportRequest,
+  ReportExportFormat,
+  TenantBranding,
+} from '@crmblr/types';
+import { ReportsService } from './reports.service';
+import { buildWorkbook, describeColumnKinds, resolveLogoUrl, toCsvLine } from './report-export';
+import { PdfBranding, renderReportPdf } from './report-pdf';
+
+// Rows fetched from the cursor per round trip
+const EXPORT_BATCH_SIZE = 500;
+const LOGO_TIMEOUT_MS = 3000;
+
+const CONTENT_TYPES: Record<ReportExportFormat, string> = {
+  [ReportExportFormat.CSV]: 'text/csv; charset=utf-8',
+  [ReportExportFormat.XLSX]: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  [ReportExportFormat.PDF]: 'application/pdf',
+};
+
+export interface ExportContext {
+  tenantId: string;
+  userId: string;
+  ip?: string;
+  ua?: string;
+}
+
+interface ExportJob {
+  name: string;
+  description?: string;
+  reportId?: string;
+  sql: string;
+  values: unknown[];
+  format: ReportExportFormat;
+  limit: number;
+}
+
+@Injectable()
+export class ReportExportService {
+  private readonly logger = new Logger(ReportExportService.name);
+
+  constructor(private readonly reportsService: ReportsService) {}
+
+  async exportSQL(request: ExportReportRequest, context: ExportContext, res: Response) {
+    await this.export(
+      { name: 'Report', sql: request.sql, values: [], format: request.format, limit: request.limit },
+      context,
+      res,
+    );
+  }
+
+  async exportSavedReport(id: string, request: ExportSavedReportRequest, context: ExportContext, res: Response) {
+    const { report, sql, values } = await this.reportsService.bindSavedReport(id, request.values, context.tenantId, context.userId);
+
+    await this.export(
+      {
+        name: report.name,
+        description: report.description ?? undefined,
+        reportId: report.id,
+        sql,
+        values,
+        format: request.format,
+        limit: request.limit,
+      },
+      context,
+      res,
+    );
+  }
+
+  private async export(job: ExportJob, context: ExportContext, res: Response) {
+    // One row past the cap tells us whether the result was cut short
+    const sql = await this.reportsService.prepareSQL(job.sql, job.limit + 1, context.tenantId);
+
+    const result =
+      job.format === ReportExportFormat.CSV
+        ? await this.streamCsv(job, sql, context, res)
+        : await this.sendDocument(job, sql, context, res);
+    if (!result) {
+      return;
+    }
+
+    try {
+      await db.appendAuditLog({
+        tenantId: context.tenantId,
+        userId: context.userId,
+        action: 'export',
+        entity: 'reports',
+        entityId: job.reportId,
+        // Ad-hoc exports have no saved report to point at, so keep their SQL
+        meta: {
+          format: job.format,
+          rowCount: result.rowCount,
+          truncated: result.truncated,
+          ...(job.reportId ? {} : { sql: job.sql }),
+        },
+        ip: context.ip,
+        ua: context.ua,
+      });
+    } catch (error) {
+      this.logger.error(`Failed to write audit log for ${job.format} export`, error);
+    }
+  }
+
+  // Rows are written as they are fetched, so large results never sit in memory
+  private async streamCsv(job: ExportJob, sql: string, context: ExportContext, res: Response) {
+    let rowCount = 0;
+
+    const start = () => {
+      if (!res.headersSent) {
+        this.setHeaders(res, job);
+      }
+    };
+
+    try {
+      await this.fetchInBatches(sql, job.values, context, async rows => {
+        start();
+        if (rowCount === 0) {
+          await this.write(res, toCsvLine(Object.keys(rows[0])));
+        }
+        for (const row of rows.slice(0, Math.max(job.limit - rowCount, 0))) {
+          await this.write(res, toCsvLine(Object.values(row)));
+        }
+        rowCount += rows.length;
+      });
+    } catch (error) {
+      if (!res.headersSent) {
+        throw error;
+      }
+      // Too late for an error status; a cut-off download is the only signal left
+      this.logger.error(`CSV export failed after ${rowCount} rows`, error);
+      res.destroy();
+      return null;
+    }
+
+    start();
+    res.end();
+    return { rowCount: Math.min(rowCount, job.limit), truncated: rowCount > job.limit };
+  }
+
+  private async sendDocument(job: ExportJob, sql: string, context: ExportContext, res: Response) {
+    const fetched: Record<string, unknown>[] = [];
+    await this.fetchInBatches(sql, job.values, context, async rows => {
+      fetched.push(...rows);
+    });
+
+    const truncated = fetched.length > job.limit;
+    const rows = fetched.slice(0, job.limit);
+    const columns = describeColumnKinds(rows);
+
+    const content =
+      job.format === ReportExportFormat.XLSX
+        ? buildWorkbook(rows, columns, job.name)
+        : await renderReportPdf({
+            title: job.name,
+            description: job.description,
+            columns,
+            rows,
+            branding: await this.loadBranding(context),
+            generatedAt: new Date(),
+            truncated,
+          });
+
+    this.setHeaders(res, job);
+    res.setHeader('Content-Length', content.length);
+    res.end(content);
+    return { rowCount: rows.length, truncated };
+  }
+
+  /**
+   * Reads the result through a cursor inside the read-only tenant transaction,
+   * handing each batch over before the next one is fetched.
+   */
+  private async fetchInBatches(
+    sql: string,
+    values: unknown[],
+    context: ExportContext,
+    onBatch: (rows: Record<string, unknown>[]) => Promise<void>,
+  ) {
+    try {
+      await db.withReadOnlyTenant(context.tenantId, context.userId, async (tx) => {
+        await tx.$executeRawUnsafe(`DECLARE report_export NO SCROLL CURSOR FOR ${sql}`, ...values);
+        for (;;) {
+          const rows = await tx.$queryRawUnsafe<Record<string, unknown>[]>(`FETCH ${EXPORT_BATCH_SIZE} FROM report_export`);
+          if (rows.length > 0) {
+            await onBatch(rows);
+          }
+          if (rows.length < EXPORT_BATCH_SIZE) {
+            break;
+          }
+        }
+      });
+    } catch (error) {
+      if (error instanceof QueryTimeoutError) {
+        throw new RequestTimeoutException(`Report export exceeded the ${error.timeoutMs / 1000}s time limit`);
+      }
+      throw error;
+    }
+  }
+
+  // Waits for the client to catch up when the socket buffer is full
+  private write(res: Response, chunk: string): Promise<void> {
+    if (res.write(chunk)) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      const onDrain = () => {
+        res.off('close', onClose);
+        resolve();
+      };
+      // A client that went away would otherwise hold the transaction open until it times out
+      const onClose = () => {
+        res.off('drain', onDrain);
+        reject(new Error('Client closed the connection'));
+      };
+      res.once('drain', onDrain);
+      res.once('close', onClose);
+    });
+  }
+
+  private setHeaders(res: Response, job: ExportJob) {
+    const slug = job.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'report';
+    const filename = `${slug}-${new Date().toISOString().slice(0, 10)}.${job.format}`;
+    res.setHeader('Content-Type', CONTENT_TYPES[job.format]);
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  }
+
+  // Named colors win over the palette; the web app's defaults fill the gaps
+  private async loadBranding(context: ExportContext): Promise<PdfBranding> {
+    const tenant = await db.forTenant(context.tenantId, context.userId).tenant.findUnique({
+      where: { id: context.tenantId },
+      select: { name: true, branding: true },
+    });
+    const branding = (tenant?.branding ?? {}) as Partial<TenantBranding>;
+    const palette = branding.palette ?? [];
+    const colors = branding.colors ?? {};
+    const primary = colors.primary ?? palette[0] ?? '#1a365d';
+
+    return {
+      tenantName: tenant?.name ?? '',
+      primary,
+      secondary: colors.secondary ?? palette[1] ?? primary,
+      text: colors.text ?? '#2d3748',
+      muted: colors.muted ?? '#718096',
+      border: colors.border ?? '#e2e8f0',
+      logo: branding.logoUrl ? await this.loadLogo(branding.logoUrl) : undefined,
+    };
+  }
+
+  // Logos come from the web app (FRONTEND_URL) or an origin listed in LOGO_ASSET_ORIGINS
+  private async loadLogo(logoUrl: string): Promise<string | Buffer | undefined> {
+    try {
+      const assetOrigins = (process.env.LOGO_ASSET_ORIGINS || '').split(',').map(origin => origin.trim()).filter(Boolean);
+      const url = resolveLogoUrl(logoUrl, process.env.FRONTEND_URL || 'http://localhost:3000', assetOrigins);
+      if (!url) {
+        throw new Error('not on the web app or an allowed asset origin');
+      }
+      // Redirects could lead off the allowed origins
+      const response = await fetch(url, { signal: AbortSignal.timeout(LOGO_TIMEOUT_MS), redirect: 'error' });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const contentType = response.headers.get('content-type') ?? '';
+      if (contentType.includes('svg') || url.pathname.endsWith('.svg')) {
+        return await response.text();
+      }
+      return Buffer.from(await response.arrayBuffer());
+    } catch (error) {
+      this.logger.warn(`Could not load logo ${logoUrl}: ${error instanceof Error ? error.message : error}`);
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,150 @@
+import { randomUUID } from 'crypto';
+import { BadRequestException } from '@nestjs/common';
+import { Response } from 'express';
+import * as XLSX from 'xlsx';
+import { db, Prisma } from '@crmblr/db';
+import { ReportExportFormat } from '@crmblr/types';
+import { buildWorkbook, describeColumnKinds, formatValue, resolveLogoUrl, toCsvLine } from './report-export';
+import { ReportExportService } from './report-export.service';
+import { renderReportPdf } from './report-pdf';
+import { ReportSchemaService } from './report-schema.service';
+import { ReportsService } from './reports.service';
+
+const rows = [
+  { name: 'Ada', total_amount: new Prisma.Decimal('1250.5'), gifts: BigInt(3), first_gift: new Date('2024-01-02T00:00:00Z'), note: null },
+  { name: 'Grace, "G"', total_amount: new Prisma.Decimal('80'), gifts: BigInt(1), first_gift: new Date('2023-11-30T00:00:00Z'), note: { vip: true } },
+];
+
+describe('describeColumnKinds', () => {
+  it('types columns from their values and names', () => {
+    expect(describeColumnKinds(rows)).toEqual([
+      { name: 'name', kind: 'text' },
+      { name: 'total_amount', kind: 'currency' },
+      { name: 'gifts', kind: 'integer' },
+      { name: 'first_gift', kind: 'date' },
+      { name: 'note', kind: 'text' },
+    ]);
+  });
+
+  it('widens whole and fractional numbers to number and falls back to text on disagreement', () => {
+    const columns = describeColumnKinds([
+      { score: 80, label: 1 },
+      { score: 72.5, label: 'n/a' },
+    ]);
+    expect(columns).toEqual([
+      { name: 'score', kind: 'number' },
+      { name: 'label', kind: 'text' },
+    ]);
+  });
+
+  it('has no columns for an empty result', () => {
+    expect(describeColumnKinds([])).toEqual([]);
+  });
+});
+
+describe('toCsvLine', () => {
+  it('quotes fields with separators and terminates with CRLF', () => {
+    expect(toCsvLine(Object.values(rows[1]))).toBe('"Grace, ""G""",80,1,2023-11-30T00:00:00.000Z,"{""vip"":true}"\r\n');
+  });
+
+  it('leaves nulls empty', () => {
+    expect(toCsvLine(['a', null, undefined])).toBe('a,,\r\n');
+  });
+});
+
+describe('formatValue', () => {
+  it('formats currency, dates and numbers for display', () => {
+    expect(formatValue(new Prisma.Decimal('1250.5'), 'currency')).toBe('$1,250.50');
+    expect(formatValue(new Date('2024-01-02T00:00:00Z'), 'date')).toBe('2024-01-02');
+    expect(formatValue(1234.567, 'number')).toBe('1,234.57');
+  });
+});
+
+describe('buildWorkbook', () => {
+  it('writes typed cells with display formats', () => {
+    const buffer = buildWorkbook(rows, describeColumnKinds(rows), 'Top donors: 2024');
+    const workbook = XLSX.read(buffer, { type: 'buffer', cellNF: true });
+
+    expect(workbook.SheetNames).toEqual(['Top donors  2024']);
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    expect(sheet.A1.v).toBe('name');
+    expect(sheet.B2).toMatchObject({ t: 'n', v: 1250.5, z: '"$"#,##0.00' });
+    expect(sheet.C2).toMatchObject({ t: 'n', v: 3, z: '#,##0' });
+    expect(sheet.D2.z).toBe('yyyy-mm-dd');
+    expect(sheet.E3.v).toBe('{"vip":true}');
+  });
+});
+
+describe('renderReportPdf', () => {
+  it('renders a paginated PDF', async () => {
+    const many = Array.from({ length: 80 }, (_, index) => ({ name: `Donor ${index}`, total_amount: index * 10 }));
+    const pdf = await renderReportPdf({
+      title: 'Top donors',
+      columns: describeColumnKinds(many),
+      rows: many,
+      branding: {
+        tenantName: 'Makena',
+        primary: '#1a365d',
+        secondary: '#2b6cb0',
+        text: '#2d3748',
+        muted: '#718096',
+        border: '#e2e8f0',
+        logo: '<svg xmlns="http://www.w3.org/2000/svg" width="90" height="30"><rect width="90" height="30" fill="#1a365d"/></svg>',
+      },
+      generatedAt: new Date('2024-06-01T00:00:00Z'),
+    });
+
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    expect(pdf.toString('latin1').match(/\/Type \/Page\b/g)).toHaveLength(3);
+  });
+});
+
+describe('resolveLogoUrl', () => {
+  const frontendUrl = 'https://app.crmblr.com';
+
+  it('resolves relative paths against the web app', () => {
+    expect(resolveLogoUrl('/logos/makena.svg', frontendUrl)?.href).toBe('https://app.crmblr.com/logos/makena.svg');
+  });
+
+  it('allows configured asset origins', () => {
+    expect(resolveLogoUrl('https://cdn.crmblr.com/makena.png', frontendUrl, ['https://cdn.crmblr.com'])?.href)
+      .toBe('https://cdn.crmblr.com/makena.png');
+  });
+
+  it('rejects other hosts, schemes and ports', () => {
+    for (const logoUrl of [
+      'http://169.254.169.254/latest/meta-data/',
+      'http://localhost:3001/api/health',
+      'https://app.crmblr.com.evil.example/logo.png',
+      'http://app.crmblr.com/logo.png',
+      'https://app.crmblr.com:8443/logo.png',
+      'file:///etc/passwd',
+      '//internal/logo.png',
+    ]) {
+      expect(resolveLogoUrl(logoUrl, frontendUrl, ['https://cdn.crmblr.com'])).toBeNull();
+    }
+  });
+});
+
+describe('ReportExportService', () => {
+  const service = new ReportExportService(new ReportsService(new ReportSchemaService()));
+  const context = { tenantId: randomUUID(), userId: randomUUID() };
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('rejects SQL that reports may not run as a bad request', async () => {
+    const query = jest.spyOn(db, 'withReadOnlyTenant');
+    const res = { setHeader: jest.fn(), write: jest.fn(), end: jest.fn() };
+
+    const exported = service.exportSQL(
+      { sql: 'SELECT email FROM users', format: ReportExportFormat.CSV, limit: 100 },
+      context,
+      res as unknown as Response,
+    );
+
+    await expect(exported).rejects.toThrow(BadRequestException);
+    await expect(exported).rejects.toMatchObject({ response: { message: [expect.stringMatching(/^Invalid SQL: .*users/)] } });
+    expect(query).not.toHaveBeenCalled();
+    expect(res.setHeader).not.toHaveBeenCalled();
+  });
+});
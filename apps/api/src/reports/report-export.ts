@@ -0,0 +1,141 @@
+import * as XLSX from 'xlsx';
+import { Prisma } from '@crmblr/db';
+import { ResultColumnKind, TypedResultColumn } from '@crmblr/types';
+
+// Numeric columns with these words in their name hold money
+const CURRENCY_NAME = /amount|total|sum|revenue|raised|goal|target|gift|donat|given|pledge|award|requested/i;
+
+const XLSX_FORMATS: Partial<Record<ResultColumnKind, string>> = {
+  currency: '"$"#,##0.00',
+  date: 'yyyy-mm-dd',
+  integer: '#,##0',
+  number: '#,##0.##',
+};
+
+function kindOf(name: string, value: unknown): ResultColumnKind | undefined {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  if (value instanceof Date) {
+    return 'date';
+  }
+  if (typeof value === 'boolean') {
+    return 'boolean';
+  }
+  if (typeof value === 'bigint') {
+    return 'integer';
+  }
+  // Prisma returns numeric columns as Decimal, and money columns are numeric
+  if (Prisma.Decimal.isDecimal(value) || typeof value === 'number') {
+    if (CURRENCY_NAME.test(name)) {
+      return 'currency';
+    }
+    return typeof value === 'number' && Number.isInteger(value) ? 'integer' : 'number';
+  }
+  return 'text';
+}
+
+/**
+ * Column types of a result, judged from the non-null values of each column.
+ * Columns whose values disagree are treated as text.
+ */
+export function describeColumnKinds(rows: Record<string, unknown>[]): TypedResultColumn[] {
+  const names = rows.length > 0 ? Object.keys(rows[0]) : [];
+
+  return names.map(name => {
+    const kinds = new Set(rows.map(row => kindOf(name, row[name])).filter(Boolean));
+    // Decimal columns can mix whole and fractional values
+    if (kinds.has('integer') && kinds.has('number')) {
+      kinds.delete('integer');
+    }
+    return { name, kind: kinds.size === 1 ? [...kinds][0]! : 'text' };
+  });
+}
+
+/** Plain JS value for spreadsheet cells: numbers stay numbers, JSON becomes text. */
+export function toCellValue(value: unknown): string | number | boolean | Date | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (Prisma.Decimal.isDecimal(value)) {
+    return (value as Prisma.Decimal).toNumber();
+  }
+  if (typeof value === 'bigint') {
+    return Number.isSafeInteger(Number(value)) ? Number(value) : value.toString();
+  }
+  if (value instanceof Date || typeof value !== 'object') {
+    return value as string | number | boolean | Date;
+  }
+  return JSON.stringify(value);
+}
+
+/** Display text of a value, as printed in a PDF. */
+export function formatValue(value: unknown, kind: ResultColumnKind): string {
+  const cell = toCellValue(value);
+  if (cell === null) {
+    return '';
+  }
+  if (cell instanceof Date) {
+    return cell.toISOString().slice(0, 10);
+  }
+  if (typeof cell === 'number') {
+    return kind === 'currency'
+      ? cell.toLocaleString('en-US', { style: 'currency', currency: 'USD' })
+      : cell.toLocaleString('en-US', { maximumFractionDigits: 2 });
+  }
+  return String(cell);
+}
+
+function csvField(value: unknown): string {
+  const cell = toCellValue(value);
+  const text = cell === null ? '' : cell instanceof Date ? cell.toISOString() : String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One CSV record, terminated with CRLF as RFC 4180 asks. */
+export function toCsvLine(values: unknown[]): string {
+  return `${values.map(csvField).join(',')}\r\n`;
+}
+
+/** Workbook with one sheet whose number and date cells carry display formats. */
+export function buildWorkbook(rows: Record<string, unknown>[], columns: TypedResultColumn[], sheetName = 'Report'): Buffer {
+  const data = [
+    columns.map(column => column.name),
+    ...rows.map(row => columns.map(column => toCellValue(row[column.name]))),
+  ];
+  const sheet = XLSX.utils.aoa_to_sheet(data, { cellDates: true });
+
+  columns.forEach((column, c) => {
+    const format = XLSX_FORMATS[column.kind];
+    if (!format) {
+      return;
+    }
+    for (let r = 1; r <= rows.length; r++) {
+      const cell = sheet[XLSX.utils.encode_cell({ r, c })];
+      if (cell && (cell.t === 'n' || cell.t === 'd')) {
+        cell.z = format;
+      }
+    }
+  });
+  sheet['!cols'] = columns.map(column => ({ wch: Math.max(column.name.length, column.kind === 'text' ? 24 : 14) }));
+
+  const workbook = XLSX.utils.book_new();
+  // Excel limits sheet names to 31 characters without []:*?/\
+  XLSX.utils.book_append_sheet(workbook, sheet, sheetName.replace(/[[\]:*?\/\\]/g, ' ').slice(0, 31) || 'Report');
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+}
+
+/**
+ * Where to fetch a tenant's logo from, or null when it points anywhere but the web
+ * app or a configured asset origin. Tenants set the URL, so it must not reach
+ * internal hosts. Relative paths resolve against the web app.
+ */
+export function resolveLogoUrl(logoUrl: string, frontendUrl: string, assetOrigins: string[] = []): URL | null {
+  try {
+    const url = new URL(logoUrl, frontendUrl);
+    const allowed = [frontendUrl, ...assetOrigins].map(origin => new URL(origin).origin);
+    return allowed.includes(url.origin) ? url : null;
+  } catch {
+    return null;
+  }
+}
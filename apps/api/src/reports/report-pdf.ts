@@ -0,0 +1,160 @@
+import PDFDocument = require('pdfkit');
+import SVGtoPDF = require('svg-to-pdfkit');
+import { TypedResultColumn } from '@crmblr/types';
+import { formatValue } from './report-export';
+
+export interface PdfBranding {
+  tenantName: string;
+  primary: string;
+  secondary: string;
+  text: string;
+  muted: string;
+  border: string;
+  // SVG markup or PNG/JPEG bytes
+  logo?: string | Buffer;
+}
+
+export interface PdfReport {
+  title: string;
+  description?: string;
+  columns: TypedResultColumn[];
+  rows: Record<string, unknown>[];
+  branding: PdfBranding;
+  generatedAt: Date;
+  // Set when the row cap cut the result short
+  truncated?: boolean;
+}
+
+const MARGIN = 36;
+const ROW_HEIGHT = 18;
+const CELL_PADDING = 4;
+const LOGO_HEIGHT = 32;
+const RIGHT_ALIGNED = ['currency', 'integer', 'number'];
+
+/** Renders report rows as a landscape table under the tenant's logo and colors. */
+export function renderReportPdf(report: PdfReport): Promise<Buffer> {
+  const doc = new PDFDocument({ size: 'LETTER', layout: 'landscape', margin: MARGIN, bufferPages: true });
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const { branding } = report;
+  const width = doc.page.width - MARGIN * 2;
+  const widths = columnWidths(report, width);
+
+  drawHeader(doc, report);
+
+  const drawColumnHeader = () => {
+    let x = MARGIN;
+    const y = doc.y;
+    doc.rect(MARGIN, y, width, ROW_HEIGHT).fill(branding.secondary);
+    doc.font('Helvetica-Bold').fontSize(8).fillColor('#ffffff');
+    report.columns.forEach((column, index) => {
+      drawCell(doc, column.name, x, y, widths[index], RIGHT_ALIGNED.includes(column.kind));
+      x += widths[index];
+    });
+    doc.y = y + ROW_HEIGHT;
+  };
+
+  drawColumnHeader();
+  report.rows.forEach((row, rowIndex) => {
+    if (doc.y + ROW_HEIGHT > doc.page.height - MARGIN - ROW_HEIGHT) {
+      doc.addPage();
+      drawColumnHeader();
+    }
+
+    const y = doc.y;
+    if (rowIndex % 2 === 1) {
+      doc.rect(MARGIN, y, width, ROW_HEIGHT).fill('#f7f7f7');
+    }
+    doc.moveTo(MARGIN, y + ROW_HEIGHT).lineTo(MARGIN + width, y + ROW_HEIGHT).lineWidth(0.5).stroke(branding.border);
+
+    let x = MARGIN;
+    doc.font('Helvetica').fontSize(8).fillColor(branding.text);
+    report.columns.forEach((column, index) => {
+      drawCell(doc, formatValue(row[column.name], column.kind), x, y, widths[index], RIGHT_ALIGNED.includes(column.kind));
+      x += widths[index];
+    });
+    doc.y = y + ROW_HEIGHT;
+  });
+
+  if (report.rows.length === 0) {
+    doc.moveDown().font('Helvetica-Oblique').fontSize(9).fillColor(branding.muted).text('No rows matched this report.', MARGIN);
+  }
+
+  drawFooters(doc, report);
+  doc.end();
+  return done;
+}
+
+function drawHeader(doc: PDFKit.PDFDocument, report: PdfReport) {
+  const { branding } = report;
+  let textX = MARGIN;
+
+  if (branding.logo) {
+    try {
+      if (typeof branding.logo === 'string') {
+        SVGtoPDF(doc, branding.logo, MARGIN, MARGIN, { height: LOGO_HEIGHT, preserveAspectRatio: 'xMinYMid meet' });
+        textX += LOGO_HEIGHT * 3 + 12;
+      } else {
+        doc.image(branding.logo, MARGIN, MARGIN, { fit: [LOGO_HEIGHT * 3, LOGO_HEIGHT] });
+        textX += LOGO_HEIGHT * 3 + 12;
+      }
+    } catch {
+      // An unreadable logo should not stop the export
+    }
+  }
+
+  doc.font('Helvetica-Bold').fontSize(16).fillColor(branding.primary).text(report.title, textX, MARGIN, { lineBreak: false });
+  const details = [branding.tenantName, `Generated ${report.generatedAt.toISOString().slice(0, 10)}`, `${report.rows.length} rows`];
+  doc.font('Helvetica').fontSize(9).fillColor(branding.muted).text(details.join('  ·  '), textX, MARGIN + 20, { lineBreak: false });
+
+  const ruleY = MARGIN + LOGO_HEIGHT + 8;
+  doc.rect(MARGIN, ruleY, doc.page.width - MARGIN * 2, 3).fill(branding.primary);
+  doc.y = ruleY + 11;
+
+  if (report.description) {
+    doc.font('Helvetica').fontSize(9).fillColor(branding.text).text(report.description, MARGIN, doc.y);
+    doc.moveDown(0.5);
+  }
+}
+
+function drawCell(doc: PDFKit.PDFDocument, text: string, x: number, y: number, width: number, alignRight: boolean) {
+  doc.text(text, x + CELL_PADDING, y + 5, {
+    width: width - CELL_PADDING * 2,
+    height: ROW_HEIGHT,
+    align: alignRight ? 'right' : 'left',
+    lineBreak: false,
+    ellipsis: true,
+  });
+}
+
+// Shares the width out by the longest text in each column, within sensible bounds
+function columnWidths(report: PdfReport, width: number): number[] {
+  const sample = report.rows.slice(0, 200);
+  const weights = report.columns.map(column => {
+    const longest = Math.max(
+      column.name.length,
+      ...sample.map(row => formatValue(row[column.name], column.kind).length),
+    );
+    return Math.min(Math.max(longest, 6), 40);
+  });
+  const total = weights.reduce((sum, weight) => sum + weight, 0) || 1;
+  return weights.map(weight => (weight / total) * width);
+}
+
+function drawFooters(doc: PDFKit.PDFDocument, report: PdfReport) {
+  const { start, count } = doc.bufferedPageRange();
+  for (let i = start; i < start + count; i++) {
+    doc.switchToPage(i);
+    const y = doc.page.height - MARGIN;
+    const note = report.truncated ? 'Result truncated at the export row limit. ' : '';
+    // Keep the footer inside the bottom margin so pdfkit does not add a page
+    doc.page.margins.bottom = 0;
+    doc.font('Helvetica').fontSize(7).fillColor(report.branding.muted)
+      .text(`${note}Page ${i + 1} of ${count}`, MARGIN, y, { width: doc.page.width - MARGIN * 2, align: 'right', lineBreak: false });
+  }
+}
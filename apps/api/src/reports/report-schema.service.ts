@@ -0,0 +1,59 @@
+import { Injectable } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { db } from '@crmblr/db';
+import { buildSchemaContext, SchemaTable, TenantCustomFields } from '@crmblr/llm';
+import { REPORT_TABLES } from '@crmblr/types';
+
+// How long the latest migration name is trusted before it is looked up again
+const SCHEMA_VERSION_TTL_MS = 60 * 1000;
+
+interface CachedContext {
+  key: string;
+  schema: string;
+}
+
+@Injectable()
+export class ReportSchemaService {
+  // Table layout is shared by all tenants and reloaded when a new migration is applied
+  private tables?: { version: string; tables: SchemaTable[] };
+  private version?: { name: string; checkedAt: number };
+  private readonly contexts = new Map<string, CachedContext>();
+
+  /**
+   * Schema context for SQL generation from the tenant's custom field definitions.
+   * Cached per tenant and rebuilt when the latest migration or those definitions change.
+   */
+  async getSchema(tenantId: string, customFields: TenantCustomFields): Promise<string> {
+    const version = await this.getVersion();
+    const key = createHash('sha256').update(version).update(JSON.stringify(customFields)).digest('hex');
+
+    const cached = this.contexts.get(tenantId);
+    if (cached?.key === key) {
+      return cached.schema;
+    }
+
+    const schema = buildSchemaContext(await this.loadTables(version), customFields);
+    this.contexts.set(tenantId, { key, schema });
+    return schema;
+  }
+
+  private async getVersion(): Promise<string> {
+    if (!this.version || Date.now() - this.version.checkedAt >= SCHEMA_VERSION_TTL_MS) {
+      this.version = { name: await db.getSchemaVersion(), checkedAt: Date.now() };
+    }
+    return this.version.name;
+  }
+
+  // Only the tables and columns the report validator accepts are shown to the model
+  private async loadTables(version: string): Promise<SchemaTable[]> {
+    if (this.tables?.version !== version) {
+      const described = await db.describeTables(Object.keys(REPORT_TABLES));
+      const tables = described.map(table => ({
+        ...table,
+        columns: table.columns.filter(column => REPORT_TABLES[table.name].includes(column.name)),
+      }));
+      this.tables = { version, tables };
+    }
+    return this.tables.tables;
+  }
+}
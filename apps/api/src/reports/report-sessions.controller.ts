@@ -0,0 +1,55 @@
+import { Controller, Post, Get, Body, Param, UseGuards, Request } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiHeader } from '@nestjs/swagger';
+import { TenantGuard } from '../common/guards/tenant.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { CurrentTenant } from '../common/decorators/current-tenant.decorator';
+import { Roles } from '../common/decorators/roles.decorator';
+import { ReportSessionsService } from './report-sessions.service';
+import { GenerateReportDto } from './dto/generate-report.dto';
+import { ReportSessionTurnDto } from './dto/report-session.dto';
+
+@ApiTags('reports')
+@Controller('reports/sessions')
+@UseGuards(TenantGuard, RolesGuard)
+@ApiBearerAuth()
+@ApiHeader({ name: 'x-tenant-id', description: 'Tenant ID or slug' })
+export class ReportSessionsController {
+  constructor(private readonly reportSessionsService: ReportSessionsService) {}
+
+  @Post()
+  @Roles('reports', 'read')
+  @ApiOperation({ summary: 'Start a report session from a natural language prompt' })
+  @ApiResponse({ status: 201, description: 'Session started with its first generated query' })
+  @ApiResponse({ status: 400, description: 'The generated query failed validation' })
+  async create(@Body() generateReportDto: GenerateReportDto, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.reportSessionsService.create(generateReportDto, tenantId, req.user.sub);
+  }
+
+  @Get()
+  @Roles('reports', 'read')
+  @ApiOperation({ summary: "List the current user's report sessions" })
+  @ApiResponse({ status: 200, description: 'Sessions retrieved successfully' })
+  async findAll(@CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.reportSessionsService.findAll(tenantId, req.user.sub);
+  }
+
+  @Get(':id')
+  @Roles('reports', 'read')
+  @ApiOperation({ summary: 'Get a report session with all of its turns' })
+  @ApiResponse({ status: 200, description: 'Session retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  async findOne(@Param('id') id: string, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.reportSessionsService.findOne(id, tenantId, req.user.sub);
+  }
+
+  @Post(':id/turns')
+  @Roles('reports', 'read')
+  @ApiOperation({ summary: 'Refine the latest query of a session with a follow-up prompt' })
+  @ApiResponse({ status: 201, description: 'Revised query generated, with a diff from the previous one' })
+  @ApiResponse({ status: 400, description: 'The revised query failed validation' })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  @ApiResponse({ status: 409, description: 'The session was revised in the meantime' })
+  async addTurn(@Param('id') id: string, @Body() turnDto: ReportSessionTurnDto, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.reportSessionsService.addTurn(id, turnDto, tenantId, req.user.sub);
+  }
+}
@@ -0,0 +1,122 @@
+import { ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import { db, Prisma } from '@crmblr/db';
+import { describeResultColumns, diffSQL } from '@crmblr/llm';
+import { GenerateReportRequest, ReportSessionTurnRequest, ResultColumn } from '@crmblr/types';
+import { ReportsService } from './reports.service';
+
+const WITH_TURNS = { turns: { orderBy: { seq: 'asc' as const } } };
+
+@Injectable()
+export class ReportSessionsService {
+  constructor(private readonly reportsService: ReportsService) {}
+
+  /** Starts a session with the SQL generated for its first prompt. */
+  async create(request: GenerateReportRequest, tenantId: string, userId: string) {
+    const response = await this.reportsService.generateSQL(request, tenantId, userId);
+    const columns = await describeResultColumns(response.sql);
+
+    return db.forTenant(tenantId, userId).reportSession.create({
+      data: {
+        tenantId,
+        createdBy: userId,
+        title: request.prompt,
+        module: request.module,
+        turns: {
+          create: {
+            tenantId,
+            seq: 1,
+            prompt: request.prompt,
+            sql: response.sql,
+            explanation: response.explanation,
+            confidence: response.confidence,
+            columns,
+            chart: response.chart,
+          },
+        },
+      },
+      include: WITH_TURNS,
+    });
+  }
+
+  async findAll(tenantId: string, userId: string) {
+    return db.forTenant(tenantId, userId).reportSession.findMany({
+      where: { createdBy: userId },
+      orderBy: { updatedAt: 'desc' },
+    });
+  }
+
+  // Sessions are private to the user who started them
+  async findOne(id: string, tenantId: string, userId: string) {
+    const session = await db.forTenant(tenantId, userId).reportSession.findFirst({
+      where: { id, createdBy: userId },
+      include: WITH_TURNS,
+    });
+    if (!session) {
+      throw new NotFoundException('Report session not found');
+    }
+    return session;
+  }
+
+  /**
+   * Revises the session's latest query with a follow-up prompt. Earlier prompts,
+   * queries and their columns go to the model as context, and the revised query
+   * is validated like any other before it is stored with its diff. A revision
+   * of a turn that is no longer the latest, as when two race, ends in a 409.
+   */
+  async addTurn(id: string, request: ReportSessionTurnRequest, tenantId: string, userId: string) {
+    const session = await this.findOne(id, tenantId, userId);
+    const history = session.turns.map(turn => ({
+      prompt: turn.prompt,
+      sql: turn.sql,
+      explanation: turn.explanation,
+      columns: turn.columns as unknown as ResultColumn[],
+    }));
+    const previous = session.turns[session.turns.length - 1];
+
+    const response = await this.reportsService.generateSQL(
+      { ...request, module: session.module ?? undefined },
+      tenantId,
+      userId,
+      history,
+    );
+    const [columns, diff] = await Promise.all([
+      describeResultColumns(response.sql),
+      diffSQL(previous.sql, response.sql),
+    ]);
+
+    const conflict = () => new ConflictException('The session was revised in the meantime; reload it and try again');
+    try {
+      return await db.withTenant(tenantId, userId, async (tx) => {
+        const latest = await tx.reportSessionTurn.aggregate({
+          where: { sessionId: session.id },
+          _max: { seq: true },
+        });
+        if (latest._max.seq !== previous.seq) {
+          throw conflict();
+        }
+        const turn = await tx.reportSessionTurn.create({
+          data: {
+            tenantId,
+            sessionId: session.id,
+            seq: previous.seq + 1,
+            prompt: request.prompt,
+            sql: response.sql,
+            explanation: response.explanation,
+            confidence: response.confidence,
+            columns,
+            chart: response.chart,
+            diff,
+          },
+        });
+        await tx.reportSession.update({ where: { id: session.id }, data: { updatedAt: new Date() } });
+        return turn;
+      });
+    } catch (error) {
+      // Another revision committed the same turn number first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw conflict();
+      }
+      throw error;
+    }
+  }
+}
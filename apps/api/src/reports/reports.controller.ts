@@ -1,50 +1,106 @@
-import { Controller, Post, Get, Body, UseGuards, Request, Headers } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiHeader } from '@nestjs/swagger';
+import { Controller, Post, Get, Put, Body, Param, UseGuards, Request, Res } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiHeader, ApiProduces } from '@nestjs/swagger';
+import { Response } from 'express';
 import { TenantGuard } from '../common/guards/tenant.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { CurrentTenant } from '../common/decorators/current-tenant.decorator';
+import { Roles } from '../common/decorators/roles.decorator';
+import { requestOrigin } from '../common/interceptors/audit.interceptor';
 import { ReportsService } from './reports.service';
+import { ReportExportService } from './report-export.service';
 import { GenerateReportDto } from './dto/generate-report.dto';
-import { RunReportDto } from './dto/run-report.dto';
+import { RunReportDto, RunSavedReportDto } from './dto/run-report.dto';
 import { SaveReportDto } from './dto/save-report.dto';
+import { ReportDeliveryDto } from './dto/report-delivery.dto';
+import { ExportReportDto, ExportSavedReportDto } from './dto/export-report.dto';
 
 @ApiTags('reports')
 @Controller('reports')
-@UseGuards(TenantGuard)
+@UseGuards(TenantGuard, RolesGuard)
 @ApiBearerAuth()
-@ApiHeader({ name: 'x-tenant-id', description: 'Tenant ID' })
+@ApiHeader({ name: 'x-tenant-id', description: 'Tenant ID or slug' })
 export class ReportsController {
-  constructor(private readonly reportsService: ReportsService) {}
+  constructor(
+    private readonly reportsService: ReportsService,
+    private readonly reportExportService: ReportExportService,
+  ) {}
 
   @Post('generate')
+  @Roles('reports', 'read')
   @ApiOperation({ summary: 'Generate SQL from natural language' })
   @ApiResponse({ status: 200, description: 'SQL generated successfully' })
-  async generateSQL(@Body() generateReportDto: GenerateReportDto, @Headers('x-tenant-id') tenantId: string) {
-    return this.reportsService.generateSQL(generateReportDto, tenantId);
+  @ApiResponse({ status: 400, description: 'The generated query failed validation' })
+  async generateSQL(@Body() generateReportDto: GenerateReportDto, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.reportsService.generateSQL(generateReportDto, tenantId, req.user.sub);
   }
 
   @Post('run')
+  @Roles('reports', 'read')
   @ApiOperation({ summary: 'Execute SQL query' })
   @ApiResponse({ status: 200, description: 'Query executed successfully' })
-  async runReport(@Body() runReportDto: RunReportDto, @Headers('x-tenant-id') tenantId: string, @Request() req) {
+  async runReport(@Body() runReportDto: RunReportDto, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
     return this.reportsService.runReport(runReportDto, tenantId, req.user.sub);
   }
 
   @Post('save')
+  @Roles('reports', 'create')
   @ApiOperation({ summary: 'Save a report' })
   @ApiResponse({ status: 201, description: 'Report saved successfully' })
-  async saveReport(@Body() saveReportDto: SaveReportDto, @Headers('x-tenant-id') tenantId: string, @Request() req) {
-    return this.reportsService.saveReport(
-      saveReportDto.name,
-      saveReportDto.sql,
-      saveReportDto.description,
-      tenantId,
-      req.user.sub
-    );
+  @ApiResponse({ status: 400, description: 'Parameters, chart or SQL failed validation' })
+  async saveReport(@Body() saveReportDto: SaveReportDto, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.reportsService.saveReport(saveReportDto, tenantId, req.user.sub);
+  }
+
+  // Writes the file straight to the response so that CSV rows can stream as they are read
+  @Post('export')
+  @Roles('reports', 'read')
+  @ApiOperation({ summary: 'Export the result of a SQL query as CSV, XLSX or PDF' })
+  @ApiProduces('text/csv', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', 'application/pdf')
+  @ApiResponse({ status: 200, description: 'Export file' })
+  async exportReport(@Body() exportReportDto: ExportReportDto, @CurrentTenant('tenantId') tenantId: string, @Request() req, @Res() res: Response) {
+    await this.reportExportService.exportSQL(exportReportDto, { tenantId, userId: req.user.sub, ...requestOrigin(req) }, res);
+  }
+
+  @Post(':id/run')
+  @Roles('reports', 'read')
+  @ApiOperation({ summary: 'Run a saved report with parameter values' })
+  @ApiResponse({ status: 200, description: 'Report executed successfully' })
+  @ApiResponse({ status: 400, description: 'Parameter values do not match the report declarations' })
+  async runSavedReport(@Param('id') id: string, @Body() runSavedReportDto: RunSavedReportDto, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.reportsService.runSavedReport(id, runSavedReportDto, tenantId, req.user.sub);
+  }
+
+  @Post(':id/export')
+  @Roles('reports', 'read')
+  @ApiOperation({ summary: 'Export a saved report as CSV, XLSX or PDF' })
+  @ApiProduces('text/csv', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', 'application/pdf')
+  @ApiResponse({ status: 200, description: 'Export file' })
+  @ApiResponse({ status: 400, description: 'Parameter values do not match the report declarations' })
+  async exportSavedReport(@Param('id') id: string, @Body() exportSavedReportDto: ExportSavedReportDto, @CurrentTenant('tenantId') tenantId: string, @Request() req, @Res() res: Response) {
+    await this.reportExportService.exportSavedReport(id, exportSavedReportDto, { tenantId, userId: req.user.sub, ...requestOrigin(req) }, res);
+  }
+
+  @Put(':id/delivery')
+  @Roles('reports', 'update')
+  @ApiOperation({ summary: 'Schedule email delivery of a saved report' })
+  @ApiResponse({ status: 200, description: 'Delivery updated successfully' })
+  async updateDelivery(@Param('id') id: string, @Body() reportDeliveryDto: ReportDeliveryDto, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.reportsService.updateDelivery(id, reportDeliveryDto, tenantId, req.user.sub);
+  }
+
+  @Get(':id/runs')
+  @Roles('reports', 'read')
+  @ApiOperation({ summary: 'Get the latest scheduled runs of a saved report' })
+  @ApiResponse({ status: 200, description: 'Runs retrieved successfully' })
+  async getRuns(@Param('id') id: string, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.reportsService.getRuns(id, tenantId, req.user.sub);
   }
 
   @Get()
+  @Roles('reports', 'read')
   @ApiOperation({ summary: 'Get saved reports' })
   @ApiResponse({ status: 200, description: 'Reports retrieved successfully' })
-  async getSavedReports(@Headers('x-tenant-id') tenantId: string, @Request() req) {
+  async getSavedReports(@CurrentTenant('tenantId') tenantId: string, @Request() req) {
     return this.reportsService.getSavedReports(tenantId, req.user.sub);
   }
 }
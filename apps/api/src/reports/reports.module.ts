@@ -1,10 +1,14 @@
 import { Module } from '@nestjs/common';
 import { ReportsService } from './reports.service';
+import { ReportExportService } from './report-export.service';
 import { ReportsController } from './reports.controller';
+import { ReportSchemaService } from './report-schema.service';
+import { ReportSessionsService } from './report-sessions.service';
+import { ReportSessionsController } from './report-sessions.controller';
 
 @Module({
-  providers: [ReportsService],
-  controllers: [ReportsController],
+  providers: [ReportsService, ReportSchemaService, ReportSessionsService, ReportExportService],
+  controllers: [ReportsController, ReportSessionsController],
   exports: [ReportsService],
 })
 export class ReportsModule {}
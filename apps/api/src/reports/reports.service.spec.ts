@@ -0,0 +1,141 @@
+import { randomUUID } from 'crypto';
+import { BadRequestException, RequestTimeoutException } from '@nestjs/common';
+import { createReadOnlyRole, db, Prisma, QueryTimeoutError } from '@crmblr/db';
+import { sqlRewriter, sqlValidator } from '@crmblr/llm';
+import { ChartType, ChartValueFormat, ReportFormat } from '@crmblr/types';
+import { ReportsService } from './reports.service';
+import { ReportSchemaService } from './report-schema.service';
+
+// Needs a migrated database; these run only when DATABASE_URL is set
+const describeWithDatabase = process.env.DATABASE_URL ? describe : describe.skip;
+
+describe('ReportsService.saveReport', () => {
+  const service = new ReportsService(new ReportSchemaService());
+  const tenantId = randomUUID();
+  const userId = randomUUID();
+  let create: jest.Mock;
+
+  beforeEach(() => {
+    create = jest.fn().mockResolvedValue({ id: randomUUID() });
+    jest.spyOn(db, 'forTenant').mockReturnValue({ report: { create } } as any);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('rejects SQL that reports may not run', async () => {
+    const save = service.saveReport({ name: 'Logins', sql: 'SELECT email FROM users' }, tenantId, userId);
+
+    await expect(save).rejects.toThrow(BadRequestException);
+    await expect(save).rejects.toMatchObject({ response: { message: [expect.stringMatching(/^Invalid SQL: .*users/)] } });
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it('saves SQL that passes validation', async () => {
+    await service.saveReport({ name: 'Gifts', sql: 'SELECT count(*) AS gifts FROM donations' }, tenantId, userId);
+    expect(create).toHaveBeenCalledWith({ data: expect.objectContaining({ name: 'Gifts', tenantId, createdBy: userId }) });
+  });
+});
+
+describe('ReportsService.updateDelivery', () => {
+  const service = new ReportsService(new ReportSchemaService());
+  const tenantId = randomUUID();
+  const userId = randomUUID();
+  const id = randomUUID();
+  const delivery = { schedule: '0 8 * * 1', timezone: 'UTC', recipients: ['board@example.org'], format: ReportFormat.CSV };
+  let update: jest.Mock;
+
+  const withParameters = (parameters: unknown[]) => {
+    update = jest.fn().mockResolvedValue({ id });
+    const findFirst = jest.fn().mockResolvedValue({ id, sql: 'SELECT 1', parameters });
+    jest.spyOn(db, 'forTenant').mockReturnValue({ report: { findFirst, update } } as any);
+  };
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('rejects a schedule for a report with a required parameter and no default', async () => {
+    withParameters([{ name: 'since', label: 'Since', type: 'date', required: true }]);
+
+    const scheduled = service.updateDelivery(id, delivery, tenantId, userId);
+    await expect(scheduled).rejects.toThrow(BadRequestException);
+    await expect(scheduled).rejects.toMatchObject({ response: { message: ['since: a value is required'] } });
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('schedules reports whose parameters have defaults, and unschedules any report', async () => {
+    withParameters([{ name: 'since', label: 'Since', type: 'date', required: true, default: '2025-01-01' }]);
+    await service.updateDelivery(id, delivery, tenantId, userId);
+    expect(update).toHaveBeenCalledTimes(1);
+
+    withParameters([{ name: 'since', label: 'Since', type: 'date', required: true }]);
+    await service.updateDelivery(id, { ...delivery, schedule: null }, tenantId, userId);
+    expect(update).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('ReportsService.runReport', () => {
+  const service = new ReportsService(new ReportSchemaService());
+  const tenantId = randomUUID();
+  const userId = randomUUID();
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('reports a statement timeout as a request timeout', async () => {
+    jest.spyOn(db, 'withReadOnlyTenant').mockRejectedValue(new QueryTimeoutError(30000));
+
+    await expect(service.runReport({ sql: 'SELECT 1', limit: 10 }, tenantId, userId)).rejects.toThrow(
+      new RequestTimeoutException('Report query exceeded the 30s time limit'),
+    );
+  });
+
+  it('charts the result, keeping a suggested chart only when it fits the columns', async () => {
+    jest.spyOn(db, 'withReadOnlyTenant').mockResolvedValue([
+      { stage: 'donor', total_amount: new Prisma.Decimal('1250.50') },
+      { stage: 'prospect', total_amount: new Prisma.Decimal('80') },
+    ]);
+    const pie = { type: ChartType.PIE, x: 'stage', y: ['total_amount'], series: null, format: ChartValueFormat.CURRENCY };
+
+    const suggested = await service.runReport({ sql: 'SELECT 1', limit: 10, chart: pie }, tenantId, userId);
+    expect(suggested.columns).toEqual([
+      { name: 'stage', kind: 'text' },
+      { name: 'total_amount', kind: 'currency' },
+    ]);
+    expect(suggested.chart).toEqual(pie);
+
+    const inferred = await service.runReport({ sql: 'SELECT 1', limit: 10, chart: { ...pie, x: 'region' } }, tenantId, userId);
+    expect(inferred.chart).toEqual({ ...pie, type: ChartType.BAR });
+  });
+
+  describeWithDatabase('against the database', () => {
+    beforeAll(() => createReadOnlyRole());
+    afterAll(() => db.disconnect());
+
+    // Skip validation and rewriting so that only the database stands in the way
+    beforeEach(() => {
+      jest.spyOn(sqlValidator, 'validateForReports').mockResolvedValue({ isValid: true, errors: [], warnings: [] });
+      jest.spyOn(sqlRewriter, 'rewriteForReports').mockImplementation(async (sql) => sql);
+    });
+
+    it('runs as the reports_readonly role', async () => {
+      const result = await service.runReport({ sql: 'SELECT current_user AS role', limit: 1 }, tenantId, userId);
+      expect(result.data).toEqual([{ role: 'reports_readonly' }]);
+    });
+
+    it.each([
+      `INSERT INTO staff ("id", "tenantId", "name", "role", "team", "updatedAt") VALUES (gen_random_uuid(), '${tenantId}', 'A', 'B', 'board', now())`,
+      'UPDATE contacts SET score = 100',
+      'DELETE FROM donations',
+      'WITH removed AS (DELETE FROM contacts RETURNING id) SELECT * FROM removed',
+      'CREATE TABLE report_scratch (id int)',
+      "SELECT set_config('transaction_read_only', 'off', true)",
+    ])('refuses to run %s', async (sql) => {
+      await expect(service.runReport({ sql, limit: 10 }, tenantId, userId)).rejects.toThrow(/read-only transaction/);
+    });
+
+    it('cancels queries that run past the statement timeout', async () => {
+      const query = db.withReadOnlyTenant(tenantId, userId, (tx) => tx.$queryRawUnsafe('SELECT pg_sleep(5)'), {
+        timeoutMs: 200,
+      });
+      await expect(query).rejects.toBeInstanceOf(QueryTimeoutError);
+    });
+  });
+});
@@ -1,190 +1,268 @@
-import { Injectable } from '@nestjs/common';
-import { db } from '@crmblr/db';
-import { llmService, sqlValidator } from '@crmblr/llm';
-import { GenerateReportRequest, RunReportRequest } from '@crmblr/types';
+import { BadRequestException, Injectable, NotFoundException, RequestTimeoutException } from '@nestjs/common';
+import { db, QueryTimeoutError } from '@crmblr/db';
+import {
+  bindReportParameters,
+  BoundReportSQL,
+  CompiledReportSQL,
+  compileReportSQL,
+  llmService,
+  resolveChartSpec,
+  ReportParameterError,
+  resolveReportValues,
+  SQLGenerationTurn,
+  sqlRewriter,
+  sqlValidator,
+} from '@crmblr/llm';
+import {
+  ChartSpecSchema,
+  GenerateReportRequest,
+  ReportDelivery,
+  ReportDeliverySchema,
+  ReportParameter,
+  ReportParametersSchema,
+  ReportParameterType,
+  ReportResult,
+  RunReportRequest,
+  RunSavedReportRequest,
+  SaveReportRequest,
+  TenantSettings,
+  TenantSettingsSchema,
+} from '@crmblr/types';
+import { ReportSchemaService } from './report-schema.service';
+import { describeColumnKinds } from './report-export';
 
 @Injectable()
 export class ReportsService {
-  async generateSQL(request: GenerateReportRequest, tenantId: string) {
-    // Get database schema for the tenant
-    const schema = await this.getDatabaseSchema();
-    
-    const response = await llmService.generateSQL({
-      prompt: request.prompt,
-      schema,
-      module: request.module,
-    });
+  constructor(private readonly reportSchemaService: ReportSchemaService) {}
+
+  // With `history`, the prompt revises the last of those earlier turns
+  async generateSQL(request: GenerateReportRequest, tenantId: string, userId: string, history: SQLGenerationTurn[] = []) {
+    // Live schema with the tenant's custom fields, and the tenant's provider and model defaults
+    const tenantSettings = await this.getTenantSettings(tenantId, userId);
+    const schema = await this.reportSchemaService.getSchema(tenantId, tenantSettings.customFields ?? {});
+    const settings = tenantSettings.llm ?? {};
+
+    const response = await llmService.generateSQL(
+      {
+        prompt: request.prompt,
+        schema,
+        module: request.module,
+        history,
+      },
+      {
+        ...settings,
+        model: request.model ?? settings.model,
+        temperature: request.temperature ?? settings.temperature,
+        maxTokens: request.maxTokens ?? settings.maxTokens,
+      },
+    );
 
-    // Validate the generated SQL
-    const validation = sqlValidator.validateForReports(response.sql, tenantId);
+    // Validate the generated SQL; the prompt led to a query reports may not run
+    const validation = await sqlValidator.validateForReports(response.sql, tenantId);
     if (!validation.isValid) {
-      throw new Error(`Invalid SQL: ${validation.errors.join(', ')}`);
+      throw new BadRequestException(validation.errors.map(error => `Invalid SQL: ${error}`));
     }
 
     return response;
   }
 
   async runReport(request: RunReportRequest, tenantId: string, userId: string) {
+    return this.execute(request.sql, [], request.limit, tenantId, userId, request.chart);
+  }
+
+  async runSavedReport(id: string, request: RunSavedReportRequest, tenantId: string, userId: string) {
+    const { report, sql, values } = await this.bindSavedReport(id, request.values, tenantId, userId);
+
+    const result = await this.execute(sql, values, request.limit, tenantId, userId, report.chart);
+    await db.forTenant(tenantId, userId).report.update({
+      where: { id },
+      data: { lastRunAt: new Date() },
+    });
+    return result;
+  }
+
+  // Values are validated against the report's declared parameters and bound, never interpolated
+  async bindSavedReport(id: string, values: Record<string, unknown>, tenantId: string, userId: string) {
+    const report = await this.findReport(id, tenantId, userId);
+    const parameters = report.parameters as ReportParameter[];
+    let bound: BoundReportSQL;
+    try {
+      bound = bindReportParameters(report.sql, parameters, values);
+    } catch (error) {
+      if (error instanceof ReportParameterError) {
+        throw new BadRequestException(error.errors);
+      }
+      throw error;
+    }
+    await this.checkCampaigns(parameters, bound.resolved, tenantId, userId);
+
+    return { report, sql: bound.sql, values: bound.values };
+  }
+
+  /**
+   * Validates report SQL and rewrites it so that every tenant table is filtered
+   * explicitly and at most `limit` rows are returned. RLS, the read-only role and
+   * the statement timeout remain as further barriers.
+   */
+  async prepareSQL(sql: string, limit: number, tenantId: string): Promise<string> {
     // Validate SQL again for safety
-    const validation = sqlValidator.validateForReports(request.sql, tenantId);
+    const validation = await sqlValidator.validateForReports(sql, tenantId);
     if (!validation.isValid) {
-      throw new Error(`Invalid SQL: ${validation.errors.join(', ')}`);
+      throw new BadRequestException(validation.errors.map(error => `Invalid SQL: ${error}`));
     }
 
-    // Set tenant context for RLS
-    await db.setTenantContext(tenantId, userId);
+    return sqlRewriter.rewriteForReports(sql, tenantId, limit);
+  }
+
+  // Runs prepared report SQL with bound values. The chart is the suggested one when it
+  // fits the columns that came back, else one inferred from them.
+  async execute(sql: string, values: unknown[], limit: number, tenantId: string, userId: string, chart?: unknown): Promise<ReportResult> {
+    const rewritten = await this.prepareSQL(sql, limit, tenantId);
 
+    let result: unknown;
     try {
-      // Execute the SQL query with read-only role
-      const result = await db.client.$queryRawUnsafe(request.sql);
-      
-      return {
-        data: result,
-        rowCount: Array.isArray(result) ? result.length : 0,
-        limit: request.limit,
-      };
-    } finally {
-      await db.clearTenantContext();
+      result = await db.withReadOnlyTenant(tenantId, userId, (tx) => tx.$queryRawUnsafe(rewritten, ...values));
+    } catch (error) {
+      if (error instanceof QueryTimeoutError) {
+        throw new RequestTimeoutException(`Report query exceeded the ${error.timeoutMs / 1000}s time limit`);
+      }
+      throw error;
+    }
+
+    const rows = Array.isArray(result) ? (result as Record<string, unknown>[]) : [];
+    const columns = describeColumnKinds(rows);
+    return {
+      data: rows,
+      rowCount: rows.length,
+      limit,
+      columns,
+      chart: resolveChartSpec(chart, columns),
+    };
+  }
+
+  // A campaign picker only accepts this tenant's campaigns
+  private async checkCampaigns(parameters: ReportParameter[], values: Record<string, unknown>, tenantId: string, userId: string) {
+    const ids = parameters
+      .filter(parameter => parameter.type === ReportParameterType.CAMPAIGN && values[parameter.name] !== null)
+      .map(parameter => values[parameter.name] as string);
+    if (ids.length === 0) {
+      return;
+    }
+
+    const found = await db.forTenant(tenantId, userId).campaign.findMany({
+      where: { id: { in: ids }, tenantId },
+      select: { id: true },
+    });
+    const missing = ids.filter(id => !found.some(campaign => campaign.id === id));
+    if (missing.length > 0) {
+      throw new BadRequestException(`Unknown campaign: ${missing.join(', ')}`);
     }
   }
 
-  async saveReport(name: string, sql: string, description: string, tenantId: string, userId: string) {
-    await db.setTenantContext(tenantId, userId);
+  private async getTenantSettings(tenantId: string, userId: string): Promise<TenantSettings> {
+    const tenant = await db.forTenant(tenantId, userId).tenant.findUnique({
+      where: { id: tenantId },
+      select: { settings: true },
+    });
+    return TenantSettingsSchema.parse(tenant?.settings ?? {});
+  }
+
+  async saveReport(request: SaveReportRequest, tenantId: string, userId: string) {
+    const parameters = ReportParametersSchema.safeParse(request.parameters ?? []);
+    if (!parameters.success) {
+      throw new BadRequestException(parameters.error.issues.map(issue => `parameters.${issue.path.join('.')}: ${issue.message}`));
+    }
 
-    const report = await db.client.report.create({
+    const chart = ChartSpecSchema.nullable().optional().safeParse(request.chart);
+    if (!chart.success) {
+      throw new BadRequestException(chart.error.issues.map(issue => `chart.${issue.path.join('.')}: ${issue.message}`));
+    }
+
+    // Every placeholder must be declared and every declared parameter used
+    let compiled: CompiledReportSQL;
+    try {
+      compiled = compileReportSQL(request.sql, parameters.data);
+    } catch (error) {
+      if (error instanceof ReportParameterError) {
+        throw new BadRequestException(error.errors);
+      }
+      throw error;
+    }
+
+    // Checked now as well as on every run, so a report that can never run is not saved
+    const validation = await sqlValidator.validateForReports(compiled.sql, tenantId);
+    if (!validation.isValid) {
+      throw new BadRequestException(validation.errors.map(error => `Invalid SQL: ${error}`));
+    }
+
+    return db.forTenant(tenantId, userId).report.create({
       data: {
-        name,
-        sql,
-        description,
+        name: request.name,
+        sql: request.sql,
+        description: request.description,
+        parameters: parameters.data,
+        chart: chart.data ?? undefined,
         tenantId,
         createdBy: userId,
       },
     });
+  }
 
-    await db.clearTenantContext();
-    
-    return report;
+  // The worker picks up schedule changes on its next sync
+  async updateDelivery(id: string, request: ReportDelivery, tenantId: string, userId: string) {
+    const delivery = ReportDeliverySchema.safeParse(request);
+    if (!delivery.success) {
+      throw new BadRequestException(delivery.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`));
+    }
+    const report = await this.findReport(id, tenantId, userId);
+
+    // Scheduled runs bind no values, so each parameter must do with its default
+    if (delivery.data.schedule) {
+      try {
+        resolveReportValues(report.parameters as ReportParameter[], {});
+      } catch (error) {
+        if (error instanceof ReportParameterError) {
+          throw new BadRequestException(error.errors);
+        }
+        throw error;
+      }
+    }
+
+    return db.forTenant(tenantId, userId).report.update({
+      where: { id },
+      data: {
+        schedule: delivery.data.schedule,
+        timezone: delivery.data.timezone,
+        recipients: delivery.data.recipients,
+        format: delivery.data.format,
+      },
+    });
   }
 
-  async getSavedReports(tenantId: string, userId: string) {
-    await db.setTenantContext(tenantId, userId);
+  async getRuns(id: string, tenantId: string, userId: string) {
+    await this.findReport(id, tenantId, userId);
 
-    const reports = await db.client.report.findMany({
-      where: { tenantId },
-      orderBy: { createdAt: 'desc' },
+    return db.forTenant(tenantId, userId).reportRun.findMany({
+      where: { reportId: id, tenantId },
+      orderBy: { startedAt: 'desc' },
+      take: 50,
     });
+  }
 
-    await db.clearTenantContext();
-    
-    return reports;
+  private async findReport(id: string, tenantId: string, userId: string) {
+    const report = await db.forTenant(tenantId, userId).report.findFirst({
+      where: { id, tenantId },
+    });
+    if (!report) {
+      throw new NotFoundException('Report not found');
+    }
+    return report;
   }
 
-  private async getDatabaseSchema(): Promise<string> {
-    // This would typically fetch the actual database schema
-    // For now, return a mock schema
-    return `
--- CRM Database Schema
--- Tables with tenant isolation (tenant_id column)
-
--- Contacts table
-CREATE TABLE contacts (
-  id UUID PRIMARY KEY,
-  tenant_id UUID NOT NULL,
-  first_name VARCHAR(255) NOT NULL,
-  last_name VARCHAR(255) NOT NULL,
-  email VARCHAR(255),
-  phone VARCHAR(255),
-  address TEXT,
-  score INTEGER DEFAULT 0,
-  lifetime_value DECIMAL(12,2) DEFAULT 0,
-  stage VARCHAR(50) DEFAULT 'identified',
-  custom JSONB DEFAULT '{}',
-  created_at TIMESTAMP DEFAULT NOW(),
-  updated_at TIMESTAMP DEFAULT NOW()
-);
-
--- Donations table
-CREATE TABLE donations (
-  id UUID PRIMARY KEY,
-  tenant_id UUID NOT NULL,
-  contact_id UUID REFERENCES contacts(id),
-  organization_id UUID REFERENCES organizations(id),
-  campaign_id UUID REFERENCES campaigns(id),
-  amount DECIMAL(12,2) NOT NULL,
-  currency VARCHAR(3) DEFAULT 'USD',
-  date DATE NOT NULL,
-  thank_you_status VARCHAR(20) DEFAULT 'none',
-  custom JSONB DEFAULT '{}',
-  created_at TIMESTAMP DEFAULT NOW(),
-  updated_at TIMESTAMP DEFAULT NOW()
-);
-
--- Organizations table
-CREATE TABLE organizations (
-  id UUID PRIMARY KEY,
-  tenant_id UUID NOT NULL,
-  name VARCHAR(255) NOT NULL,
-  type VARCHAR(50) NOT NULL,
-  website VARCHAR(255),
-  location VARCHAR(255),
-  custom JSONB DEFAULT '{}',
-  created_at TIMESTAMP DEFAULT NOW(),
-  updated_at TIMESTAMP DEFAULT NOW()
-);
-
--- Campaigns table
-CREATE TABLE campaigns (
-  id UUID PRIMARY KEY,
-  tenant_id UUID NOT NULL,
-  name VARCHAR(255) NOT NULL,
-  target_amount DECIMAL(12,2) NOT NULL,
-  start_date DATE NOT NULL,
-  end_date DATE NOT NULL,
-  custom JSONB DEFAULT '{}',
-  created_at TIMESTAMP DEFAULT NOW(),
-  updated_at TIMESTAMP DEFAULT NOW()
-);
-
--- Grant applications table
-CREATE TABLE grant_apps (
-  id UUID PRIMARY KEY,
-  tenant_id UUID NOT NULL,
-  organization_id UUID REFERENCES organizations(id),
-  name VARCHAR(255) NOT NULL,
-  amount_requested DECIMAL(12,2) NOT NULL,
-  status VARCHAR(50) NOT NULL,
-  deadline DATE NOT NULL,
-  notes TEXT,
-  custom JSONB DEFAULT '{}',
-  created_at TIMESTAMP DEFAULT NOW(),
-  updated_at TIMESTAMP DEFAULT NOW()
-);
-
--- Pipeline events table
-CREATE TABLE pipeline_events (
-  id UUID PRIMARY KEY,
-  tenant_id UUID NOT NULL,
-  contact_id UUID REFERENCES contacts(id),
-  stage VARCHAR(50) NOT NULL,
-  note TEXT,
-  occurred_at TIMESTAMP NOT NULL,
-  created_at TIMESTAMP DEFAULT NOW(),
-  updated_at TIMESTAMP DEFAULT NOW()
-);
-
--- Staff table
-CREATE TABLE staff (
-  id UUID PRIMARY KEY,
-  tenant_id UUID NOT NULL,
-  name VARCHAR(255) NOT NULL,
-  role VARCHAR(255) NOT NULL,
-  email VARCHAR(255),
-  phone VARCHAR(255),
-  team VARCHAR(50) NOT NULL,
-  custom JSONB DEFAULT '{}',
-  created_at TIMESTAMP DEFAULT NOW(),
-  updated_at TIMESTAMP DEFAULT NOW()
-);
-`;
+  async getSavedReports(tenantId: string, userId: string) {
+    return db.forTenant(tenantId, userId).report.findMany({
+      where: { tenantId },
+      orderBy: { createdAt: 'desc' },
+    });
   }
 }
@@ -0,0 +1,27 @@
+import { IsString, IsOptional, IsInt, IsIn, MinLength, Min, Max } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { SearchResultType } from '@crmblr/types';
+
+export const SEARCH_RESULT_TYPES: SearchResultType[] = ['contact', 'organization', 'grant'];
+
+export class SearchDto {
+  @ApiProperty({ description: 'Search text' })
+  @IsString()
+  @MinLength(2)
+  q: string;
+
+  @ApiProperty({ description: 'Comma-separated result types', required: false, example: 'contact,organization' })
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value.split(',').map(type => type.trim()) : value))
+  @IsIn(SEARCH_RESULT_TYPES, { each: true })
+  types?: SearchResultType[];
+
+  @ApiProperty({ description: 'Maximum number of results', required: false, default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  limit?: number;
+}
@@ -0,0 +1,30 @@
+import { Controller, Get, Query, UseGuards, Request } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiHeader } from '@nestjs/swagger';
+import { TenantGuard } from '../common/guards/tenant.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { CurrentTenant } from '../common/decorators/current-tenant.decorator';
+import { Roles } from '../common/decorators/roles.decorator';
+import { SearchService } from './search.service';
+import { SEARCH_RESULT_TYPES, SearchDto } from './dto/search.dto';
+
+@ApiTags('search')
+@Controller('search')
+@UseGuards(TenantGuard, RolesGuard)
+@ApiBearerAuth()
+@ApiHeader({ name: 'x-tenant-id', description: 'Tenant ID or slug' })
+export class SearchController {
+  constructor(private readonly searchService: SearchService) {}
+
+  @Get()
+  @Roles('contacts', 'read')
+  @ApiOperation({ summary: 'Search contacts, organizations and grants' })
+  @ApiResponse({ status: 200, description: 'Ranked search results' })
+  async search(@Query() query: SearchDto, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.searchService.search(
+      query.q,
+      { types: query.types ?? SEARCH_RESULT_TYPES, limit: query.limit ?? 20 },
+      tenantId,
+      req.user.sub,
+    );
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { SearchService } from './search.service';
+import { SearchController } from './search.controller';
+
+@Module({
+  providers: [SearchService],
+  controllers: [SearchController],
+  exports: [SearchService],
+})
+export class SearchModule {}
@@ -0,0 +1,71 @@
+import { randomUUID } from 'crypto';
+import { db } from '@crmblr/db';
+import { SearchResultType } from '@crmblr/types';
+import { SearchService } from './search.service';
+
+// Needs a migrated database with rls_policies.sql applied; these run only when DATABASE_URL is set
+const describeWithDatabase = process.env.DATABASE_URL ? describe : describe.skip;
+
+describeWithDatabase('SearchService', () => {
+  const service = new SearchService();
+  const userId = randomUUID();
+  const suffix = randomUUID().slice(0, 8);
+  const types: SearchResultType[] = ['contact', 'organization', 'grant'];
+  let tenantId: string;
+  let otherTenantId: string;
+
+  const titles = async (q: string, tenant: string) =>
+    (await service.search(q, { types, limit: 10 }, tenant, userId)).map(result => result.title);
+
+  // Created as the table owner, which row security does not apply to
+  beforeAll(async () => {
+    const tenant = await db.client.tenant.create({
+      data: {
+        name: 'Search',
+        slug: `search-${suffix}`,
+        contacts: {
+          create: [
+            { firstName: 'Takua', lastName: 'Umeki', email: 'takua@example.com', phone: '+81 90-1234-5678' },
+            { firstName: 'Yosuke', lastName: 'Yasuda' },
+          ],
+        },
+        organizations: { create: [{ name: 'Voice AI Foundation', type: 'foundation' }] },
+      },
+    });
+    const other = await db.client.tenant.create({
+      data: {
+        name: 'Other',
+        slug: `search-other-${suffix}`,
+        contacts: { create: [{ firstName: 'Takua', lastName: 'Elsewhere' }] },
+        organizations: { create: [{ name: 'Voice AI Partners', type: 'partner' }] },
+      },
+    });
+    tenantId = tenant.id;
+    otherTenantId = other.id;
+  });
+
+  afterAll(async () => {
+    await db.client.tenant.deleteMany({ where: { id: { in: [tenantId, otherTenantId] } } });
+    await db.disconnect();
+  });
+
+  it('finds names with a typo', async () => {
+    expect(await titles('takwa', tenantId)).toEqual(['Takua Umeki']);
+  });
+
+  it('finds contacts by email and by phone digits in any format', async () => {
+    expect(await titles('takua@example.com', tenantId)).toEqual(['Takua Umeki']);
+    expect(await titles('1234 5678', tenantId)).toEqual(['Takua Umeki']);
+  });
+
+  it('only returns records of the current tenant', async () => {
+    expect(await titles('takua', tenantId)).toEqual(['Takua Umeki']);
+    expect(await titles('takua', otherTenantId)).toEqual(['Takua Elsewhere']);
+    expect(await titles('voice ai', otherTenantId)).toEqual(['Voice AI Partners']);
+  });
+
+  it('limits results to the requested types', async () => {
+    const results = await service.search('voice', { types: ['contact'], limit: 10 }, tenantId, userId);
+    expect(results).toEqual([]);
+  });
+});
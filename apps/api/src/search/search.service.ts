@@ -0,0 +1,80 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma, db } from '@crmblr/db';
+import { SearchResult, SearchResultType } from '@crmblr/types';
+
+// pg_trgm's default of 0.6 misses one-letter typos in short names: "takwa" shares
+// only half of its trigrams with "Takua"
+const WORD_SIMILARITY_THRESHOLD = 0.4;
+
+export interface SearchOptions {
+  types: SearchResultType[];
+  limit: number;
+}
+
+@Injectable()
+export class SearchService {
+  // Ranks full-text matches and fuzzy (trigram) matches together, so "takua" finds "Takua"
+  // and "takwa" still does. The expressions mirror the indexes in rls_policies.sql.
+  async search(q: string, options: SearchOptions, tenantId: string, userId: string): Promise<SearchResult[]> {
+    const term = q.trim();
+    const digits = term.replace(/\D/g, '');
+    const phone = digits.length >= 3 ? digits : null;
+
+    const queries: Record<SearchResultType, Prisma.Sql> = {
+      contact: Prisma.sql`
+        SELECT 'contact' AS type, c.id, c."firstName" || ' ' || c."lastName" AS title,
+          coalesce(c.email, c.phone) AS subtitle,
+          greatest(
+            ts_rank(to_tsvector('simple', c."firstName" || ' ' || c."lastName" || ' ' || coalesce(c.email, '')), websearch_to_tsquery('simple', ${term})),
+            word_similarity(${term}, c."firstName" || ' ' || c."lastName"),
+            word_similarity(${term}, coalesce(c.email, '')),
+            CASE WHEN ${phone}::text IS NOT NULL AND regexp_replace(coalesce(c.phone, ''), '\\D', '', 'g') LIKE '%' || ${phone}::text || '%' THEN 1 ELSE 0 END
+          ) AS score
+        FROM contacts c
+        WHERE c."tenantId" = ${tenantId}::uuid
+          AND (
+            to_tsvector('simple', c."firstName" || ' ' || c."lastName" || ' ' || coalesce(c.email, '')) @@ websearch_to_tsquery('simple', ${term})
+            OR ${term} <% (c."firstName" || ' ' || c."lastName")
+            OR ${term} <% coalesce(c.email, '')
+            OR (${phone}::text IS NOT NULL AND regexp_replace(coalesce(c.phone, ''), '\\D', '', 'g') LIKE '%' || ${phone}::text || '%')
+          )`,
+      organization: Prisma.sql`
+        SELECT 'organization' AS type, o.id, o.name AS title, o.location AS subtitle,
+          greatest(
+            ts_rank(to_tsvector('simple', o.name), websearch_to_tsquery('simple', ${term})),
+            word_similarity(${term}, o.name)
+          ) AS score
+        FROM organizations o
+        WHERE o."tenantId" = ${tenantId}::uuid
+          AND (
+            to_tsvector('simple', o.name) @@ websearch_to_tsquery('simple', ${term})
+            OR ${term} <% o.name
+          )`,
+      grant: Prisma.sql`
+        SELECT 'grant' AS type, g.id, g.name AS title, g.notes AS subtitle,
+          greatest(
+            ts_rank(to_tsvector('english', g.name || ' ' || coalesce(g.notes, '')), websearch_to_tsquery('english', ${term})),
+            word_similarity(${term}, g.name)
+          ) AS score
+        FROM grant_apps g
+        WHERE g."tenantId" = ${tenantId}::uuid
+          AND (
+            to_tsvector('english', g.name || ' ' || coalesce(g.notes, '')) @@ websearch_to_tsquery('english', ${term})
+            OR ${term} <% g.name
+          )`,
+    };
+
+    const selected = options.types.map(type => queries[type]);
+
+    return db.withTenant(tenantId, userId, async (tx) => {
+      await tx.$executeRaw`SELECT set_config('pg_trgm.word_similarity_threshold', ${String(WORD_SIMILARITY_THRESHOLD)}, true)`;
+      const rows = await tx.$queryRaw<SearchResult[]>`
+        SELECT type, id, title, subtitle, score::float8 AS score
+        FROM (${Prisma.join(selected, ' UNION ALL ')}) results
+        ORDER BY score DESC, title ASC
+        LIMIT ${options.limit}
+      `;
+      return rows;
+    });
+  }
+}
@@ -0,0 +1,64 @@
+import { IsString, IsOptional, IsEmail, IsEnum, IsObject } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { StaffTeam } from '@crmblr/types';
+
+export class CreateStaffDto {
+  @ApiProperty({ description: 'Full name' })
+  @IsString()
+  name: string;
+
+  @ApiProperty({ description: 'Job title' })
+  @IsString()
+  role: string;
+
+  @ApiProperty({ description: 'Email address', required: false })
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  @ApiProperty({ description: 'Phone number', required: false })
+  @IsOptional()
+  @IsString()
+  phone?: string;
+
+  @ApiProperty({ description: 'Team', enum: StaffTeam })
+  @IsEnum(StaffTeam)
+  team: StaffTeam;
+
+  @ApiProperty({ description: 'Custom fields', required: false })
+  @IsOptional()
+  @IsObject()
+  custom?: any;
+}
+
+export class UpdateStaffDto {
+  @ApiProperty({ description: 'Full name', required: false })
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @ApiProperty({ description: 'Job title', required: false })
+  @IsOptional()
+  @IsString()
+  role?: string;
+
+  @ApiProperty({ description: 'Email address', required: false })
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  @ApiProperty({ description: 'Phone number', required: false })
+  @IsOptional()
+  @IsString()
+  phone?: string;
+
+  @ApiProperty({ description: 'Team', enum: StaffTeam, required: false })
+  @IsOptional()
+  @IsEnum(StaffTeam)
+  team?: StaffTeam;
+
+  @ApiProperty({ description: 'Custom fields', required: false })
+  @IsOptional()
+  @IsObject()
+  custom?: any;
+}
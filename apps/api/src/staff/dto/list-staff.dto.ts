@@ -0,0 +1,10 @@
+import { IsOptional, IsEnum } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { StaffTeam } from '@crmblr/types';
+
+export class ListStaffDto {
+  @ApiProperty({ description: 'Filter by team', enum: StaffTeam, required: false })
+  @IsOptional()
+  @IsEnum(StaffTeam)
+  team?: StaffTeam;
+}
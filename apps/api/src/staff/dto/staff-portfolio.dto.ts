@@ -0,0 +1,16 @@
+import { IsArray, IsOptional, IsUUID } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class StaffPortfolioDto {
+  @ApiProperty({ description: 'Contacts to include', type: [String], required: false })
+  @IsOptional()
+  @IsArray()
+  @IsUUID('all', { each: true })
+  contactIds?: string[];
+
+  @ApiProperty({ description: 'Organizations to include', type: [String], required: false })
+  @IsOptional()
+  @IsArray()
+  @IsUUID('all', { each: true })
+  organizationIds?: string[];
+}
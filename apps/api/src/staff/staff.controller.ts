@@ -0,0 +1,99 @@
+import { Controller, Get, Post, Body, Patch, Param, Delete, Query, UseGuards, Request } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiHeader } from '@nestjs/swagger';
+import { TenantGuard } from '../common/guards/tenant.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { CurrentTenant } from '../common/decorators/current-tenant.decorator';
+import { Roles } from '../common/decorators/roles.decorator';
+import { StaffService } from './staff.service';
+import { CreateStaffDto, UpdateStaffDto } from './dto/create-staff.dto';
+import { ListStaffDto } from './dto/list-staff.dto';
+import { StaffPortfolioDto } from './dto/staff-portfolio.dto';
+
+@ApiTags('staff')
+@Controller('staff')
+@UseGuards(TenantGuard, RolesGuard)
+@ApiBearerAuth()
+@ApiHeader({ name: 'x-tenant-id', description: 'Tenant ID or slug' })
+export class StaffController {
+  constructor(private readonly staffService: StaffService) {}
+
+  @Post()
+  @Roles('staff', 'create')
+  @ApiOperation({ summary: 'Add a staff member' })
+  @ApiResponse({ status: 201, description: 'Staff member created successfully' })
+  async create(@Body() createStaffDto: CreateStaffDto, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.staffService.create(createStaffDto, tenantId, req.user.sub);
+  }
+
+  @Get()
+  @Roles('staff', 'read')
+  @ApiOperation({ summary: 'List staff members' })
+  @ApiResponse({ status: 200, description: 'Staff retrieved successfully' })
+  async findAll(@Query() query: ListStaffDto, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.staffService.findAll(query, tenantId, req.user.sub);
+  }
+
+  @Get('teams')
+  @Roles('staff', 'read')
+  @ApiOperation({ summary: 'List staff grouped by team' })
+  @ApiResponse({ status: 200, description: 'Teams retrieved successfully' })
+  async findByTeam(@CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.staffService.findByTeam(tenantId, req.user.sub);
+  }
+
+  @Get(':id')
+  @Roles('staff', 'read')
+  @ApiOperation({ summary: 'Get staff member by ID' })
+  @ApiResponse({ status: 200, description: 'Staff member retrieved successfully' })
+  async findOne(@Param('id') id: string, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.staffService.findOne(id, tenantId, req.user.sub);
+  }
+
+  @Get(':id/portfolio')
+  @Roles('staff', 'read')
+  @ApiOperation({ summary: 'List donors managed by this staff member with their last gift' })
+  @ApiResponse({ status: 200, description: 'Portfolio retrieved successfully' })
+  async getPortfolio(@Param('id') id: string, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.staffService.getPortfolio(id, tenantId, req.user.sub);
+  }
+
+  @Post(':id/portfolio')
+  @Roles('contacts', 'update', {
+    entity: 'staff',
+    snapshot: false,
+    after: (result, request) => ({ ...request.body, ...result }),
+  })
+  @ApiOperation({ summary: 'Assign contacts and organizations to this staff member' })
+  @ApiResponse({ status: 201, description: 'Portfolio assigned successfully' })
+  async assignPortfolio(@Param('id') id: string, @Body() staffPortfolioDto: StaffPortfolioDto, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.staffService.assignPortfolio(id, staffPortfolioDto, tenantId, req.user.sub);
+  }
+
+  @Post(':id/portfolio/release')
+  @Roles('contacts', 'update', {
+    entity: 'staff',
+    snapshot: false,
+    after: (result, request) => ({ ...request.body, ...result }),
+  })
+  @ApiOperation({ summary: 'Remove contacts and organizations from this staff member' })
+  @ApiResponse({ status: 201, description: 'Portfolio released successfully' })
+  async releasePortfolio(@Param('id') id: string, @Body() staffPortfolioDto: StaffPortfolioDto, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.staffService.releasePortfolio(id, staffPortfolioDto, tenantId, req.user.sub);
+  }
+
+  @Patch(':id')
+  @Roles('staff', 'update')
+  @ApiOperation({ summary: 'Update staff member' })
+  @ApiResponse({ status: 200, description: 'Staff member updated successfully' })
+  async update(@Param('id') id: string, @Body() updateStaffDto: UpdateStaffDto, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.staffService.update(id, updateStaffDto, tenantId, req.user.sub);
+  }
+
+  @Delete(':id')
+  @Roles('staff', 'delete')
+  @ApiOperation({ summary: 'Remove staff member' })
+  @ApiResponse({ status: 200, description: 'Staff member removed successfully' })
+  async remove(@Param('id') id: string, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    return this.staffService.remove(id, tenantId, req.user.sub);
+  }
+}
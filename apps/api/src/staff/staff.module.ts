@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { StaffService } from './staff.service';
+import { StaffController } from './staff.controller';
+
+@Module({
+  providers: [StaffService],
+  controllers: [StaffController],
+  exports: [StaffService],
+})
+export class StaffModule {}
@@ -0,0 +1,145 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { db } from '@crmblr/db';
+import { CreateStaffRequest, StaffPortfolioRequest, StaffTeam, UpdateStaffRequest } from '@crmblr/types';
+
+export interface StaffFilters {
+  team?: StaffTeam;
+}
+
+@Injectable()
+export class StaffService {
+  async create(createStaffDto: CreateStaffRequest, tenantId: string, userId: string) {
+    return db.forTenant(tenantId, userId).staff.create({
+      data: {
+        tenantId,
+        ...createStaffDto,
+      },
+    });
+  }
+
+  async findAll(filters: StaffFilters, tenantId: string, userId: string) {
+    return db.forTenant(tenantId, userId).staff.findMany({
+      where: { team: filters.team },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  // Directory grouped by team, with every team present even when empty
+  async findByTeam(tenantId: string, userId: string) {
+    const staff = await this.findAll({}, tenantId, userId);
+
+    return Object.values(StaffTeam).map(team => ({
+      team,
+      staff: staff.filter(member => member.team === team),
+    }));
+  }
+
+  async findOne(id: string, tenantId: string, userId: string) {
+    const member = await db.forTenant(tenantId, userId).staff.findUnique({
+      where: { id },
+      include: {
+        _count: { select: { contacts: true, organizations: true } },
+      },
+    });
+
+    if (!member) {
+      throw new NotFoundException('Staff member not found');
+    }
+
+    return member;
+  }
+
+  async update(id: string, updateStaffDto: UpdateStaffRequest, tenantId: string, userId: string) {
+    return db.forTenant(tenantId, userId).staff.update({
+      where: { id },
+      data: updateStaffDto,
+    });
+  }
+
+  async remove(id: string, tenantId: string, userId: string) {
+    await db.forTenant(tenantId, userId).staff.delete({
+      where: { id },
+    });
+  }
+
+  // Makes this staff member the relationship manager of the given records
+  async assignPortfolio(id: string, request: StaffPortfolioRequest, tenantId: string, userId: string) {
+    return db.withTenant(tenantId, userId, async (tx) => {
+      const member = await tx.staff.findUnique({ where: { id } });
+      if (!member) {
+        throw new NotFoundException('Staff member not found');
+      }
+
+      const [contacts, organizations] = await Promise.all([
+        tx.contact.updateMany({
+          where: { id: { in: request.contactIds ?? [] } },
+          data: { relationshipManagerId: id },
+        }),
+        tx.organization.updateMany({
+          where: { id: { in: request.organizationIds ?? [] } },
+          data: { relationshipManagerId: id },
+        }),
+      ]);
+
+      return { contacts: contacts.count, organizations: organizations.count };
+    });
+  }
+
+  // Clears the assignment only where this staff member is still the manager
+  async releasePortfolio(id: string, request: StaffPortfolioRequest, tenantId: string, userId: string) {
+    return db.withTenant(tenantId, userId, async (tx) => {
+      const [contacts, organizations] = await Promise.all([
+        tx.contact.updateMany({
+          where: { id: { in: request.contactIds ?? [] }, relationshipManagerId: id },
+          data: { relationshipManagerId: null },
+        }),
+        tx.organization.updateMany({
+          where: { id: { in: request.organizationIds ?? [] }, relationshipManagerId: id },
+          data: { relationshipManagerId: null },
+        }),
+      ]);
+
+      return { contacts: contacts.count, organizations: organizations.count };
+    });
+  }
+
+  // Assigned donors with their most recent gift and, for people, their pipeline stage
+  async getPortfolio(id: string, tenantId: string, userId: string) {
+    const client = db.forTenant(tenantId, userId);
+    const lastGift = {
+      orderBy: { date: 'desc' as const },
+      take: 1,
+      select: { id: true, amount: true, date: true },
+    };
+
+    const [member, contacts, organizations] = await Promise.all([
+      client.staff.findUnique({ where: { id } }),
+      client.contact.findMany({
+        where: { relationshipManagerId: id },
+        include: { donations: lastGift },
+        orderBy: [{ lastName: 'asc' }, { firstName: 'asc' }],
+      }),
+      client.organization.findMany({
+        where: { relationshipManagerId: id },
+        include: { donations: lastGift },
+        orderBy: { name: 'asc' },
+      }),
+    ]);
+
+    if (!member) {
+      throw new NotFoundException('Staff member not found');
+    }
+
+    return {
+      staff: member,
+      contacts: contacts.map(({ donations, ...contact }) => ({
+        ...contact,
+        lastGift: donations[0] ?? null,
+      })),
+      organizations: organizations.map(({ donations, ...organization }) => ({
+        ...organization,
+        lastGift: donations[0] ?? null,
+      })),
+    };
+  }
+}
@@ -1,7 +1,11 @@
-import { Controller, Get, Post, Body, Patch, Param, Delete, UseGuards, Request, Headers } from '@nestjs/common';
+import { Controller, Get, Post, Body, Patch, Param, Delete, UseGuards, Request, ForbiddenException } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiHeader } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { TenantGuard } from '../common/guards/tenant.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { CurrentTenant } from '../common/decorators/current-tenant.decorator';
+import { Roles } from '../common/decorators/roles.decorator';
+import { Audit } from '../common/decorators/audit.decorator';
 import { TenantsService } from './tenants.service';
 import { CreateTenantDto } from './dto/create-tenant.dto';
 import { UpdateTenantDto } from './dto/update-tenant.dto';
@@ -14,6 +18,7 @@ export class TenantsController {
   constructor(private readonly tenantsService: TenantsService) {}
 
   @Post()
+  @Audit('tenants', 'create')
   @ApiOperation({ summary: 'Create a new tenant' })
   @ApiResponse({ status: 201, description: 'Tenant created successfully' })
   async create(@Body() createTenantDto: CreateTenantDto, @Request() req) {
@@ -28,29 +33,35 @@ export class TenantsController {
   }
 
   @Get(':id')
-  @UseGuards(TenantGuard)
-  @ApiHeader({ name: 'x-tenant-id', description: 'Tenant ID' })
+  @UseGuards(TenantGuard, RolesGuard)
+  @Roles('tenants', 'read')
+  @ApiHeader({ name: 'x-tenant-id', description: 'Tenant ID or slug' })
   @ApiOperation({ summary: 'Get tenant by ID' })
   @ApiResponse({ status: 200, description: 'Tenant retrieved successfully' })
-  async findOne(@Param('id') id: string, @Request() req) {
+  async findOne(@Param('id') id: string, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    this.assertSameTenant(id, tenantId);
     return this.tenantsService.findOne(id, req.user.sub);
   }
 
   @Patch(':id')
-  @UseGuards(TenantGuard)
-  @ApiHeader({ name: 'x-tenant-id', description: 'Tenant ID' })
+  @UseGuards(TenantGuard, RolesGuard)
+  @Roles('tenants', 'update')
+  @ApiHeader({ name: 'x-tenant-id', description: 'Tenant ID or slug' })
   @ApiOperation({ summary: 'Update tenant' })
   @ApiResponse({ status: 200, description: 'Tenant updated successfully' })
-  async update(@Param('id') id: string, @Body() updateTenantDto: UpdateTenantDto, @Request() req) {
+  async update(@Param('id') id: string, @Body() updateTenantDto: UpdateTenantDto, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    this.assertSameTenant(id, tenantId);
     return this.tenantsService.update(id, updateTenantDto, req.user.sub);
   }
 
   @Delete(':id')
-  @UseGuards(TenantGuard)
-  @ApiHeader({ name: 'x-tenant-id', description: 'Tenant ID' })
+  @UseGuards(TenantGuard, RolesGuard)
+  @Roles('tenants', 'delete', { record: false })
+  @ApiHeader({ name: 'x-tenant-id', description: 'Tenant ID or slug' })
   @ApiOperation({ summary: 'Delete tenant' })
   @ApiResponse({ status: 200, description: 'Tenant deleted successfully' })
-  async remove(@Param('id') id: string, @Request() req) {
+  async remove(@Param('id') id: string, @CurrentTenant('tenantId') tenantId: string, @Request() req) {
+    this.assertSameTenant(id, tenantId);
     return this.tenantsService.remove(id, req.user.sub);
   }
 
@@ -60,4 +71,11 @@ export class TenantsController {
   async findBySlug(@Param('slug') slug: string) {
     return this.tenantsService.findBySlug(slug);
   }
+
+  // Membership is checked against the header, so the path must name the same tenant
+  private assertSameTenant(id: string, tenantId: string) {
+    if (id !== tenantId) {
+      throw new ForbiddenException('Tenant ID does not match x-tenant-id header');
+    }
+  }
 }
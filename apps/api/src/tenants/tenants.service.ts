@@ -1,48 +1,42 @@
 import { Injectable } from '@nestjs/common';
-import { db } from '@crmblr/db';
+import { db, NO_TENANT_ID } from '@crmblr/db';
 import { CreateTenantRequest, UpdateTenantRequest } from '@crmblr/types';
 
 @Injectable()
 export class TenantsService {
   async create(createTenantDto: CreateTenantRequest, userId: string) {
-    // Set user context for RLS
-    await db.setTenantContext('00000000-0000-0000-0000-000000000000', userId);
-    
-    const tenant = await db.client.tenant.create({
-      data: {
-        name: createTenantDto.name,
-        slug: createTenantDto.slug,
-        branding: createTenantDto.branding || {},
-        settings: {},
-      },
-    });
+    // Tenant and owner membership are created together under the user context
+    return db.withTenant(NO_TENANT_ID, userId, async (tx) => {
+      const tenant = await tx.tenant.create({
+        data: {
+          name: createTenantDto.name,
+          slug: createTenantDto.slug,
+          branding: createTenantDto.branding || {},
+          settings: {},
+        },
+      });
 
-    // Create user-tenant relationship
-    await db.client.userTenant.create({
-      data: {
-        userId,
-        tenantId: tenant.id,
-        role: 'owner',
-      },
-    });
+      // Create user-tenant relationship
+      await tx.userTenant.create({
+        data: {
+          userId,
+          tenantId: tenant.id,
+          role: 'owner',
+        },
+      });
 
-    await db.clearTenantContext();
-    
-    return tenant;
+      return tenant;
+    });
   }
 
   async findAll(userId: string) {
-    await db.setTenantContext('00000000-0000-0000-0000-000000000000', userId);
-    
-    const userTenants = await db.client.userTenant.findMany({
+    const userTenants = await db.forTenant(NO_TENANT_ID, userId).userTenant.findMany({
       where: { userId },
       include: {
         tenant: true,
       },
     });
 
-    await db.clearTenantContext();
-    
     return userTenants.map(ut => ({
       id: ut.tenant.id,
       name: ut.tenant.name,
@@ -54,38 +48,22 @@ export class TenantsService {
   }
 
   async findOne(id: string, userId: string) {
-    await db.setTenantContext(id, userId);
-    
-    const tenant = await db.client.tenant.findUnique({
+    return db.forTenant(id, userId).tenant.findUnique({
       where: { id },
     });
-
-    await db.clearTenantContext();
-    
-    return tenant;
   }
 
   async update(id: string, updateTenantDto: UpdateTenantRequest, userId: string) {
-    await db.setTenantContext(id, userId);
-    
-    const tenant = await db.client.tenant.update({
+    return db.forTenant(id, userId).tenant.update({
       where: { id },
       data: updateTenantDto,
     });
-
-    await db.clearTenantContext();
-    
-    return tenant;
   }
 
   async remove(id: string, userId: string) {
-    await db.setTenantContext(id, userId);
-    
-    await db.client.tenant.delete({
+    await db.forTenant(id, userId).tenant.delete({
       where: { id },
     });
-
-    await db.clearTenantContext();
   }
 
   async findBySlug(slug: string) {
@@ -3,6 +3,10 @@ const nextConfig = {
   images: {
     domains: ['localhost', 'crmblr.com'],
   },
+  experimental: {
+    // Loads the SQL parser's WebAssembly at runtime, so it must not be bundled
+    serverComponentsExternalPackages: ['@crmblr/llm'],
+  },
   async rewrites() {
     return [
       {
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { askAssistant } from '@/lib/assistant';
 
 export async function POST(request: NextRequest) {
   try {
@@ -11,38 +12,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Call OpenAI API to get donation advice
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a fundraising expert specializing in hackathon and tech event fundraising. Provide practical, actionable advice for increasing donations. Focus on strategies that work for tech events, hackathons, and innovation competitions. Keep responses concise (under 150 words) and include specific actionable steps.'
-          },
-          {
-            role: 'user',
-            content: query
-          }
-        ],
-        max_tokens: 200,
-        temperature: 0.7,
-      }),
+    // Answer with the configured LLM provider
+    const advice = await askAssistant(query, {
+      system: 'You are a fundraising expert specializing in hackathon and tech event fundraising. Provide practical, actionable advice for increasing donations. Focus on strategies that work for tech events, hackathons, and innovation competitions. Keep responses concise (under 150 words) and include specific actionable steps.',
+      maxTokens: 200,
+      temperature: 0.7,
     });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('OpenAI API error:', response.status, errorText);
-      throw new Error(`OpenAI API failed: ${response.status} - ${errorText}`);
-    }
-
-    const data = await response.json();
-    const advice = data.choices[0]?.message?.content || 'Sorry, I could not provide donation advice at this time.';
     
     console.log(`💡 OpenAI Donation Advice Query: "${query}" -> "${advice}"`);
     
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { askAssistant } from '@/lib/assistant';
 
 export async function POST(request: NextRequest) {
   try {
@@ -11,38 +12,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Call OpenAI API to answer general questions
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a helpful AI assistant created at the Tokyo Voice AI Hackathon. You are friendly, knowledgeable, and concise. Answer questions clearly and helpfully. Keep responses conversational and under 200 words unless more detail is specifically requested. If you don\'t know something, say so honestly.'
-          },
-          {
-            role: 'user',
-            content: query
-          }
-        ],
-        max_tokens: 300,
-        temperature: 0.7,
-      }),
+    // Answer with the configured LLM provider
+    const answer = await askAssistant(query, {
+      system: 'You are a helpful AI assistant created at the Tokyo Voice AI Hackathon. You are friendly, knowledgeable, and concise. Answer questions clearly and helpfully. Keep responses conversational and under 200 words unless more detail is specifically requested. If you don\'t know something, say so honestly.',
+      maxTokens: 300,
+      temperature: 0.7,
     });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('OpenAI API error:', response.status, errorText);
-      throw new Error(`OpenAI API failed: ${response.status} - ${errorText}`);
-    }
-
-    const data = await response.json();
-    const answer = data.choices[0]?.message?.content || 'Sorry, I could not answer that question at this time.';
     
     console.log(`🤔 OpenAI General Question: "${query}" -> "${answer}"`);
     
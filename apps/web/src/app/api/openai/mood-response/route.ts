@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { askAssistant } from '@/lib/assistant';
 
 export async function POST(request: NextRequest) {
   try {
@@ -59,38 +60,12 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Call OpenAI API to provide empathetic mood responses
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a warm, caring AI friend created at the Tokyo Voice AI Hackathon. When someone shares their feelings, respond with genuine empathy and understanding. Acknowledge their emotions, offer gentle comfort, and ask how you can help. Be supportive and encouraging. Keep responses conversational, warm, and under 150 words. Focus on being a supportive friend who listens and cares. Always respond with empathy and understanding, never suggest professional help unless specifically asked.'
-          },
-          {
-            role: 'user',
-            content: query
-          }
-        ],
-        max_tokens: 200,
-        temperature: 0.8,
-      }),
+    // Answer with the configured LLM provider
+    const answer = await askAssistant(query, {
+      system: 'You are a warm, caring AI friend created at the Tokyo Voice AI Hackathon. When someone shares their feelings, respond with genuine empathy and understanding. Acknowledge their emotions, offer gentle comfort, and ask how you can help. Be supportive and encouraging. Keep responses conversational, warm, and under 150 words. Focus on being a supportive friend who listens and cares. Always respond with empathy and understanding, never suggest professional help unless specifically asked.',
+      maxTokens: 200,
+      temperature: 0.8,
     });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('OpenAI API error:', response.status, errorText);
-      throw new Error(`OpenAI API failed: ${response.status} - ${errorText}`);
-    }
-
-    const data = await response.json();
-    const answer = data.choices[0]?.message?.content || 'I\'m here to listen and support you. How can I help you feel better?';
     
     console.log(`💝 OpenAI Mood Response: "${query}" -> "${answer}"`);
     
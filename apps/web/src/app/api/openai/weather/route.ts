@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { askAssistant } from '@/lib/assistant';
 
 export async function POST(request: NextRequest) {
   try {
@@ -11,38 +12,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Call OpenAI API to get weather information
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a helpful assistant that provides current weather information. When asked about weather, provide accurate, friendly responses with relevant details like temperature, conditions, and any helpful advice. Keep responses conversational and under 100 words.'
-          },
-          {
-            role: 'user',
-            content: query
-          }
-        ],
-        max_tokens: 150,
-        temperature: 0.7,
-      }),
+    // Answer with the configured LLM provider
+    const weatherInfo = await askAssistant(query, {
+      system: 'You are a helpful assistant that provides current weather information. When asked about weather, provide accurate, friendly responses with relevant details like temperature, conditions, and any helpful advice. Keep responses conversational and under 100 words.',
+      maxTokens: 150,
+      temperature: 0.7,
     });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('OpenAI API error:', response.status, errorText);
-      throw new Error(`OpenAI API failed: ${response.status} - ${errorText}`);
-    }
-
-    const data = await response.json();
-    const weatherInfo = data.choices[0]?.message?.content || 'Sorry, I could not get weather information at this time.';
     
     console.log(`🌤️ OpenAI Weather Query: "${query}" -> "${weatherInfo}"`);
     
@@ -1,12 +1,17 @@
 'use client';
 
 import { useParams } from 'next/navigation';
-import { DEMO_TENANTS } from '@crmblr/types';
+import { CreateDashboardWidgetRequest, Dashboard, DEMO_TENANTS, Report, TenantDashboardData, UpdateDashboardLayoutRequest } from '@crmblr/types';
 import { Button } from '@crmblr/ui';
 import Link from 'next/link';
 import { getTenantBranding, applyBranding } from '@/lib/branding-service';
 import { getTenantDashboardData, formatCurrency, formatDate } from '@/lib/tenant-data-service';
-import { useEffect } from 'react';
+import { apiRequest } from '@/lib/api-client';
+import { DashboardGrid } from '@/components/DashboardGrid';
+import { AddDashboardWidgetForm } from '@/components/AddDashboardWidgetForm';
+import { useCallback, useEffect, useState } from 'react';
+
+const OVERVIEW_TAB = 'overview';
 
 export default function TenantDashboard() {
   const params = useParams();
@@ -25,7 +30,16 @@ export default function TenantDashboard() {
   const branding = getTenantBranding(slug);
 
   // Get tenant-specific dashboard data
-  const dashboardData = getTenantDashboardData(slug);
+  const [dashboardData, setDashboardData] = useState<TenantDashboardData | null>(null);
+  const [dashboardDataError, setDashboardDataError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDashboardData(null);
+    setDashboardDataError(null);
+    getTenantDashboardData(slug)
+      .then(setDashboardData)
+      .catch((error) => setDashboardDataError(error instanceof Error ? error.message : 'Failed to load dashboard'));
+  }, [slug]);
 
   // Apply branding to CSS custom properties
   useEffect(() => {
@@ -38,6 +52,97 @@ export default function TenantDashboard() {
     root.style.setProperty('--font-numeric', branding.fonts.numeric);
   }, [branding]);
 
+  const [dashboards, setDashboards] = useState<Dashboard[]>([]);
+  const [reports, setReports] = useState<Report[]>([]);
+  const [activeTab, setActiveTab] = useState(OVERVIEW_TAB);
+  const [newDashboardName, setNewDashboardName] = useState('');
+  const [newDashboardShared, setNewDashboardShared] = useState(false);
+  const [isCreatingDashboard, setIsCreatingDashboard] = useState(false);
+  const [isAddingWidget, setIsAddingWidget] = useState(false);
+  const [dashboardError, setDashboardError] = useState<string | null>(null);
+
+  // Custom dashboards need the API; the overview works without it
+  const loadDashboards = useCallback(async () => {
+    try {
+      const [dashboardList, reportList] = await Promise.all([
+        apiRequest<Dashboard[]>('/dashboards', { tenant: slug }),
+        apiRequest<Report[]>('/reports', { tenant: slug }),
+      ]);
+      setDashboards(dashboardList);
+      setReports(reportList);
+    } catch (error) {
+      console.error('Failed to load dashboards:', error);
+    }
+  }, [slug]);
+
+  useEffect(() => {
+    loadDashboards();
+  }, [loadDashboards]);
+
+  const activeDashboard = dashboards.find(dashboard => dashboard.id === activeTab);
+  const reportNames = Object.fromEntries(reports.map(report => [report.id, report.name]));
+
+  const replaceDashboard = (updated: Dashboard) => {
+    setDashboards(current => current.map(dashboard => (dashboard.id === updated.id ? updated : dashboard)));
+  };
+
+  const runDashboardAction = async (action: () => Promise<void>, fallback: string) => {
+    setDashboardError(null);
+    try {
+      await action();
+    } catch (error) {
+      setDashboardError(error instanceof Error ? error.message : fallback);
+    }
+  };
+
+  const handleCreateDashboard = () => runDashboardAction(async () => {
+    const dashboard = await apiRequest<Dashboard>('/dashboards', {
+      tenant: slug,
+      method: 'POST',
+      body: { name: newDashboardName.trim(), shared: newDashboardShared },
+    });
+    setDashboards(current => [...current, dashboard]);
+    setActiveTab(dashboard.id);
+    setNewDashboardName('');
+    setNewDashboardShared(false);
+    setIsCreatingDashboard(false);
+  }, 'Failed to create dashboard');
+
+  const handleDeleteDashboard = (dashboard: Dashboard) => runDashboardAction(async () => {
+    await apiRequest(`/dashboards/${dashboard.id}`, { tenant: slug, method: 'DELETE' });
+    setDashboards(current => current.filter(candidate => candidate.id !== dashboard.id));
+    setActiveTab(OVERVIEW_TAB);
+  }, 'Failed to delete dashboard');
+
+  // A rejected layout puts the widgets back where the API has them
+  const handleLayoutChange = (dashboard: Dashboard, widgets: UpdateDashboardLayoutRequest['widgets']) => runDashboardAction(async () => {
+    try {
+      replaceDashboard(await apiRequest<Dashboard>(`/dashboards/${dashboard.id}/layout`, {
+        tenant: slug,
+        method: 'PUT',
+        body: { widgets },
+      }));
+    } catch (error) {
+      replaceDashboard({ ...dashboard });
+      throw error;
+    }
+  }, 'Failed to save layout');
+
+  const handleAddWidget = (dashboard: Dashboard, request: Partial<CreateDashboardWidgetRequest>) => runDashboardAction(async () => {
+    const widget = await apiRequest<Dashboard['widgets'][number]>(`/dashboards/${dashboard.id}/widgets`, {
+      tenant: slug,
+      method: 'POST',
+      body: request,
+    });
+    replaceDashboard({ ...dashboard, widgets: [...dashboard.widgets, widget] });
+    setIsAddingWidget(false);
+  }, 'Failed to add widget');
+
+  const handleRemoveWidget = (dashboard: Dashboard, widgetId: string) => runDashboardAction(async () => {
+    await apiRequest(`/dashboards/${dashboard.id}/widgets/${widgetId}`, { tenant: slug, method: 'DELETE' });
+    replaceDashboard({ ...dashboard, widgets: dashboard.widgets.filter(widget => widget.id !== widgetId) });
+  }, 'Failed to remove widget');
+
   if (!tenant) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -57,187 +162,262 @@ export default function TenantDashboard() {
         <p className="text-gray-600" style={{ fontFamily: branding.fonts.body }}>Welcome to {tenant.name}</p>
       </div>
 
-      {/* Key Metrics Row */}
-      <div className="grid grid-cols-4 gap-6">
-        <div className="bg-white rounded-lg p-6 shadow-sm">
-          <div className="text-center">
-            <div className="text-3xl font-bold text-gray-900 mb-2" style={{ fontFamily: branding.fonts.numeric }}>
-              {formatCurrency(dashboardData.metrics.yearToDate)}
-            </div>
-            <div className="text-sm text-gray-600">Year to Date</div>
-          </div>
+      {/* Dashboard Tabs */}
+      <div className="flex items-center justify-between border-b border-gray-200">
+        <div className="flex space-x-1">
+          {[{ id: OVERVIEW_TAB, name: 'Overview', ownerId: null }, ...dashboards].map((dashboard) => (
+            <button
+              key={dashboard.id}
+              type="button"
+              onClick={() => {
+                setActiveTab(dashboard.id);
+                setIsAddingWidget(false);
+              }}
+              className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${
+                activeTab === dashboard.id ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {dashboard.name}
+              {dashboard.id !== OVERVIEW_TAB && !dashboard.ownerId && <span className="ml-1 text-xs text-gray-400">(shared)</span>}
+            </button>
+          ))}
         </div>
-        <div className="bg-white rounded-lg p-6 shadow-sm">
-          <div className="text-center">
-            <div className="text-3xl font-bold text-gray-900 mb-2" style={{ fontFamily: branding.fonts.numeric }}>
-              {formatCurrency(dashboardData.metrics.last30Days)}
-            </div>
-            <div className="text-sm text-gray-600">Last 30 Days</div>
-          </div>
+        <Button size="sm" variant="outline" className="mb-2" onClick={() => setIsCreatingDashboard(!isCreatingDashboard)}>
+          New Dashboard
+        </Button>
+      </div>
+
+      {isCreatingDashboard && (
+        <div className="bg-white rounded-lg p-4 shadow-sm flex items-center gap-3">
+          <input
+            value={newDashboardName}
+            onChange={(e) => setNewDashboardName(e.target.value)}
+            placeholder="Dashboard name"
+            className="flex-1 p-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={newDashboardShared} onChange={(e) => setNewDashboardShared(e.target.checked)} />
+            Share with everyone in {tenant.name}
+          </label>
+          <Button size="sm" onClick={handleCreateDashboard} disabled={!newDashboardName.trim()}>Create</Button>
         </div>
-        <div className="bg-white rounded-lg p-6 shadow-sm">
-          <div className="text-center">
-            <div className="text-3xl font-bold text-gray-900 mb-2" style={{ fontFamily: branding.fonts.numeric }}>
-              {dashboardData.metrics.totalDonors}
-            </div>
-            <div className="text-sm text-gray-600">Total Donors</div>
+      )}
+
+      {dashboardError && <p className="text-sm text-red-600">{dashboardError}</p>}
+
+      {activeDashboard ? (
+        <div className="space-y-4">
+          <div className="flex justify-end gap-2">
+            <Button size="sm" variant="outline" onClick={() => setIsAddingWidget(!isAddingWidget)}>Add Widget</Button>
+            <Button size="sm" variant="outline" onClick={() => handleDeleteDashboard(activeDashboard)}>Delete Dashboard</Button>
           </div>
-        </div>
-        <div className="bg-white rounded-lg p-6 shadow-sm">
-          <div className="text-center">
-            <div className="text-3xl font-bold text-gray-900 mb-2" style={{ fontFamily: branding.fonts.numeric }}>
-              {dashboardData.metrics.avgEngagementScore}
+          {isAddingWidget && (
+            <div className="bg-white rounded-lg p-4 shadow-sm">
+              <AddDashboardWidgetForm
+                reports={reports}
+                onAdd={(request) => handleAddWidget(activeDashboard, request)}
+                onCancel={() => setIsAddingWidget(false)}
+              />
             </div>
-            <div className="text-sm text-gray-600">Avg Engagement Score</div>
-          </div>
+          )}
+          <DashboardGrid
+            tenant={slug}
+            dashboard={activeDashboard}
+            reportNames={reportNames}
+            editable
+            onLayoutChange={(widgets) => handleLayoutChange(activeDashboard, widgets)}
+            onRemoveWidget={(widgetId) => handleRemoveWidget(activeDashboard, widgetId)}
+          />
         </div>
-      </div>
-
-      {/* Main Content Grid */}
-      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-        {/* Left Column */}
-        <div className="lg:col-span-2 space-y-6">
-          {/* Requires Attention */}
-          <div className="bg-white rounded-lg p-6 shadow-sm">
-            <div className="flex items-center justify-between mb-4">
-              <h3 className="text-lg font-semibold text-gray-900">Requires Attention</h3>
-            </div>
-            <div className="flex items-center space-x-3 p-3 bg-yellow-50 rounded-lg">
-              <div className="w-6 h-6 bg-yellow-500 rounded-full flex items-center justify-center">
-                <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z" />
-                </svg>
+      ) : !dashboardData ? (
+        <div className="bg-white rounded-lg p-12 shadow-sm text-center text-gray-600">
+          {dashboardDataError ?? 'Loading dashboard...'}
+        </div>
+      ) : (
+        <>
+          {/* Key Metrics Row */}
+          <div className="grid grid-cols-4 gap-6">
+            <div className="bg-white rounded-lg p-6 shadow-sm">
+              <div className="text-center">
+                <div className="text-3xl font-bold text-gray-900 mb-2" style={{ fontFamily: branding.fonts.numeric }}>
+                  {formatCurrency(dashboardData.metrics.yearToDate)}
+                </div>
+                <div className="text-sm text-gray-600">Year to Date</div>
               </div>
-              <span className="text-gray-700">{dashboardData.requiresAttention.count} {dashboardData.requiresAttention.message}</span>
-              <div className="flex space-x-2 ml-auto">
-                <Button size="sm" className="bg-green-600 hover:bg-green-700 text-white text-xs px-3 py-1">
-                  Dismiss All
-                </Button>
-                <Button size="sm" variant="outline" className="text-xs px-3 py-1">
-                  View
-                </Button>
+            </div>
+            <div className="bg-white rounded-lg p-6 shadow-sm">
+              <div className="text-center">
+                <div className="text-3xl font-bold text-gray-900 mb-2" style={{ fontFamily: branding.fonts.numeric }}>
+                  {formatCurrency(dashboardData.metrics.last30Days)}
+                </div>
+                <div className="text-sm text-gray-600">Last 30 Days</div>
               </div>
             </div>
-          </div>
-
-          {/* Grant Deadlines */}
-          <div className="bg-white rounded-lg p-6 shadow-sm">
-            <div className="flex items-center justify-between mb-4">
-              <h3 className="text-lg font-semibold text-gray-900">Grant Deadlines</h3>
+            <div className="bg-white rounded-lg p-6 shadow-sm">
+              <div className="text-center">
+                <div className="text-3xl font-bold text-gray-900 mb-2" style={{ fontFamily: branding.fonts.numeric }}>
+                  {dashboardData.metrics.totalDonors}
+                </div>
+                <div className="text-sm text-gray-600">Total Donors</div>
+              </div>
             </div>
-            <div className="space-y-3">
-              {dashboardData.grantDeadlines.map((deadline, index) => (
-                <div key={index} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
-                  <div className="flex items-center space-x-3">
-                    <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
-                    </svg>
-                    <div>
-                      <div className="font-medium text-gray-900">{deadline.name}</div>
-                      <div className="text-sm text-gray-600">Application: {deadline.applicationDate}</div>
-                    </div>
-                  </div>
-                  <div className="text-sm text-gray-600">{deadline.daysRemaining} Days</div>
+            <div className="bg-white rounded-lg p-6 shadow-sm">
+              <div className="text-center">
+                <div className="text-3xl font-bold text-gray-900 mb-2" style={{ fontFamily: branding.fonts.numeric }}>
+                  {dashboardData.metrics.avgEngagementScore}
                 </div>
-              ))}
+                <div className="text-sm text-gray-600">Avg Engagement Score</div>
+              </div>
             </div>
           </div>
 
-          {/* Donor Cultivation */}
-          <div className="bg-white rounded-lg p-6 shadow-sm">
-            <div className="flex items-center justify-between mb-4">
-              <h3 className="text-lg font-semibold text-gray-900">Donor Cultivation</h3>
-            </div>
-            <div className="space-y-3">
-              {dashboardData.donorCultivation.map((donor, index) => (
-                <div key={index} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
-                  <div className="flex items-center space-x-3">
-                    <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+          {/* Main Content Grid */}
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Left Column */}
+            <div className="lg:col-span-2 space-y-6">
+              {/* Requires Attention */}
+              <div className="bg-white rounded-lg p-6 shadow-sm">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold text-gray-900">Requires Attention</h3>
+                </div>
+                <div className="flex items-center space-x-3 p-3 bg-yellow-50 rounded-lg">
+                  <div className="w-6 h-6 bg-yellow-500 rounded-full flex items-center justify-center">
+                    <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z" />
                     </svg>
-                    <div>
-                      <div className="font-medium text-gray-900">{donor.name}</div>
-                      <div className="text-sm text-gray-600">Last Contact: {donor.lastContact} → {donor.action}</div>
-                    </div>
                   </div>
-                  <div className="flex space-x-2">
-                    <Button size="sm" variant="outline" className="text-xs px-3 py-1">View</Button>
-                    <Button size="sm" className="bg-blue-600 hover:bg-blue-700 text-white text-xs px-3 py-1">Log Touch</Button>
+                  <span className="text-gray-700">{dashboardData.metrics.pendingThankYous} donations need acknowledgment</span>
+                  <div className="flex space-x-2 ml-auto">
+                    <Button size="sm" className="bg-green-600 hover:bg-green-700 text-white text-xs px-3 py-1">
+                      Dismiss All
+                    </Button>
+                    <Button size="sm" variant="outline" className="text-xs px-3 py-1">
+                      View
+                    </Button>
                   </div>
                 </div>
-              ))}
-            </div>
-          </div>
-        </div>
-
-        {/* Right Column */}
-        <div className="space-y-6">
-          {/* Pipeline Overview */}
-          <div className="bg-white rounded-lg p-6 shadow-sm">
-            <div className="flex items-center justify-between mb-4">
-              <h3 className="text-lg font-semibold text-gray-900">Pipeline Overview</h3>
-            </div>
-            <div className="space-y-3">
-              <div className="flex items-center justify-between">
-                <span className="text-gray-600">Identified</span>
-                <span className="font-semibold text-gray-900">({dashboardData.pipelineOverview.identified})</span>
               </div>
-              <div className="flex items-center justify-between">
-                <span className="text-gray-600">In Cultivation</span>
-                <span className="font-semibold text-gray-900">({dashboardData.pipelineOverview.inCultivation})</span>
-              </div>
-              <div className="flex items-center justify-between">
-                <span className="text-gray-600">At Risk</span>
-                <span className="font-semibold text-gray-900">({dashboardData.pipelineOverview.atRisk})</span>
+
+              {/* Grant Deadlines */}
+              <div className="bg-white rounded-lg p-6 shadow-sm">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold text-gray-900">Grant Deadlines</h3>
+                </div>
+                <div className="space-y-3">
+                  {dashboardData.grantDeadlines.map((deadline) => (
+                    <div key={deadline.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+                      <div className="flex items-center space-x-3">
+                        <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                        </svg>
+                        <div>
+                          <div className="font-medium text-gray-900">{deadline.name}</div>
+                          <div className="text-sm text-gray-600">Deadline: {formatDate(deadline.deadline)}</div>
+                        </div>
+                      </div>
+                      <div className="text-sm text-gray-600">{deadline.daysRemaining} Days</div>
+                    </div>
+                  ))}
+                </div>
               </div>
-              <Button className="w-full mt-4 bg-gray-600 hover:bg-gray-700 text-white">
-                View Full Pipeline
-              </Button>
-            </div>
-          </div>
 
-          {/* Recent Donations */}
-          <div className="bg-white rounded-lg p-6 shadow-sm">
-            <div className="flex items-center justify-between mb-4">
-              <h3 className="text-lg font-semibold text-gray-900" style={{ fontFamily: branding.fonts.heading }}>Recent Donations</h3>
-            </div>
-            <div className="space-y-3">
-              {dashboardData.recentDonations.map((donation, index) => (
-                <div key={index} className="flex items-center justify-between">
-                  <div>
-                    <div className="font-medium text-gray-900">{donation.donorName}</div>
-                    <div className="text-sm text-gray-600" style={{ fontFamily: branding.fonts.body }}>{formatDate(donation.date)}</div>
-                  </div>
-                  <div className="font-semibold text-gray-900" style={{ fontFamily: branding.fonts.numeric }}>{formatCurrency(donation.amount)}</div>
+              {/* Donor Cultivation */}
+              <div className="bg-white rounded-lg p-6 shadow-sm">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold text-gray-900">Donor Cultivation</h3>
                 </div>
-              ))}
+                <div className="space-y-3">
+                  {dashboardData.donorCultivation.map((donor) => (
+                    <div key={donor.contactId} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+                      <div className="flex items-center space-x-3">
+                        <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+                        </svg>
+                        <div>
+                          <div className="font-medium text-gray-900">{donor.name}</div>
+                          <div className="text-sm text-gray-600">Last Contact: {donor.lastContact ? formatDate(donor.lastContact) : 'Never'} → {donor.action}</div>
+                        </div>
+                      </div>
+                      <div className="flex space-x-2">
+                        <Button size="sm" variant="outline" className="text-xs px-3 py-1">View</Button>
+                        <Button size="sm" className="bg-blue-600 hover:bg-blue-700 text-white text-xs px-3 py-1">Log Touch</Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
             </div>
-          </div>
 
-          {/* Active Campaigns */}
-          <div className="bg-white rounded-lg p-6 shadow-sm">
-            <div className="flex items-center justify-between mb-4">
-              <h3 className="text-lg font-semibold text-gray-900" style={{ fontFamily: branding.fonts.heading }}>Active Campaigns</h3>
-            </div>
-            <div>
-              {dashboardData.activeCampaigns.map((campaign, index) => (
-                <div key={index}>
-                  <div className="font-medium text-gray-900 mb-2" style={{ fontFamily: branding.fonts.heading }}>{campaign.name}</div>
-                  <div className="w-full bg-gray-200 rounded-full h-2 mb-2">
-                    <div 
-                      className="bg-blue-600 h-2 rounded-full" 
-                      style={{ width: `${campaign.progressPercentage}%` }}
-                    ></div>
+            {/* Right Column */}
+            <div className="space-y-6">
+              {/* Pipeline Overview */}
+              <div className="bg-white rounded-lg p-6 shadow-sm">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold text-gray-900">Pipeline Overview</h3>
+                </div>
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <span className="text-gray-600">Identified</span>
+                    <span className="font-semibold text-gray-900">({dashboardData.pipelineOverview.identified})</span>
                   </div>
-                  <div className="text-sm text-gray-600" style={{ fontFamily: branding.fonts.numeric }}>
-                    {formatCurrency(campaign.currentAmount)} of {formatCurrency(campaign.targetAmount)}
+                  <div className="flex items-center justify-between">
+                    <span className="text-gray-600">In Cultivation</span>
+                    <span className="font-semibold text-gray-900">({dashboardData.pipelineOverview.inCultivation})</span>
                   </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-gray-600">At Risk</span>
+                    <span className="font-semibold text-gray-900">({dashboardData.pipelineOverview.atRisk})</span>
+                  </div>
+                  <Button className="w-full mt-4 bg-gray-600 hover:bg-gray-700 text-white">
+                    View Full Pipeline
+                  </Button>
                 </div>
-              ))}
+              </div>
+
+              {/* Recent Donations */}
+              <div className="bg-white rounded-lg p-6 shadow-sm">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold text-gray-900" style={{ fontFamily: branding.fonts.heading }}>Recent Donations</h3>
+                </div>
+                <div className="space-y-3">
+                  {dashboardData.recentDonations.map((donation) => (
+                    <div key={donation.id} className="flex items-center justify-between">
+                      <div>
+                        <div className="font-medium text-gray-900">{donation.donorName}</div>
+                        <div className="text-sm text-gray-600" style={{ fontFamily: branding.fonts.body }}>{formatDate(donation.date)}</div>
+                      </div>
+                      <div className="font-semibold text-gray-900" style={{ fontFamily: branding.fonts.numeric }}>{formatCurrency(donation.amount)}</div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Active Campaigns */}
+              <div className="bg-white rounded-lg p-6 shadow-sm">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold text-gray-900" style={{ fontFamily: branding.fonts.heading }}>Active Campaigns</h3>
+                </div>
+                <div>
+                  {dashboardData.activeCampaigns.map((campaign) => (
+                    <div key={campaign.id}>
+                      <div className="font-medium text-gray-900 mb-2" style={{ fontFamily: branding.fonts.heading }}>{campaign.name}</div>
+                      <div className="w-full bg-gray-200 rounded-full h-2 mb-2">
+                        <div 
+                          className="bg-blue-600 h-2 rounded-full" 
+                          style={{ width: `${campaign.progressPercentage}%` }}
+                        ></div>
+                      </div>
+                      <div className="text-sm text-gray-600" style={{ fontFamily: branding.fonts.numeric }}>
+                        {formatCurrency(campaign.currentAmount)} of {formatCurrency(campaign.targetAmount)}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
             </div>
           </div>
-        </div>
-      </div>
+        </>
+      )}
     </div>
   );
 }
\ No newline at end of file
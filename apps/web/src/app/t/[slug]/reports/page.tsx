@@ -3,7 +3,10 @@
 import { useState, useEffect } from 'react';
 import { useParams } from 'next/navigation';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, Button } from '@crmblr/ui';
-import { DEMO_TENANTS } from '@crmblr/types';
+import { ChartSpec, DEMO_TENANTS, ReportResult, ReportSession } from '@crmblr/types';
+import { apiRequest } from '@/lib/api-client';
+import { ReportThread } from '@/components/ReportThread';
+import { ReportResults } from '@/components/ReportResults';
 
 export default function ReportsPage() {
   const params = useParams();
@@ -11,6 +14,12 @@ export default function ReportsPage() {
   const [tenant, setTenant] = useState<any>(null);
   const [prompt, setPrompt] = useState('');
   const [isGenerating, setIsGenerating] = useState(false);
+  const [session, setSession] = useState<ReportSession | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<ReportResult | null>(null);
+  const [chart, setChart] = useState<ChartSpec | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isSaved, setIsSaved] = useState(false);
   const [savedReports, setSavedReports] = useState<any[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
@@ -32,21 +41,86 @@ export default function ReportsPage() {
     setIsLoading(false);
   }, [slug]);
 
+  // The first prompt starts a session; later prompts refine its latest query
   const handleGenerateReport = async () => {
     if (!prompt.trim()) return;
     
     setIsGenerating(true);
+    setError(null);
     try {
-      // Mock API call
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      alert('Report generated successfully! (This is a demo)');
+      if (session) {
+        const turn = await apiRequest<ReportSession['turns'][number]>(`/reports/sessions/${session.id}/turns`, {
+          tenant: slug,
+          method: 'POST',
+          body: { prompt },
+        });
+        setSession({ ...session, turns: [...session.turns, turn] });
+        setResult(null);
+        setIsSaved(false);
+      } else {
+        setSession(await apiRequest<ReportSession>('/reports/sessions', {
+          tenant: slug,
+          method: 'POST',
+          body: { prompt },
+        }));
+      }
+      setPrompt('');
     } catch (error) {
-      alert('Failed to generate report');
+      setError(error instanceof Error ? error.message : 'Failed to generate report');
     } finally {
       setIsGenerating(false);
     }
   };
 
+  const latestTurn = session?.turns[session.turns.length - 1];
+
+  // The API keeps the suggested chart when it fits the result and infers one otherwise
+  const handleRunReport = async () => {
+    if (!latestTurn) return;
+
+    setIsRunning(true);
+    setError(null);
+    try {
+      const runResult = await apiRequest<ReportResult>('/reports/run', {
+        tenant: slug,
+        method: 'POST',
+        body: { sql: latestTurn.sql, ...(latestTurn.chart ? { chart: latestTurn.chart } : {}) },
+      });
+      setResult(runResult);
+      setChart(runResult.chart);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to run report');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  // Saved with the chart as shown, including a chart type picked by hand
+  const handleSaveReport = async () => {
+    if (!session || !latestTurn) return;
+
+    setError(null);
+    try {
+      await apiRequest('/reports/save', {
+        tenant: slug,
+        method: 'POST',
+        body: { name: session.title, sql: latestTurn.sql, description: latestTurn.explanation, chart },
+      });
+      setIsSaved(true);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save report');
+    }
+  };
+
+  const handleNewReport = () => {
+    setSession(null);
+    setPrompt('');
+    setError(null);
+    setResult(null);
+    setChart(null);
+    setIsSaved(false);
+  };
+
   if (isLoading) {
     return <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>;
   }
@@ -65,30 +139,56 @@ export default function ReportsPage() {
       {/* AI Report Generator */}
       <Card>
         <CardHeader>
-          <CardTitle>AI Report Generator</CardTitle>
-          <CardDescription>
-            Describe what you want to see and our AI will generate the SQL query
-          </CardDescription>
+          <div className="flex justify-between items-center">
+            <div>
+              <CardTitle>AI Report Generator</CardTitle>
+              <CardDescription>
+                Describe what you want to see and our AI will generate the SQL query
+              </CardDescription>
+            </div>
+            {session && (
+              <Button variant="outline" onClick={handleNewReport}>New Report</Button>
+            )}
+          </div>
         </CardHeader>
         <CardContent className="space-y-4">
+          {session && <ReportThread turns={session.turns} />}
+          {session && (
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleRunReport} disabled={isRunning}>
+                {isRunning ? 'Running...' : 'Run Report'}
+              </Button>
+              {result && (
+                <Button variant="outline" onClick={handleSaveReport} disabled={isSaved}>
+                  {isSaved ? 'Saved' : 'Save Report'}
+                </Button>
+              )}
+            </div>
+          )}
+          {result && <ReportResults result={result} chart={chart} onChartChange={setChart} />}
           <div>
             <label className="block text-sm font-medium mb-2">
-              What would you like to report on?
+              {session ? 'How should this report change?' : 'What would you like to report on?'}
             </label>
             <textarea
               value={prompt}
               onChange={(e) => setPrompt(e.target.value)}
-              placeholder="e.g., Show me all donors who gave more than $500 in the last 6 months"
+              placeholder={session
+                ? 'e.g., Only include donors in California and sort by total given'
+                : 'e.g., Show me all donors who gave more than $500 in the last 6 months'}
               className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               rows={3}
             />
           </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
           <Button 
             onClick={handleGenerateReport}
             disabled={isGenerating || !prompt.trim()}
             className="w-full"
           >
-            {isGenerating ? 'Generating Report...' : 'Generate Report'}
+            {isGenerating
+              ? (session ? 'Refining Report...' : 'Generating Report...')
+              : (session ? 'Refine Report' : 'Generate Report')}
           </Button>
         </CardContent>
       </Card>
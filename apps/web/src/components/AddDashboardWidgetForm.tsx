@@ -0,0 +1,86 @@
+'use client';
+
+import { useState } from 'react';
+import { CreateDashboardWidgetRequest, DASHBOARD_REFRESH_SECONDS, DashboardWidgetType } from '@crmblr/types';
+import { Button } from '@crmblr/ui';
+
+interface AddDashboardWidgetFormProps {
+  reports: { id: string; name: string }[];
+  onAdd: (request: Pick<CreateDashboardWidgetRequest, 'reportId' | 'type' | 'title' | 'refreshSeconds'>) => Promise<void>;
+  onCancel: () => void;
+}
+
+const TYPE_LABELS: Record<DashboardWidgetType, string> = {
+  [DashboardWidgetType.KPI]: 'KPI',
+  [DashboardWidgetType.CHART]: 'Chart',
+  [DashboardWidgetType.TABLE]: 'Table',
+};
+
+const REFRESH_OPTIONS = [
+  { seconds: 60, label: 'Every minute' },
+  { seconds: 300, label: 'Every 5 minutes' },
+  { seconds: 900, label: 'Every 15 minutes' },
+  { seconds: 3600, label: 'Every hour' },
+  { seconds: 86400, label: 'Every day' },
+];
+
+export function AddDashboardWidgetForm({ reports, onAdd, onCancel }: AddDashboardWidgetFormProps) {
+  const [reportId, setReportId] = useState(reports[0]?.id ?? '');
+  const [type, setType] = useState<DashboardWidgetType>(DashboardWidgetType.CHART);
+  const [title, setTitle] = useState('');
+  const [refreshSeconds, setRefreshSeconds] = useState<number>(DASHBOARD_REFRESH_SECONDS.default);
+  const [isAdding, setIsAdding] = useState(false);
+
+  if (reports.length === 0) {
+    return <p className="text-sm text-gray-600">Save a report first to add it to a dashboard.</p>;
+  }
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsAdding(true);
+    try {
+      await onAdd({ reportId, type, title: title.trim() || undefined, refreshSeconds });
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const fieldClassName = 'w-full p-2 border border-gray-300 rounded-lg text-sm';
+
+  return (
+    <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+      <label className="block text-sm font-medium md:col-span-2">
+        Report
+        <select value={reportId} onChange={(e) => setReportId(e.target.value)} className={`${fieldClassName} mt-1`}>
+          {reports.map((report) => (
+            <option key={report.id} value={report.id}>{report.name}</option>
+          ))}
+        </select>
+      </label>
+      <label className="block text-sm font-medium">
+        Show as
+        <select value={type} onChange={(e) => setType(e.target.value as DashboardWidgetType)} className={`${fieldClassName} mt-1`}>
+          {Object.values(DashboardWidgetType).map((value) => (
+            <option key={value} value={value}>{TYPE_LABELS[value]}</option>
+          ))}
+        </select>
+      </label>
+      <label className="block text-sm font-medium">
+        Refresh
+        <select value={refreshSeconds} onChange={(e) => setRefreshSeconds(Number(e.target.value))} className={`${fieldClassName} mt-1`}>
+          {REFRESH_OPTIONS.map((option) => (
+            <option key={option.seconds} value={option.seconds}>{option.label}</option>
+          ))}
+        </select>
+      </label>
+      <label className="block text-sm font-medium">
+        Title
+        <input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Report name" className={`${fieldClassName} mt-1`} />
+      </label>
+      <div className="flex gap-2 md:col-span-5 justify-end">
+        <Button type="button" variant="outline" onClick={onCancel}>Cancel</Button>
+        <Button type="submit" disabled={isAdding || !reportId}>{isAdding ? 'Adding...' : 'Add Widget'}</Button>
+      </div>
+    </form>
+  );
+}
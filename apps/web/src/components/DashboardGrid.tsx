@@ -0,0 +1,77 @@
+'use client';
+
+import GridLayout, { Layout, WidthProvider } from 'react-grid-layout';
+import 'react-grid-layout/css/styles.css';
+import 'react-resizable/css/styles.css';
+import { Dashboard, DASHBOARD_GRID_COLUMNS, UpdateDashboardLayoutRequest } from '@crmblr/types';
+import { DashboardWidgetCard } from '@/components/DashboardWidgetCard';
+
+const Grid = WidthProvider(GridLayout);
+
+const ROW_HEIGHT = 80;
+const MARGIN = 16;
+// Widget header plus body padding, taken off the grid cell for the widget body
+const CHROME_HEIGHT = 65;
+
+interface DashboardGridProps {
+  tenant: string;
+  dashboard: Dashboard;
+  // Report names by id, for widgets without a title of their own
+  reportNames: Record<string, string>;
+  editable: boolean;
+  onLayoutChange: (widgets: UpdateDashboardLayoutRequest['widgets']) => void;
+  onRemoveWidget: (widgetId: string) => void;
+}
+
+export function DashboardGrid({ tenant, dashboard, reportNames, editable, onLayoutChange, onRemoveWidget }: DashboardGridProps) {
+  const layout: Layout[] = dashboard.widgets.map((widget) => ({
+    i: widget.id,
+    x: widget.x,
+    y: widget.y,
+    w: widget.w,
+    h: widget.h,
+    minW: 2,
+    minH: 2,
+  }));
+
+  // Saved once a drag or resize ends rather than on every intermediate move
+  const save = (next: Layout[]) => onLayoutChange(next.map(({ i, x, y, w, h }) => ({ id: i, x, y, w, h })));
+
+  if (dashboard.widgets.length === 0) {
+    return (
+      <div className="bg-white rounded-lg p-12 shadow-sm text-center text-gray-600">
+        This dashboard has no widgets yet.
+      </div>
+    );
+  }
+
+  return (
+    <Grid
+      layout={layout}
+      cols={DASHBOARD_GRID_COLUMNS}
+      rowHeight={ROW_HEIGHT}
+      margin={[MARGIN, MARGIN]}
+      containerPadding={[0, 0]}
+      isDraggable={editable}
+      isResizable={editable}
+      draggableHandle=".widget-drag-handle"
+      draggableCancel="button"
+      onDragStop={save}
+      onResizeStop={save}
+    >
+      {dashboard.widgets.map((widget) => (
+        <div key={widget.id}>
+          <DashboardWidgetCard
+            tenant={tenant}
+            dashboardId={dashboard.id}
+            widget={widget}
+            title={widget.title ?? reportNames[widget.reportId] ?? 'Report'}
+            height={widget.h * ROW_HEIGHT + (widget.h - 1) * MARGIN - CHROME_HEIGHT}
+            editable={editable}
+            onRemove={() => onRemoveWidget(widget.id)}
+          />
+        </div>
+      ))}
+    </Grid>
+  );
+}
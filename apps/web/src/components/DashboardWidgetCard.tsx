@@ -0,0 +1,131 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { DashboardWidget, DashboardWidgetData, DashboardWidgetType, TypedResultColumn } from '@crmblr/types';
+import { ReportChart } from '@crmblr/ui';
+import { apiRequest } from '@/lib/api-client';
+import { formatCurrency } from '@/lib/tenant-data-service';
+
+interface DashboardWidgetCardProps {
+  tenant: string;
+  dashboardId: string;
+  widget: DashboardWidget;
+  title: string;
+  // Height left for the widget body, in pixels
+  height: number;
+  editable: boolean;
+  onRemove: () => void;
+}
+
+const MEASURE_KINDS = ['currency', 'integer', 'number'];
+
+function formatCell(value: unknown) {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+// The widget's column, or else the first numeric one, from the first row
+function kpiValue(widget: DashboardWidget, columns: TypedResultColumn[], rows: Record<string, unknown>[]) {
+  const column = columns.find(candidate => candidate.name === widget.column)
+    ?? columns.find(candidate => MEASURE_KINDS.includes(candidate.kind))
+    ?? columns[0];
+  if (!column || rows.length === 0) {
+    return { label: column?.name ?? '', value: '—' };
+  }
+
+  const raw = rows[0][column.name];
+  const number = Number(raw);
+  if (raw === null || raw === '' || !Number.isFinite(number)) {
+    return { label: column.name, value: formatCell(raw) || '—' };
+  }
+  return {
+    label: column.name,
+    value: column.kind === 'currency' ? formatCurrency(number) : number.toLocaleString('en-US', { maximumFractionDigits: 2 }),
+  };
+}
+
+export function DashboardWidgetCard({ tenant, dashboardId, widget, title, height, editable, onRemove }: DashboardWidgetCardProps) {
+  const [data, setData] = useState<DashboardWidgetData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async (refresh = false) => {
+    try {
+      setData(await apiRequest<DashboardWidgetData>(
+        `/dashboards/${dashboardId}/widgets/${widget.id}/data${refresh ? '?refresh=true' : ''}`,
+        { tenant },
+      ));
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load widget');
+    }
+  }, [tenant, dashboardId, widget.id]);
+
+  // The API serves a cached result until the interval has passed, so polling at it stays cheap
+  useEffect(() => {
+    load();
+    const timer = setInterval(() => load(), widget.refreshSeconds * 1000);
+    return () => clearInterval(timer);
+  }, [load, widget.refreshSeconds]);
+
+  const renderBody = () => {
+    if (error) {
+      return <p className="text-sm text-red-600">{error}</p>;
+    }
+    if (!data) {
+      return <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mx-auto mt-4"></div>;
+    }
+
+    const { columns, data: rows, chart } = data.result;
+    if (widget.type === DashboardWidgetType.KPI) {
+      const kpi = kpiValue(widget, columns, rows);
+      return (
+        <div className="flex h-full flex-col items-center justify-center">
+          <div className="text-3xl font-bold text-gray-900" style={{ fontFamily: 'var(--font-numeric)' }}>{kpi.value}</div>
+          <div className="text-sm text-gray-600">{kpi.label}</div>
+        </div>
+      );
+    }
+    if (widget.type === DashboardWidgetType.CHART && chart && rows.length > 0) {
+      return <ReportChart spec={chart} rows={rows} height={height} />;
+    }
+    return (
+      <div className="overflow-auto" style={{ height }}>
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              {columns.map((column) => (
+                <th key={column.name} className="px-3 py-2 text-left font-medium text-gray-700">{column.name}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {rows.map((row, index) => (
+              <tr key={index}>
+                {columns.map((column) => (
+                  <td key={column.name} className="px-3 py-2 text-gray-800 whitespace-nowrap">{formatCell(row[column.name])}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex h-full flex-col bg-white rounded-lg shadow-sm overflow-hidden">
+      <div className={`widget-drag-handle flex items-center justify-between px-4 py-2 border-b border-gray-100 ${editable ? 'cursor-move' : ''}`}>
+        <h3 className="font-semibold text-gray-900 truncate">{title}</h3>
+        <div className="flex items-center space-x-2 text-xs text-gray-500">
+          {data && <span>Updated {new Date(data.cachedAt).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}</span>}
+          <button type="button" onClick={() => load(true)} className="hover:text-gray-900">Refresh</button>
+          {editable && (
+            <button type="button" onClick={onRemove} className="hover:text-red-600">Remove</button>
+          )}
+        </div>
+      </div>
+      <div className="flex-1 p-3">{renderBody()}</div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import { ChartSpec, ReportResult } from '@crmblr/types';
+import { ChartTypeSwitcher, ReportChart } from '@crmblr/ui';
+
+interface ReportResultsProps {
+  result: ReportResult;
+  chart: ChartSpec | null;
+  onChartChange: (chart: ChartSpec) => void;
+}
+
+function formatCell(value: unknown) {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export function ReportResults({ result, chart, onChartChange }: ReportResultsProps) {
+  return (
+    <div className="space-y-4">
+      {chart && result.data.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex justify-end">
+            <ChartTypeSwitcher value={chart.type} onChange={(type) => onChartChange({ ...chart, type })} />
+          </div>
+          <ReportChart spec={chart} rows={result.data} />
+        </div>
+      )}
+
+      <div className="overflow-x-auto rounded-lg border border-gray-200">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              {result.columns.map((column) => (
+                <th key={column.name} className="px-3 py-2 text-left font-medium text-gray-700">{column.name}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {result.data.map((row, index) => (
+              <tr key={index}>
+                {result.columns.map((column) => (
+                  <td key={column.name} className="px-3 py-2 text-gray-800 whitespace-nowrap">{formatCell(row[column.name])}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-gray-500">
+        {result.rowCount === result.limit ? `First ${result.limit} rows` : `${result.rowCount} rows`}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import { ReportSessionTurn } from '@crmblr/types';
+
+interface ReportThreadProps {
+  turns: ReportSessionTurn[];
+}
+
+function diffLineClass(line: string) {
+  if (line.startsWith('+ ')) return 'bg-green-50 text-green-800';
+  if (line.startsWith('- ')) return 'bg-red-50 text-red-800 line-through';
+  return 'text-gray-600';
+}
+
+export function ReportThread({ turns }: ReportThreadProps) {
+  return (
+    <ol className="space-y-6">
+      {turns.map((turn) => (
+        <li key={turn.id} className="space-y-3">
+          <div className="flex justify-end">
+            <div className="max-w-[80%] rounded-lg bg-blue-600 px-4 py-2 text-white">{turn.prompt}</div>
+          </div>
+
+          <div className="rounded-lg border border-gray-200 bg-gray-50 p-4 space-y-3">
+            <p className="text-sm text-gray-700">{turn.explanation}</p>
+
+            {turn.diff ? (
+              <div>
+                <div className="text-xs font-medium uppercase text-gray-500 mb-1">Changes from the previous query</div>
+                <pre className="overflow-x-auto rounded bg-white p-3 text-xs font-mono">
+                  {turn.diff.split('\n').map((line, index) => (
+                    <div key={index} className={diffLineClass(line)}>{line}</div>
+                  ))}
+                </pre>
+              </div>
+            ) : (
+              <pre className="overflow-x-auto rounded bg-white p-3 text-xs font-mono text-gray-800">{turn.sql}</pre>
+            )}
+
+            {turn.columns.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {turn.columns.map((column) => (
+                  <span
+                    key={column.name}
+                    title={column.expression}
+                    className="rounded-full bg-white border border-gray-200 px-2 py-0.5 text-xs text-gray-700"
+                  >
+                    {column.name}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -343,18 +343,6 @@ export function VoiceAssistant({ tenantId, userId, onTranscript, onCommand }: Vo
     } else if (lowerCommand.includes('reports') || lowerCommand.includes('analytics') || lowerCommand.includes('data')) {
       responseText = "Perfect! Generating your reports!";
       navigateTo = `/t/${tenantId}/reports`;
-    } else if (lowerCommand.includes('find') && lowerCommand.includes('jonathan')) {
-      responseText = "Perfect! Let me find Jonathan for you!";
-      navigateTo = `/t/${tenantId}/contacts?search=Jonathan`;
-    } else if (lowerCommand.includes('find') && lowerCommand.includes('takua')) {
-      responseText = "Finding Takua for you!";
-      navigateTo = `/t/${tenantId}/contacts?search=Takua`;
-    } else if (lowerCommand.includes('find') && lowerCommand.includes('hong')) {
-      responseText = "Perfect! Let me find Hong for you!";
-      navigateTo = `/t/${tenantId}/contacts?search=Hong`;
-    } else if (lowerCommand.includes('find') && lowerCommand.includes('datz')) {
-      responseText = "Finding Datz for you!";
-      navigateTo = `/t/${tenantId}/contacts?search=Datz`;
     } else if (lowerCommand.includes('weather') || lowerCommand.includes('temperature') || lowerCommand.includes('climate') || 
                lowerCommand.includes('what\'s the weather') || lowerCommand.includes('how\'s the weather') || 
                lowerCommand.includes('weather like') || lowerCommand.includes('weather in tokyo') ||
@@ -518,6 +506,11 @@ export function VoiceAssistant({ tenantId, userId, onTranscript, onCommand }: Vo
         }, 3000);
       });
       return; // Don't continue with normal processing
+    } else if (/\bfind\s+\w+/.test(lowerCommand)) {
+      // Any "find <name>" goes to contact search, which matches names fuzzily on the server
+      const name = command.match(/\bfind\s+(.+)/i)![1].trim().replace(/[.?!]+$/, '');
+      responseText = `Finding ${name} for you!`;
+      navigateTo = `/t/${tenantId}/contacts?search=${encodeURIComponent(name)}`;
     } else if (lowerCommand.includes('help') || lowerCommand.includes('what can you do')) {
       responseText = "I can help you navigate to sales pipeline, donations, contacts, calendar, reports, find specific people like Jonathan, Takua, Hong, or Datz, tell you about the biggest donor this quarter, check the weather in Tokyo, get donation advice, answer any general question, respond empathetically to your feelings and moods, or say 'stop' to stop me talking! Just say what you need!";
     } else {
@@ -0,0 +1,42 @@
+// Thin client for the CRMblr API. Requests carry the tenant slug and, once the
+// user has signed in with Cognito, the ID token stored under TOKEN_STORAGE_KEY.
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+
+export const TOKEN_STORAGE_KEY = 'crmblr.idToken';
+
+export class ApiError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+interface RequestOptions {
+  tenant: string;
+  method?: 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE';
+  body?: unknown;
+}
+
+export async function apiRequest<T>(path: string, { tenant, method = 'GET', body }: RequestOptions): Promise<T> {
+  const token = typeof window !== 'undefined' ? window.localStorage.getItem(TOKEN_STORAGE_KEY) : null;
+
+  const response = await fetch(`${API_URL}${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      'x-tenant-id': tenant,
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    // Nest puts validation errors in an array
+    const message = Array.isArray(data.message) ? data.message.join(', ') : data.message;
+    throw new ApiError(response.status, message || response.statusText);
+  }
+
+  return response.status === 204 ? (undefined as T) : response.json();
+}
@@ -0,0 +1,26 @@
+import { llmService } from '@crmblr/llm';
+import { LLMProviderName, LLMSettings } from '@crmblr/types';
+
+// The assistant routes were built on OpenAI; setting LLM_PROVIDER moves them along with the API
+const settings: LLMSettings = process.env.LLM_PROVIDER ? {} : { provider: LLMProviderName.OPENAI };
+
+export interface AssistantOptions {
+  system: string;
+  maxTokens: number;
+  temperature: number;
+}
+
+export async function askAssistant(query: string, options: AssistantOptions): Promise<string> {
+  const { content } = await llmService.complete(
+    {
+      messages: [
+        { role: 'system', content: options.system },
+        { role: 'user', content: query },
+      ],
+      maxTokens: options.maxTokens,
+      temperature: options.temperature,
+    },
+    settings,
+  );
+  return content;
+}
@@ -1,382 +1,14 @@
-// Dynamic Tenant Data Service - Generates organization-specific content for each CRM
-// This service creates realistic, tenant-specific data that varies between nonprofits
+// Tenant Data Service - Dashboard figures for the tenant home page
+// The API computes them from the tenant's donations, contacts, grants and campaigns
 
-export interface TenantMetrics {
-  yearToDate: number;
-  last30Days: number;
-  totalDonors: number;
-  avgEngagementScore: number;
-}
-
-export interface GrantDeadline {
-  name: string;
-  applicationDate: string;
-  daysRemaining: number;
-}
-
-export interface DonorCultivation {
-  name: string;
-  lastContact: string;
-  action: string;
-}
+import { TenantDashboardData } from '@crmblr/types';
+import { apiRequest } from '@/lib/api-client';
 
-export interface RecentDonation {
-  donorName: string;
-  amount: number;
-  date: string;
-}
-
-export interface ActiveCampaign {
-  name: string;
-  currentAmount: number;
-  targetAmount: number;
-  progressPercentage: number;
-}
-
-export interface TenantDashboardData {
-  metrics: TenantMetrics;
-  requiresAttention: {
-    count: number;
-    message: string;
-  };
-  grantDeadlines: GrantDeadline[];
-  donorCultivation: DonorCultivation[];
-  pipelineOverview: {
-    identified: number;
-    inCultivation: number;
-    atRisk: number;
-  };
-  recentDonations: RecentDonation[];
-  activeCampaigns: ActiveCampaign[];
-}
-
-// Tenant-specific data configurations
-const TENANT_DATA_CONFIGS: Record<string, Partial<TenantDashboardData>> = {
-  makelit: {
-    metrics: {
-      yearToDate: 470,
-      last30Days: 0,
-      totalDonors: 108,
-      avgEngagementScore: 13,
-    },
-    requiresAttention: {
-      count: 62,
-      message: "donations need acknowledgment",
-    },
-    grantDeadlines: [
-      { name: "IACA Report", applicationDate: "Sep 30, 2025", daysRemaining: 8 },
-      { name: "Test Grant for QA", applicationDate: "Oct 01, 2025", daysRemaining: 9 },
-      { name: "GDDF 3-year Grant Report", applicationDate: "Oct 10, 2025", daysRemaining: 18 },
-    ],
-    donorCultivation: [
-      { name: "Leonard Sommer", lastContact: "Never", action: "Schedule check-in call" },
-      { name: "Héctor García Chávez", lastContact: "Never", action: "Schedule check-in call" },
-    ],
-    pipelineOverview: {
-      identified: 69,
-      inCultivation: 0,
-      atRisk: 6,
-    },
-    recentDonations: [
-      { donorName: "Héctor García Chávez", amount: 50, date: "July 31, 2025" },
-      { donorName: "Héctor García Chávez", amount: 50, date: "June 30, 2025" },
-      { donorName: "Héctor García Chávez", amount: 50, date: "May 31, 2025" },
-    ],
-    activeCampaigns: [
-      { name: "2025 End of Year Campaign", currentAmount: 1825, targetAmount: 10000, progressPercentage: 18 },
-    ],
-  },
-
-  oneinsix: {
-    metrics: {
-      yearToDate: 1250,
-      last30Days: 150,
-      totalDonors: 89,
-      avgEngagementScore: 18,
-    },
-    requiresAttention: {
-      count: 23,
-      message: "donations need acknowledgment",
-    },
-    grantDeadlines: [
-      { name: "Men's Health Foundation Grant", applicationDate: "Oct 15, 2025", daysRemaining: 23 },
-      { name: "Community Support Initiative", applicationDate: "Nov 01, 2025", daysRemaining: 40 },
-    ],
-    donorCultivation: [
-      { name: "Michael Rodriguez", lastContact: "2 weeks ago", action: "Follow up on meeting" },
-      { name: "Sarah Chen", lastContact: "Never", action: "Initial outreach" },
-    ],
-    pipelineOverview: {
-      identified: 45,
-      inCultivation: 12,
-      atRisk: 3,
-    },
-    recentDonations: [
-      { donorName: "Anonymous Donor", amount: 100, date: "August 15, 2025" },
-      { donorName: "Community Foundation", amount: 500, date: "August 10, 2025" },
-      { donorName: "Local Business", amount: 250, date: "August 05, 2025" },
-    ],
-    activeCampaigns: [
-      { name: "Support Services Campaign", currentAmount: 8500, targetAmount: 15000, progressPercentage: 57 },
-    ],
-  },
-
-  fallenfruit: {
-    metrics: {
-      yearToDate: 3200,
-      last30Days: 400,
-      totalDonors: 156,
-      avgEngagementScore: 22,
-    },
-    requiresAttention: {
-      count: 8,
-      message: "donations need acknowledgment",
-    },
-    grantDeadlines: [
-      { name: "Urban Agriculture Grant", applicationDate: "Sep 25, 2025", daysRemaining: 3 },
-      { name: "Environmental Impact Fund", applicationDate: "Oct 20, 2025", daysRemaining: 28 },
-      { name: "Community Garden Initiative", applicationDate: "Nov 15, 2025", daysRemaining: 54 },
-    ],
-    donorCultivation: [
-      { name: "Eco-Friendly Foundation", lastContact: "1 week ago", action: "Schedule site visit" },
-      { name: "Local Food Network", lastContact: "3 days ago", action: "Send partnership proposal" },
-    ],
-    pipelineOverview: {
-      identified: 78,
-      inCultivation: 24,
-      atRisk: 2,
-    },
-    recentDonations: [
-      { donorName: "Green Thumb Society", amount: 200, date: "August 20, 2025" },
-      { donorName: "Sustainable Living Group", amount: 150, date: "August 18, 2025" },
-      { donorName: "Urban Farmer Collective", amount: 300, date: "August 15, 2025" },
-    ],
-    activeCampaigns: [
-      { name: "Community Garden Expansion", currentAmount: 12000, targetAmount: 25000, progressPercentage: 48 },
-    ],
-  },
-
-  homeboy: {
-    metrics: {
-      yearToDate: 8500,
-      last30Days: 1200,
-      totalDonors: 234,
-      avgEngagementScore: 28,
-    },
-    requiresAttention: {
-      count: 15,
-      message: "donations need acknowledgment",
-    },
-    grantDeadlines: [
-      { name: "Workforce Development Grant", applicationDate: "Oct 05, 2025", daysRemaining: 13 },
-      { name: "Social Enterprise Fund", applicationDate: "Oct 30, 2025", daysRemaining: 38 },
-      { name: "Reentry Services Initiative", applicationDate: "Nov 20, 2025", daysRemaining: 59 },
-    ],
-    donorCultivation: [
-      { name: "Corporate Partner", lastContact: "5 days ago", action: "Schedule quarterly review" },
-      { name: "Major Donor", lastContact: "1 month ago", action: "Send impact report" },
-    ],
-    pipelineOverview: {
-      identified: 120,
-      inCultivation: 45,
-      atRisk: 8,
-    },
-    recentDonations: [
-      { donorName: "Corporate Foundation", amount: 1000, date: "August 25, 2025" },
-      { donorName: "Individual Supporter", amount: 500, date: "August 22, 2025" },
-      { donorName: "Community Partner", amount: 750, date: "August 20, 2025" },
-    ],
-    activeCampaigns: [
-      { name: "Jobs Not Jails Campaign", currentAmount: 45000, targetAmount: 75000, progressPercentage: 60 },
-    ],
-  },
-
-  'tokyo-voice-ai': {
-    metrics: {
-      yearToDate: 30000,
-      last30Days: 20000,
-      totalDonors: 11,
-      avgEngagementScore: 95,
-    },
-    requiresAttention: {
-      count: 7,
-      message: "hackathon participants and sponsors need follow-up",
-    },
-    grantDeadlines: [
-      { name: "Hackathon Demo Day", applicationDate: "Oct 25, 2025", daysRemaining: 0 },
-      { name: "Voice AI Innovation Grant", applicationDate: "Nov 15, 2025", daysRemaining: 21 },
-      { name: "Ameba Partnership Proposal", applicationDate: "Dec 01, 2025", daysRemaining: 37 },
-      { name: "Alex.Inc Collaboration", applicationDate: "Nov 30, 2025", daysRemaining: 36 },
-      { name: "CyberAce Security Partnership", applicationDate: "Dec 15, 2025", daysRemaining: 51 },
-    ],
-    donorCultivation: [
-      { name: "Buddy.AI", lastContact: "Today", action: "Schedule partnership meeting" },
-      { name: "Alex.Inc", lastContact: "Today", action: "Follow up on collaboration proposal" },
-      { name: "Bye: AI", lastContact: "Today", action: "Schedule technical integration call" },
-      { name: "CyberAce", lastContact: "Today", action: "Discuss security integration partnership" },
-      { name: "Yosuke Yasuda", lastContact: "Today", action: "Review dual role as hacker/sponsor" },
-      { name: "Jonathan (Team Lead)", lastContact: "Today", action: "Review demo presentation" },
-      { name: "Takua Umeki", lastContact: "Today", action: "Follow up on voice AI development" },
-      { name: "Hong Younggo", lastContact: "Today", action: "Schedule technical review meeting" },
-      { name: "Datz Daito", lastContact: "Today", action: "Discuss integration requirements" },
-    ],
-    pipelineOverview: {
-      identified: 11,
-      inCultivation: 8,
-      atRisk: 0,
-    },
-    recentDonations: [
-      { donorName: "CyberAce (Sponsor)", amount: 5000, date: "October 25, 2025" },
-      { donorName: "Yosuke Yasuda (Sponsor)", amount: 5000, date: "October 25, 2025" },
-      { donorName: "Alex.Inc (Sponsor)", amount: 4000, date: "October 25, 2025" },
-      { donorName: "Bye: AI (Sponsor)", amount: 3000, date: "October 25, 2025" },
-      { donorName: "Buddy.AI (Sponsor)", amount: 10000, date: "October 25, 2025" },
-      { donorName: "Hackathon Prize Pool", amount: 3000, date: "October 25, 2025" },
-    ],
-    activeCampaigns: [
-      { name: "Voice AI Hackathon Campaign", currentAmount: 30000, targetAmount: 35000, progressPercentage: 86 },
-    ],
-  },
-
-  'alex-ai': {
-    metrics: {
-      yearToDate: 125000,
-      last30Days: 25000,
-      totalDonors: 8,
-      avgEngagementScore: 88,
-    },
-    requiresAttention: {
-      count: 5,
-      message: "enterprise clients need technical demos",
-    },
-    grantDeadlines: [
-      { name: "AI Innovation Grant", applicationDate: "Nov 20, 2025", daysRemaining: 26 },
-      { name: "Enterprise Partnership Proposal", applicationDate: "Dec 10, 2025", daysRemaining: 46 },
-      { name: "Series A Funding Round", applicationDate: "Jan 15, 2026", daysRemaining: 82 },
-      { name: "TechCrunch Disrupt Application", applicationDate: "Nov 30, 2025", daysRemaining: 36 },
-    ],
-    donorCultivation: [
-      { name: "Microsoft Azure", lastContact: "Today", action: "Schedule AI integration demo" },
-      { name: "Google Cloud", lastContact: "Today", action: "Follow up on partnership proposal" },
-      { name: "Amazon AWS", lastContact: "Today", action: "Technical architecture review" },
-      { name: "Salesforce", lastContact: "Today", action: "CRM integration discussion" },
-      { name: "HubSpot", lastContact: "Today", action: "Marketing automation partnership" },
-      { name: "Alex (CEO)", lastContact: "Today", action: "Review Q4 strategy" },
-      { name: "CTO Team", lastContact: "Today", action: "Product roadmap alignment" },
-      { name: "Sales Team", lastContact: "Today", action: "Enterprise client pipeline review" },
-    ],
-    pipelineOverview: {
-      identified: 8,
-      inCultivation: 6,
-      atRisk: 1,
-    },
-    recentDonations: [
-      { donorName: "Microsoft Azure Partnership", amount: 50000, date: "October 20, 2025" },
-      { donorName: "Google Cloud Collaboration", amount: 35000, date: "October 18, 2025" },
-      { donorName: "Amazon AWS Integration", amount: 25000, date: "October 15, 2025" },
-      { donorName: "Salesforce Partnership", amount: 15000, date: "October 12, 2025" },
-    ],
-    activeCampaigns: [
-      { name: "Enterprise AI Solutions Campaign", currentAmount: 125000, targetAmount: 200000, progressPercentage: 63 },
-      { name: "Series A Funding Campaign", currentAmount: 500000, targetAmount: 1000000, progressPercentage: 50 },
-    ],
-  },
-
-  'bye-ai': {
-    metrics: {
-      yearToDate: 95000,
-      last30Days: 18000,
-      totalDonors: 6,
-      avgEngagementScore: 92,
-    },
-    requiresAttention: {
-      count: 4,
-      message: "AI clients need technical consultations",
-    },
-    grantDeadlines: [
-      { name: "AI Innovation Grant", applicationDate: "Nov 25, 2025", daysRemaining: 31 },
-      { name: "Tech Partnership Proposal", applicationDate: "Dec 05, 2025", daysRemaining: 41 },
-      { name: "Series B Funding Round", applicationDate: "Jan 20, 2026", daysRemaining: 87 },
-      { name: "AI Ethics Conference", applicationDate: "Nov 28, 2025", daysRemaining: 34 },
-    ],
-    donorCultivation: [
-      { name: "Microsoft AI", lastContact: "Today", action: "Schedule AI ethics discussion" },
-      { name: "Google DeepMind", lastContact: "Today", action: "Follow up on partnership proposal" },
-      { name: "OpenAI", lastContact: "Today", action: "Technical collaboration meeting" },
-      { name: "Anthropic", lastContact: "Today", action: "AI safety framework discussion" },
-      { name: "Bye (CEO)", lastContact: "Today", action: "Review Q4 AI strategy" },
-      { name: "AI Research Team", lastContact: "Today", action: "Product roadmap alignment" },
-    ],
-    pipelineOverview: {
-      identified: 6,
-      inCultivation: 5,
-      atRisk: 0,
-    },
-    recentDonations: [
-      { donorName: "Microsoft AI Partnership", amount: 40000, date: "October 22, 2025" },
-      { donorName: "Google DeepMind Collaboration", amount: 30000, date: "October 20, 2025" },
-      { donorName: "OpenAI Integration", amount: 15000, date: "October 18, 2025" },
-      { donorName: "Anthropic Safety Grant", amount: 10000, date: "October 15, 2025" },
-    ],
-    activeCampaigns: [
-      { name: "AI Innovation Campaign", currentAmount: 95000, targetAmount: 150000, progressPercentage: 63 },
-      { name: "Series B Funding Campaign", currentAmount: 2000000, targetAmount: 5000000, progressPercentage: 40 },
-    ],
-  },
-};
-
-// Default fallback data
-const DEFAULT_DATA: TenantDashboardData = {
-  metrics: {
-    yearToDate: 1000,
-    last30Days: 100,
-    totalDonors: 50,
-    avgEngagementScore: 15,
-  },
-  requiresAttention: {
-    count: 10,
-    message: "donations need acknowledgment",
-  },
-  grantDeadlines: [
-    { name: "General Grant", applicationDate: "Oct 15, 2025", daysRemaining: 23 },
-  ],
-  donorCultivation: [
-    { name: "Sample Donor", lastContact: "Never", action: "Initial outreach" },
-  ],
-  pipelineOverview: {
-    identified: 25,
-    inCultivation: 5,
-    atRisk: 2,
-  },
-  recentDonations: [
-    { donorName: "Sample Donor", amount: 100, date: "August 15, 2025" },
-  ],
-  activeCampaigns: [
-    { name: "General Campaign", currentAmount: 5000, targetAmount: 10000, progressPercentage: 50 },
-  ],
-};
+export type { TenantDashboardData };
 
 // Function to get tenant-specific dashboard data
-export function getTenantDashboardData(slug: string): TenantDashboardData {
-  const tenantConfig = TENANT_DATA_CONFIGS[slug];
-  
-  if (!tenantConfig) {
-    return DEFAULT_DATA;
-  }
-
-  // Merge tenant-specific config with defaults
-  return {
-    ...DEFAULT_DATA,
-    ...tenantConfig,
-    metrics: {
-      ...DEFAULT_DATA.metrics,
-      ...tenantConfig.metrics,
-    },
-    pipelineOverview: {
-      ...DEFAULT_DATA.pipelineOverview,
-      ...tenantConfig.pipelineOverview,
-    },
-  } as TenantDashboardData;
+export function getTenantDashboardData(slug: string): Promise<TenantDashboardData> {
+  return apiRequest<TenantDashboardData>('/dashboard', { tenant: slug });
 }
 
 // Function to format currency
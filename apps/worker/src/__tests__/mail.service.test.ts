@@ -0,0 +1,65 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { MailService } from '../services/mail.service';
+
+const { sendRawEmail } = vi.hoisted(() => ({
+  sendRawEmail: vi.fn((_params: unknown) => ({ promise: async () => ({ MessageId: 'message-1' }) })),
+}));
+vi.mock('aws-sdk', () => ({ SES: vi.fn(() => ({ sendRawEmail })) }));
+
+// Splits a raw message into its headers and the parts between the boundaries
+function parseMime(raw: string) {
+  const [head] = raw.split('\r\n\r\n');
+  const boundary = head.match(/boundary="([^"]+)"/)![1];
+  const parts = raw
+    .split(`--${boundary}`)
+    .slice(1, -1)
+    .map(part => {
+      const [headers, body] = part.replace(/^\r\n/, '').split('\r\n\r\n');
+      return { headers, body: body.replace(/\r\n$/, '') };
+    });
+  return { head, boundary, parts };
+}
+
+describe('MailService', () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should send attachments as a multipart MIME message', async () => {
+    const content = Buffer.from('stage,contacts\n'.repeat(20));
+    await new MailService('reports@crmblr.org').send({
+      to: ['board@example.org', 'chair@example.org'],
+      subject: 'Spenden im März',
+      text: 'Your report is attached.',
+      attachments: [{ filename: 'gifts.csv', contentType: 'text/csv', content }],
+    });
+
+    const params = sendRawEmail.mock.calls[0][0] as { Source: string; Destinations: string[]; RawMessage: { Data: string } };
+    expect(params.Source).toBe('reports@crmblr.org');
+    expect(params.Destinations).toEqual(['board@example.org', 'chair@example.org']);
+
+    const raw = params.RawMessage.Data;
+    const { head, boundary, parts } = parseMime(raw);
+    expect(head.split('\r\n')).toEqual([
+      'From: reports@crmblr.org',
+      'To: board@example.org, chair@example.org',
+      `Subject: =?UTF-8?B?${Buffer.from('Spenden im März').toString('base64')}?=`,
+      'MIME-Version: 1.0',
+      `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    ]);
+    expect(raw.endsWith(`--${boundary}--\r\n`)).toBe(true);
+
+    const [text, attachment] = parts;
+    expect(Buffer.from(text.body, 'base64').toString()).toBe('Your report is attached.');
+    expect(attachment.headers).toContain('Content-Disposition: attachment; filename="gifts.csv"');
+    expect(attachment.body.split('\r\n').every(line => line.length <= 76)).toBe(true);
+    expect(Buffer.from(attachment.body.replace(/\r\n/g, ''), 'base64')).toEqual(content);
+  });
+
+  it('should keep ASCII subjects as they are', async () => {
+    await new MailService('reports@crmblr.org').send({ to: ['board@example.org'], subject: 'Gifts (2025-03-03)', text: '' });
+
+    const { RawMessage } = sendRawEmail.mock.calls[0][0] as { RawMessage: { Data: string } };
+    expect(RawMessage.Data).toContain('\r\nSubject: Gifts (2025-03-03)\r\n');
+  });
+});
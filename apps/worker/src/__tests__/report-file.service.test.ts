@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
+import { ReportFormat } from '@crmblr/types';
+import { ReportFileService } from '../services/report-file.service';
+
+class Decimal {
+  constructor(private readonly value: string) {}
+  toString() {
+    return this.value;
+  }
+}
+
+describe('ReportFileService', () => {
+  const rows = [
+    { stage: 'identified', contacts: 2n, total: new Decimal('1250.50'), custom: { tier: 'gold' } },
+    { stage: 'qualified', contacts: 1n, total: new Decimal('80'), custom: null },
+  ];
+  const date = new Date('2025-03-03T08:00:00Z');
+
+  it('should name the file after the report and the run date', () => {
+    const file = new ReportFileService().build('Gifts by stage — Q1!', rows, ReportFormat.CSV, date);
+
+    expect(file.filename).toBe('gifts-by-stage-q1-2025-03-03.csv');
+    expect(file.contentType).toBe('text/csv');
+  });
+
+  it('should write bigint, Decimal and JSON values as plain cells', () => {
+    const file = new ReportFileService().build('Gifts', rows, ReportFormat.CSV, date);
+
+    expect(file.content.toString().trim().split('\n')).toEqual([
+      'stage,contacts,total,custom',
+      'identified,2,1250.5,"{""tier"":""gold""}"',
+      'qualified,1,80,',
+    ]);
+  });
+
+  it('should build a workbook for xlsx', () => {
+    const file = new ReportFileService().build('Gifts', rows, ReportFormat.XLSX, date);
+    const sheet = XLSX.read(file.content).Sheets.Report;
+
+    expect(file.filename).toBe('gifts-2025-03-03.xlsx');
+    expect(XLSX.utils.sheet_to_json(sheet)).toEqual([
+      { stage: 'identified', contacts: 2, total: 1250.5, custom: '{"tier":"gold"}' },
+      { stage: 'qualified', contacts: 1, total: 80 },
+    ]);
+  });
+});
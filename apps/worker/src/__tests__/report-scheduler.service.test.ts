@@ -0,0 +1,41 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Queue } from 'bullmq';
+import { ScheduledReportJobData } from '../processors/scheduled-report.processor';
+import { ReportSchedulerService, RUN_REPORT_JOB } from '../services/report-scheduler.service';
+
+const { db } = vi.hoisted(() => ({
+  db: { client: { report: { findMany: vi.fn() } } },
+}));
+vi.mock('@crmblr/db', () => ({ db }));
+
+describe('ReportSchedulerService', () => {
+  it('should schedule reports of current members only and remove the other repeats', async () => {
+    const member = (tenantId: string) => ({ userTenants: [{ tenantId }] });
+    db.client.report.findMany.mockResolvedValue([
+      { id: 'kept', tenantId: 't1', createdBy: 'u1', schedule: '0 8 * * 1', timezone: 'UTC', creator: member('t1') },
+      { id: 'left', tenantId: 't1', createdBy: 'u2', schedule: '0 8 * * 1', timezone: 'UTC', creator: member('t2') },
+    ]);
+    const queue = {
+      add: vi.fn(async (_name: string, _data: ScheduledReportJobData, options: { jobId: string }) => ({
+        repeatJobKey: `key-${options.jobId}`,
+      })),
+      getRepeatableJobs: vi.fn(async () => [
+        { name: RUN_REPORT_JOB, key: 'key-kept' },
+        { name: RUN_REPORT_JOB, key: 'key-left' },
+        { name: 'sync-schedules', key: 'key-sync' },
+      ]),
+      removeRepeatableByKey: vi.fn(),
+    };
+
+    const result = await new ReportSchedulerService(queue as unknown as Queue<ScheduledReportJobData>).sync();
+
+    expect(result).toEqual({ scheduled: 1, removed: 1 });
+    expect(queue.add).toHaveBeenCalledTimes(1);
+    expect(queue.add).toHaveBeenCalledWith(
+      RUN_REPORT_JOB,
+      { tenantId: 't1', reportId: 'kept', userId: 'u1' },
+      { jobId: 'kept', repeat: { pattern: '0 8 * * 1', tz: 'UTC' } },
+    );
+    expect(queue.removeRepeatableByKey).toHaveBeenCalledWith('key-left');
+  });
+});
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, it, expect, MockInstance, vi } from 'vitest';
+import { randomUUID } from 'crypto';
+import { Job } from 'bullmq';
+import { ReportFormat, ReportRunStatus } from '@crmblr/types';
+import { ScheduledReportJobData, ScheduledReportProcessor } from '../processors/scheduled-report.processor';
+import { MailMessage, MailService } from '../services/mail.service';
+
+const { db } = vi.hoisted(() => ({
+  db: {
+    findMembership: vi.fn(),
+    forTenant: vi.fn(),
+    withTenant: vi.fn(),
+    withReadOnlyTenant: vi.fn(),
+  },
+}));
+vi.mock('@crmblr/db', () => ({ db }));
+
+const tenantId = randomUUID();
+const userId = randomUUID();
+const reportId = randomUUID();
+const startedAt = new Date('2025-03-03T08:00:00Z');
+
+const report = {
+  id: reportId,
+  name: 'Contacts by stage',
+  sql: 'SELECT stage, count(*) AS contacts FROM contacts GROUP BY stage',
+  parameters: [],
+  schedule: '0 8 * * 1',
+  recipients: ['board@example.org'],
+  format: ReportFormat.CSV,
+};
+
+describe('ScheduledReportProcessor', () => {
+  const job = { data: { tenantId, reportId, userId }, updateProgress: vi.fn() } as unknown as Job<ScheduledReportJobData>;
+  const client = {
+    report: { findFirst: vi.fn() },
+    reportRun: { create: vi.fn(), update: vi.fn() },
+  };
+  const tx = {
+    report: { update: vi.fn() },
+    reportRun: { update: vi.fn() },
+  };
+  const queryRawUnsafe = vi.fn();
+  let send: MockInstance<[MailMessage], Promise<{ success: boolean }>>;
+
+  beforeEach(() => {
+    db.findMembership.mockResolvedValue({ tenantId, role: 'editor' });
+    db.forTenant.mockReturnValue(client);
+    db.withTenant.mockImplementation(async (_tenantId, _userId, fn) => fn(tx));
+    db.withReadOnlyTenant.mockImplementation(async (_tenantId, _userId, fn) => fn({ $queryRawUnsafe: queryRawUnsafe }));
+    client.report.findFirst.mockResolvedValue(report);
+    client.reportRun.create.mockImplementation(async ({ data }) => ({ id: 'run-1', startedAt, ...data }));
+    queryRawUnsafe.mockResolvedValue([
+      { stage: 'identified', contacts: 2n },
+      { stage: 'qualified', contacts: 1n },
+    ]);
+    send = vi.spyOn(MailService.prototype, 'send').mockResolvedValue({ success: true });
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+    vi.restoreAllMocks();
+  });
+
+  it('should skip a report that was unscheduled after the job was queued', async () => {
+    client.report.findFirst.mockResolvedValue({ ...report, schedule: null });
+
+    expect(await new ScheduledReportProcessor().process(job)).toEqual({ skipped: true });
+    expect(client.reportRun.create).not.toHaveBeenCalled();
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('should record a failed run without querying when the owner left the tenant', async () => {
+    db.findMembership.mockResolvedValue(null);
+
+    expect(await new ScheduledReportProcessor().process(job)).toEqual({ skipped: true, runId: 'run-1' });
+    expect(client.reportRun.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        status: ReportRunStatus.FAILED,
+        error: 'The report owner is no longer a member of this tenant',
+      }),
+    });
+    expect(db.withReadOnlyTenant).not.toHaveBeenCalled();
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('should run the report within the tenant and mail the result', async () => {
+    expect(await new ScheduledReportProcessor().process(job)).toEqual({ success: true, runId: 'run-1', rowCount: 2 });
+
+    expect(queryRawUnsafe.mock.calls[0][0]).toContain(`"tenantId" = '${tenantId}'::uuid`);
+    expect(send).toHaveBeenCalledWith({
+      to: ['board@example.org'],
+      subject: 'Contacts by stage (2025-03-03)',
+      text: expect.stringContaining('returned 2 rows'),
+      attachments: [expect.objectContaining({ filename: 'contacts-by-stage-2025-03-03.csv', contentType: 'text/csv' })],
+    });
+    expect(tx.reportRun.update).toHaveBeenCalledWith({
+      where: { id: 'run-1' },
+      data: expect.objectContaining({ status: ReportRunStatus.SUCCEEDED, rowCount: 2 }),
+    });
+    expect(tx.report.update).toHaveBeenCalledWith({ where: { id: reportId }, data: { lastRunAt: expect.any(Date) } });
+  });
+
+  it('should mark the run failed and rethrow when the report cannot run', async () => {
+    client.report.findFirst.mockResolvedValue({ ...report, sql: 'SELECT email FROM users' });
+
+    await expect(new ScheduledReportProcessor().process(job)).rejects.toThrow(/^Invalid SQL: /);
+    expect(client.reportRun.update).toHaveBeenCalledWith({
+      where: { id: 'run-1' },
+      data: expect.objectContaining({ status: ReportRunStatus.FAILED, error: expect.stringMatching(/^Invalid SQL: /) }),
+    });
+    expect(send).not.toHaveBeenCalled();
+  });
+});
@@ -2,6 +2,11 @@ import { Worker, Queue } from 'bullmq';
 import { db } from '@crmblr/db';
 import { DataImportProcessor } from './processors/data-import.processor';
 import { EmailProcessor } from './processors/email.processor';
+import { ScheduledReportProcessor } from './processors/scheduled-report.processor';
+import { ReportSchedulerService, RUN_REPORT_JOB } from './services/report-scheduler.service';
+
+// How often report schedules are re-read, so saved changes take effect
+const REPORT_SCHEDULE_SYNC_MS = 5 * 60 * 1000;
 
 async function main() {
   console.log('🚀 Starting CRMblr ETL Worker...');
@@ -19,6 +24,8 @@ async function main() {
   // Create queues
   const dataImportQueue = new Queue('data-import', { connection });
   const emailQueue = new Queue('email', { connection });
+  const scheduledReportQueue = new Queue('scheduled-reports', { connection });
+  const reportScheduler = new ReportSchedulerService(scheduledReportQueue);
 
   // Create workers
   const dataImportWorker = new Worker(
@@ -39,6 +46,25 @@ async function main() {
     { connection }
   );
 
+  const scheduledReportWorker = new Worker(
+    'scheduled-reports',
+    async (job) => {
+      if (job.name === RUN_REPORT_JOB) {
+        const processor = new ScheduledReportProcessor();
+        return await processor.process(job);
+      }
+      return await reportScheduler.sync();
+    },
+    { connection }
+  );
+
+  // Sync once now, then on a repeat
+  await reportScheduler.sync();
+  await scheduledReportQueue.add('sync-schedules', {}, {
+    jobId: 'sync-schedules',
+    repeat: { every: REPORT_SCHEDULE_SYNC_MS },
+  });
+
   // Event handlers
   dataImportWorker.on('completed', (job) => {
     console.log(`✅ Data import job ${job.id} completed`);
@@ -56,15 +82,27 @@ async function main() {
     console.error(`❌ Email job ${job?.id} failed:`, err);
   });
 
+  scheduledReportWorker.on('completed', (job) => {
+    if (job.name === RUN_REPORT_JOB) {
+      console.log(`✅ Scheduled report job ${job.id} completed`);
+    }
+  });
+
+  scheduledReportWorker.on('failed', (job, err) => {
+    console.error(`❌ Scheduled report job ${job?.id} failed:`, err);
+  });
+
   console.log('👷 ETL Worker is running...');
   console.log('📊 Listening for data import jobs');
   console.log('📧 Listening for email jobs');
+  console.log('🗓️  Listening for scheduled report jobs');
 
   // Graceful shutdown
   process.on('SIGINT', async () => {
     console.log('🛑 Shutting down worker...');
     await dataImportWorker.close();
     await emailWorker.close();
+    await scheduledReportWorker.close();
     await db.disconnect();
     process.exit(0);
   });
@@ -73,6 +111,7 @@ async function main() {
     console.log('🛑 Shutting down worker...');
     await dataImportWorker.close();
     await emailWorker.close();
+    await scheduledReportWorker.close();
     await db.disconnect();
     process.exit(0);
   });
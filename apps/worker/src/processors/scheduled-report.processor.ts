@@ -0,0 +1,123 @@
+import { Job } from 'bullmq';
+import { db } from '@crmblr/db';
+import { bindReportParameters, sqlRewriter, sqlValidator } from '@crmblr/llm';
+import { ReportFormat, ReportParameter, ReportRunStatus } from '@crmblr/types';
+import { MailService } from '../services/mail.service';
+import { ReportFileService } from '../services/report-file.service';
+
+export interface ScheduledReportJobData {
+  tenantId: string;
+  reportId: string;
+  // The report's owner; the report runs with their tenant context
+  userId: string;
+}
+
+// Same cap as reports run from the API
+const SCHEDULED_REPORT_ROW_LIMIT = 1000;
+
+export class ScheduledReportProcessor {
+  private mailService: MailService;
+  private reportFileService: ReportFileService;
+
+  constructor() {
+    this.mailService = new MailService();
+    this.reportFileService = new ReportFileService();
+  }
+
+  async process(job: Job<ScheduledReportJobData>) {
+    const { tenantId, reportId, userId } = job.data;
+
+    const membership = await db.findMembership(userId, tenantId);
+    const report = await db.forTenant(tenantId, userId).report.findFirst({
+      where: { id: reportId, tenantId },
+    });
+    // Unscheduled since the job was queued; the next sync removes the repeat
+    if (!report?.schedule || report.recipients.length === 0) {
+      console.log(`⏭️  Report ${reportId} is no longer scheduled`);
+      return { skipped: true };
+    }
+
+    // The report runs with its owner's access, which ends when they leave the tenant.
+    // The failed run tells the tenant why deliveries stopped; the next sync removes the repeat.
+    if (!membership) {
+      console.log(`⏭️  Owner of report ${reportId} is no longer a member of tenant ${tenantId}`);
+      const now = new Date();
+      const run = await db.forTenant(tenantId, userId).reportRun.create({
+        data: {
+          tenantId,
+          reportId,
+          status: ReportRunStatus.FAILED,
+          error: 'The report owner is no longer a member of this tenant',
+          recipients: report.recipients,
+          startedAt: now,
+          finishedAt: now,
+        },
+      });
+      return { skipped: true, runId: run.id };
+    }
+
+    console.log(`📊 Running scheduled report "${report.name}" for tenant ${tenantId}`);
+    const run = await db.forTenant(tenantId, userId).reportRun.create({
+      data: {
+        tenantId,
+        reportId,
+        status: ReportRunStatus.RUNNING,
+        recipients: report.recipients,
+      },
+    });
+
+    try {
+      // Scheduled runs use each parameter's default
+      const bound = bindReportParameters(report.sql, report.parameters as ReportParameter[], {});
+      const validation = await sqlValidator.validateForReports(bound.sql, tenantId);
+      if (!validation.isValid) {
+        throw new Error(`Invalid SQL: ${validation.errors.join(', ')}`);
+      }
+      const sql = await sqlRewriter.rewriteForReports(bound.sql, tenantId, SCHEDULED_REPORT_ROW_LIMIT);
+
+      const rows = await db.withReadOnlyTenant(tenantId, userId, (tx) =>
+        tx.$queryRawUnsafe<Record<string, unknown>[]>(sql, ...bound.values),
+      );
+      await job.updateProgress(50);
+
+      const file = this.reportFileService.build(report.name, rows, report.format as ReportFormat, run.startedAt);
+      await this.mailService.send({
+        to: report.recipients,
+        subject: `${report.name} (${run.startedAt.toISOString().slice(0, 10)})`,
+        text: this.describe(report.name, rows.length),
+        attachments: [file],
+      });
+
+      const finishedAt = new Date();
+      await db.withTenant(tenantId, userId, async (tx) => {
+        await tx.reportRun.update({
+          where: { id: run.id },
+          data: { status: ReportRunStatus.SUCCEEDED, rowCount: rows.length, finishedAt },
+        });
+        await tx.report.update({
+          where: { id: reportId },
+          data: { lastRunAt: finishedAt },
+        });
+      });
+
+      console.log(`✅ Sent "${report.name}" (${rows.length} rows) to ${report.recipients.length} recipients`);
+      return { success: true, runId: run.id, rowCount: rows.length };
+    } catch (error) {
+      await db.forTenant(tenantId, userId).reportRun.update({
+        where: { id: run.id },
+        data: {
+          status: ReportRunStatus.FAILED,
+          error: error instanceof Error ? error.message : String(error),
+          finishedAt: new Date(),
+        },
+      });
+      throw error;
+    }
+  }
+
+  private describe(name: string, rowCount: number): string {
+    const rows = rowCount === 1 ? '1 row' : `${rowCount} rows`;
+    const capped = rowCount >= SCHEDULED_REPORT_ROW_LIMIT ? ` (limited to the first ${SCHEDULED_REPORT_ROW_LIMIT})` : '';
+    return `Your scheduled report "${name}" returned ${rows}${capped}. The result is attached.\n\nThe CRMblr Team`;
+  }
+}
@@ -0,0 +1,84 @@
+import { SES } from 'aws-sdk';
+import { randomUUID } from 'crypto';
+
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  attachments?: MailAttachment[];
+}
+
+export class MailService {
+  private ses: SES;
+
+  constructor(private readonly from = process.env.EMAIL_FROM) {
+    this.ses = new SES({
+      region: process.env.AWS_REGION || 'us-east-1',
+    });
+  }
+
+  async send(message: MailMessage) {
+    if (!this.from) {
+      // No sender configured (local development): log instead of sending
+      console.log(`📧 Sending email to ${message.to.join(', ')}:`);
+      console.log(`Subject: ${message.subject}`);
+      console.log(`Attachments: ${(message.attachments ?? []).map(a => a.filename).join(', ') || 'none'}`);
+      return { success: true };
+    }
+
+    // SES only takes attachments as a raw MIME message
+    await this.ses.sendRawEmail({
+      Source: this.from,
+      Destinations: message.to,
+      RawMessage: { Data: this.toMime(message) },
+    }).promise();
+
+    return { success: true };
+  }
+
+  private toMime(message: MailMessage): string {
+    const boundary = `crmblr-${randomUUID()}`;
+    const lines = [
+      `From: ${this.from}`,
+      `To: ${message.to.join(', ')}`,
+      `Subject: ${this.encodeHeader(message.subject)}`,
+      'MIME-Version: 1.0',
+      `Content-Type: multipart/mixed; boundary="${boundary}"`,
+      '',
+      `--${boundary}`,
+      'Content-Type: text/plain; charset=UTF-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      this.wrap(Buffer.from(message.text).toString('base64')),
+    ];
+
+    for (const attachment of message.attachments ?? []) {
+      lines.push(
+        `--${boundary}`,
+        `Content-Type: ${attachment.contentType}; name="${attachment.filename}"`,
+        `Content-Disposition: attachment; filename="${attachment.filename}"`,
+        'Content-Transfer-Encoding: base64',
+        '',
+        this.wrap(attachment.content.toString('base64')),
+      );
+    }
+
+    lines.push(`--${boundary}--`, '');
+    return lines.join('\r\n');
+  }
+
+  // Non-ASCII subjects (report names) need RFC 2047 encoding
+  private encodeHeader(value: string): string {
+    return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+  }
+
+  private wrap(base64: string): string {
+    return base64.match(/.{1,76}/g)?.join('\r\n') ?? '';
+  }
+}
@@ -0,0 +1,44 @@
+import * as XLSX from 'xlsx';
+import { ReportFormat } from '@crmblr/types';
+
+export interface ReportFile {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+const CONTENT_TYPES: Record<ReportFormat, string> = {
+  [ReportFormat.CSV]: 'text/csv',
+  [ReportFormat.XLSX]: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export class ReportFileService {
+  build(name: string, rows: Record<string, unknown>[], format: ReportFormat, date = new Date()): ReportFile {
+    const sheet = XLSX.utils.json_to_sheet(rows.map(row => this.toCells(row)), { cellDates: true, dateNF: 'yyyy-mm-dd' });
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, 'Report');
+
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'report';
+    return {
+      filename: `${slug}-${date.toISOString().slice(0, 10)}.${format}`,
+      contentType: CONTENT_TYPES[format],
+      content: XLSX.write(workbook, { type: 'buffer', bookType: format }),
+    };
+  }
+
+  // Raw queries return Decimal, bigint and JSON values the spreadsheet writer does not know
+  private toCells(row: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(
+      Object.entries(row).map(([column, value]) => {
+        if (typeof value === 'bigint') {
+          return [column, Number(value)];
+        }
+        if (value && typeof value === 'object' && !(value instanceof Date)) {
+          // Prisma.Decimal has its own toString; other objects are jsonb
+          return [column, value.constructor?.name === 'Decimal' ? Number(value.toString()) : JSON.stringify(value)];
+        }
+        return [column, value];
+      }),
+    );
+  }
+}
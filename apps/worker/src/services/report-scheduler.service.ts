@@ -0,0 +1,56 @@
+import { Queue } from 'bullmq';
+import { db } from '@crmblr/db';
+import { ScheduledReportJobData } from '../processors/scheduled-report.processor';
+
+export const RUN_REPORT_JOB = 'run-report';
+
+/**
+ * Mirrors the schedules of saved reports as repeatable jobs. Reports are read
+ * across tenants, so this uses the owner connection rather than a tenant context.
+ */
+export class ReportSchedulerService {
+  constructor(private readonly queue: Queue<ScheduledReportJobData>) {}
+
+  async sync() {
+    const scheduled = await db.client.report.findMany({
+      where: { schedule: { not: null } },
+      select: {
+        id: true,
+        tenantId: true,
+        createdBy: true,
+        schedule: true,
+        timezone: true,
+        creator: { select: { userTenants: { select: { tenantId: true } } } },
+      },
+    });
+    // Reports run with their owner's access, so those of owners who left the tenant are dropped
+    const reports = scheduled.filter(report =>
+      report.creator.userTenants.some(membership => membership.tenantId === report.tenantId),
+    );
+
+    // A repeatable job is keyed by its id, pattern and time zone, so a changed schedule is a new key
+    const wanted = new Set<string>();
+    for (const report of reports) {
+      try {
+        const job = await this.queue.add(
+          RUN_REPORT_JOB,
+          { tenantId: report.tenantId, reportId: report.id, userId: report.createdBy },
+          { jobId: report.id, repeat: { pattern: report.schedule!, tz: report.timezone } },
+        );
+        wanted.add(job.repeatJobKey ?? '');
+      } catch (error) {
+        console.error(`❌ Could not schedule report ${report.id} (${report.schedule}):`, error);
+      }
+    }
+
+    let removed = 0;
+    for (const repeatable of await this.queue.getRepeatableJobs()) {
+      if (repeatable.name === RUN_REPORT_JOB && !wanted.has(repeatable.key)) {
+        await this.queue.removeRepeatableByKey(repeatable.key);
+        removed++;
+      }
+    }
+
+    return { scheduled: reports.length, removed };
+  }
+}
@@ -1,10 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
+import { db } from '@crmblr/db';
 import { cognitoAuth } from './cognito';
-import { JWTPayload } from '@crmblr/types';
+import { JWTPayload, UserRole } from '@crmblr/types';
 
 export interface AuthenticatedRequest extends Request {
   user?: JWTPayload;
   tenantId?: string;
+  tenantRole?: UserRole;
 }
 
 export function authMiddleware() {
@@ -35,14 +37,24 @@ export function authMiddleware() {
 export function tenantMiddleware() {
   return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
-      const tenantId = req.headers['x-tenant-id'] as string;
+      const tenantRef = req.headers['x-tenant-id'] as string;
       
-      if (!tenantId) {
+      if (!tenantRef) {
         return res.status(400).json({ error: 'Missing tenant ID' });
       }
 
-      // TODO: Verify user has access to this tenant
-      req.tenantId = tenantId;
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      // Accepts the tenant UUID or slug
+      const membership = await db.findMembership(req.user.sub, tenantRef);
+      if (!membership) {
+        return res.status(403).json({ error: 'You do not have access to this tenant' });
+      }
+
+      req.tenantId = membership.tenantId;
+      req.tenantRole = membership.role;
       next();
     } catch (error) {
       console.error('Tenant middleware error:', error);
@@ -14,6 +14,11 @@ ALTER TABLE pipeline_events ENABLE ROW LEVEL SECURITY;
 ALTER TABLE staff ENABLE ROW LEVEL SECURITY;
 ALTER TABLE file_assets ENABLE ROW LEVEL SECURITY;
 ALTER TABLE reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE report_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE report_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE report_session_turns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dashboards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dashboard_widgets ENABLE ROW LEVEL SECURITY;
 ALTER TABLE audit_logs ENABLE ROW LEVEL SECURITY;
 
 -- Create policies for tenant isolation
@@ -60,16 +65,63 @@ CREATE POLICY tenant_isolation ON file_assets
 CREATE POLICY tenant_isolation ON reports
   USING ("tenantId" = current_setting('app.tenant_id')::uuid);
 
-CREATE POLICY tenant_isolation ON audit_logs
+CREATE POLICY tenant_isolation ON report_runs
   USING ("tenantId" = current_setting('app.tenant_id')::uuid);
 
+CREATE POLICY tenant_isolation ON report_sessions
+  USING ("tenantId" = current_setting('app.tenant_id')::uuid);
+
+CREATE POLICY tenant_isolation ON report_session_turns
+  USING ("tenantId" = current_setting('app.tenant_id')::uuid);
+
+CREATE POLICY tenant_isolation ON dashboards
+  USING ("tenantId" = current_setting('app.tenant_id')::uuid);
+
+CREATE POLICY tenant_isolation ON dashboard_widgets
+  USING ("tenantId" = current_setting('app.tenant_id')::uuid);
+
+-- Audit logs are append-only: rows can be read and inserted but never changed.
+-- FORCE applies the policies to the table owner too, so rows are only read and
+-- written within the current tenant. Row security does not stop TRUNCATE, and
+-- the owner could lift it, so a trigger rejects UPDATE, DELETE and TRUNCATE.
+ALTER TABLE audit_logs FORCE ROW LEVEL SECURITY;
+
+CREATE POLICY tenant_isolation_select ON audit_logs
+  FOR SELECT
+  USING ("tenantId" = current_setting('app.tenant_id', true)::uuid);
+
+CREATE POLICY tenant_isolation_insert ON audit_logs
+  FOR INSERT
+  WITH CHECK ("tenantId" = current_setting('app.tenant_id', true)::uuid);
+
+-- Deleting a tenant still removes its rows: the foreign key cascade runs after
+-- the tenant row is gone, and only then are deletes let through.
+CREATE OR REPLACE FUNCTION audit_logs_append_only() RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM tenants WHERE id = OLD."tenantId") THEN
+    RETURN OLD;
+  END IF;
+  RAISE EXCEPTION 'audit_logs is append-only: % is not allowed', TG_OP;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER audit_logs_append_only
+  BEFORE UPDATE OR DELETE ON audit_logs
+  FOR EACH ROW EXECUTE FUNCTION audit_logs_append_only();
+
+CREATE TRIGGER audit_logs_no_truncate
+  BEFORE TRUNCATE ON audit_logs
+  FOR EACH STATEMENT EXECUTE FUNCTION audit_logs_append_only();
+
 -- Create indexes for performance
 CREATE INDEX IF NOT EXISTS idx_contacts_tenant_id ON contacts("tenantId");
 CREATE INDEX IF NOT EXISTS idx_contacts_email ON contacts(email) WHERE email IS NOT NULL;
 CREATE INDEX IF NOT EXISTS idx_contacts_stage ON contacts(stage);
+CREATE INDEX IF NOT EXISTS idx_contacts_relationship_manager_id ON contacts("relationshipManagerId") WHERE "relationshipManagerId" IS NOT NULL;
 
 CREATE INDEX IF NOT EXISTS idx_organizations_tenant_id ON organizations("tenantId");
 CREATE INDEX IF NOT EXISTS idx_organizations_type ON organizations(type);
+CREATE INDEX IF NOT EXISTS idx_organizations_relationship_manager_id ON organizations("relationshipManagerId") WHERE "relationshipManagerId" IS NOT NULL;
 
 CREATE INDEX IF NOT EXISTS idx_donations_tenant_id ON donations("tenantId");
 CREATE INDEX IF NOT EXISTS idx_donations_date ON donations(date);
@@ -97,6 +149,15 @@ CREATE INDEX IF NOT EXISTS idx_file_assets_source ON file_assets(source);
 CREATE INDEX IF NOT EXISTS idx_reports_tenant_id ON reports("tenantId");
 CREATE INDEX IF NOT EXISTS idx_reports_created_by ON reports("createdBy");
 
+CREATE INDEX IF NOT EXISTS idx_report_runs_report_id ON report_runs("reportId", "startedAt");
+CREATE INDEX IF NOT EXISTS idx_report_sessions_tenant_id ON report_sessions("tenantId");
+CREATE INDEX IF NOT EXISTS idx_report_sessions_created_by ON report_sessions("createdBy");
+CREATE INDEX IF NOT EXISTS idx_report_session_turns_tenant_id ON report_session_turns("tenantId");
+CREATE INDEX IF NOT EXISTS idx_dashboards_tenant_id ON dashboards("tenantId");
+CREATE INDEX IF NOT EXISTS idx_dashboards_owner_id ON dashboards("ownerId");
+CREATE INDEX IF NOT EXISTS idx_dashboard_widgets_dashboard_id ON dashboard_widgets("dashboardId");
+CREATE INDEX IF NOT EXISTS idx_dashboard_widgets_report_id ON dashboard_widgets("reportId");
+
 CREATE INDEX IF NOT EXISTS idx_audit_logs_tenant_id ON audit_logs("tenantId");
 CREATE INDEX IF NOT EXISTS idx_audit_logs_created_at ON audit_logs("createdAt");
 CREATE INDEX IF NOT EXISTS idx_audit_logs_user_id ON audit_logs("userId") WHERE "userId" IS NOT NULL;
@@ -111,6 +172,19 @@ CREATE INDEX IF NOT EXISTS idx_staff_custom ON staff USING GIN (custom);
 CREATE INDEX IF NOT EXISTS idx_file_assets_meta ON file_assets USING GIN (meta);
 CREATE INDEX IF NOT EXISTS idx_audit_logs_meta ON audit_logs USING GIN (meta);
 
+-- Search: full-text vectors plus trigram indexes for fuzzy name matching
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS idx_contacts_search ON contacts USING GIN (to_tsvector('simple', "firstName" || ' ' || "lastName" || ' ' || coalesce(email, '')));
+CREATE INDEX IF NOT EXISTS idx_contacts_name_trgm ON contacts USING GIN (("firstName" || ' ' || "lastName") gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_contacts_email_trgm ON contacts USING GIN (coalesce(email, '') gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_organizations_search ON organizations USING GIN (to_tsvector('simple', name));
+CREATE INDEX IF NOT EXISTS idx_organizations_name_trgm ON organizations USING GIN (name gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_grant_apps_search ON grant_apps USING GIN (to_tsvector('english', name || ' ' || coalesce(notes, '')));
+CREATE INDEX IF NOT EXISTS idx_grant_apps_name_trgm ON grant_apps USING GIN (name gin_trgm_ops);
+
 -- Create function to set tenant context
 CREATE OR REPLACE FUNCTION set_tenant_context(tenant_uuid UUID, user_uuid UUID)
 RETURNS VOID AS $$
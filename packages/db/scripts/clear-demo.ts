@@ -6,8 +6,9 @@ async function main() {
   try {
     console.log('🧹 Clearing demo tenants and data...');
     
-    // Delete in reverse order of dependencies
-    await prisma.auditLog.deleteMany({
+    // Delete in reverse order of dependencies. Audit logs are append-only and
+    // are removed by the cascade when their tenant is deleted.
+    await prisma.reportSession.deleteMany({
       where: {
         tenant: {
           slug: { in: ['makelit', 'oneinsix', 'fallenfruit', 'homeboy'] }
@@ -0,0 +1,41 @@
+import { db } from '../src/client';
+
+// Usage: pnpm db:verify-audit [tenant-slug]
+async function main() {
+  const slug = process.argv[2];
+
+  try {
+    const tenants = await db.client.tenant.findMany({
+      where: slug ? { slug } : undefined,
+      select: { id: true, slug: true },
+      orderBy: { slug: 'asc' },
+    });
+
+    if (tenants.length === 0) {
+      console.error(`❌ No tenant found${slug ? ` with slug "${slug}"` : ''}`);
+      process.exit(1);
+    }
+
+    let broken = 0;
+    for (const tenant of tenants) {
+      const result = await db.verifyAuditChain(tenant.id);
+      if (result.valid) {
+        console.log(`✅ ${tenant.slug}: ${result.checked} entries verified`);
+      } else {
+        broken++;
+        console.log(`❌ ${tenant.slug}: ${result.brokenAt!.reason} at seq ${result.brokenAt!.seq} (entry ${result.brokenAt!.id})`);
+      }
+    }
+
+    if (broken > 0) {
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('❌ Audit chain verification failed:', error);
+    process.exit(1);
+  } finally {
+    await db.disconnect();
+  }
+}
+
+main();
@@ -1,5 +1,89 @@
-import { PrismaClient } from '@prisma/client';
-import { TenantIdSchema, UuidSchema } from '@crmblr/types';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { TenantIdSchema, TenantMembership, UserRole, UuidSchema } from '@crmblr/types';
+import { AuditChainRow, AuditChainVerification, hashAuditEntry, verifyAuditRows } from './audit-chain';
+
+// Tenant used when only the user context matters (e.g. listing memberships)
+export const NO_TENANT_ID = '00000000-0000-0000-0000-000000000000';
+
+const AUDIT_VERIFY_BATCH_SIZE = 500;
+
+// Caps applied to report queries unless the caller passes its own
+const DEFAULT_REPORT_TIMEOUT_MS = 30000;
+const DEFAULT_REPORT_WORK_MEM = '32MB';
+// Keeps Prisma's transaction timeout from firing before statement_timeout does
+const REPORT_TRANSACTION_MARGIN_MS = 5000;
+
+export interface ReadOnlyQueryLimits {
+  timeoutMs?: number;
+  workMem?: string;
+}
+
+// Thrown when a read-only query is cancelled by its statement timeout
+export class QueryTimeoutError extends Error {
+  constructor(readonly timeoutMs: number) {
+    super(`Query exceeded the ${timeoutMs / 1000}s time limit and was cancelled`);
+    this.name = 'QueryTimeoutError';
+  }
+}
+
+function isStatementTimeout(error: unknown): boolean {
+  // Raw query failures carry the PostgreSQL error code; 57014 is query_canceled
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === 'P2010' &&
+    error.meta?.code === '57014'
+  );
+}
+
+export interface AuditLogEntry {
+  tenantId: string;
+  userId?: string | null;
+  action: string;
+  entity: string;
+  entityId?: string | null;
+  meta?: Record<string, unknown>;
+  ip?: string | null;
+  ua?: string | null;
+}
+
+export interface ColumnDescription {
+  name: string;
+  type: string;
+  nullable: boolean;
+  comment?: string;
+}
+
+export interface TableDescription {
+  name: string;
+  comment?: string;
+  columns: ColumnDescription[];
+}
+
+interface ColumnRow {
+  table_name: string;
+  column_name: string;
+  data_type: string;
+  nullable: boolean;
+  table_comment: string | null;
+  column_comment: string | null;
+}
+
+// Documentation comments (///) from schema.prisma, keyed by table and then column
+function prismaDocumentation(): Map<string, { comment?: string; columns: Map<string, string> }> {
+  return new Map(
+    Prisma.dmmf.datamodel.models.map((model) => [
+      model.dbName ?? model.name,
+      {
+        comment: model.documentation,
+        columns: new Map(
+          model.fields
+            .filter((field) => field.documentation)
+            .map((field) => [field.dbName ?? field.name, field.documentation as string]),
+        ),
+      },
+    ]),
+  );
+}
 
 export class DatabaseClient {
   private prisma: PrismaClient;
@@ -18,6 +102,11 @@ export class DatabaseClient {
     await this.prisma.$disconnect();
   }
 
+  /**
+   * @deprecated Sets the RLS context on whichever pooled connection happens to
+   * run the statement, so it can leak between concurrent requests. Use
+   * `forTenant()` or `withTenant()` instead.
+   */
   async setTenantContext(tenantId: string, userId: string) {
     const tenantUuid = TenantIdSchema.parse(tenantId);
     const userUuid = UuidSchema.parse(userId);
@@ -25,6 +114,9 @@ export class DatabaseClient {
     await this.prisma.$executeRaw`SELECT set_tenant_context(${tenantUuid}, ${userUuid})`;
   }
 
+  /**
+   * @deprecated See `setTenantContext()`.
+   */
   async clearTenantContext() {
     await this.prisma.$executeRaw`SELECT clear_tenant_context()`;
   }
@@ -33,8 +125,220 @@ export class DatabaseClient {
     return this.prisma;
   }
 
+  /**
+   * Returns a client whose model operations each run in their own transaction
+   * with the tenant and user context applied via `set_config(..., true)`
+   * (the function form of `SET LOCAL`). The context dies with the transaction,
+   * so nothing needs clearing afterwards, even when a query throws.
+   */
+  forTenant(tenantId: string, userId: string) {
+    const tenantUuid = TenantIdSchema.parse(tenantId);
+    const userUuid = UuidSchema.parse(userId);
+    const prisma = this.prisma;
+
+    return prisma.$extends({
+      name: 'tenant-context',
+      query: {
+        $allModels: {
+          async $allOperations({ args, query }) {
+            const [, result] = await prisma.$transaction([
+              prisma.$executeRaw`SELECT set_tenant_context(${tenantUuid}::uuid, ${userUuid}::uuid)`,
+              query(args),
+            ]);
+            return result;
+          },
+        },
+      },
+    });
+  }
+
+  /**
+   * Runs several operations (including raw queries) in one interactive
+   * transaction that carries the tenant and user context.
+   */
+  async withTenant<T>(
+    tenantId: string,
+    userId: string,
+    fn: (tx: Prisma.TransactionClient) => Promise<T>,
+    options?: { timeout?: number },
+  ): Promise<T> {
+    const tenantUuid = TenantIdSchema.parse(tenantId);
+    const userUuid = UuidSchema.parse(userId);
+
+    return this.prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT set_tenant_context(${tenantUuid}::uuid, ${userUuid}::uuid)`;
+      return fn(tx);
+    }, options);
+  }
+
+  /**
+   * Runs report queries in a read-only tenant transaction as `reports_readonly`,
+   * with `statement_timeout` and `work_mem` capped for that transaction only.
+   * Writes are refused by the database even if the SQL slipped past validation.
+   */
+  async withReadOnlyTenant<T>(
+    tenantId: string,
+    userId: string,
+    fn: (tx: Prisma.TransactionClient) => Promise<T>,
+    limits: ReadOnlyQueryLimits = {},
+  ): Promise<T> {
+    const timeoutMs = limits.timeoutMs ?? DEFAULT_REPORT_TIMEOUT_MS;
+    const workMem = limits.workMem ?? DEFAULT_REPORT_WORK_MEM;
+
+    try {
+      return await this.withTenant(tenantId, userId, async (tx) => {
+        await tx.$executeRaw`SET TRANSACTION READ ONLY`;
+        await tx.$executeRaw`SELECT set_config('statement_timeout', ${String(timeoutMs)}, true), set_config('work_mem', ${workMem}, true)`;
+        await tx.$executeRaw`SET LOCAL ROLE reports_readonly`;
+        return fn(tx);
+      }, { timeout: timeoutMs + REPORT_TRANSACTION_MARGIN_MS });
+    } catch (error) {
+      if (isStatementTimeout(error)) {
+        throw new QueryTimeoutError(timeoutMs);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Resolves a user's membership in a tenant referenced by UUID or slug.
+   * Returns null when the tenant does not exist or the user is not a member.
+   */
+  async findMembership(userId: string, tenantRef: string): Promise<TenantMembership | null> {
+    if (!UuidSchema.safeParse(userId).success) {
+      return null;
+    }
+
+    const tenant = UuidSchema.safeParse(tenantRef).success ? { id: tenantRef } : { slug: tenantRef };
+    const membership = await this.forTenant(NO_TENANT_ID, userId).userTenant.findFirst({
+      where: { userId, tenant },
+      select: { tenantId: true, role: true },
+    });
+
+    return membership ? { tenantId: membership.tenantId, role: membership.role as UserRole } : null;
+  }
+
+  /**
+   * Appends a row to the tenant's audit chain. A per-tenant advisory lock
+   * serializes writers so each row links to the one before it.
+   */
+  async appendAuditLog(entry: AuditLogEntry) {
+    const userId = entry.userId ?? null;
+
+    return this.withTenant(entry.tenantId, userId ?? NO_TENANT_ID, async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${entry.tenantId}))`;
+
+      const last = await tx.auditLog.findFirst({
+        where: { tenantId: entry.tenantId },
+        orderBy: { seq: 'desc' },
+        select: { seq: true, hash: true },
+      });
+
+      const content = {
+        tenantId: entry.tenantId,
+        seq: (last?.seq ?? 0) + 1,
+        userId,
+        action: entry.action,
+        entity: entry.entity,
+        entityId: entry.entityId ?? null,
+        // Round-trip so the hash covers exactly what jsonb will hand back
+        meta: JSON.parse(JSON.stringify(entry.meta ?? {})),
+        ip: entry.ip ?? null,
+        ua: entry.ua ?? null,
+        createdAt: new Date(),
+      };
+      const prevHash = last?.hash ?? null;
+
+      return tx.auditLog.create({
+        data: { ...content, prevHash, hash: hashAuditEntry(content, prevHash) },
+      });
+    });
+  }
+
+  // Walks a tenant's audit chain in seq order and reports the first broken link
+  async verifyAuditChain(tenantId: string): Promise<AuditChainVerification> {
+    const client = this.forTenant(tenantId, NO_TENANT_ID);
+    let previous: { seq: number; hash: string } | null = null;
+    let checked = 0;
+
+    for (;;) {
+      const rows: AuditChainRow[] = await client.auditLog.findMany({
+        where: { tenantId, seq: { gt: previous?.seq ?? 0 } },
+        orderBy: { seq: 'asc' },
+        take: AUDIT_VERIFY_BATCH_SIZE,
+      });
+
+      const result = verifyAuditRows(rows, previous);
+      checked += result.checked;
+      if (!result.valid) {
+        return { ...result, checked };
+      }
+      if (rows.length < AUDIT_VERIFY_BATCH_SIZE) {
+        return { valid: true, checked };
+      }
+
+      const last = rows[rows.length - 1];
+      previous = { seq: last.seq, hash: last.hash };
+    }
+  }
+
+  /**
+   * Describes tables as they exist in the database, so the result follows
+   * applied migrations. Database comments win over schema.prisma docs.
+   */
+  async describeTables(tableNames: string[]): Promise<TableDescription[]> {
+    if (tableNames.length === 0) {
+      return [];
+    }
+
+    const rows = await this.prisma.$queryRaw<ColumnRow[]>`
+      SELECT
+        c.relname AS table_name,
+        a.attname AS column_name,
+        format_type(a.atttypid, a.atttypmod) AS data_type,
+        NOT a.attnotnull AS nullable,
+        obj_description(c.oid, 'pg_class') AS table_comment,
+        col_description(c.oid, a.attnum) AS column_comment
+      FROM pg_class c
+      JOIN pg_namespace n ON n.oid = c.relnamespace AND n.nspname = 'public'
+      JOIN pg_attribute a ON a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+      WHERE c.relkind = 'r' AND c.relname IN (${Prisma.join(tableNames)})
+      ORDER BY c.relname, a.attnum
+    `;
+
+    const docs = prismaDocumentation();
+    const tables = new Map<string, TableDescription>();
+    for (const row of rows) {
+      const doc = docs.get(row.table_name);
+      let table = tables.get(row.table_name);
+      if (!table) {
+        table = { name: row.table_name, comment: row.table_comment ?? doc?.comment, columns: [] };
+        tables.set(row.table_name, table);
+      }
+      table.columns.push({
+        name: row.column_name,
+        type: row.data_type,
+        nullable: row.nullable,
+        comment: row.column_comment ?? doc?.columns.get(row.column_name),
+      });
+    }
+
+    return [...tables.values()];
+  }
+
+  // Name of the latest applied migration; changes whenever the schema does
+  async getSchemaVersion(): Promise<string> {
+    const [latest] = await this.prisma.$queryRaw<{ migration_name: string }[]>`
+      SELECT migration_name FROM _prisma_migrations
+      WHERE finished_at IS NOT NULL AND rolled_back_at IS NULL
+      ORDER BY finished_at DESC
+      LIMIT 1
+    `;
+    return latest?.migration_name ?? 'none';
+  }
+
   // Transaction helper
-  async transaction<T>(fn: (tx: PrismaClient) => Promise<T>): Promise<T> {
+  async transaction<T>(fn: (tx: Prisma.TransactionClient) => Promise<T>): Promise<T> {
     return this.prisma.$transaction(fn);
   }
 
@@ -52,6 +356,8 @@ export class DatabaseClient {
 // Singleton instance
 export const db = new DatabaseClient();
 
-// Export Prisma types
-export type { Prisma } from '@prisma/client';
-export { PrismaClient } from '@prisma/client';
+// Client returned by `db.forTenant()`
+export type TenantClient = ReturnType<DatabaseClient['forTenant']>;
+
+// Export Prisma namespace (types and SQL helpers)
+export { Prisma, PrismaClient } from '@prisma/client';
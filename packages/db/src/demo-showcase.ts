@@ -0,0 +1,178 @@
+import { ContactStage } from '@crmblr/types';
+
+/**
+ * Named records that give each demo tenant's home page its own character on top
+ * of the generated data. Dates are relative to the day the tenant is seeded.
+ */
+export interface DemoShowcase {
+  // Highly engaged contacts without pipeline history, so they lead the cultivation suggestions
+  prospects: { name: string; stage: ContactStage }[];
+  // Gifts from the prospect of the same name, else from an organization; no donor means anonymous
+  donations: { donor?: string; amount: number; daysAgo: number }[];
+  grants: { name: string; daysUntilDeadline: number }[];
+  // Running campaigns; the gifts above count towards the first, which is topped up to `raised`
+  campaigns: { name: string; targetAmount: number; raised: number }[];
+}
+
+export const DEMO_SHOWCASES: Record<string, DemoShowcase> = {
+  makelit: {
+    prospects: [
+      { name: 'Leonard Sommer', stage: ContactStage.QUALIFIED },
+      { name: 'Héctor García Chávez', stage: ContactStage.QUALIFIED },
+    ],
+    donations: [
+      { donor: 'Héctor García Chávez', amount: 50, daysAgo: 53 },
+      { donor: 'Héctor García Chávez', amount: 50, daysAgo: 84 },
+      { donor: 'Héctor García Chávez', amount: 50, daysAgo: 114 },
+    ],
+    grants: [
+      { name: 'IACA Report', daysUntilDeadline: 8 },
+      { name: 'Test Grant for QA', daysUntilDeadline: 9 },
+      { name: 'GDDF 3-year Grant Report', daysUntilDeadline: 18 },
+    ],
+    campaigns: [
+      { name: '2025 End of Year Campaign', targetAmount: 10000, raised: 1825 },
+    ],
+  },
+
+  oneinsix: {
+    prospects: [
+      { name: 'Michael Rodriguez', stage: ContactStage.CULTIVATED },
+      { name: 'Sarah Chen', stage: ContactStage.IDENTIFIED },
+    ],
+    donations: [
+      { amount: 100, daysAgo: 38 },
+      { donor: 'Community Foundation', amount: 500, daysAgo: 43 },
+      { donor: 'Local Business', amount: 250, daysAgo: 48 },
+    ],
+    grants: [
+      { name: "Men's Health Foundation Grant", daysUntilDeadline: 23 },
+      { name: 'Community Support Initiative', daysUntilDeadline: 40 },
+    ],
+    campaigns: [
+      { name: 'Support Services Campaign', targetAmount: 15000, raised: 8500 },
+    ],
+  },
+
+  fallenfruit: {
+    prospects: [
+      { name: 'Eco-Friendly Foundation', stage: ContactStage.CULTIVATED },
+      { name: 'Local Food Network', stage: ContactStage.SOLICITED },
+    ],
+    donations: [
+      { donor: 'Green Thumb Society', amount: 200, daysAgo: 33 },
+      { donor: 'Sustainable Living Group', amount: 150, daysAgo: 35 },
+      { donor: 'Urban Farmer Collective', amount: 300, daysAgo: 38 },
+    ],
+    grants: [
+      { name: 'Urban Agriculture Grant', daysUntilDeadline: 3 },
+      { name: 'Environmental Impact Fund', daysUntilDeadline: 28 },
+      { name: 'Community Garden Initiative', daysUntilDeadline: 54 },
+    ],
+    campaigns: [
+      { name: 'Community Garden Expansion', targetAmount: 25000, raised: 12000 },
+    ],
+  },
+
+  homeboy: {
+    prospects: [
+      { name: 'Corporate Partner', stage: ContactStage.STEWARDED },
+      { name: 'Major Donor', stage: ContactStage.STEWARDED },
+    ],
+    donations: [
+      { donor: 'Corporate Foundation', amount: 1000, daysAgo: 28 },
+      { donor: 'Individual Supporter', amount: 500, daysAgo: 31 },
+      { donor: 'Community Partner', amount: 750, daysAgo: 33 },
+    ],
+    grants: [
+      { name: 'Workforce Development Grant', daysUntilDeadline: 13 },
+      { name: 'Social Enterprise Fund', daysUntilDeadline: 38 },
+      { name: 'Reentry Services Initiative', daysUntilDeadline: 59 },
+    ],
+    campaigns: [
+      { name: 'Jobs Not Jails Campaign', targetAmount: 75000, raised: 45000 },
+    ],
+  },
+
+  'tokyo-voice-ai': {
+    prospects: [
+      { name: 'Buddy.AI', stage: ContactStage.SOLICITED },
+      { name: 'Alex.Inc', stage: ContactStage.SOLICITED },
+      { name: 'Bye: AI', stage: ContactStage.CULTIVATED },
+      { name: 'CyberAce', stage: ContactStage.CULTIVATED },
+      { name: 'Yosuke Yasuda', stage: ContactStage.QUALIFIED },
+      { name: 'Takua Umeki', stage: ContactStage.QUALIFIED },
+      { name: 'Hong Younggo', stage: ContactStage.QUALIFIED },
+      { name: 'Datz Daito', stage: ContactStage.IDENTIFIED },
+    ],
+    donations: [
+      { donor: 'CyberAce', amount: 5000, daysAgo: 0 },
+      { donor: 'Yosuke Yasuda', amount: 5000, daysAgo: 0 },
+      { donor: 'Alex.Inc', amount: 4000, daysAgo: 0 },
+      { donor: 'Bye: AI', amount: 3000, daysAgo: 0 },
+      { donor: 'Buddy.AI', amount: 10000, daysAgo: 0 },
+      { donor: 'Hackathon Prize Pool', amount: 3000, daysAgo: 0 },
+    ],
+    grants: [
+      { name: 'Hackathon Demo Day', daysUntilDeadline: 1 },
+      { name: 'Voice AI Innovation Grant', daysUntilDeadline: 21 },
+      { name: 'Alex.Inc Collaboration', daysUntilDeadline: 36 },
+      { name: 'Ameba Partnership Proposal', daysUntilDeadline: 37 },
+      { name: 'CyberAce Security Partnership', daysUntilDeadline: 51 },
+    ],
+    campaigns: [
+      { name: 'Voice AI Hackathon Campaign', targetAmount: 35000, raised: 30000 },
+    ],
+  },
+
+  'alex-ai': {
+    prospects: [
+      { name: 'Microsoft Azure', stage: ContactStage.SOLICITED },
+      { name: 'Google Cloud', stage: ContactStage.SOLICITED },
+      { name: 'Amazon AWS', stage: ContactStage.CULTIVATED },
+      { name: 'Salesforce', stage: ContactStage.CULTIVATED },
+      { name: 'HubSpot', stage: ContactStage.QUALIFIED },
+    ],
+    donations: [
+      { donor: 'Microsoft Azure Partnership', amount: 50000, daysAgo: 5 },
+      { donor: 'Google Cloud Collaboration', amount: 35000, daysAgo: 7 },
+      { donor: 'Amazon AWS Integration', amount: 25000, daysAgo: 10 },
+      { donor: 'Salesforce Partnership', amount: 15000, daysAgo: 13 },
+    ],
+    grants: [
+      { name: 'AI Innovation Grant', daysUntilDeadline: 26 },
+      { name: 'TechCrunch Disrupt Application', daysUntilDeadline: 36 },
+      { name: 'Enterprise Partnership Proposal', daysUntilDeadline: 46 },
+      { name: 'Series A Funding Round', daysUntilDeadline: 82 },
+    ],
+    campaigns: [
+      { name: 'Enterprise AI Solutions Campaign', targetAmount: 200000, raised: 125000 },
+      { name: 'Series A Funding Campaign', targetAmount: 1000000, raised: 500000 },
+    ],
+  },
+
+  'bye-ai': {
+    prospects: [
+      { name: 'Microsoft AI', stage: ContactStage.CULTIVATED },
+      { name: 'Google DeepMind', stage: ContactStage.SOLICITED },
+      { name: 'OpenAI', stage: ContactStage.CULTIVATED },
+      { name: 'Anthropic', stage: ContactStage.QUALIFIED },
+    ],
+    donations: [
+      { donor: 'Microsoft AI Partnership', amount: 40000, daysAgo: 3 },
+      { donor: 'Google DeepMind Collaboration', amount: 30000, daysAgo: 5 },
+      { donor: 'OpenAI Integration', amount: 15000, daysAgo: 7 },
+      { donor: 'Anthropic Safety Grant', amount: 10000, daysAgo: 10 },
+    ],
+    grants: [
+      { name: 'AI Innovation Grant', daysUntilDeadline: 31 },
+      { name: 'AI Ethics Conference', daysUntilDeadline: 34 },
+      { name: 'Tech Partnership Proposal', daysUntilDeadline: 41 },
+      { name: 'Series B Funding Round', daysUntilDeadline: 87 },
+    ],
+    campaigns: [
+      { name: 'AI Innovation Campaign', targetAmount: 150000, raised: 95000 },
+      { name: 'Series B Funding Campaign', targetAmount: 5000000, raised: 2000000 },
+    ],
+  },
+};
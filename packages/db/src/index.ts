@@ -1,3 +1,4 @@
 export * from './client';
+export * from './audit-chain';
 export * from './migrations';
 export * from './seeder';
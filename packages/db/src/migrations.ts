@@ -1,14 +1,37 @@
+import { REPORT_TABLES } from '@crmblr/types';
 import { db } from './client';
 import { readFileSync } from 'fs';
 import { join } from 'path';
 
+// Splits on semicolons outside $$-quoted function bodies
+function splitStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let current = '';
+  let inBody = false;
+
+  for (const part of sql.split(/(\$\$|;)/)) {
+    if (part === '$$') {
+      inBody = !inBody;
+    }
+    if (part === ';' && !inBody) {
+      statements.push(current);
+      current = '';
+    } else {
+      current += part;
+    }
+  }
+  statements.push(current);
+
+  return statements.filter(stmt => stmt.trim());
+}
+
 export async function runRLSPolicies() {
   try {
     const sqlPath = join(__dirname, '../prisma/rls_policies.sql');
     const sql = readFileSync(sqlPath, 'utf8');
     
-    // Split by semicolon and execute each statement
-    const statements = sql.split(';').filter(stmt => stmt.trim());
+    // Split by semicolon and execute each statement; function bodies keep theirs
+    const statements = splitStatements(sql);
     
     for (const statement of statements) {
       if (statement.trim()) {
@@ -35,11 +58,19 @@ export async function createReadOnlyRole() {
       END $$;
     `;
 
-    await db.client.$executeRaw`
-      GRANT USAGE ON SCHEMA public TO reports_readonly;
-      GRANT SELECT ON ALL TABLES IN SCHEMA public TO reports_readonly;
-      GRANT SELECT ON ALL SEQUENCES IN SCHEMA public TO reports_readonly;
-    `;
+    // Prepared statements hold a single command each. The role reads only the
+    // report tables, so users, memberships and audit logs stay out of reach;
+    // grants from earlier setups that covered every table are taken back first.
+    await db.client.$executeRaw`REVOKE ALL ON ALL TABLES IN SCHEMA public FROM reports_readonly`;
+    await db.client.$executeRaw`REVOKE ALL ON ALL SEQUENCES IN SCHEMA public FROM reports_readonly`;
+    await db.client.$executeRaw`ALTER DEFAULT PRIVILEGES IN SCHEMA public REVOKE SELECT ON TABLES FROM reports_readonly`;
+    await db.client.$executeRaw`GRANT USAGE ON SCHEMA public TO reports_readonly`;
+    for (const table of Object.keys(REPORT_TABLES)) {
+      await db.client.$executeRawUnsafe(`GRANT SELECT ON "${table}" TO reports_readonly`);
+    }
+
+    // Lets the app connection switch to the role with SET LOCAL ROLE for report queries
+    await db.client.$executeRaw`GRANT reports_readonly TO CURRENT_USER`;
 
     console.log('✅ Read-only role created successfully');
   } catch (error) {
@@ -9,6 +9,9 @@ import {
   StaffTeam,
   DemoTenantConfig 
 } from '@crmblr/types';
+import { DEMO_SHOWCASES, DemoShowcase } from './demo-showcase';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 export class DemoTenantSeeder {
   private prisma: PrismaClient;
@@ -91,6 +94,12 @@ export class DemoTenantSeeder {
     
     // Create staff
     await this.createStaff(tenantId);
+
+    // Create the tenant's named prospects, gifts, grants and campaigns
+    const showcase = DEMO_SHOWCASES[config.slug];
+    if (showcase) {
+      await this.createShowcase(tenantId, showcase, organizations[0].id);
+    }
   }
 
   private async createCampaigns(tenantId: string) {
@@ -290,6 +299,92 @@ export class DemoTenantSeeder {
     }
   }
 
+  private async createShowcase(tenantId: string, showcase: DemoShowcase, grantorId: string) {
+    const now = Date.now();
+
+    const prospects = new Map<string, string>();
+    for (const prospect of showcase.prospects) {
+      const [firstName, ...lastName] = prospect.name.split(' ');
+      const contact = await this.prisma.contact.create({
+        data: {
+          tenantId,
+          firstName,
+          lastName: lastName.join(' '),
+          stage: prospect.stage,
+          score: 90 + Math.floor(Math.random() * 11), // 90-100
+        },
+      });
+      prospects.set(prospect.name, contact.id);
+    }
+
+    // Campaigns run from 90 days ago to 60 days from now
+    const campaigns = [];
+    for (const campaign of showcase.campaigns) {
+      campaigns.push(await this.prisma.campaign.create({
+        data: {
+          tenantId,
+          name: campaign.name,
+          targetAmount: campaign.targetAmount,
+          startDate: new Date(now - 90 * DAY_MS),
+          endDate: new Date(now + 60 * DAY_MS),
+        },
+      }));
+    }
+
+    const raised = new Map<string, number>();
+    for (const donation of showcase.donations) {
+      const contactId = donation.donor ? prospects.get(donation.donor) ?? null : null;
+      const organizationId = donation.donor && !contactId
+        ? (await this.prisma.organization.create({ data: { tenantId, name: donation.donor, type: OrganizationType.PARTNER } })).id
+        : null;
+      const campaignId = campaigns[0]?.id ?? null;
+
+      await this.prisma.donation.create({
+        data: {
+          tenantId,
+          contactId,
+          organizationId,
+          campaignId,
+          amount: donation.amount,
+          date: new Date(now - donation.daysAgo * DAY_MS),
+          thankYouStatus: ThankYouStatus.PENDING,
+        },
+      });
+      if (campaignId) {
+        raised.set(campaignId, (raised.get(campaignId) || 0) + donation.amount);
+      }
+    }
+
+    // Anonymous gifts on the first day make up the rest of each campaign's total
+    for (const [index, campaign] of campaigns.entries()) {
+      const rest = showcase.campaigns[index].raised - (raised.get(campaign.id) || 0);
+      if (rest > 0) {
+        await this.prisma.donation.create({
+          data: {
+            tenantId,
+            campaignId: campaign.id,
+            amount: rest,
+            date: campaign.startDate,
+            thankYouStatus: ThankYouStatus.SENT,
+          },
+        });
+      }
+    }
+
+    for (const grant of showcase.grants) {
+      await this.prisma.grantApp.create({
+        data: {
+          tenantId,
+          organizationId: grantorId,
+          name: grant.name,
+          amountRequested: this.getGrantAmount(),
+          status: GrantStatus.PROSPECT,
+          deadline: new Date(now + grant.daysUntilDeadline * DAY_MS),
+        },
+      });
+    }
+  }
+
   // Helper methods
   private getWeightedStage(stages: ContactStage[]): ContactStage {
     const weights = [0.45, 0.20, 0.15, 0.10, 0.10]; // Identified, Qualified, Cultivated, Solicited, Stewarded
@@ -0,0 +1,85 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { parseArgs } from 'util';
+import { db } from '@crmblr/db';
+import { REPORT_TABLES, TenantSettingsSchema } from '@crmblr/types';
+import { createProvider, defaultProviderName, parseProviderName } from '../src/providers';
+import { buildSchemaContext, TenantCustomFields } from '../src/schema-context';
+import { EVAL_CORPUS, EvalRun, renderJsonReport, renderMarkdownReport, ResultRow, runEval } from '../src/eval';
+
+// Usage: pnpm eval [--providers bedrock,openai] [--tenant slug] [--cases id,id] [--model name] [--out dir]
+// Needs DATABASE_URL pointing at a database seeded with `pnpm db:seed`.
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      providers: { type: 'string' },
+      tenant: { type: 'string', default: 'tokyo-voice-ai' },
+      cases: { type: 'string' },
+      model: { type: 'string' },
+      out: { type: 'string', default: 'eval-results' },
+    },
+  });
+
+  const providers = values.providers
+    ? values.providers.split(',').map(name => parseProviderName(name.trim()))
+    : [defaultProviderName()];
+  const caseIds = values.cases?.split(',').map(id => id.trim());
+  const cases = caseIds ? EVAL_CORPUS.filter(evalCase => caseIds.includes(evalCase.id)) : EVAL_CORPUS;
+
+  try {
+    const tenant = await db.client.tenant.findUnique({
+      where: { slug: values.tenant },
+      select: { id: true, settings: true, userTenants: { select: { userId: true }, take: 1 } },
+    });
+    if (!tenant || tenant.userTenants.length === 0) {
+      console.error(`❌ No seeded tenant with members found for slug "${values.tenant}"`);
+      process.exit(1);
+    }
+    const userId = tenant.userTenants[0].userId;
+
+    // Same schema context the reports API sends for this tenant
+    const described = await db.describeTables(Object.keys(REPORT_TABLES));
+    const tables = described.map(table => ({
+      ...table,
+      columns: table.columns.filter(column => REPORT_TABLES[table.name].includes(column.name)),
+    }));
+    const customFields: TenantCustomFields = TenantSettingsSchema.parse(tenant.settings ?? {}).customFields ?? {};
+    const schema = buildSchemaContext(tables, customFields);
+
+    const execute = (sql: string) =>
+      db.withReadOnlyTenant(tenant.id, userId, tx => tx.$queryRawUnsafe<ResultRow[]>(sql));
+
+    mkdirSync(values.out!, { recursive: true });
+
+    const runs: EvalRun[] = [];
+    for (const name of providers) {
+      console.log(`🧪 ${name}: ${cases.length} cases`);
+      const run = await runEval({
+        provider: createProvider(name),
+        settings: { model: values.model },
+        cases,
+        schema,
+        tenantId: tenant.id,
+        execute,
+      });
+      runs.push(run);
+
+      const { summary } = run;
+      console.log(
+        `   execution accuracy ${summary.executionAccuracy}, validator pass rate ${summary.validatorPassRate}, ` +
+        `p50 ${summary.latencyMs.p50} ms`,
+      );
+      writeFileSync(join(values.out!, `${name}.json`), renderJsonReport(run));
+    }
+
+    writeFileSync(join(values.out!, 'report.md'), renderMarkdownReport(runs));
+    console.log(`✅ Reports written to ${values.out}`);
+  } catch (error) {
+    console.error('❌ Eval failed:', error);
+    process.exit(1);
+  } finally {
+    await db.disconnect();
+  }
+}
+
+main();
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { ChartType, ChartValueFormat, TypedResultColumn } from '@crmblr/types';
+import { resolveChartSpec, suggestChartSpec } from '../chart-spec';
+
+const monthlyGiving: TypedResultColumn[] = [
+  { name: 'month', kind: 'date' },
+  { name: 'total_amount', kind: 'currency' },
+  { name: 'gifts', kind: 'integer' },
+];
+
+const givingByStage: TypedResultColumn[] = [
+  { name: 'contact_id', kind: 'text' },
+  { name: 'stage', kind: 'text' },
+  { name: 'campaign', kind: 'text' },
+  { name: 'total_amount', kind: 'currency' },
+];
+
+describe('suggestChartSpec', () => {
+  it('should put dates on the x axis of a line chart', () => {
+    expect(suggestChartSpec(monthlyGiving)).toEqual({
+      type: ChartType.LINE,
+      x: 'month',
+      y: ['total_amount', 'gifts'],
+      series: null,
+      format: ChartValueFormat.NUMBER,
+    });
+  });
+
+  it('should chart categories as bars, split by a second category, and skip id columns', () => {
+    expect(suggestChartSpec(givingByStage)).toEqual({
+      type: ChartType.BAR,
+      x: 'stage',
+      y: ['total_amount'],
+      series: 'campaign',
+      format: ChartValueFormat.CURRENCY,
+    });
+  });
+
+  it('should leave results without a measure or an axis as tables', () => {
+    expect(suggestChartSpec([{ name: 'name', kind: 'text' }, { name: 'email', kind: 'text' }])).toBeNull();
+    expect(suggestChartSpec([{ name: 'total', kind: 'currency' }, { name: 'gifts', kind: 'integer' }])).toBeNull();
+  });
+});
+
+describe('resolveChartSpec', () => {
+  it('should keep a suggestion that fits the result', () => {
+    const suggested = { type: 'pie', x: 'stage', y: ['total_amount'], format: 'currency' };
+
+    expect(resolveChartSpec(suggested, givingByStage)).toEqual({
+      type: ChartType.PIE,
+      x: 'stage',
+      y: ['total_amount'],
+      series: null,
+      format: ChartValueFormat.CURRENCY,
+    });
+  });
+
+  it.each([
+    ['a missing column', { type: 'bar', x: 'region', y: ['total_amount'] }],
+    ['a text y column', { type: 'bar', x: 'stage', y: ['campaign'] }],
+    ['series with several y columns', { type: 'line', x: 'month', y: ['total_amount', 'gifts'], series: 'month' }],
+    ['an unknown chart type', { type: 'radar', x: 'stage', y: ['total_amount'] }],
+  ])('should replace a suggestion with %s by the heuristic', (_, suggested) => {
+    const columns = [...givingByStage, ...monthlyGiving];
+    expect(resolveChartSpec(suggested, columns)).toEqual(suggestChartSpec(columns));
+  });
+});
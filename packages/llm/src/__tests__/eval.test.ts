@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import { CompletionRequest, LLMProvider } from '../providers';
+import { EvalCase, renderMarkdownReport, resultSetsMatch, runEval } from '../eval';
+
+const tenantId = '11111111-2222-3333-4444-555555555555';
+
+describe('resultSetsMatch', () => {
+  const expected = [
+    { stage: 'identified', count: 2n },
+    { stage: 'qualified', count: 1n },
+  ];
+
+  it('should ignore column names, column order, row order and extra columns', () => {
+    expect(
+      resultSetsMatch(
+        [
+          { contacts: 1, share: 0.33, pipeline_stage: 'qualified' },
+          { contacts: 2, share: 0.67, pipeline_stage: 'identified' },
+        ],
+        expected,
+      ),
+    ).toBe(true);
+  });
+
+  it('should compare numbers after rounding to cents', () => {
+    const decimal = new (class Decimal {
+      toString() {
+        return '12.500';
+      }
+    })();
+    expect(resultSetsMatch([{ avg: 12.5 }], [{ avg: decimal }])).toBe(true);
+    expect(resultSetsMatch([{ avg: 12.5 }], [{ avg: 12.51 }])).toBe(false);
+  });
+
+  it('should require the same rows', () => {
+    expect(resultSetsMatch([{ stage: 'identified', count: 2 }], expected)).toBe(false);
+    expect(resultSetsMatch([{ stage: 'identified', count: 2 }, { stage: 'qualified', count: 2 }], expected)).toBe(false);
+  });
+
+  it('should keep values paired with their row', () => {
+    const swapped = [
+      { stage: 'identified', count: 1n },
+      { stage: 'qualified', count: 2n },
+    ];
+    expect(resultSetsMatch(swapped, expected)).toBe(false);
+    expect(resultSetsMatch([{ a: 1, b: 2 }, { a: 2, b: 1 }], [{ x: 2, y: 1 }, { x: 1, y: 2 }])).toBe(true);
+  });
+
+  it('should respect row order only when asked to', () => {
+    const reversed = [...expected].reverse();
+    expect(resultSetsMatch(reversed, expected)).toBe(true);
+    expect(resultSetsMatch(reversed, expected, true)).toBe(false);
+  });
+});
+
+describe('runEval', () => {
+  const cases: EvalCase[] = [
+    { id: 'count', question: 'How many contacts?', expectedSql: 'SELECT count(*) FROM contacts' },
+    { id: 'stages', question: 'Contacts per stage', expectedSql: 'SELECT stage, count(*) FROM contacts GROUP BY stage' },
+    { id: 'delete', question: 'Remove old donations', expectedSql: 'SELECT 1' },
+    { id: 'offline', question: 'Anything', expectedSql: 'SELECT 1' },
+  ];
+
+  // Answers each question with canned SQL, as a recorded fixture would
+  const answers: Record<string, string> = {
+    'How many contacts?': 'SELECT count(id) AS total FROM contacts',
+    'Contacts per stage': 'SELECT stage, count(*) FROM contacts WHERE score > 10 GROUP BY stage',
+    'Remove old donations': 'DELETE FROM donations',
+  };
+  const provider: LLMProvider = {
+    name: 'canned',
+    async complete(request: CompletionRequest) {
+      const question = request.messages[1].content.match(/User Request: (.*)/)![1];
+      if (!answers[question]) {
+        throw new Error('Provider unavailable');
+      }
+      return { content: JSON.stringify({ sql: answers[question] }), model: 'canned-1' };
+    },
+  };
+
+  // Stands in for the seeded database
+  const execute = async (sql: string) => {
+    if (sql.includes('GROUP BY stage')) {
+      return sql.includes('score > 10') ? [{ stage: 'identified', count: 1n }] : [{ stage: 'identified', count: 2n }];
+    }
+    return sql.includes('count') ? [{ count: 150n }] : [{ '?column?': 1 }];
+  };
+
+  it('should score each case and summarize the run', async () => {
+    const run = await runEval({ provider, cases, schema: 'CREATE TABLE contacts ();', tenantId, execute });
+
+    expect(run.provider).toBe('canned');
+    expect(run.cases.map(result => [result.id, result.outcome])).toEqual([
+      ['count', 'match'],
+      ['stages', 'mismatch'],
+      ['delete', 'invalid'],
+      ['offline', 'error'],
+    ]);
+    expect(run.cases[2].errors).toContain('Only SELECT statements are allowed');
+    expect(run.cases[3].errors).toEqual(['Failed to generate SQL with canned']);
+    expect(run.summary).toMatchObject({ cases: 4, executionAccuracy: 0.25, validatorPassRate: 0.5 });
+  });
+
+  it('should run every query through the tenant rewrite', async () => {
+    const seen: string[] = [];
+    await runEval({
+      provider,
+      cases: cases.slice(0, 1),
+      schema: '',
+      tenantId,
+      execute: async sql => {
+        seen.push(sql);
+        return [{ count: 150 }];
+      },
+    });
+
+    expect(seen).toHaveLength(2);
+    expect(seen.every(sql => sql.includes(`"tenantId" = '${tenantId}'::uuid`))).toBe(true);
+  });
+
+  it('should only hold the model to a LIMIT when the reference sets one', async () => {
+    const limitCases: EvalCase[] = [
+      { id: 'names', question: 'Names of contacts', expectedSql: 'SELECT "firstName" FROM contacts' },
+      {
+        id: 'top',
+        question: 'Top 2 contacts by score',
+        expectedSql: 'SELECT "firstName" FROM contacts ORDER BY score DESC LIMIT 2',
+        ordered: true,
+      },
+    ];
+    const limiting: LLMProvider = {
+      name: 'limiting',
+      async complete(request: CompletionRequest) {
+        const sql = request.messages[1].content.includes('Top 2')
+          ? 'SELECT "firstName" FROM contacts ORDER BY score DESC LIMIT 3'
+          : 'SELECT "firstName" FROM contacts LIMIT 2';
+        return { content: JSON.stringify({ sql }), model: 'limiting-1' };
+      },
+    };
+    const names = [{ firstName: 'Ada' }, { firstName: 'Grace' }, { firstName: 'Hedy' }];
+
+    const run = await runEval({
+      provider: limiting,
+      cases: limitCases,
+      schema: '',
+      tenantId,
+      execute: async sql => names.slice(0, Number(sql.match(/LIMIT (\d+)/)![1])),
+    });
+
+    expect(run.cases.map(result => [result.id, result.outcome])).toEqual([
+      ['names', 'match'],
+      ['top', 'mismatch'],
+    ]);
+    expect(run.cases[0].sql).toBe('SELECT "firstName" FROM contacts LIMIT 2');
+  });
+
+  it('should render a side-by-side markdown report', async () => {
+    const run = await runEval({ provider, cases, schema: '', tenantId, execute });
+    const report = renderMarkdownReport([run, { ...run, provider: 'other' }]);
+
+    expect(report).toContain('| canned | default | 4 | 25.0% | 50.0% |');
+    expect(report).toContain('| Case | canned | other |');
+    expect(report).toContain('| stages | ❌ wrong result | ❌ wrong result |');
+    expect(report).toContain('### delete (canned)');
+    expect(report).toContain('```sql\nDELETE FROM donations\n```');
+  });
+});
@@ -0,0 +1,188 @@
+import { afterAll, beforeAll, afterEach, describe, it, expect, vi } from 'vitest';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { mkdtempSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ChartType, ChartValueFormat, LLMProviderName } from '@crmblr/types';
+import {
+  CompletionRequest,
+  defaultProviderName,
+  FixtureNotFoundError,
+  FixtureProvider,
+  fixtureKey,
+  LLMProvider,
+  OpenAICompatibleProvider,
+} from '../providers';
+import { LLMService } from '../sql-generator';
+
+const request: CompletionRequest = {
+  messages: [
+    { role: 'system', content: 'Answer briefly.' },
+    { role: 'user', content: 'How many donors gave twice?' },
+  ],
+};
+
+function stubProvider(name: string, content: string) {
+  const complete = vi.fn(async (req: CompletionRequest) => ({ content, model: req.model ?? `${name}-default` }));
+  return { name, complete } satisfies LLMProvider;
+}
+
+describe('FixtureProvider', () => {
+  it('should replay the fixture recorded for the conversation', async () => {
+    const provider = new FixtureProvider({
+      fixtures: { [fixtureKey(request.messages)]: { content: '42', model: 'gpt-4' } },
+    });
+
+    // Model and sampling options do not change which fixture matches
+    const result = await provider.complete({ ...request, model: 'other', temperature: 1 });
+    expect(result).toEqual({ content: '42', model: 'gpt-4' });
+  });
+
+  it('should fail on a miss when not recording', async () => {
+    const provider = new FixtureProvider({ fixtures: {} });
+    await expect(provider.complete(request)).rejects.toBeInstanceOf(FixtureNotFoundError);
+  });
+
+  it('should record misses through another provider and save them', async () => {
+    const path = join(mkdtempSync(join(tmpdir(), 'llm-fixtures-')), 'fixtures.json');
+    const live = stubProvider('live', '42');
+
+    const recorder = new FixtureProvider({ path, record: live });
+    expect(await recorder.complete(request)).toEqual({ content: '42', model: 'live-default' });
+
+    const saved = JSON.parse(readFileSync(path, 'utf8'));
+    expect(saved[fixtureKey(request.messages)]).toEqual({
+      prompt: 'How many donors gave twice?',
+      content: '42',
+      model: 'live-default',
+    });
+
+    const replay = new FixtureProvider({ path });
+    expect(await replay.complete(request)).toEqual({ content: '42', model: 'live-default' });
+    expect(live.complete).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('OpenAICompatibleProvider', () => {
+  let server: Server;
+  let baseURL: string;
+  const bodies: any[] = [];
+
+  const readBody = (req: IncomingMessage) =>
+    new Promise<string>(resolve => {
+      let data = '';
+      req.on('data', chunk => (data += chunk));
+      req.on('end', () => resolve(data));
+    });
+
+  beforeAll(async () => {
+    server = createServer(async (req, res) => {
+      const body = JSON.parse(await readBody(req));
+      bodies.push({ url: req.url, ...body });
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({
+        id: 'chatcmpl-1',
+        object: 'chat.completion',
+        created: 0,
+        model: body.model,
+        choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: 'Seven donors.' } }],
+      }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  it('should send chat completions to the configured endpoint', async () => {
+    const provider = new OpenAICompatibleProvider({ baseURL, model: 'llama3' });
+
+    const result = await provider.complete({ ...request, temperature: 0.2, maxTokens: 50 });
+
+    expect(result).toEqual({ content: 'Seven donors.', model: 'llama3' });
+    expect(bodies.at(-1)).toMatchObject({
+      url: '/v1/chat/completions',
+      model: 'llama3',
+      messages: request.messages,
+      temperature: 0.2,
+      max_tokens: 50,
+    });
+  });
+});
+
+describe('LLMService', () => {
+  const bedrock = stubProvider(LLMProviderName.BEDROCK, 'from bedrock');
+  const local = stubProvider(LLMProviderName.LOCAL, 'from local');
+  const factory = vi.fn((name: LLMProviderName) => (name === LLMProviderName.LOCAL ? local : bedrock));
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.clearAllMocks();
+  });
+
+  it('should use the provider chosen in the settings and create it once', async () => {
+    const service = new LLMService(factory);
+
+    await service.complete(request, { provider: LLMProviderName.LOCAL });
+    const result = await service.complete(request, { provider: LLMProviderName.LOCAL });
+
+    expect(result.content).toBe('from local');
+    expect(factory).toHaveBeenCalledTimes(1);
+  });
+
+  it('should prefer per-call options over settings', async () => {
+    const service = new LLMService(factory);
+
+    await service.complete(
+      { ...request, temperature: 0.9 },
+      { provider: LLMProviderName.LOCAL, model: 'mistral', temperature: 0.3, maxTokens: 200 },
+    );
+
+    expect(local.complete).toHaveBeenCalledWith({ ...request, model: 'mistral', temperature: 0.9, maxTokens: 200 });
+  });
+
+  it('should fall back to LLM_PROVIDER, then USE_OPENAI', () => {
+    vi.stubEnv('LLM_PROVIDER', 'local');
+    expect(defaultProviderName()).toBe(LLMProviderName.LOCAL);
+
+    vi.stubEnv('LLM_PROVIDER', '');
+    vi.stubEnv('USE_OPENAI', 'true');
+    expect(defaultProviderName()).toBe(LLMProviderName.OPENAI);
+
+    vi.stubEnv('USE_OPENAI', 'false');
+    expect(defaultProviderName()).toBe(LLMProviderName.BEDROCK);
+
+    vi.stubEnv('LLM_PROVIDER', 'gemini');
+    expect(() => defaultProviderName()).toThrow('Unknown LLM provider: gemini');
+  });
+
+  it('should generate SQL offline from a fixture', async () => {
+    const replay = stubProvider(LLMProviderName.FIXTURE, '{"sql": "SELECT count(*) FROM contacts", "explanation": "Counts contacts", "confidence": 0.9}');
+    const service = new LLMService(factory);
+    service.setProvider(LLMProviderName.FIXTURE, replay);
+
+    const response = await service.generateSQL(
+      { prompt: 'How many contacts?', schema: 'CREATE TABLE contacts ();' },
+      { provider: LLMProviderName.FIXTURE, maxTokens: 500 },
+    );
+
+    expect(response).toEqual({ sql: 'SELECT count(*) FROM contacts', explanation: 'Counts contacts', confidence: 0.9 });
+    expect(replay.complete).toHaveBeenCalledWith(expect.objectContaining({ temperature: 0.1, maxTokens: 500 }));
+    expect(factory).not.toHaveBeenCalled();
+  });
+
+  it('should keep a usable chart suggestion and drop a malformed one', async () => {
+    const service = new LLMService(factory);
+    const prompt = { prompt: 'Giving by month', schema: 'CREATE TABLE donations ();' };
+    const answer = (chart: unknown) =>
+      stubProvider(LLMProviderName.FIXTURE, JSON.stringify({ sql: 'SELECT 1', explanation: 'x', confidence: 0.8, chart }));
+
+    service.setProvider(LLMProviderName.FIXTURE, answer({ type: 'line', x: 'month', y: ['total'], format: 'currency' }));
+    const response = await service.generateSQL(prompt, { provider: LLMProviderName.FIXTURE });
+    expect(response.chart).toEqual({ type: ChartType.LINE, x: 'month', y: ['total'], series: null, format: ChartValueFormat.CURRENCY });
+
+    service.setProvider(LLMProviderName.FIXTURE, answer({ type: 'line', x: 'month' }));
+    expect((await service.generateSQL(prompt, { provider: LLMProviderName.FIXTURE })).chart).toBeUndefined();
+  });
+});
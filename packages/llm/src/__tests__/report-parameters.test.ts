@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { ContactStage, ReportParameter, ReportParameterType } from '@crmblr/types';
+import { bindReportParameters, compileReportSQL, ReportParameterError } from '../report-parameters';
+import { sqlValidator } from '../sql-validator';
+
+const parameters: ReportParameter[] = [
+  { name: 'min_amount', label: 'Minimum gift', type: ReportParameterType.NUMBER, min: 0, default: 250, required: true },
+  { name: 'period', label: 'Gift date', type: ReportParameterType.DATE_RANGE, required: true },
+  { name: 'stage', label: 'Stage', type: ReportParameterType.ENUM, enum: 'ContactStage', required: false },
+];
+
+const sql = `SELECT c."firstName", sum(d.amount) AS total
+FROM contacts c JOIN donations d ON d."contactId" = c.id
+WHERE d.amount >= {{min_amount}}
+  AND d.date BETWEEN {{ period.from }} AND {{period.to}}
+  AND ({{stage}} IS NULL OR c.stage = {{stage}})
+GROUP BY c."firstName"`;
+
+function errorsOf(fn: () => unknown): string[] {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof ReportParameterError) {
+      return error.errors;
+    }
+    throw error;
+  }
+  return [];
+}
+
+describe('compileReportSQL', () => {
+  it('should replace placeholders with typed bind parameters', async () => {
+    const compiled = compileReportSQL(sql, parameters);
+
+    expect(compiled.sql).toContain('d.amount >= $1::numeric');
+    expect(compiled.sql).toContain('BETWEEN $2::date AND $3::date');
+    expect(compiled.sql).toContain('($4::text IS NULL OR c.stage = $4::text)');
+    expect(compiled.bindings).toEqual([
+      { name: 'min_amount', part: undefined },
+      { name: 'period', part: 'from' },
+      { name: 'period', part: 'to' },
+      { name: 'stage', part: undefined },
+    ]);
+    expect((await sqlValidator.validateForReports(compiled.sql, 'tenant')).errors).toEqual([]);
+  });
+
+  it('should leave placeholders in strings, identifiers and comments alone', () => {
+    const compiled = compileReportSQL(
+      `SELECT '{{stage}}' AS "{{stage}}" -- {{stage}}\nFROM contacts WHERE stage = {{stage}}`,
+      [parameters[2]],
+    );
+    expect(compiled.sql).toBe(`SELECT '{{stage}}' AS "{{stage}}" -- {{stage}}\nFROM contacts WHERE stage = $1::text`);
+  });
+
+  it('should reject undeclared, unused and misused placeholders', () => {
+    expect(errorsOf(() => compileReportSQL('SELECT {{months}}, {{period}}', parameters))).toEqual([
+      '{{months}} is not a declared parameter',
+      'Use {{period.from}} and {{period.to}} for a date range',
+      'Parameter min_amount is not used in the SQL',
+      'Parameter period is not used in the SQL',
+      'Parameter stage is not used in the SQL',
+    ]);
+  });
+});
+
+describe('bindReportParameters', () => {
+  it('should line up values with the bind parameters, using defaults and NULL', () => {
+    const bound = bindReportParameters(sql, parameters, { period: { from: '2024-01-01', to: '2024-12-31' } });
+    expect(bound.values).toEqual([250, '2024-01-01', '2024-12-31', null]);
+
+    const rerun = bindReportParameters(sql, parameters, {
+      min_amount: 500,
+      period: { from: '2023-01-01', to: '2024-12-31' },
+      stage: ContactStage.STEWARDED,
+    });
+    expect(rerun.values).toEqual([500, '2023-01-01', '2024-12-31', 'stewarded']);
+  });
+
+  it('should reject values that do not match the declarations', () => {
+    const errors = errorsOf(() =>
+      bindReportParameters(sql, parameters, {
+        min_amount: -5,
+        period: { from: '2024-12-31', to: '2024-01-01' },
+        stage: 'donor',
+        months: 24,
+      }),
+    );
+
+    expect(errors).toHaveLength(4);
+    expect(errors[0]).toBe('months: unknown parameter');
+    expect(errors[1]).toMatch(/^min_amount: /);
+    expect(errors[2]).toBe('period: Range must not end before it starts');
+    expect(errors[3]).toMatch(/^stage: /);
+  });
+
+  it('should require values for required parameters without a default', () => {
+    expect(errorsOf(() => bindReportParameters(sql, parameters, {}))).toEqual(['period: a value is required']);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { buildSchemaContext, SchemaTable } from '../schema-context';
+
+const contacts: SchemaTable = {
+  name: 'contacts',
+  comment: 'Individual donors and prospects',
+  columns: [
+    { name: 'id', type: 'uuid', nullable: false },
+    { name: 'email', type: 'text', nullable: true },
+    { name: 'stage', type: 'text', nullable: false, comment: 'Current cultivation stage' },
+    { name: 'custom', type: 'jsonb', nullable: false, comment: 'Tenant-defined custom fields' },
+  ],
+};
+
+describe('buildSchemaContext', () => {
+  it('should render tables as commented DDL with quoted columns', () => {
+    const schema = buildSchemaContext([contacts]);
+    expect(schema).toContain('-- Individual donors and prospects\nCREATE TABLE contacts (');
+    expect(schema).toContain('  "id" uuid NOT NULL,');
+    expect(schema).toContain('  "email" text,');
+    expect(schema).toMatch(/"custom" jsonb NOT NULL -- Tenant-defined custom fields\n\);$/);
+  });
+
+  it('should list enum values from the shared types', () => {
+    const schema = buildSchemaContext([contacts]);
+    expect(schema).toContain(
+      `"stage" text NOT NULL, -- Current cultivation stage. One of 'identified', 'qualified', 'cultivated', 'solicited', 'stewarded'`,
+    );
+  });
+
+  it("should describe the tenant's custom fields under the custom column", () => {
+    const schema = buildSchemaContext([contacts], {
+      contacts: [
+        { id: 'employer_match', name: 'Employer Match', type: 'boolean' },
+        { id: 'pronouns', name: 'Pronouns', type: 'select', options: ['they/them', "o'clock"] },
+      ],
+      donations: [{ id: 'source', name: 'Source', type: 'text' }],
+    });
+
+    expect(schema).toContain(`--   ("custom"->>'employer_match')::boolean: Employer Match (boolean)`);
+    expect(schema).toContain(`--   ("custom"->>'pronouns'): Pronouns (select; one of 'they/them', 'o''clock')`);
+    expect(schema).not.toContain('source');
+  });
+});
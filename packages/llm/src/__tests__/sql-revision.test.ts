@@ -0,0 +1,70 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CompletionRequest, LLMProvider } from '../providers';
+import { LLMService } from '../sql-generator';
+import { describeResultColumns, diffSQL } from '../sql-revision';
+
+describe('describeResultColumns', () => {
+  it('should name columns as PostgreSQL would', async () => {
+    const columns = await describeResultColumns(
+      'SELECT c."firstName", count(d.id), sum(d.amount) AS total, d.amount::int, 1 + 1 FROM contacts c JOIN donations d ON d."contactId" = c.id GROUP BY 1, 4',
+    );
+    expect(columns.map(column => column.name)).toEqual(['firstName', 'count', 'total', 'amount', '?column?']);
+    expect(columns[2].expression).toBe('sum(d.amount)');
+  });
+
+  it('should take the names of a set operation from its first branch', async () => {
+    const columns = await describeResultColumns('SELECT name AS label FROM campaigns UNION SELECT name FROM staff');
+    expect(columns).toEqual([{ name: 'label', expression: 'name' }]);
+  });
+});
+
+describe('diffSQL', () => {
+  it('should mark the clauses a revision adds and removes', async () => {
+    const diff = await diffSQL(
+      'SELECT id FROM contacts WHERE score > 50',
+      'SELECT id FROM contacts WHERE score > 80 ORDER BY id',
+    );
+    const changed = diff.split('\n').filter(line => !line.startsWith('  '));
+
+    expect(diff.split('\n')[0]).toMatch(/^ {2}SELECT/);
+    expect(changed.some(line => line.startsWith('- ') && line.includes('50'))).toBe(true);
+    expect(changed.some(line => line.startsWith('+ ') && line.includes('80'))).toBe(true);
+    expect(changed.some(line => line.startsWith('+ ') && line.includes('ORDER BY'))).toBe(true);
+  });
+
+  it('should report no changes for the same query written differently', async () => {
+    const diff = await diffSQL('select id from contacts', 'SELECT id\nFROM   contacts');
+    expect(diff.split('\n').every(line => line.startsWith('  '))).toBe(true);
+  });
+});
+
+describe('LLMService.generateSQL with history', () => {
+  it('should replay earlier turns before the follow-up prompt', async () => {
+    const complete = vi.fn(async (_: CompletionRequest) => ({
+      content: '{"sql": "SELECT id FROM contacts ORDER BY id", "explanation": "Sorted", "confidence": 0.8}',
+      model: 'stub',
+    }));
+    const provider: LLMProvider = { name: 'stub', complete };
+    const service = new LLMService(() => provider);
+
+    await service.generateSQL({
+      prompt: 'Sort them by id',
+      schema: 'CREATE TABLE contacts ();',
+      history: [
+        {
+          prompt: 'List contact ids',
+          sql: 'SELECT id FROM contacts',
+          explanation: 'All contact ids',
+          columns: [{ name: 'id', expression: 'id' }],
+        },
+      ],
+    });
+
+    const { messages } = complete.mock.calls[0][0];
+    expect(messages.map(message => message.role)).toEqual(['system', 'user', 'assistant', 'user']);
+    expect(messages[1].content).toContain('User Request: List contact ids');
+    expect(JSON.parse(messages[2].content)).toEqual({ sql: 'SELECT id FROM contacts', explanation: 'All contact ids' });
+    expect(messages[3].content).toContain('That query returns these columns: id.');
+    expect(messages[3].content).toContain('Follow-up Request: Sort them by id');
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { SQLRewriter } from '../sql-rewriter';
+
+const tenantId = '11111111-2222-3333-4444-555555555555';
+const filter = `WHERE "tenantId" = '${tenantId}'::uuid`;
+
+describe('SQLRewriter', () => {
+  const rewriter = new SQLRewriter();
+  const rewrite = (sql: string, limit = 100) =>
+    rewriter.rewriteForTenant(sql, { tenantId, tenantTables: ['contacts', 'donations'], limit });
+
+  describe('tenant filtering', () => {
+    it('should wrap a tenant table in a filtered subquery under its own name', async () => {
+      const sql = await rewrite('SELECT * FROM contacts LIMIT 10');
+      expect(sql).toBe(`SELECT * FROM ( SELECT * FROM contacts ${filter} ) AS contacts LIMIT 10`);
+    });
+
+    it('should keep aliases and filter both sides of a join', async () => {
+      const sql = await rewrite(
+        'SELECT c.id, d.amount FROM contacts c LEFT JOIN donations d ON d."contactId" = c.id LIMIT 10',
+      );
+      expect(sql).toContain(`( SELECT * FROM contacts ${filter} ) AS c`);
+      expect(sql).toContain(`LEFT JOIN ( SELECT * FROM donations ${filter} ) AS d ON`);
+    });
+
+    it('should filter comma joins, schema-qualified tables and subqueries', async () => {
+      const sql = await rewrite(
+        'SELECT * FROM public.contacts, donations WHERE contacts.id IN (SELECT "contactId" FROM donations) LIMIT 10',
+      );
+      expect(sql).toContain(`( SELECT * FROM public.contacts ${filter} ) AS contacts`);
+      expect(sql.split(`( SELECT * FROM donations ${filter} ) AS donations`)).toHaveLength(3);
+    });
+
+    it('should filter CTE bodies but not references to the CTE', async () => {
+      const sql = await rewrite(
+        'WITH contacts AS (SELECT * FROM contacts WHERE score > 50) SELECT * FROM contacts LIMIT 10',
+      );
+      expect(sql).toContain(`AS (SELECT * FROM ( SELECT * FROM contacts ${filter} ) AS contacts WHERE score > 50)`);
+      expect(sql).toMatch(/\) SELECT \* FROM contacts LIMIT 10$/);
+    });
+
+    it('should leave tables that are not tenant-owned alone', async () => {
+      const sql = await rewrite('SELECT * FROM campaigns LIMIT 10');
+      expect(sql).toBe('SELECT * FROM campaigns LIMIT 10');
+    });
+
+    it('should reject a tenant id that is not a UUID', async () => {
+      await expect(
+        rewriter.rewriteForTenant('SELECT 1', { tenantId: "x' OR true --", tenantTables: [], limit: 10 }),
+      ).rejects.toThrow('Tenant id must be a UUID');
+    });
+  });
+
+  describe('limit enforcement', () => {
+    it('should add the requested limit when the query has none', async () => {
+      expect(await rewrite('SELECT id FROM campaigns', 25)).toBe('SELECT id FROM campaigns LIMIT 25');
+    });
+
+    it('should lower a larger limit and keep a smaller one', async () => {
+      expect(await rewrite('SELECT id FROM campaigns LIMIT 500', 25)).toBe('SELECT id FROM campaigns LIMIT 25');
+      expect(await rewrite('SELECT id FROM campaigns LIMIT 5', 25)).toBe('SELECT id FROM campaigns LIMIT 5');
+      expect(await rewrite('SELECT id FROM campaigns LIMIT 0', 25)).toBe('SELECT id FROM campaigns LIMIT 0');
+    });
+
+    it('should bound a whole UNION and keep its ordering', async () => {
+      const sql = await rewrite('SELECT name FROM campaigns UNION SELECT name FROM staff ORDER BY 1', 25);
+      expect(sql).toMatch(/ORDER BY 1 LIMIT 25$/);
+    });
+
+    it('should replace FETCH FIRST WITH TIES with a plain limit', async () => {
+      const sql = await rewrite('SELECT name FROM campaigns ORDER BY name FETCH FIRST 5 ROWS WITH TIES', 25);
+      expect(sql).toMatch(/ORDER BY name LIMIT 5$/);
+    });
+  });
+});
@@ -1,122 +1,270 @@
 import { describe, it, expect } from 'vitest';
-import { SQLValidator } from '../src/sql-validator';
+import { SQLValidator } from '../sql-validator';
+import { EVAL_CORPUS } from '../eval/corpus';
 
 describe('SQLValidator', () => {
   const validator = new SQLValidator();
 
   describe('valid queries', () => {
-    it('should validate simple SELECT query', () => {
-      const result = validator.validate('SELECT * FROM Contact LIMIT 10');
+    it('should validate simple SELECT query', async () => {
+      const result = await validator.validate('SELECT * FROM contacts LIMIT 10');
       expect(result.isValid).toBe(true);
       expect(result.errors).toHaveLength(0);
     });
 
-    it('should validate SELECT with WHERE clause', () => {
-      const result = validator.validate('SELECT id, name FROM Contact WHERE score > 50 LIMIT 100');
+    it('should validate SELECT with WHERE clause', async () => {
+      const result = await validator.validate('SELECT id, name FROM contacts WHERE score > 50 LIMIT 100');
       expect(result.isValid).toBe(true);
       expect(result.errors).toHaveLength(0);
     });
 
-    it('should validate SELECT with JOIN', () => {
-      const result = validator.validate(`
-        SELECT c.name, d.amount 
-        FROM Contact c 
-        JOIN Donation d ON c.id = d.contactId 
+    it('should validate SELECT with JOIN', async () => {
+      const result = await validator.validate(`
+        SELECT c."firstName", d.amount
+        FROM contacts c
+        JOIN donations d ON c.id = d."contactId"
         LIMIT 50
       `);
       expect(result.isValid).toBe(true);
       expect(result.errors).toHaveLength(0);
     });
 
-    it('should validate SELECT with aggregation', () => {
-      const result = validator.validate(`
-        SELECT COUNT(*) as total_donations, SUM(amount) as total_amount 
-        FROM Donation 
-        WHERE date >= '2024-01-01' 
+    it('should validate SELECT with aggregation', async () => {
+      const result = await validator.validate(`
+        SELECT COUNT(*) as total_donations, SUM(amount) as total_amount
+        FROM donations
+        WHERE date >= '2024-01-01'
         LIMIT 1
       `);
       expect(result.isValid).toBe(true);
       expect(result.errors).toHaveLength(0);
     });
+
+    it('should validate common table expressions', async () => {
+      const result = await validator.validate(`
+        WITH recent AS (SELECT "contactId", amount FROM donations WHERE date >= '2024-01-01')
+        SELECT "contactId", SUM(amount) FROM recent GROUP BY "contactId" LIMIT 10
+      `);
+      expect(result.isValid).toBe(true);
+      expect(result.errors).toHaveLength(0);
+    });
   });
 
   describe('invalid queries', () => {
-    it('should reject INSERT statements', () => {
-      const result = validator.validate('INSERT INTO Contact (name) VALUES ("Test")');
+    it('should reject INSERT statements', async () => {
+      const result = await validator.validate("INSERT INTO contacts (name) VALUES ('Test')");
       expect(result.isValid).toBe(false);
-      expect(result.errors).toContain('Forbidden keywords detected: INSERT');
+      expect(result.errors).toContain('Only SELECT statements are allowed');
     });
 
-    it('should reject UPDATE statements', () => {
-      const result = validator.validate('UPDATE Contact SET name = "Updated" WHERE id = 1');
+    it('should reject UPDATE statements', async () => {
+      const result = await validator.validate("UPDATE contacts SET name = 'Updated' WHERE id = 1");
       expect(result.isValid).toBe(false);
-      expect(result.errors).toContain('Forbidden keywords detected: UPDATE');
+      expect(result.errors).toContain('Only SELECT statements are allowed');
     });
 
-    it('should reject DELETE statements', () => {
-      const result = validator.validate('DELETE FROM Contact WHERE id = 1');
+    it('should reject DELETE statements', async () => {
+      const result = await validator.validate('DELETE FROM contacts WHERE id = 1');
       expect(result.isValid).toBe(false);
-      expect(result.errors).toContain('Forbidden keywords detected: DELETE');
+      expect(result.errors).toContain('Only SELECT statements are allowed');
     });
 
-    it('should reject DROP statements', () => {
-      const result = validator.validate('DROP TABLE Contact');
+    it('should reject DROP statements', async () => {
+      const result = await validator.validate('DROP TABLE contacts');
       expect(result.isValid).toBe(false);
-      expect(result.errors).toContain('Forbidden keywords detected: DROP');
+      expect(result.errors).toContain('Only SELECT statements are allowed');
     });
 
-    it('should reject non-SELECT statements', () => {
-      const result = validator.validate('SHOW TABLES');
+    it('should reject non-SELECT statements', async () => {
+      const result = await validator.validate('SHOW search_path');
       expect(result.isValid).toBe(false);
       expect(result.errors).toContain('Only SELECT statements are allowed');
     });
 
-    it('should reject queries without LIMIT', () => {
-      const result = validator.validate('SELECT * FROM Contact');
+    it('should reject multiple statements', async () => {
+      const result = await validator.validate('SELECT * FROM contacts LIMIT 10; DELETE FROM contacts');
       expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Only a single statement is allowed');
+    });
+
+    it('should reject data-modifying CTEs', async () => {
+      const result = await validator.validate(`
+        WITH removed AS (DELETE FROM contacts RETURNING id)
+        SELECT * FROM removed LIMIT 10
+      `);
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Data-modifying statements are not allowed: DELETE');
+    });
+
+    it('should reject SELECT INTO', async () => {
+      const result = await validator.validate('SELECT * INTO contacts_copy FROM contacts LIMIT 10');
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('SELECT INTO is not allowed');
+    });
+
+    it('should reject row locking clauses', async () => {
+      const result = await validator.validate('SELECT * FROM contacts LIMIT 10 FOR UPDATE');
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Row locking clauses (FOR UPDATE, FOR SHARE) are not allowed');
+    });
+
+    it('should warn about queries without LIMIT', async () => {
+      const result = await validator.validate('SELECT * FROM contacts');
       expect(result.warnings).toContain('Query should include LIMIT clause (max 1000 rows)');
     });
 
-    it('should reject queries with excessive LIMIT', () => {
-      const result = validator.validate('SELECT * FROM Contact LIMIT 2000');
+    it('should reject queries with excessive LIMIT', async () => {
+      const result = await validator.validate('SELECT * FROM contacts LIMIT 2000');
       expect(result.isValid).toBe(false);
       expect(result.errors).toContain('LIMIT exceeds maximum allowed rows (1000)');
     });
+
+    it('should reject a LIMIT that is not a constant', async () => {
+      const result = await validator.validate('SELECT * FROM contacts LIMIT (SELECT 5000)');
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('LIMIT must be a constant number');
+    });
+  });
+
+  describe('forbidden functions', () => {
+    it.each([
+      ["SELECT pg_read_file('/etc/passwd') LIMIT 1", 'pg_read_file'],
+      ['SELECT pg_sleep(10) LIMIT 1', 'pg_sleep'],
+      ["SELECT * FROM dblink('host=evil', 'SELECT 1') AS t(x int) LIMIT 1", 'dblink'],
+      ["SELECT * FROM contacts WHERE id IN (SELECT pg_catalog.pg_sleep_for('1 minute')) LIMIT 1", 'pg_sleep_for'],
+      ["SELECT set_config('app.tenant_id', 'other', true) LIMIT 1", 'set_config'],
+      ["SELECT query_to_xml('SELECT * FROM users', true, true, '') LIMIT 1", 'query_to_xml'],
+      ["SELECT * FROM ts_stat('SELECT to_tsvector(email) FROM users') LIMIT 1", 'ts_stat'],
+      ["SELECT ts_rewrite('a'::tsquery, 'SELECT t, s FROM users') LIMIT 1", 'ts_rewrite'],
+      ["SELECT public.lower(\"firstName\") FROM contacts LIMIT 1", 'lower'],
+    ])('should reject %s', async (sql, name) => {
+      const result = await validator.validate(sql);
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain(`Forbidden functions: ${name}`);
+    });
+
+    it('should allow ordinary functions', async () => {
+      const result = await validator.validate(
+        "SELECT date_trunc('month', date), lower(currency), COALESCE(SUM(amount), 0) FROM donations GROUP BY 1, 2 LIMIT 12",
+      );
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should allow every function the eval reference queries use', async () => {
+      for (const evalCase of EVAL_CORPUS) {
+        const result = await validator.validate(evalCase.expectedSql);
+        expect(result.errors.filter(error => error.startsWith('Forbidden functions'))).toEqual([]);
+      }
+    });
   });
 
   describe('table restrictions', () => {
-    it('should allow queries on allowed tables', () => {
-      const result = validator.validate('SELECT * FROM Contact LIMIT 10', {
-        allowedTables: ['Contact', 'Donation']
-      });
+    const allowedTables = ['contacts', 'donations'];
+
+    it('should allow queries on allowed tables', async () => {
+      const result = await validator.validate('SELECT * FROM contacts LIMIT 10', { allowedTables });
       expect(result.isValid).toBe(true);
     });
 
-    it('should reject queries on unauthorized tables', () => {
-      const result = validator.validate('SELECT * FROM User LIMIT 10', {
-        allowedTables: ['Contact', 'Donation']
+    it('should reject queries on unauthorized tables', async () => {
+      const result = await validator.validate('SELECT * FROM users LIMIT 10', { allowedTables });
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Unauthorized tables: users');
+    });
+
+    it('should check every table of a comma join', async () => {
+      const result = await validator.validate('SELECT * FROM contacts, users LIMIT 10', { allowedTables });
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Unauthorized tables: users');
+    });
+
+    it('should check schema-qualified and quoted tables', async () => {
+      expect((await validator.validate('SELECT * FROM public.contacts LIMIT 10', { allowedTables })).isValid).toBe(true);
+      expect((await validator.validate('SELECT * FROM "contacts" LIMIT 10', { allowedTables })).isValid).toBe(true);
+
+      const quoted = await validator.validate('SELECT * FROM "user_tenants" LIMIT 10', { allowedTables });
+      expect(quoted.errors).toContain('Unauthorized tables: user_tenants');
+
+      const catalog = await validator.validate('SELECT * FROM pg_catalog.pg_authid LIMIT 10', { allowedTables });
+      expect(catalog.errors).toContain('Unauthorized tables: pg_catalog.pg_authid');
+    });
+
+    it('should check tables inside subqueries and CTEs', async () => {
+      const subquery = await validator.validate(
+        'SELECT * FROM contacts WHERE id IN (SELECT "userId" FROM user_tenants) LIMIT 10',
+        { allowedTables },
+      );
+      expect(subquery.errors).toContain('Unauthorized tables: user_tenants');
+
+      const cte = await validator.validate('WITH u AS (SELECT * FROM users) SELECT * FROM u LIMIT 10', {
+        allowedTables,
       });
+      expect(cte.errors).toContain('Unauthorized tables: users');
+    });
+
+    it('should not mistake tables for CTEs declared elsewhere', async () => {
+      const result = await validator.validate(
+        'SELECT * FROM (WITH users AS (SELECT * FROM contacts) SELECT * FROM users) c, users LIMIT 10',
+        { allowedTables },
+      );
+      expect(result.errors).toContain('Unauthorized tables: users');
+    });
+  });
+
+  describe('column restrictions', () => {
+    const allowedColumns = {
+      contacts: ['id', 'firstName', 'score'],
+      donations: ['id', 'contactId', 'amount'],
+    };
+
+    it('should allow known columns, aliases and CTE columns', async () => {
+      const result = await validator.validate(
+        `
+        WITH totals AS (SELECT "contactId", SUM(amount) AS total FROM donations GROUP BY "contactId")
+        SELECT c."firstName", t.total, score AS rating
+        FROM contacts c JOIN totals t ON t."contactId" = c.id
+        ORDER BY rating DESC
+        LIMIT 10
+      `,
+        { allowedColumns },
+      );
+      expect(result.errors).toHaveLength(0);
+    });
+
+    it('should reject unknown qualified and unqualified columns', async () => {
+      const result = await validator.validate(
+        'SELECT c.email, phone FROM contacts c JOIN donations d ON d."contactId" = c.id LIMIT 10',
+        { allowedColumns },
+      );
       expect(result.isValid).toBe(false);
-      expect(result.errors).toContain('Unauthorized tables: User');
+      expect(result.errors).toContain('Unauthorized columns: c.email, phone');
+    });
+
+    it('should resolve correlated subquery columns against the outer query', async () => {
+      const result = await validator.validate(
+        'SELECT id FROM contacts c WHERE EXISTS (SELECT 1 FROM donations d WHERE d."contactId" = c.id AND c.email IS NULL) LIMIT 10',
+        { allowedColumns },
+      );
+      expect(result.errors).toContain('Unauthorized columns: c.email');
     });
   });
 
   describe('dangerous patterns', () => {
-    it('should warn about subqueries', () => {
-      const result = validator.validate(`
-        SELECT * FROM Contact 
-        WHERE id IN (SELECT contactId FROM Donation WHERE amount > 1000) 
+    it('should warn about subqueries', async () => {
+      const result = await validator.validate(`
+        SELECT * FROM contacts
+        WHERE id IN (SELECT "contactId" FROM donations WHERE amount > 1000)
         LIMIT 10
       `);
       expect(result.isValid).toBe(true);
       expect(result.warnings).toContain('Potentially dangerous patterns detected: subqueries');
     });
 
-    it('should warn about UNION statements', () => {
-      const result = validator.validate(`
-        SELECT name FROM Contact 
-        UNION 
-        SELECT name FROM Organization 
+    it('should warn about UNION statements', async () => {
+      const result = await validator.validate(`
+        SELECT name FROM contacts
+        UNION
+        SELECT name FROM organizations
         LIMIT 10
       `);
       expect(result.isValid).toBe(true);
@@ -125,9 +273,9 @@ describe('SQLValidator', () => {
   });
 
   describe('SQL sanitization', () => {
-    it('should remove comments', () => {
-      const result = validator.validate(`
-        SELECT * FROM Contact -- This is a comment
+    it('should remove comments', async () => {
+      const result = await validator.validate(`
+        SELECT * FROM contacts -- This is a comment
         /* Multi-line comment */
         LIMIT 10
       `);
@@ -136,50 +284,68 @@ describe('SQLValidator', () => {
       expect(result.sanitizedSQL).not.toContain('/*');
     });
 
-    it('should normalize whitespace', () => {
-      const result = validator.validate('SELECT   *   FROM   Contact   LIMIT   10');
+    it('should normalize whitespace', async () => {
+      const result = await validator.validate('SELECT   *   FROM   contacts   LIMIT   10');
       expect(result.isValid).toBe(true);
-      expect(result.sanitizedSQL).toBe('SELECT * FROM Contact LIMIT 10');
+      expect(result.sanitizedSQL).toBe('SELECT * FROM contacts LIMIT 10');
+    });
+
+    it('should leave string literals untouched', async () => {
+      const result = await validator.validate("SELECT * FROM contacts WHERE notes = 'a  --  b' LIMIT 10");
+      expect(result.sanitizedSQL).toBe("SELECT * FROM contacts WHERE notes = 'a  --  b' LIMIT 10");
     });
   });
 
   describe('utility methods', () => {
     it('should add LIMIT if missing', () => {
-      const result = validator.addLimitIfMissing('SELECT * FROM Contact', 50);
-      expect(result).toBe('SELECT * FROM Contact LIMIT 50');
+      const result = validator.addLimitIfMissing('SELECT * FROM contacts', 50);
+      expect(result).toBe('SELECT * FROM contacts LIMIT 50');
     });
 
     it('should not add LIMIT if already present', () => {
-      const result = validator.addLimitIfMissing('SELECT * FROM Contact LIMIT 25', 50);
-      expect(result).toBe('SELECT * FROM Contact LIMIT 25');
+      const result = validator.addLimitIfMissing('SELECT * FROM contacts LIMIT 25', 50);
+      expect(result).toBe('SELECT * FROM contacts LIMIT 25');
     });
 
-    it('should validate for reports with tenant context', () => {
-      const result = validator.validateForReports('SELECT * FROM Contact LIMIT 10', 'tenant-123');
+    it('should validate for reports with tenant context', async () => {
+      const result = await validator.validateForReports('SELECT * FROM contacts LIMIT 10', 'tenant-123');
       expect(result.isValid).toBe(true);
     });
+
+    it('should restrict reports to CRM tables and columns', async () => {
+      const tables = await validator.validateForReports('SELECT * FROM users LIMIT 10', 'tenant-123');
+      expect(tables.errors).toContain('Unauthorized tables: users');
+
+      const columns = await validator.validateForReports('SELECT "cognitoId" FROM contacts LIMIT 10', 'tenant-123');
+      expect(columns.errors).toContain('Unauthorized columns: cognitoId');
+    });
   });
 
   describe('edge cases', () => {
-    it('should handle empty SQL', () => {
-      const result = validator.validate('');
+    it('should handle empty SQL', async () => {
+      const result = await validator.validate('');
       expect(result.isValid).toBe(false);
       expect(result.errors).toContain('Only SELECT statements are allowed');
     });
 
-    it('should handle malformed SQL', () => {
-      const result = validator.validate('SELECT * FROM');
+    it('should handle malformed SQL', async () => {
+      const result = await validator.validate('SELECT * FROM');
       expect(result.isValid).toBe(false);
       expect(result.errors.length).toBeGreaterThan(0);
     });
 
-    it('should handle case-insensitive keywords', () => {
-      const result = validator.validate('select * from contact limit 10');
+    it('should handle case-insensitive keywords', async () => {
+      const result = await validator.validate('select * from contacts limit 10');
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should handle keywords in strings', async () => {
+      const result = await validator.validate("SELECT * FROM contacts WHERE name = 'INSERT INTO' LIMIT 10");
       expect(result.isValid).toBe(true);
     });
 
-    it('should handle keywords in strings', () => {
-      const result = validator.validate('SELECT * FROM Contact WHERE name = "INSERT INTO" LIMIT 10');
+    it('should handle keywords in quoted identifiers', async () => {
+      const result = await validator.validate('SELECT "updatedAt", "delete" FROM contacts LIMIT 10');
       expect(result.isValid).toBe(true);
     });
   });
@@ -0,0 +1,61 @@
+import { ChartSpec, ChartSpecSchema, ChartType, ChartValueFormat, ResultColumnKind, TypedResultColumn } from '@crmblr/types';
+
+const MEASURE_KINDS: ResultColumnKind[] = ['currency', 'integer', 'number'];
+
+// Keys make poor axes; a name or label column says more
+const ID_COLUMN = /(^|_)id$|Id$/;
+
+const isMeasure = (column: TypedResultColumn) => MEASURE_KINDS.includes(column.kind);
+
+/**
+ * Chart for a result, judged from its column types alone: dates go along the x
+ * axis of a line chart, categories along the x axis of a bar chart, and numeric
+ * columns become the y values. A second category column splits a single
+ * measure into series. Results without a measure or an axis are left as tables.
+ */
+export function suggestChartSpec(columns: TypedResultColumn[]): ChartSpec | null {
+  const measures = columns.filter(column => isMeasure(column) && !ID_COLUMN.test(column.name));
+  const dates = columns.filter(column => column.kind === 'date');
+  const categories = columns.filter(column => (column.kind === 'text' || column.kind === 'boolean') && !ID_COLUMN.test(column.name));
+
+  const x = dates[0] ?? categories[0];
+  if (!x || measures.length === 0) {
+    return null;
+  }
+
+  const series = measures.length === 1 ? categories.find(column => column !== x) : undefined;
+  const y = series ? [measures[0]] : measures;
+
+  return {
+    type: x.kind === 'date' ? ChartType.LINE : ChartType.BAR,
+    x: x.name,
+    y: y.map(column => column.name),
+    series: series?.name ?? null,
+    format: y.every(column => column.kind === 'currency') ? ChartValueFormat.CURRENCY : ChartValueFormat.NUMBER,
+  };
+}
+
+/**
+ * The suggested chart if it fits the result's columns, otherwise the heuristic
+ * one. Suggestions come from the model or a saved report whose SQL may since
+ * return different columns, so they are never trusted as they are.
+ */
+export function resolveChartSpec(suggested: unknown, columns: TypedResultColumn[]): ChartSpec | null {
+  if (suggested === undefined || suggested === null) {
+    return suggestChartSpec(columns);
+  }
+
+  const parsed = ChartSpecSchema.safeParse(suggested);
+  if (!parsed.success) {
+    return suggestChartSpec(columns);
+  }
+
+  const spec = parsed.data;
+  const byName = new Map(columns.map(column => [column.name, column]));
+  const fits =
+    byName.has(spec.x) &&
+    spec.y.every(name => name !== spec.x && byName.has(name) && isMeasure(byName.get(name)!)) &&
+    (!spec.series || (byName.has(spec.series) && spec.series !== spec.x && !spec.y.includes(spec.series)));
+
+  return fits ? spec : suggestChartSpec(columns);
+}
@@ -0,0 +1,270 @@
+export interface EvalCase {
+  id: string;
+  question: string;
+  // Reference query; its result set on the seeded database is the expected answer
+  expectedSql: string;
+  // Compare rows in order, for questions that ask for a ranking or a series
+  ordered?: boolean;
+  module?: string;
+}
+
+/**
+ * Questions asked of the demo tenants created by `pnpm db:seed`. The seed is
+ * random, so answers are computed from `expectedSql` on every run rather than
+ * stored.
+ */
+export const EVAL_CORPUS: EvalCase[] = [
+  // The saved reports shown on the reports page
+  {
+    id: 'donors-250-last-12-months',
+    question: 'Donors who gave ≥$250 in the last 12 months',
+    expectedSql: `
+      SELECT c."firstName", c."lastName", sum(d.amount) AS total
+      FROM contacts c JOIN donations d ON d."contactId" = c.id
+      WHERE d.date >= now() - interval '12 months'
+      GROUP BY c.id, c."firstName", c."lastName"
+      HAVING sum(d.amount) >= 250`,
+    module: 'donations',
+  },
+  {
+    id: 'lapsed-donors-18-months',
+    question: 'Lapsed donors (no gift in 18 months)',
+    expectedSql: `
+      SELECT c."firstName", c."lastName"
+      FROM contacts c JOIN donations d ON d."contactId" = c.id
+      GROUP BY c.id, c."firstName", c."lastName"
+      HAVING max(d.date) < now() - interval '18 months'`,
+    module: 'donations',
+  },
+  {
+    id: 'grant-deadlines-60-days',
+    question: 'Grant deadlines in next 60 days',
+    expectedSql: `
+      SELECT name, deadline FROM grant_apps
+      WHERE deadline >= now() AND deadline < now() + interval '60 days'`,
+    module: 'grants',
+  },
+  {
+    id: 'campaign-progress-current-year',
+    question: 'Campaign progress vs target (current year)',
+    expectedSql: `
+      SELECT c.name, c."targetAmount", coalesce(sum(d.amount), 0) AS raised
+      FROM campaigns c LEFT JOIN donations d ON d."campaignId" = c.id
+      WHERE c."startDate" < date_trunc('year', now()) + interval '1 year'
+        AND c."endDate" >= date_trunc('year', now())
+      GROUP BY c.id, c.name, c."targetAmount"`,
+    module: 'campaigns',
+  },
+
+  // Contacts
+  {
+    id: 'contact-count',
+    question: 'How many contacts do we have?',
+    expectedSql: 'SELECT count(*) FROM contacts',
+  },
+  {
+    id: 'contacts-by-stage',
+    question: 'How many contacts are in each pipeline stage?',
+    expectedSql: 'SELECT stage, count(*) FROM contacts GROUP BY stage',
+  },
+  {
+    id: 'top-contacts-by-lifetime-value',
+    question: 'Who are our top 10 contacts by lifetime value?',
+    expectedSql: `
+      SELECT "firstName", "lastName", "lifetimeValue" FROM contacts
+      ORDER BY "lifetimeValue" DESC LIMIT 10`,
+    ordered: true,
+  },
+  {
+    id: 'high-score-contacts',
+    question: 'List contacts with an engagement score above 25',
+    expectedSql: 'SELECT "firstName", "lastName", score FROM contacts WHERE score > 25',
+  },
+  {
+    id: 'contacts-without-email',
+    question: 'How many contacts have no email address?',
+    expectedSql: 'SELECT count(*) FROM contacts WHERE email IS NULL',
+  },
+  {
+    id: 'stewarded-without-gift-this-year',
+    question: 'Which stewarded contacts have not given anything this calendar year?',
+    expectedSql: `
+      SELECT c."firstName", c."lastName" FROM contacts c
+      WHERE c.stage = 'stewarded'
+        AND NOT EXISTS (
+          SELECT 1 FROM donations d
+          WHERE d."contactId" = c.id AND d.date >= date_trunc('year', now())
+        )`,
+  },
+
+  // Donations
+  {
+    id: 'total-raised-this-year',
+    question: 'How much have we raised so far this calendar year?',
+    expectedSql: `SELECT sum(amount) FROM donations WHERE date >= date_trunc('year', now())`,
+    module: 'donations',
+  },
+  {
+    id: 'monthly-donations',
+    question: 'Total donations per calendar month for this month and the 11 months before it, oldest first',
+    expectedSql: `
+      SELECT date_trunc('month', date) AS month, sum(amount) AS total FROM donations
+      WHERE date >= date_trunc('month', now()) - interval '11 months'
+      GROUP BY 1 ORDER BY 1`,
+    ordered: true,
+    module: 'donations',
+  },
+  {
+    id: 'average-gift',
+    question: 'What is our average donation amount?',
+    expectedSql: 'SELECT avg(amount) FROM donations',
+    module: 'donations',
+  },
+  {
+    id: 'average-gift-by-year',
+    question: 'Average donation amount for each calendar year, oldest first',
+    expectedSql: `
+      SELECT extract(year FROM date) AS year, avg(amount) AS average FROM donations
+      GROUP BY 1 ORDER BY 1`,
+    ordered: true,
+    module: 'donations',
+  },
+  {
+    id: 'largest-gift',
+    question: 'What was the largest single donation and when was it made?',
+    expectedSql: 'SELECT amount, date FROM donations ORDER BY amount DESC LIMIT 1',
+    ordered: true,
+    module: 'donations',
+  },
+  {
+    id: 'pending-thank-yous',
+    question: 'Which donations have a pending thank-you?',
+    expectedSql: `SELECT amount, date FROM donations WHERE "thankYouStatus" = 'pending'`,
+    module: 'donations',
+  },
+  {
+    id: 'raised-by-campaign',
+    question: 'How much has each campaign raised?',
+    expectedSql: `
+      SELECT c.name, sum(d.amount) AS raised
+      FROM campaigns c JOIN donations d ON d."campaignId" = c.id
+      GROUP BY c.id, c.name`,
+    module: 'campaigns',
+  },
+  {
+    id: 'giving-by-organization',
+    question: 'Total donated by each organization',
+    expectedSql: `
+      SELECT o.name, sum(d.amount) AS total
+      FROM organizations o JOIN donations d ON d."organizationId" = o.id
+      GROUP BY o.id, o.name`,
+    module: 'donations',
+  },
+  {
+    id: 'unattributed-gifts',
+    question: 'How many donations are not linked to a contact or an organization?',
+    expectedSql: `SELECT count(*) FROM donations WHERE "contactId" IS NULL AND "organizationId" IS NULL`,
+    module: 'donations',
+  },
+  {
+    id: 'repeat-donors',
+    question: 'How many contacts have given more than once?',
+    expectedSql: `
+      SELECT count(*) FROM (
+        SELECT "contactId" FROM donations WHERE "contactId" IS NOT NULL
+        GROUP BY "contactId" HAVING count(*) > 1
+      ) repeat_donors`,
+    module: 'donations',
+  },
+  {
+    id: 'first-time-donors-this-year',
+    question: 'Which contacts made their first ever donation this calendar year?',
+    expectedSql: `
+      SELECT c."firstName", c."lastName"
+      FROM contacts c JOIN donations d ON d."contactId" = c.id
+      GROUP BY c.id, c."firstName", c."lastName"
+      HAVING min(d.date) >= date_trunc('year', now())`,
+    module: 'donations',
+  },
+  {
+    id: 'retained-donors',
+    question: 'How many contacts gave both last calendar year and this calendar year?',
+    expectedSql: `
+      SELECT count(*) FROM contacts c
+      WHERE EXISTS (
+          SELECT 1 FROM donations d WHERE d."contactId" = c.id
+            AND d.date >= date_trunc('year', now()) - interval '1 year'
+            AND d.date < date_trunc('year', now())
+        )
+        AND EXISTS (
+          SELECT 1 FROM donations d WHERE d."contactId" = c.id AND d.date >= date_trunc('year', now())
+        )`,
+    module: 'donations',
+  },
+  {
+    id: 'restricted-gift-total',
+    question: 'What is the total amount of restricted donations?',
+    expectedSql: `SELECT sum(amount) FROM donations WHERE (custom->>'restricted')::boolean`,
+    module: 'donations',
+  },
+
+  // Grants
+  {
+    id: 'grants-by-status',
+    question: 'How many grant applications are in each status?',
+    expectedSql: 'SELECT status, count(*) FROM grant_apps GROUP BY status',
+    module: 'grants',
+  },
+  {
+    id: 'requested-in-submitted-grants',
+    question: 'How much funding have we requested in grants that are submitted and awaiting a decision?',
+    expectedSql: `SELECT sum("amountRequested") FROM grant_apps WHERE status = 'submitted'`,
+    module: 'grants',
+  },
+  {
+    id: 'grants-per-foundation',
+    question: 'For each foundation, how many grant applications do we have and how much have we requested in total?',
+    expectedSql: `
+      SELECT o.name, count(*) AS applications, sum(g."amountRequested") AS requested
+      FROM grant_apps g JOIN organizations o ON o.id = g."organizationId"
+      WHERE o.type = 'foundation'
+      GROUP BY o.id, o.name`,
+    module: 'grants',
+  },
+
+  // Pipeline
+  {
+    id: 'pipeline-events-last-30-days',
+    question: 'How many pipeline events were recorded in the last 30 days?',
+    expectedSql: `SELECT count(*) FROM pipeline_events WHERE "occurredAt" >= now() - interval '30 days'`,
+    module: 'pipeline',
+  },
+  {
+    id: 'stage-moves-last-90-days',
+    question: 'For each stage, how many different contacts moved into it during the last 90 days?',
+    expectedSql: `
+      SELECT stage, count(DISTINCT "contactId") FROM pipeline_events
+      WHERE "occurredAt" >= now() - interval '90 days'
+      GROUP BY stage`,
+    module: 'pipeline',
+  },
+
+  // Staff and reports
+  {
+    id: 'staff-by-team',
+    question: 'How many staff members are on each team?',
+    expectedSql: 'SELECT team, count(*) FROM staff GROUP BY team',
+    module: 'staff',
+  },
+  {
+    id: 'board-members',
+    question: 'List the board members and their email addresses',
+    expectedSql: `SELECT name, email FROM staff WHERE team = 'board'`,
+    module: 'staff',
+  },
+  {
+    id: 'saved-report-count',
+    question: 'How many saved reports are there?',
+    expectedSql: 'SELECT count(*) FROM reports',
+  },
+];
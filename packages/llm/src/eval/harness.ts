@@ -0,0 +1,159 @@
+import { performance } from 'perf_hooks';
+import { parse } from 'libpg-query';
+import { deparse } from 'pgsql-deparser';
+import { LLMSettings } from '@crmblr/types';
+import { LLMProvider } from '../providers';
+import { LLMService } from '../sql-generator';
+import { sqlRewriter } from '../sql-rewriter';
+import { sqlValidator } from '../sql-validator';
+import { EvalCase } from './corpus';
+import { resultSetsMatch, ResultRow } from './result-set';
+
+export type EvalOutcome = 'match' | 'mismatch' | 'invalid' | 'error';
+
+export interface EvalCaseResult {
+  id: string;
+  question: string;
+  outcome: EvalOutcome;
+  sql?: string;
+  errors: string[];
+  latencyMs: number;
+}
+
+export interface EvalSummary {
+  cases: number;
+  executionAccuracy: number;
+  validatorPassRate: number;
+  latencyMs: { mean: number; p50: number; p95: number };
+}
+
+export interface EvalRun {
+  provider: string;
+  model?: string;
+  summary: EvalSummary;
+  cases: EvalCaseResult[];
+}
+
+export interface EvalOptions {
+  provider: LLMProvider;
+  // Model, temperature and token overrides for this run
+  settings?: Omit<LLMSettings, 'provider'>;
+  cases: EvalCase[];
+  schema: string;
+  tenantId: string;
+  // Runs SQL that is already scoped to the tenant, as reports are run
+  execute: (sql: string) => Promise<ResultRow[]>;
+  limit?: number;
+}
+
+const DEFAULT_LIMIT = 1000;
+
+function message(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+// The outermost SELECT of a query, whose LIMIT bounds the whole result
+async function outerSelect(sql: string) {
+  const tree = await parse(sql);
+  return { tree, select: tree.stmts?.length === 1 ? tree.stmts[0].stmt.SelectStmt : undefined };
+}
+
+async function hasLimit(sql: string): Promise<boolean> {
+  const { select } = await outerSelect(sql);
+  return !!select?.limitCount;
+}
+
+async function withoutLimit(sql: string): Promise<string> {
+  const { tree, select } = await outerSelect(sql);
+  if (!select?.limitCount) {
+    return sql;
+  }
+  delete select.limitCount;
+  delete select.limitOption;
+  return deparse(tree, { pretty: false });
+}
+
+function rate(count: number, total: number): number {
+  return total === 0 ? 0 : Math.round((count / total) * 1000) / 1000;
+}
+
+export function summarize(results: EvalCaseResult[]): EvalSummary {
+  const latencies = results.map(result => result.latencyMs).sort((a, b) => a - b);
+  const mean = latencies.length ? latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length : 0;
+  const generated = results.filter(result => result.outcome !== 'invalid' && result.sql !== undefined);
+
+  return {
+    cases: results.length,
+    executionAccuracy: rate(results.filter(result => result.outcome === 'match').length, results.length),
+    validatorPassRate: rate(generated.length, results.length),
+    latencyMs: { mean: Math.round(mean), p50: percentile(latencies, 50), p95: percentile(latencies, 95) },
+  };
+}
+
+/**
+ * Generates SQL for every case with one provider, then validates, rewrites and
+ * runs it the way the reports API does and compares the rows with those of the
+ * case's reference query. Both run under the same row cap; a LIMIT the model
+ * added to a question whose reference sets none is dropped before comparing, so
+ * that a capped answer is not scored against the full reference result. Cases
+ * run one at a time so latencies are comparable.
+ */
+export async function runEval(options: EvalOptions): Promise<EvalRun> {
+  const { provider, settings = {}, tenantId, execute } = options;
+  const limit = options.limit ?? DEFAULT_LIMIT;
+  const service = new LLMService(() => provider);
+  const run = async (sql: string) => execute(await sqlRewriter.rewriteForReports(sql, tenantId, limit));
+
+  const results: EvalCaseResult[] = [];
+  for (const evalCase of options.cases) {
+    const result: EvalCaseResult = { id: evalCase.id, question: evalCase.question, outcome: 'error', errors: [], latencyMs: 0 };
+    results.push(result);
+
+    let expected: ResultRow[];
+    let expectedLimited: boolean;
+    try {
+      expected = await run(evalCase.expectedSql);
+      expectedLimited = await hasLimit(evalCase.expectedSql);
+    } catch (error) {
+      result.errors.push(`Reference query failed: ${message(error)}`);
+      continue;
+    }
+
+    const started = performance.now();
+    try {
+      const response = await service.generateSQL(
+        { prompt: evalCase.question, schema: options.schema, module: evalCase.module },
+        settings,
+      );
+      result.sql = response.sql;
+    } catch (error) {
+      result.errors.push(message(error));
+      continue;
+    } finally {
+      result.latencyMs = Math.round(performance.now() - started);
+    }
+
+    const validation = await sqlValidator.validateForReports(result.sql, tenantId);
+    if (!validation.isValid) {
+      result.outcome = 'invalid';
+      result.errors.push(...validation.errors);
+      continue;
+    }
+
+    try {
+      const actual = await run(expectedLimited ? result.sql : await withoutLimit(result.sql));
+      result.outcome = resultSetsMatch(actual, expected, evalCase.ordered) ? 'match' : 'mismatch';
+    } catch (error) {
+      result.errors.push(message(error));
+    }
+  }
+
+  return { provider: provider.name, model: settings.model, summary: summarize(results), cases: results };
+}
@@ -0,0 +1,4 @@
+export * from './corpus';
+export * from './harness';
+export * from './report';
+export * from './result-set';
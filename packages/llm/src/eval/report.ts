@@ -0,0 +1,65 @@
+import { EvalOutcome, EvalRun } from './harness';
+
+const OUTCOME_LABELS: Record<EvalOutcome, string> = {
+  match: '✅',
+  mismatch: '❌ wrong result',
+  invalid: '⛔ rejected',
+  error: '💥 error',
+};
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function cell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\s+/g, ' ').trim();
+}
+
+/** Stable JSON for committing next to the prompt it measured. */
+export function renderJsonReport(run: EvalRun): string {
+  return `${JSON.stringify(run, null, 2)}\n`;
+}
+
+/** Side-by-side comparison of one or more providers over the same cases. */
+export function renderMarkdownReport(runs: EvalRun[]): string {
+  const lines = [
+    '# SQL generation eval',
+    '',
+    '| Provider | Model | Cases | Execution accuracy | Validator pass rate | Mean latency | p50 | p95 |',
+    '| --- | --- | ---: | ---: | ---: | ---: | ---: | ---: |',
+    ...runs.map(({ provider, model, summary }) =>
+      `| ${provider} | ${model ?? 'default'} | ${summary.cases} | ${percent(summary.executionAccuracy)} | ` +
+      `${percent(summary.validatorPassRate)} | ${summary.latencyMs.mean} ms | ${summary.latencyMs.p50} ms | ${summary.latencyMs.p95} ms |`,
+    ),
+    '',
+    '## Cases',
+    '',
+    `| Case | ${runs.map(run => run.provider).join(' | ')} |`,
+    `| --- | ${runs.map(() => '---').join(' | ')} |`,
+  ];
+
+  const ids = [...new Set(runs.flatMap(run => run.cases.map(result => result.id)))];
+  for (const id of ids) {
+    const outcomes = runs.map(run => {
+      const result = run.cases.find(candidate => candidate.id === id);
+      return result ? OUTCOME_LABELS[result.outcome] : '';
+    });
+    lines.push(`| ${id} | ${outcomes.join(' | ')} |`);
+  }
+
+  const failures = runs.flatMap(run =>
+    run.cases.filter(result => result.outcome !== 'match').map(result => ({ provider: run.provider, result })),
+  );
+  if (failures.length > 0) {
+    lines.push('', '## Failures');
+    for (const { provider, result } of failures) {
+      lines.push('', `### ${result.id} (${provider})`, '', `> ${cell(result.question)}`, '');
+      lines.push(...result.errors.map(error => `- ${cell(error)}`));
+      if (result.sql) {
+        lines.push('', '```sql', result.sql.trim(), '```');
+      }
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
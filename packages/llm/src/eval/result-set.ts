@@ -0,0 +1,72 @@
+export type ResultRow = Record<string, unknown>;
+
+// Values are compared after rounding, so 12.5, 12.50 and Decimal('12.500') are equal
+function normalizeValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'bigint') {
+    return String(Number(value));
+  }
+  if (typeof value === 'number' || isDecimal(value)) {
+    const number = Number(String(value));
+    return String(Math.round(number * 100) / 100);
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+// Prisma returns numeric columns as Decimal.js instances
+function isDecimal(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && value.constructor?.name === 'Decimal';
+}
+
+function columnValues(rows: ResultRow[], column: string, ordered: boolean): string {
+  const values = rows.map(row => normalizeValue(row[column]));
+  return JSON.stringify(ordered ? values : values.sort());
+}
+
+// Each row as a tuple of the given columns, so values stay paired with their row
+function rowValues(rows: ResultRow[], columns: string[], ordered: boolean): string {
+  const tuples = rows.map(row => JSON.stringify(columns.map(column => normalizeValue(row[column]))));
+  return JSON.stringify(ordered ? tuples : tuples.sort());
+}
+
+/**
+ * Execution-accuracy check. Generated SQL may name and order its columns freely
+ * and add extra ones: each expected column is mapped to a distinct generated
+ * column, and the rows over those columns must be the same, as a multiset unless
+ * `ordered` is set.
+ */
+export function resultSetsMatch(actual: ResultRow[], expected: ResultRow[], ordered = false): boolean {
+  if (actual.length !== expected.length) {
+    return false;
+  }
+  if (expected.length === 0) {
+    return true;
+  }
+
+  const expectedColumns = Object.keys(expected[0]);
+  const actualColumns = Object.keys(actual[0]);
+  const expectedRows = rowValues(expected, expectedColumns, ordered);
+
+  // Only columns holding the same values can stand in for an expected column
+  const candidates = expectedColumns.map(column => {
+    const values = columnValues(expected, column, ordered);
+    return actualColumns.filter(other => columnValues(actual, other, ordered) === values);
+  });
+
+  // Columns with equal values can be told apart only by the rows they form
+  const assign = (index: number, mapping: string[]): boolean => {
+    if (index === expectedColumns.length) {
+      return rowValues(actual, mapping, ordered) === expectedRows;
+    }
+    return candidates[index].some(column => !mapping.includes(column) && assign(index + 1, [...mapping, column]));
+  };
+  return assign(0, []);
+}
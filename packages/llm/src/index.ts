@@ -1,2 +1,8 @@
+export * from './providers';
 export * from './sql-generator';
 export * from './sql-validator';
+export * from './sql-rewriter';
+export * from './sql-revision';
+export * from './report-parameters';
+export * from './chart-spec';
+export * from './schema-context';
@@ -0,0 +1,50 @@
+import { BedrockRuntimeClient, InvokeModelCommand } from '@aws-sdk/client-bedrock-runtime';
+import { LLMProviderName } from '@crmblr/types';
+import { CompletionRequest, CompletionResult, DEFAULT_MAX_TOKENS, LLMProvider } from './provider';
+
+export const DEFAULT_BEDROCK_MODEL = 'anthropic.claude-3-sonnet-20240229-v1:0';
+
+export interface BedrockProviderOptions {
+  region?: string;
+  model?: string;
+}
+
+/** Anthropic models on Amazon Bedrock, called through the Messages API. */
+export class BedrockProvider implements LLMProvider {
+  readonly name = LLMProviderName.BEDROCK;
+  private readonly client: BedrockRuntimeClient;
+  private readonly model: string;
+
+  constructor(options: BedrockProviderOptions = {}) {
+    this.client = new BedrockRuntimeClient({ region: options.region || 'us-east-1' });
+    this.model = options.model || DEFAULT_BEDROCK_MODEL;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const model = request.model || this.model;
+    // The Messages API takes the system prompt separately from the conversation
+    const system = request.messages.filter(message => message.role === 'system').map(message => message.content);
+
+    const command = new InvokeModelCommand({
+      modelId: model,
+      contentType: 'application/json',
+      accept: 'application/json',
+      body: JSON.stringify({
+        anthropic_version: 'bedrock-2023-05-31',
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: request.temperature,
+        system: system.length > 0 ? system.join('\n\n') : undefined,
+        messages: request.messages.filter(message => message.role !== 'system'),
+      }),
+    });
+
+    const response = await this.client.send(command);
+    const body = JSON.parse(new TextDecoder().decode(response.body));
+    const content = (body.content ?? []).map((part: { text?: string }) => part.text ?? '').join('');
+    if (!content) {
+      throw new Error('No response from Bedrock');
+    }
+
+    return { content, model };
+  }
+}
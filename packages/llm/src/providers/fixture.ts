@@ -0,0 +1,85 @@
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { LLMProviderName } from '@crmblr/types';
+import { CompletionRequest, CompletionResult, LLMMessage, LLMProvider } from './provider';
+
+export interface Fixture {
+  // Last user message, kept only so fixture files can be read and reviewed
+  prompt?: string;
+  content: string;
+  model?: string;
+}
+
+export type FixtureSet = Record<string, Fixture>;
+
+export interface FixtureProviderOptions {
+  fixtures?: FixtureSet;
+  // JSON file of fixtures; read on first use and written back when recording
+  path?: string;
+  // Provider to call, and record, when no fixture matches
+  record?: LLMProvider;
+}
+
+export class FixtureNotFoundError extends Error {
+  constructor(readonly key: string) {
+    super(`No LLM fixture for request ${key}`);
+    this.name = 'FixtureNotFoundError';
+  }
+}
+
+/**
+ * Fixtures are keyed by the conversation alone, so a recording keeps matching
+ * when only the model, temperature or token limit changes.
+ */
+export function fixtureKey(messages: LLMMessage[]): string {
+  return createHash('sha256')
+    .update(JSON.stringify(messages.map(message => [message.role, message.content])))
+    .digest('hex');
+}
+
+/**
+ * Replays recorded completions so tests and offline development never reach
+ * the network. With `record` set, misses go to that provider and are saved.
+ */
+export class FixtureProvider implements LLMProvider {
+  readonly name = LLMProviderName.FIXTURE;
+  private fixtures?: FixtureSet;
+
+  constructor(private readonly options: FixtureProviderOptions = {}) {
+    this.fixtures = options.fixtures;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const fixtures = this.load();
+    const key = fixtureKey(request.messages);
+
+    const fixture = fixtures[key];
+    if (fixture) {
+      return { content: fixture.content, model: fixture.model ?? this.name };
+    }
+
+    if (!this.options.record) {
+      throw new FixtureNotFoundError(key);
+    }
+
+    const result = await this.options.record.complete(request);
+    const prompt = [...request.messages].reverse().find(message => message.role === 'user')?.content;
+    fixtures[key] = { prompt, content: result.content, model: result.model };
+    this.save();
+    return result;
+  }
+
+  private load(): FixtureSet {
+    if (!this.fixtures) {
+      const { path } = this.options;
+      this.fixtures = path && existsSync(path) ? JSON.parse(readFileSync(path, 'utf8')) : {};
+    }
+    return this.fixtures!;
+  }
+
+  private save(): void {
+    if (this.options.path) {
+      writeFileSync(this.options.path, `${JSON.stringify(this.fixtures, null, 2)}\n`);
+    }
+  }
+}
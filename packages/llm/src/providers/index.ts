@@ -0,0 +1,65 @@
+import { LLMProviderName } from '@crmblr/types';
+import { BedrockProvider } from './bedrock';
+import { FixtureProvider } from './fixture';
+import { OpenAICompatibleProvider, OpenAIProvider } from './openai';
+import { LLMProvider } from './provider';
+
+export * from './provider';
+export * from './bedrock';
+export * from './openai';
+export * from './fixture';
+
+export const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+export const DEFAULT_LOCAL_MODEL = 'llama3';
+export const DEFAULT_FIXTURES_PATH = 'llm-fixtures.json';
+
+export function parseProviderName(value: string): LLMProviderName {
+  const name = Object.values(LLMProviderName).find(candidate => candidate === value);
+  if (!name) {
+    throw new Error(`Unknown LLM provider: ${value}`);
+  }
+  return name;
+}
+
+/** Provider used when a tenant has not chosen one: LLM_PROVIDER, then the legacy USE_OPENAI flag. */
+export function defaultProviderName(): LLMProviderName {
+  if (process.env.LLM_PROVIDER) {
+    return parseProviderName(process.env.LLM_PROVIDER);
+  }
+  return process.env.USE_OPENAI === 'true' ? LLMProviderName.OPENAI : LLMProviderName.BEDROCK;
+}
+
+/**
+ * Builds a provider from the environment. Endpoints and credentials are
+ * deployment configuration; tenants only pick which provider to use.
+ */
+export function createProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case LLMProviderName.BEDROCK:
+      return new BedrockProvider({
+        region: process.env.AWS_REGION,
+        model: process.env.BEDROCK_MODEL_ID,
+      });
+    case LLMProviderName.OPENAI:
+      return new OpenAIProvider({
+        apiKey: process.env.OPENAI_API_KEY,
+        model: process.env.OPENAI_MODEL,
+      });
+    case LLMProviderName.LOCAL:
+      return new OpenAICompatibleProvider({
+        apiKey: process.env.LLM_LOCAL_API_KEY,
+        baseURL: process.env.LLM_LOCAL_BASE_URL || DEFAULT_LOCAL_BASE_URL,
+        model: process.env.LLM_LOCAL_MODEL || DEFAULT_LOCAL_MODEL,
+      });
+    case LLMProviderName.FIXTURE: {
+      const record = process.env.LLM_FIXTURES_RECORD ? parseProviderName(process.env.LLM_FIXTURES_RECORD) : undefined;
+      if (record === LLMProviderName.FIXTURE) {
+        throw new Error('LLM_FIXTURES_RECORD must name a provider other than fixture');
+      }
+      return new FixtureProvider({
+        path: process.env.LLM_FIXTURES_PATH || DEFAULT_FIXTURES_PATH,
+        record: record ? createProvider(record) : undefined,
+      });
+    }
+  }
+}
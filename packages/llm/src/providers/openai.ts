@@ -0,0 +1,57 @@
+import OpenAI from 'openai';
+import { LLMProviderName } from '@crmblr/types';
+import { CompletionRequest, CompletionResult, DEFAULT_MAX_TOKENS, LLMProvider } from './provider';
+
+export const DEFAULT_OPENAI_MODEL = 'gpt-4';
+
+export interface OpenAIProviderOptions {
+  apiKey?: string;
+  baseURL?: string;
+  model?: string;
+}
+
+export interface OpenAICompatibleProviderOptions extends OpenAIProviderOptions {
+  baseURL: string;
+  model: string;
+}
+
+/** OpenAI chat completions. */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string = LLMProviderName.OPENAI;
+  protected readonly client: OpenAI;
+  protected readonly model: string;
+
+  constructor(options: OpenAIProviderOptions = {}) {
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+    this.model = options.model || DEFAULT_OPENAI_MODEL;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const response = await this.client.chat.completions.create({
+      model: request.model || this.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: request.temperature,
+    });
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error(`No response from ${this.name} provider`);
+    }
+
+    return { content, model: response.model };
+  }
+}
+
+/**
+ * Any server that speaks the OpenAI chat completions API, such as Ollama,
+ * vLLM or LM Studio running next to the app.
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  readonly name: string = LLMProviderName.LOCAL;
+
+  constructor(options: OpenAICompatibleProviderOptions) {
+    // Local servers generally ignore the key, but the client refuses to start without one
+    super({ ...options, apiKey: options.apiKey || 'local' });
+  }
+}
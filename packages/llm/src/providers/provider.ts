@@ -0,0 +1,30 @@
+export const DEFAULT_MAX_TOKENS = 1000;
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface CompletionRequest extends CompletionOptions {
+  messages: LLMMessage[];
+}
+
+export interface CompletionResult {
+  content: string;
+  model: string;
+}
+
+/**
+ * A chat completion backend. Options left unset on a request fall back to the
+ * provider's own defaults.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
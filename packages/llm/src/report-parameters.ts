@@ -0,0 +1,141 @@
+import { ReportParameter, ReportParameterType, reportParameterValueSchema } from '@crmblr/types';
+
+export interface CompiledReportSQL {
+  // The report SQL with each placeholder replaced by a numbered bind parameter
+  sql: string;
+  // What $1, $2, ... stand for: a parameter, and for date ranges the end of the range
+  bindings: { name: string; part?: 'from' | 'to' }[];
+}
+
+export class ReportParameterError extends Error {
+  constructor(readonly errors: string[]) {
+    super(`Invalid report parameters: ${errors.join(', ')}`);
+    this.name = 'ReportParameterError';
+  }
+}
+
+// Bind parameters are cast so that PostgreSQL does not have to infer their types
+const PARAMETER_CASTS: Record<ReportParameterType, string> = {
+  [ReportParameterType.NUMBER]: 'numeric',
+  [ReportParameterType.DATE]: 'date',
+  [ReportParameterType.DATE_RANGE]: 'date',
+  [ReportParameterType.ENUM]: 'text',
+  [ReportParameterType.CAMPAIGN]: 'uuid',
+};
+
+// Quoted strings, identifiers and comments are matched first so that placeholders inside them are left alone
+const TOKENS =
+  /'(?:[^']|'')*'|"(?:[^"]|"")*"|\$([A-Za-z_]\w*)?\$[\s\S]*?\$\1\$|--[^\n]*|\/\*[\s\S]*?\*\/|\{\{\s*([A-Za-z_]\w*)(?:\.(\w+))?\s*\}\}/g;
+
+/**
+ * Replaces the {{name}} placeholders of a saved report with bind parameters and
+ * checks them against the report's declarations. Values are never spliced into the SQL.
+ */
+export function compileReportSQL(sql: string, parameters: ReportParameter[]): CompiledReportSQL {
+  const declared = new Map(parameters.map(parameter => [parameter.name, parameter]));
+  const bindings: CompiledReportSQL['bindings'] = [];
+  const used = new Set<string>();
+  const errors: string[] = [];
+
+  const compiled = sql.replace(TOKENS, (token, _tag, name?: string, part?: string) => {
+    if (!name) {
+      return token;
+    }
+
+    const parameter = declared.get(name);
+    if (!parameter) {
+      errors.push(`{{${name}}} is not a declared parameter`);
+      return token;
+    }
+    const isRange = parameter.type === ReportParameterType.DATE_RANGE;
+    if (isRange ? part !== 'from' && part !== 'to' : part !== undefined) {
+      errors.push(isRange ? `Use {{${name}.from}} and {{${name}.to}} for a date range` : `{{${name}.${part}}} is not valid`);
+      return token;
+    }
+
+    used.add(name);
+    let index = bindings.findIndex(binding => binding.name === name && binding.part === part);
+    if (index === -1) {
+      index = bindings.push({ name, part: part as 'from' | 'to' | undefined }) - 1;
+    }
+    return `$${index + 1}::${PARAMETER_CASTS[parameter.type]}`;
+  });
+
+  for (const parameter of parameters) {
+    if (!used.has(parameter.name)) {
+      errors.push(`Parameter ${parameter.name} is not used in the SQL`);
+    }
+  }
+  if (errors.length > 0) {
+    throw new ReportParameterError(errors);
+  }
+
+  return { sql: compiled, bindings };
+}
+
+/**
+ * Validates supplied values against the declarations, filling in defaults.
+ * Optional parameters without a value are bound as NULL.
+ */
+export function resolveReportValues(
+  parameters: ReportParameter[],
+  values: Record<string, unknown>,
+): Record<string, unknown> {
+  const errors: string[] = [];
+  const resolved: Record<string, unknown> = {};
+
+  for (const name of Object.keys(values)) {
+    if (!parameters.some(parameter => parameter.name === name)) {
+      errors.push(`${name}: unknown parameter`);
+    }
+  }
+
+  for (const parameter of parameters) {
+    const value = values[parameter.name] ?? parameter.default;
+    if (value === undefined || value === null) {
+      if (parameter.required) {
+        errors.push(`${parameter.name}: a value is required`);
+      }
+      resolved[parameter.name] = null;
+      continue;
+    }
+
+    const parsed = reportParameterValueSchema(parameter).safeParse(value);
+    if (parsed.success) {
+      resolved[parameter.name] = parsed.data;
+    } else {
+      errors.push(...parsed.error.issues.map(issue => `${parameter.name}: ${issue.message}`));
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ReportParameterError(errors);
+  }
+  return resolved;
+}
+
+export interface BoundReportSQL {
+  sql: string;
+  // In bind parameter order
+  values: unknown[];
+  // Validated values by parameter name, defaults included
+  resolved: Record<string, unknown>;
+}
+
+/** Compiles a saved report and lines up its values with the bind parameters. */
+export function bindReportParameters(
+  sql: string,
+  parameters: ReportParameter[],
+  values: Record<string, unknown>,
+): BoundReportSQL {
+  const compiled = compileReportSQL(sql, parameters);
+  const resolved = resolveReportValues(parameters, values);
+
+  return {
+    sql: compiled.sql,
+    resolved,
+    values: compiled.bindings.map(({ name, part }) =>
+      part ? (resolved[name] as Record<'from' | 'to', unknown> | null)?.[part] ?? null : resolved[name],
+    ),
+  };
+}
@@ -0,0 +1,99 @@
+import {
+  ContactStage,
+  CustomFieldDefinition,
+  FileSource,
+  GrantStatus,
+  OrganizationType,
+  StaffTeam,
+  ThankYouStatus,
+} from '@crmblr/types';
+
+export interface SchemaColumn {
+  name: string;
+  type: string;
+  nullable: boolean;
+  comment?: string;
+}
+
+export interface SchemaTable {
+  name: string;
+  comment?: string;
+  columns: SchemaColumn[];
+}
+
+export type CustomFieldSummary = Pick<CustomFieldDefinition, 'id' | 'name' | 'type' | 'options'>;
+
+// Tenant settings keep custom fields per module, and modules are named after their tables
+export type TenantCustomFields = Record<string, CustomFieldSummary[]>;
+
+// Text columns whose values are constrained by the enums in @crmblr/types
+const COLUMN_ENUMS: Record<string, Record<string, Record<string, string>>> = {
+  contacts: { stage: ContactStage },
+  pipeline_events: { stage: ContactStage },
+  organizations: { type: OrganizationType },
+  donations: { thankYouStatus: ThankYouStatus },
+  grant_apps: { status: GrantStatus },
+  staff: { team: StaffTeam },
+  file_assets: { source: FileSource },
+};
+
+const CUSTOM_FIELD_CASTS: Partial<Record<CustomFieldSummary['type'], string>> = {
+  number: '::numeric',
+  date: '::date',
+  boolean: '::boolean',
+};
+
+function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function describeColumn(table: string, column: SchemaColumn): string | undefined {
+  const notes = column.comment ? [column.comment.replace(/\s+/g, ' ').trim()] : [];
+  const values = COLUMN_ENUMS[table]?.[column.name];
+  if (values) {
+    notes.push(`One of ${Object.values(values).map(quoteLiteral).join(', ')}`);
+  }
+  return notes.length > 0 ? notes.join('. ') : undefined;
+}
+
+function describeCustomField(field: CustomFieldSummary): string {
+  const read = `("custom"->>${quoteLiteral(field.id)})${CUSTOM_FIELD_CASTS[field.type] ?? ''}`;
+  const options = field.options?.length ? `; one of ${field.options.map(quoteLiteral).join(', ')}` : '';
+  return `--   ${read}: ${field.name} (${field.type}${options})`;
+}
+
+function describeTable(table: SchemaTable, customFields: CustomFieldSummary[]): string {
+  const lines: string[] = [];
+  if (table.comment) {
+    lines.push(`-- ${table.comment}`);
+  }
+  lines.push(`CREATE TABLE ${table.name} (`);
+
+  table.columns.forEach((column, index) => {
+    const separator = index < table.columns.length - 1 ? ',' : '';
+    const note = describeColumn(table.name, column);
+    const definition = `  "${column.name}" ${column.type}${column.nullable ? '' : ' NOT NULL'}${separator}`;
+    lines.push(note ? `${definition} -- ${note}` : definition);
+
+    if (column.name === 'custom' && customFields.length > 0) {
+      lines.push('  -- Custom fields defined by this tenant:');
+      lines.push(...customFields.map(field => `  ${describeCustomField(field)}`));
+    }
+  });
+
+  lines.push(');');
+  return lines.join('\n');
+}
+
+/**
+ * Renders tables as commented PostgreSQL DDL for the SQL generation prompt,
+ * including enum values and the tenant's custom fields.
+ */
+export function buildSchemaContext(tables: SchemaTable[], customFields: TenantCustomFields = {}): string {
+  const header = [
+    '-- PostgreSQL schema. Column names are camelCase and must be double-quoted, e.g. "firstName".',
+    '-- Every query only sees rows of the current tenant; no tenant filter is needed.',
+  ];
+  const body = tables.map(table => describeTable(table, customFields[table.name] ?? []));
+  return [header.join('\n'), ...body].join('\n\n');
+}
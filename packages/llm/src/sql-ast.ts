@@ -0,0 +1,271 @@
+// Walks a libpg-query parse tree of a SELECT statement and records everything the
+// validator needs to judge it: tables read, columns referenced, functions called and
+// any clause that would write. Nodes are plain JSON objects keyed by their node type.
+
+type Node = Record<string, any>;
+
+interface Relation {
+  // Undefined for CTEs, subqueries and set-returning functions, whose columns are not checked
+  table?: string;
+}
+
+interface Scope {
+  parent?: Scope;
+  ctes: Set<string>;
+  relations: Map<string, Relation>;
+  outputNames: Set<string>;
+  // Set when a relation's columns are unknown, so unqualified columns cannot be attributed
+  opaque: boolean;
+}
+
+export interface SelectInspection {
+  tables: { schema?: string; name: string }[];
+  unauthorizedColumns: string[];
+  forbiddenFunctions: string[];
+  writes: string[];
+  selectInto: boolean;
+  rowLocking: boolean;
+  subqueries: boolean;
+  setOperations: string[];
+}
+
+export interface InspectionOptions {
+  allowedColumns?: Record<string, string[]>;
+  allowedFunctions: string[];
+}
+
+const WRITE_STATEMENTS = ['InsertStmt', 'UpdateStmt', 'DeleteStmt', 'MergeStmt'];
+
+function stringValues(nodes: Node[] | undefined): string[] {
+  return (nodes ?? []).map(node => (node.String ? node.String.sval : '*'));
+}
+
+function statementKeyword(nodeType: string): string {
+  return nodeType.replace(/Stmt$/, '').toUpperCase();
+}
+
+class SelectInspector {
+  private readonly result: SelectInspection = {
+    tables: [],
+    unauthorizedColumns: [],
+    forbiddenFunctions: [],
+    writes: [],
+    selectInto: false,
+    rowLocking: false,
+    subqueries: false,
+    setOperations: [],
+  };
+
+  constructor(private readonly options: InspectionOptions) {}
+
+  inspect(select: Node): SelectInspection {
+    this.visitSelect(select);
+    return this.result;
+  }
+
+  private visit(node: unknown, scope?: Scope): void {
+    if (Array.isArray(node)) {
+      node.forEach(item => this.visit(item, scope));
+      return;
+    }
+    if (!node || typeof node !== 'object') {
+      return;
+    }
+
+    for (const [key, value] of Object.entries(node as Node)) {
+      if (key === 'SelectStmt') {
+        this.visitSelect(value, scope);
+      } else if (WRITE_STATEMENTS.includes(key)) {
+        this.result.writes.push(statementKeyword(key));
+      } else if (key === 'SubLink') {
+        this.result.subqueries = true;
+        this.visit(value, scope);
+      } else if (key === 'FuncCall') {
+        this.checkFunction(value);
+        this.visit(value, scope);
+      } else if (key === 'ColumnRef') {
+        this.checkColumn(value, scope);
+      } else if (key === 'RangeVar') {
+        this.recordTable(value, scope);
+      } else {
+        this.visit(value, scope);
+      }
+    }
+  }
+
+  private visitSelect(select: Node, parent?: Scope): void {
+    const scope: Scope = {
+      parent,
+      ctes: new Set(),
+      relations: new Map(),
+      outputNames: new Set(),
+      opaque: false,
+    };
+
+    if (select.withClause) {
+      this.visitCtes(select.withClause, scope);
+    }
+    if (select.intoClause) {
+      this.result.selectInto = true;
+    }
+    if (select.lockingClause) {
+      this.result.rowLocking = true;
+    }
+
+    // UNION / INTERSECT / EXCEPT: each side is its own SELECT under the shared WITH
+    if (select.op && select.op !== 'SETOP_NONE') {
+      this.result.setOperations.push(select.op.replace('SETOP_', ''));
+      scope.opaque = true;
+      this.visitSelect(select.larg, scope);
+      this.visitSelect(select.rarg, scope);
+      this.visit([select.sortClause, select.limitCount, select.limitOffset], scope);
+      return;
+    }
+
+    (select.fromClause ?? []).forEach((item: Node) => this.registerFromItem(item, scope));
+
+    for (const target of select.targetList ?? []) {
+      if (target.ResTarget?.name) {
+        scope.outputNames.add(target.ResTarget.name);
+      }
+    }
+
+    for (const [key, value] of Object.entries(select)) {
+      if (!['withClause', 'fromClause', 'intoClause', 'larg', 'rarg'].includes(key)) {
+        this.visit(value, scope);
+      }
+    }
+    (select.fromClause ?? []).forEach((item: Node) => this.visitJoinConditions(item, scope));
+  }
+
+  // Non-recursive CTEs only see the ones declared before them; WITH RECURSIVE sees all
+  private visitCtes(withClause: Node, scope: Scope): void {
+    const ctes: Node[] = (withClause.ctes ?? []).map((cte: Node) => cte.CommonTableExpr);
+    if (withClause.recursive) {
+      ctes.forEach(cte => scope.ctes.add(cte.ctename));
+    }
+    for (const cte of ctes) {
+      this.visit(cte.ctequery, scope);
+      scope.ctes.add(cte.ctename);
+    }
+  }
+
+  private registerFromItem(item: Node, scope: Scope): void {
+    if (item.RangeVar) {
+      const relation = this.recordTable(item.RangeVar, scope);
+      scope.relations.set(item.RangeVar.alias?.aliasname ?? item.RangeVar.relname, relation);
+      if (!relation.table || !this.options.allowedColumns?.[relation.table]) {
+        scope.opaque = true;
+      }
+    } else if (item.JoinExpr) {
+      this.registerFromItem(item.JoinExpr.larg, scope);
+      this.registerFromItem(item.JoinExpr.rarg, scope);
+    } else if (item.RangeSubselect) {
+      this.result.subqueries = true;
+      this.visit(item.RangeSubselect.subquery, scope);
+      this.registerDerived(item.RangeSubselect.alias, scope);
+    } else {
+      // Set-returning functions, VALUES lists, XMLTABLE and the like
+      this.visit(item, scope);
+      this.registerDerived(Object.values(item)[0]?.alias, scope);
+    }
+  }
+
+  private registerDerived(alias: Node | undefined, scope: Scope): void {
+    if (alias?.aliasname) {
+      scope.relations.set(alias.aliasname, {});
+    }
+    scope.opaque = true;
+  }
+
+  // ON clauses may reference any relation of the FROM list, so they are visited last
+  private visitJoinConditions(item: Node, scope: Scope): void {
+    if (!item.JoinExpr) {
+      return;
+    }
+    this.visitJoinConditions(item.JoinExpr.larg, scope);
+    this.visitJoinConditions(item.JoinExpr.rarg, scope);
+    this.visit(item.JoinExpr.quals, scope);
+  }
+
+  private recordTable(rangeVar: Node, scope?: Scope): Relation {
+    const { schemaname: schema, relname: name } = rangeVar;
+    if (!schema && this.isCte(name, scope)) {
+      return {};
+    }
+
+    this.result.tables.push({ schema, name });
+    return !schema || schema === 'public' ? { table: name } : {};
+  }
+
+  private isCte(name: string, scope?: Scope): boolean {
+    for (let current = scope; current; current = current.parent) {
+      if (current.ctes.has(name)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private checkFunction(call: Node): void {
+    const names = stringValues(call.funcname);
+    const name = names[names.length - 1].toLowerCase();
+    // Built-ins resolve from pg_catalog; any other schema could hold a lookalike
+    const schema = names.length > 1 ? names[names.length - 2].toLowerCase() : 'pg_catalog';
+    const forbidden = schema !== 'pg_catalog' || !this.options.allowedFunctions.includes(name);
+    if (forbidden && !this.result.forbiddenFunctions.includes(name)) {
+      this.result.forbiddenFunctions.push(name);
+    }
+  }
+
+  private checkColumn(ref: Node, scope?: Scope): void {
+    const allowedColumns = this.options.allowedColumns;
+    const names = stringValues(ref.fields);
+    const column = names[names.length - 1];
+    if (!allowedColumns || column === '*' || !scope) {
+      return;
+    }
+
+    if (names.length > 1) {
+      const qualifier = names[names.length - 2];
+      const relation = this.findRelation(qualifier, scope);
+      const allowed = relation?.table ? allowedColumns[relation.table] : undefined;
+      if (allowed && !allowed.includes(column)) {
+        this.flagColumn(`${qualifier}.${column}`);
+      }
+      return;
+    }
+
+    for (let current: Scope | undefined = scope; current; current = current.parent) {
+      if (current.opaque || current.outputNames.has(column) || current.relations.has(column)) {
+        return;
+      }
+      for (const relation of current.relations.values()) {
+        if (relation.table && allowedColumns[relation.table]?.includes(column)) {
+          return;
+        }
+      }
+    }
+    this.flagColumn(column);
+  }
+
+  private findRelation(name: string, scope: Scope): Relation | undefined {
+    for (let current: Scope | undefined = scope; current; current = current.parent) {
+      const relation = current.relations.get(name);
+      if (relation) {
+        return relation;
+      }
+    }
+    return undefined;
+  }
+
+  private flagColumn(column: string): void {
+    if (!this.result.unauthorizedColumns.includes(column)) {
+      this.result.unauthorizedColumns.push(column);
+    }
+  }
+}
+
+export function inspectSelect(select: Node, options: InspectionOptions): SelectInspection {
+  return new SelectInspector(options).inspect(select);
+}
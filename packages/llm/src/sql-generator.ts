@@ -1,104 +1,112 @@
-import { BedrockRuntimeClient, InvokeModelCommand } from '@aws-sdk/client-bedrock-runtime';
-import OpenAI from 'openai';
+import { ChartSpec, ChartSpecSchema, LLMProviderName, LLMSettings, ResultColumn } from '@crmblr/types';
+import { CompletionRequest, CompletionResult, createProvider, defaultProviderName, LLMMessage, LLMProvider } from './providers';
+
+export interface SQLGenerationTurn {
+  prompt: string;
+  sql: string;
+  explanation: string;
+  columns: ResultColumn[];
+}
 
 export interface SQLGenerationRequest {
   prompt: string;
   schema: string;
   module?: string;
+  // Earlier turns of a report session, oldest first; the prompt then revises the last one
+  history?: SQLGenerationTurn[];
 }
 
 export interface SQLGenerationResponse {
   sql: string;
   explanation: string;
   confidence: number;
+  // How the model would chart the result; absent when it gave no usable suggestion
+  chart?: ChartSpec;
 }
 
+const SQL_SYSTEM_PROMPT = 'You are a SQL expert. Generate safe, read-only SQL queries based on user requests.';
+
 export class LLMService {
-  private bedrockClient: BedrockRuntimeClient;
-  private openaiClient?: OpenAI;
+  private readonly providers = new Map<LLMProviderName, LLMProvider>();
 
-  constructor() {
-    this.bedrockClient = new BedrockRuntimeClient({
-      region: process.env.AWS_REGION || 'us-east-1',
-    });
+  constructor(private readonly factory: (name: LLMProviderName) => LLMProvider = createProvider) {}
 
-    if (process.env.OPENAI_API_KEY) {
-      this.openaiClient = new OpenAI({
-        apiKey: process.env.OPENAI_API_KEY,
-      });
+  /** Provider by name, or the deployment default. Providers are created on first use. */
+  getProvider(name: LLMProviderName = defaultProviderName()): LLMProvider {
+    let provider = this.providers.get(name);
+    if (!provider) {
+      provider = this.factory(name);
+      this.providers.set(name, provider);
     }
+    return provider;
   }
 
-  async generateSQL(request: SQLGenerationRequest): Promise<SQLGenerationResponse> {
-    const useOpenAI = process.env.USE_OPENAI === 'true' && this.openaiClient;
-    
-    if (useOpenAI) {
-      return this.generateSQLWithOpenAI(request);
-    } else {
-      return this.generateSQLWithBedrock(request);
-    }
+  setProvider(name: LLMProviderName, provider: LLMProvider): void {
+    this.providers.set(name, provider);
   }
 
-  private async generateSQLWithBedrock(request: SQLGenerationRequest): Promise<SQLGenerationResponse> {
-    const prompt = this.buildPrompt(request);
-    
-    const command = new InvokeModelCommand({
-      modelId: 'anthropic.claude-3-sonnet-20240229-v1:0',
-      contentType: 'application/json',
-      accept: 'application/json',
-      body: JSON.stringify({
-        anthropic_version: 'bedrock-2023-05-31',
-        max_tokens: 1000,
-        messages: [
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-      }),
+  /**
+   * Runs a completion on the provider chosen in `settings`. Options set on the
+   * request win over `settings`, which win over the provider's defaults.
+   */
+  async complete(request: CompletionRequest, settings: LLMSettings = {}): Promise<CompletionResult> {
+    return this.getProvider(settings.provider).complete({
+      ...request,
+      model: request.model ?? settings.model,
+      temperature: request.temperature ?? settings.temperature,
+      maxTokens: request.maxTokens ?? settings.maxTokens,
     });
+  }
+
+  /** Low temperature and a 1000 token budget unless the settings say otherwise. */
+  async generateSQL(request: SQLGenerationRequest, settings: LLMSettings = {}): Promise<SQLGenerationResponse> {
+    const provider = this.getProvider(settings.provider);
 
+    let response: CompletionResult;
     try {
-      const response = await this.bedrockClient.send(command);
-      const body = JSON.parse(new TextDecoder().decode(response.body));
-      const content = body.content[0].text;
-      
-      return this.parseSQLResponse(content);
+      response = await provider.complete({
+        messages: this.buildMessages(request),
+        model: settings.model,
+        temperature: settings.temperature ?? 0.1,
+        maxTokens: settings.maxTokens ?? 1000,
+      });
     } catch (error) {
-      console.error('Bedrock SQL generation failed:', error);
-      throw new Error('Failed to generate SQL with Bedrock');
+      console.error(`SQL generation with ${provider.name} failed:`, error);
+      throw new Error(`Failed to generate SQL with ${provider.name}`);
     }
+
+    return this.parseSQLResponse(response.content);
   }
 
-  private async generateSQLWithOpenAI(request: SQLGenerationRequest): Promise<SQLGenerationResponse> {
-    if (!this.openaiClient) {
-      throw new Error('OpenAI client not initialized');
-    }
+  // Earlier turns are replayed as the conversation they were, ending with the new prompt
+  private buildMessages(request: SQLGenerationRequest): LLMMessage[] {
+    const history = request.history ?? [];
+    const messages: LLMMessage[] = [
+      { role: 'system', content: SQL_SYSTEM_PROMPT },
+      { role: 'user', content: this.buildPrompt({ ...request, prompt: history[0]?.prompt ?? request.prompt }) },
+    ];
 
-    const prompt = this.buildPrompt(request);
-    
-    const response = await this.openaiClient.chat.completions.create({
-      model: 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a SQL expert. Generate safe, read-only SQL queries based on user requests.',
-        },
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-      max_tokens: 1000,
-      temperature: 0.1,
+    history.forEach((turn, index) => {
+      messages.push({ role: 'assistant', content: JSON.stringify({ sql: turn.sql, explanation: turn.explanation }) });
+      messages.push({ role: 'user', content: this.buildFollowUp(turn, history[index + 1]?.prompt ?? request.prompt) });
     });
 
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('No response from OpenAI');
-    }
+    return messages;
+  }
+
+  private buildFollowUp(previous: SQLGenerationTurn, prompt: string): string {
+    const columns = previous.columns
+      .map(column => (column.expression === column.name ? column.name : `${column.name} (${column.expression})`))
+      .join(', ');
+
+    return `
+That query returns these columns: ${columns || 'unknown'}.
+
+Follow-up Request: ${prompt}
 
-    return this.parseSQLResponse(content);
+Revise the previous query for the follow-up request and keep everything it does not ask to change.
+The same rules apply. Respond with the complete revised query in the same JSON format.
+`;
   }
 
   private buildPrompt(request: SQLGenerationRequest): string {
@@ -113,16 +121,20 @@ User Request: ${request.prompt}
 IMPORTANT RULES:
 1. Only generate SELECT statements (read-only)
 2. Never include INSERT, UPDATE, DELETE, DROP, or other modifying statements
-3. Always include proper WHERE clauses for tenant isolation
+3. Do not filter by tenant; rows are limited to the current tenant automatically
 4. Use proper SQL syntax for PostgreSQL
 5. Include LIMIT clauses to prevent large result sets
 6. Explain what the query does
+7. Suggest a chart of the result: "bar", "line", "area" or "pie", with "x" the category or date column,
+   "y" the numeric columns, "series" a column that splits a single y column into series (or null),
+   and "format" "currency" for money values or "number" otherwise. Use null when a table suits the result better.
 
 Respond in this JSON format:
 {
   "sql": "SELECT ...",
   "explanation": "This query...",
-  "confidence": 0.95
+  "confidence": 0.95,
+  "chart": { "type": "bar", "x": "...", "y": ["..."], "series": null, "format": "currency" }
 }
 `;
   }
@@ -133,10 +145,12 @@ Respond in this JSON format:
       const jsonMatch = content.match(/\{[\s\S]*\}/);
       if (jsonMatch) {
         const parsed = JSON.parse(jsonMatch[0]);
+        const chart = ChartSpecSchema.safeParse(parsed.chart);
         return {
           sql: parsed.sql || '',
           explanation: parsed.explanation || '',
           confidence: parsed.confidence || 0.5,
+          chart: chart.success ? chart.data : undefined,
         };
       }
     } catch (error) {
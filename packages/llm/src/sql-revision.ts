@@ -0,0 +1,88 @@
+import { parse } from 'libpg-query';
+import { deparse } from 'pgsql-deparser';
+import { ResultColumn } from '@crmblr/types';
+
+type Node = Record<string, any>;
+
+// PostgreSQL's own naming for unaliased select-list entries (FigureColname)
+function defaultColumnName(node: Node): string {
+  if (node.ColumnRef) {
+    const last = node.ColumnRef.fields[node.ColumnRef.fields.length - 1];
+    return last.String ? last.String.sval : '*';
+  }
+  if (node.FuncCall) {
+    return node.FuncCall.funcname[node.FuncCall.funcname.length - 1].String.sval;
+  }
+  if (node.TypeCast) {
+    const name = defaultColumnName(node.TypeCast.arg);
+    return name === '?column?' ? node.TypeCast.typeName.names.at(-1).String.sval : name;
+  }
+  if (node.CaseExpr) {
+    return 'case';
+  }
+  if (node.SubLink?.subLinkType === 'EXISTS_SUBLINK') {
+    return 'exists';
+  }
+  return '?column?';
+}
+
+/**
+ * Columns a SELECT returns, named as PostgreSQL would name them, read from the
+ * parse tree without running the query. `*` entries are listed as they are.
+ */
+export async function describeResultColumns(sql: string): Promise<ResultColumn[]> {
+  const tree = await parse(sql);
+  let select: Node | undefined = tree.stmts?.[0]?.stmt.SelectStmt;
+  // A set operation takes its column names from its leftmost branch
+  while (select?.larg) {
+    select = select.larg;
+  }
+
+  return Promise.all(
+    (select?.targetList ?? []).map(async ({ ResTarget: target }: Node) => ({
+      name: target.name ?? defaultColumnName(target.val),
+      expression: await deparse(target.val, {}),
+    })),
+  );
+}
+
+/** One clause per line, so revisions of a query diff cleanly. Unparseable SQL is returned unchanged. */
+export async function formatSQL(sql: string): Promise<string> {
+  try {
+    return await deparse(await parse(sql), { pretty: true });
+  } catch {
+    return sql.trim();
+  }
+}
+
+/**
+ * Line diff of two queries after formatting: unchanged lines start with two
+ * spaces, removed lines with "- " and added lines with "+ ".
+ */
+export async function diffSQL(previous: string, next: string): Promise<string> {
+  const before = (await formatSQL(previous)).split('\n');
+  const after = (await formatSQL(next)).split('\n');
+
+  // Longest common subsequence table, filled from the end
+  const common: number[][] = Array.from({ length: before.length + 1 }, () => new Array(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      common[i][j] = before[i] === after[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      lines.push(`  ${before[i++]}`);
+      j++;
+    } else if (i < before.length && (j === after.length || common[i + 1][j] >= common[i][j + 1])) {
+      lines.push(`- ${before[i++]}`);
+    } else {
+      lines.push(`+ ${after[j++]}`);
+    }
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,144 @@
+import { parse } from 'libpg-query';
+import { deparse } from 'pgsql-deparser';
+import { REPORT_TABLES } from '@crmblr/types';
+
+type Node = Record<string, any>;
+
+export interface TenantRewriteOptions {
+  tenantId: string;
+  // Tables owned by a tenant; every reference to them is filtered
+  tenantTables: string[];
+  tenantColumn?: string;
+  // Maximum rows to return; a smaller LIMIT already in the query is kept
+  limit: number;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Replaces tenant table references with "(SELECT * FROM table WHERE tenant filter) AS alias",
+// so joins, subqueries and CTE bodies only ever see the current tenant's rows
+class TenantScoper {
+  constructor(
+    private readonly tables: string[],
+    private readonly scopedSelect: (rangeVar: Node) => Node,
+  ) {}
+
+  scopeSelect(select: Node, parentCtes: Set<string>): void {
+    const ctes = new Set(parentCtes);
+
+    // Non-recursive CTEs only see the ones declared before them; WITH RECURSIVE sees all
+    if (select.withClause) {
+      const declared: Node[] = select.withClause.ctes.map((cte: Node) => cte.CommonTableExpr);
+      if (select.withClause.recursive) {
+        declared.forEach(cte => ctes.add(cte.ctename));
+      }
+      for (const cte of declared) {
+        this.visit(cte.ctequery, ctes);
+        ctes.add(cte.ctename);
+      }
+    }
+
+    for (const [key, value] of Object.entries(select)) {
+      if (key === 'larg' || key === 'rarg') {
+        this.scopeSelect(value, ctes);
+      } else if (key !== 'withClause') {
+        this.visit(value, ctes);
+      }
+    }
+  }
+
+  private visit(node: unknown, ctes: Set<string>): void {
+    if (Array.isArray(node)) {
+      node.forEach(item => this.visit(item, ctes));
+      return;
+    }
+    if (!node || typeof node !== 'object') {
+      return;
+    }
+
+    const wrapper = node as Node;
+    if (wrapper.RangeVar) {
+      this.scopeRangeVar(wrapper, ctes);
+    } else if (wrapper.SelectStmt) {
+      this.scopeSelect(wrapper.SelectStmt, ctes);
+    } else {
+      Object.values(wrapper).forEach(value => this.visit(value, ctes));
+    }
+  }
+
+  private scopeRangeVar(wrapper: Node, ctes: Set<string>): void {
+    const rangeVar = wrapper.RangeVar;
+    const schema = rangeVar.schemaname;
+    if ((schema && schema !== 'public') || !this.tables.includes(rangeVar.relname)) {
+      return;
+    }
+    if (!schema && ctes.has(rangeVar.relname)) {
+      return;
+    }
+
+    const { alias, ...table } = rangeVar;
+    delete wrapper.RangeVar;
+    wrapper.RangeSubselect = {
+      subquery: { SelectStmt: this.scopedSelect(table) },
+      alias: alias ?? { aliasname: rangeVar.relname },
+    };
+  }
+}
+
+export class SQLRewriter {
+  // Expects SQL that already passed SQLValidator
+  async rewriteForTenant(sql: string, options: TenantRewriteOptions): Promise<string> {
+    if (!UUID_PATTERN.test(options.tenantId)) {
+      throw new Error('Tenant id must be a UUID');
+    }
+    if (!Number.isInteger(options.limit) || options.limit < 1) {
+      throw new Error('Limit must be a positive integer');
+    }
+
+    const tree = await parse(sql);
+    const select = tree.stmts?.length === 1 ? tree.stmts[0].stmt.SelectStmt : undefined;
+    if (!select) {
+      throw new Error('Only a single SELECT statement can be rewritten');
+    }
+
+    const template = await this.tenantFilterTemplate(options);
+    const scoper = new TenantScoper(options.tenantTables, rangeVar => {
+      const scoped = JSON.parse(template);
+      scoped.fromClause = [{ RangeVar: rangeVar }];
+      return scoped;
+    });
+    scoper.scopeSelect(select, new Set());
+    this.enforceLimit(select, options.limit);
+
+    return deparse(tree, { pretty: false });
+  }
+
+  rewriteForReports(sql: string, tenantId: string, limit: number): Promise<string> {
+    return this.rewriteForTenant(sql, {
+      tenantId,
+      tenantTables: Object.keys(REPORT_TABLES),
+      limit,
+    });
+  }
+
+  // Parsed once per rewrite and copied for every table reference
+  private async tenantFilterTemplate(options: TenantRewriteOptions): Promise<string> {
+    const column = (options.tenantColumn ?? 'tenantId').replace(/"/g, '""');
+    const tree = await parse(`SELECT * FROM tenant_table WHERE "${column}" = '${options.tenantId}'::uuid`);
+    return JSON.stringify(tree.stmts[0].stmt.SelectStmt);
+  }
+
+  // The outermost LIMIT bounds the whole result, including UNIONs, and keeps ORDER BY intact
+  private enforceLimit(select: Node, limit: number): void {
+    const current = select.limitCount?.A_Const?.ival;
+    const existing = current ? current.ival ?? 0 : undefined;
+    if (existing === undefined || existing > limit) {
+      select.limitCount = { A_Const: { ival: { ival: limit } } };
+    }
+    // FETCH FIRST ... WITH TIES could return more rows than requested
+    select.limitOption = 'LIMIT_OPTION_COUNT';
+  }
+}
+
+// Export singleton instance
+export const sqlRewriter = new SQLRewriter();
@@ -1,4 +1,6 @@
-import { z } from 'zod';
+import { parse } from 'libpg-query';
+import { REPORT_TABLES } from '@crmblr/types';
+import { inspectSelect } from './sql-ast';
 
 export interface SQLValidationResult {
   isValid: boolean;
@@ -11,73 +13,60 @@ export interface SQLValidationOptions {
   maxRows?: number;
   timeoutMs?: number;
   allowedTables?: string[];
-  forbiddenKeywords?: string[];
+  // Columns per table; tables without an entry are not column-checked
+  allowedColumns?: Record<string, string[]>;
+  // Functions that may be called, by unqualified lowercase name
+  allowedFunctions?: string[];
 }
 
+/**
+ * Functions a report may call. Anything else is rejected: functions that read
+ * files, run SQL passed as a string (query_to_xml, ts_stat, ts_rewrite), reach
+ * other databases or change the tenant context would get around the table,
+ * column and tenant checks, and a deny-list cannot keep up with new ones.
+ */
+const ALLOWED_FUNCTIONS = [
+  // Aggregates
+  'count', 'sum', 'avg', 'min', 'max', 'string_agg', 'array_agg', 'json_agg', 'jsonb_agg',
+  'bool_and', 'bool_or', 'every', 'stddev', 'stddev_pop', 'stddev_samp', 'variance', 'var_pop', 'var_samp',
+  'percentile_cont', 'percentile_disc', 'mode', 'corr',
+  // Window functions
+  'row_number', 'rank', 'dense_rank', 'percent_rank', 'cume_dist', 'ntile', 'lag', 'lead',
+  'first_value', 'last_value', 'nth_value',
+  // Dates and times; EXTRACT, AT TIME ZONE and OVERLAPS parse to extract, timezone and overlaps
+  'now', 'date_trunc', 'date_part', 'extract', 'date_bin', 'age', 'make_date', 'make_interval', 'make_timestamp',
+  'to_char', 'to_date', 'to_timestamp', 'justify_days', 'justify_hours', 'justify_interval', 'timezone',
+  'isfinite', 'overlaps', 'generate_series',
+  // Numbers
+  'abs', 'ceil', 'ceiling', 'floor', 'round', 'trunc', 'mod', 'div', 'power', 'sqrt', 'sign', 'ln', 'log', 'exp',
+  'width_bucket', 'to_number',
+  // Text; TRIM, SUBSTRING and POSITION parse to btrim, substring and position
+  'lower', 'upper', 'initcap', 'length', 'char_length', 'character_length', 'concat', 'concat_ws',
+  'substring', 'substr', 'btrim', 'ltrim', 'rtrim', 'replace', 'split_part', 'left', 'right', 'position',
+  'strpos', 'lpad', 'rpad', 'format', 'regexp_replace', 'regexp_match', 'starts_with', 'reverse', 'translate',
+  // JSON and arrays
+  'json_extract_path_text', 'jsonb_extract_path_text', 'jsonb_array_length', 'jsonb_typeof',
+  'json_build_object', 'jsonb_build_object', 'to_json', 'to_jsonb', 'jsonb_array_elements',
+  'jsonb_array_elements_text', 'jsonb_object_keys', 'array_length', 'cardinality', 'unnest',
+  'array_to_string', 'string_to_array', 'array_position',
+];
+
 export class SQLValidator {
-  private readonly defaultOptions: Required<SQLValidationOptions> = {
+  private readonly defaultOptions: Required<Omit<SQLValidationOptions, 'allowedColumns'>> = {
     maxRows: 1000,
     timeoutMs: 30000,
     allowedTables: [],
-    forbiddenKeywords: [
-      'INSERT', 'UPDATE', 'DELETE', 'DROP', 'CREATE', 'ALTER', 'TRUNCATE',
-      'GRANT', 'REVOKE', 'EXEC', 'EXECUTE', 'CALL', 'MERGE', 'UPSERT',
-      'COPY', 'LOAD', 'IMPORT', 'EXPORT', 'BACKUP', 'RESTORE'
-    ],
+    allowedFunctions: ALLOWED_FUNCTIONS,
   };
 
-  validate(sql: string, options: Partial<SQLValidationOptions> = {}): SQLValidationResult {
+  async validate(sql: string, options: Partial<SQLValidationOptions> = {}): Promise<SQLValidationResult> {
     const opts = { ...this.defaultOptions, ...options };
     const errors: string[] = [];
     const warnings: string[] = [];
 
+    let statements: { stmt: Record<string, any> }[];
     try {
-      // Basic SQL parsing and validation
-      const sanitizedSQL = this.sanitizeSQL(sql);
-      
-      // Check for forbidden keywords
-      const forbiddenFound = this.checkForbiddenKeywords(sanitizedSQL, opts.forbiddenKeywords);
-      if (forbiddenFound.length > 0) {
-        errors.push(`Forbidden keywords detected: ${forbiddenFound.join(', ')}`);
-      }
-
-      // Ensure it's a SELECT statement
-      if (!this.isSelectStatement(sanitizedSQL)) {
-        errors.push('Only SELECT statements are allowed');
-      }
-
-      // Check for LIMIT clause
-      if (!this.hasLimitClause(sanitizedSQL)) {
-        warnings.push(`Query should include LIMIT clause (max ${opts.maxRows} rows)`);
-      } else {
-        const limit = this.extractLimitValue(sanitizedSQL);
-        if (limit && limit > opts.maxRows) {
-          errors.push(`LIMIT exceeds maximum allowed rows (${opts.maxRows})`);
-        }
-      }
-
-      // Check for allowed tables if specified
-      if (opts.allowedTables.length > 0) {
-        const tables = this.extractTableNames(sanitizedSQL);
-        const unauthorizedTables = tables.filter(table => !opts.allowedTables.includes(table));
-        if (unauthorizedTables.length > 0) {
-          errors.push(`Unauthorized tables: ${unauthorizedTables.join(', ')}`);
-        }
-      }
-
-      // Check for potentially dangerous patterns
-      const dangerousPatterns = this.checkDangerousPatterns(sanitizedSQL);
-      if (dangerousPatterns.length > 0) {
-        warnings.push(`Potentially dangerous patterns detected: ${dangerousPatterns.join(', ')}`);
-      }
-
-      return {
-        isValid: errors.length === 0,
-        errors,
-        warnings,
-        sanitizedSQL: errors.length === 0 ? sanitizedSQL : undefined,
-      };
-
+      statements = sql.trim() ? (await parse(sql)).stmts ?? [] : [];
     } catch (error) {
       return {
         isValid: false,
@@ -85,89 +74,158 @@ export class SQLValidator {
         warnings: [],
       };
     }
-  }
 
-  private sanitizeSQL(sql: string): string {
-    // Remove comments
-    let sanitized = sql.replace(/--.*$/gm, '');
-    sanitized = sanitized.replace(/\/\*[\s\S]*?\*\//g, '');
-    
-    // Normalize whitespace
-    sanitized = sanitized.replace(/\s+/g, ' ').trim();
-    
-    return sanitized;
-  }
+    if (statements.length > 1) {
+      return { isValid: false, errors: ['Only a single statement is allowed'], warnings };
+    }
+    const select = statements[0]?.stmt.SelectStmt;
+    if (!select) {
+      return { isValid: false, errors: ['Only SELECT statements are allowed'], warnings };
+    }
 
-  private checkForbiddenKeywords(sql: string, forbiddenKeywords: string[]): string[] {
-    const upperSQL = sql.toUpperCase();
-    const found: string[] = [];
-    
-    for (const keyword of forbiddenKeywords) {
-      const regex = new RegExp(`\\b${keyword}\\b`, 'i');
-      if (regex.test(sql)) {
-        found.push(keyword);
+    const inspection = inspectSelect(select, {
+      allowedColumns: opts.allowedColumns,
+      allowedFunctions: opts.allowedFunctions,
+    });
+
+    if (inspection.writes.length > 0) {
+      errors.push(`Data-modifying statements are not allowed: ${inspection.writes.join(', ')}`);
+    }
+    if (inspection.selectInto) {
+      errors.push('SELECT INTO is not allowed');
+    }
+    if (inspection.rowLocking) {
+      errors.push('Row locking clauses (FOR UPDATE, FOR SHARE) are not allowed');
+    }
+    if (inspection.forbiddenFunctions.length > 0) {
+      errors.push(`Forbidden functions: ${inspection.forbiddenFunctions.join(', ')}`);
+    }
+
+    // Check the LIMIT of the outermost query
+    const limit = select.limitCount?.A_Const;
+    if (!select.limitCount || limit?.isnull) {
+      warnings.push(`Query should include LIMIT clause (max ${opts.maxRows} rows)`);
+    } else if (!limit?.ival) {
+      errors.push('LIMIT must be a constant number');
+    } else if ((limit.ival.ival ?? 0) > opts.maxRows) {
+      errors.push(`LIMIT exceeds maximum allowed rows (${opts.maxRows})`);
+    }
+
+    // Check for allowed tables if specified; only the public schema is searched
+    if (opts.allowedTables.length > 0) {
+      const unauthorizedTables = inspection.tables
+        .filter(table => (table.schema && table.schema !== 'public') || !opts.allowedTables.includes(table.name))
+        .map(table => (table.schema ? `${table.schema}.${table.name}` : table.name));
+      if (unauthorizedTables.length > 0) {
+        errors.push(`Unauthorized tables: ${[...new Set(unauthorizedTables)].join(', ')}`);
       }
     }
-    
-    return found;
-  }
 
-  private isSelectStatement(sql: string): boolean {
-    const upperSQL = sql.toUpperCase().trim();
-    return upperSQL.startsWith('SELECT');
-  }
+    if (inspection.unauthorizedColumns.length > 0) {
+      errors.push(`Unauthorized columns: ${inspection.unauthorizedColumns.join(', ')}`);
+    }
 
-  private hasLimitClause(sql: string): boolean {
-    const upperSQL = sql.toUpperCase();
-    return upperSQL.includes('LIMIT');
+    const dangerousPatterns: string[] = [];
+    if (inspection.subqueries) {
+      dangerousPatterns.push('subqueries');
+    }
+    for (const operation of new Set(inspection.setOperations)) {
+      dangerousPatterns.push(`${operation} statements`);
+    }
+    if (dangerousPatterns.length > 0) {
+      warnings.push(`Potentially dangerous patterns detected: ${dangerousPatterns.join(', ')}`);
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings,
+      sanitizedSQL: errors.length === 0 ? this.sanitizeSQL(sql) : undefined,
+    };
   }
 
-  private extractLimitValue(sql: string): number | null {
-    const limitMatch = sql.match(/LIMIT\s+(\d+)/i);
-    return limitMatch ? parseInt(limitMatch[1], 10) : null;
+  // Strips comments and collapses whitespace, leaving quoted strings and identifiers untouched
+  private sanitizeSQL(sql: string): string {
+    let sanitized = '';
+    let i = 0;
+
+    const appendSpace = () => {
+      if (sanitized && !sanitized.endsWith(' ')) {
+        sanitized += ' ';
+      }
+    };
+
+    while (i < sql.length) {
+      const char = sql[i];
+      const rest = sql.slice(i);
+
+      if (rest.startsWith('--')) {
+        const end = sql.indexOf('\n', i);
+        i = end === -1 ? sql.length : end;
+        appendSpace();
+      } else if (rest.startsWith('/*')) {
+        i = this.blockCommentEnd(sql, i);
+        appendSpace();
+      } else if (char === "'" || char === '"') {
+        const end = this.quoteEnd(sql, i);
+        sanitized += sql.slice(i, end);
+        i = end;
+      } else if (char === '$' && !/[\w$]/.test(sql[i - 1] ?? '') && /^\$([A-Za-z_]\w*)?\$/.test(rest)) {
+        const tag = rest.match(/^\$([A-Za-z_]\w*)?\$/)![0];
+        const close = sql.indexOf(tag, i + tag.length);
+        const end = close === -1 ? sql.length : close + tag.length;
+        sanitized += sql.slice(i, end);
+        i = end;
+      } else if (/\s/.test(char)) {
+        appendSpace();
+        i++;
+      } else {
+        sanitized += char;
+        i++;
+      }
+    }
+
+    return sanitized.trim();
   }
 
-  private extractTableNames(sql: string): string[] {
-    const tables: string[] = [];
-    
-    // Match FROM and JOIN clauses
-    const fromMatches = sql.matchAll(/FROM\s+(\w+)/gi);
-    const joinMatches = sql.matchAll(/JOIN\s+(\w+)/gi);
-    
-    for (const match of fromMatches) {
-      tables.push(match[1]);
-    }
-    
-    for (const match of joinMatches) {
-      tables.push(match[1]);
-    }
-    
-    return [...new Set(tables)]; // Remove duplicates
+  // PostgreSQL block comments nest
+  private blockCommentEnd(sql: string, start: number): number {
+    let depth = 0;
+    let i = start;
+    while (i < sql.length) {
+      if (sql.startsWith('/*', i)) {
+        depth++;
+        i += 2;
+      } else if (sql.startsWith('*/', i)) {
+        depth--;
+        i += 2;
+        if (depth === 0) {
+          return i;
+        }
+      } else {
+        i++;
+      }
+    }
+    return sql.length;
   }
 
-  private checkDangerousPatterns(sql: string): string[] {
-    const patterns: string[] = [];
-    const upperSQL = sql.toUpperCase();
-    
-    // Check for subqueries (could be complex)
-    if (upperSQL.includes('(SELECT')) {
-      patterns.push('subqueries');
-    }
-    
-    // Check for UNION (could be used to bypass restrictions)
-    if (upperSQL.includes('UNION')) {
-      patterns.push('UNION statements');
-    }
-    
-    // Check for functions that might be dangerous
-    const dangerousFunctions = ['EXEC', 'EVAL', 'LOAD_FILE'];
-    for (const func of dangerousFunctions) {
-      if (upperSQL.includes(func)) {
-        patterns.push(`${func} function`);
+  // Quotes are escaped by doubling them; E'...' strings also accept backslash escapes
+  private quoteEnd(sql: string, start: number): number {
+    const quote = sql[start];
+    const backslashEscapes = quote === "'" && /[eE]/.test(sql[start - 1] ?? '');
+    let i = start + 1;
+    while (i < sql.length) {
+      if (backslashEscapes && sql[i] === '\\') {
+        i += 2;
+      } else if (sql[i] === quote && sql[i + 1] === quote) {
+        i += 2;
+      } else if (sql[i] === quote) {
+        return i + 1;
+      } else {
+        i++;
       }
     }
-    
-    return patterns;
+    return sql.length;
   }
 
   // Utility method to add LIMIT if missing
@@ -180,21 +238,13 @@ export class SQLValidator {
   }
 
   // Utility method to validate and sanitize for reports
-  validateForReports(sql: string, tenantId: string): SQLValidationResult {
-    const tenantTables = [
-      'Contact', 'Donation', 'Campaign', 'GrantApp', 'Organization', 
-      'Staff', 'PipelineEvent', 'FileAsset', 'Report'
-    ];
-
+  validateForReports(sql: string, tenantId: string): Promise<SQLValidationResult> {
     return this.validate(sql, {
       maxRows: 1000,
       timeoutMs: 30000,
-      allowedTables: tenantTables,
-      forbiddenKeywords: [
-        'INSERT', 'UPDATE', 'DELETE', 'DROP', 'CREATE', 'ALTER', 'TRUNCATE',
-        'GRANT', 'REVOKE', 'EXEC', 'EXECUTE', 'CALL', 'MERGE', 'UPSERT',
-        'COPY', 'LOAD', 'IMPORT', 'EXPORT', 'BACKUP', 'RESTORE'
-      ],
+      allowedTables: Object.keys(REPORT_TABLES),
+      allowedColumns: REPORT_TABLES,
+      allowedFunctions: ALLOWED_FUNCTIONS,
     });
   }
 }
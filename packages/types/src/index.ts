@@ -1,3 +1,4 @@
+import { parseExpression } from 'cron-parser';
 import { z } from 'zod';
 
 // Base types
@@ -54,17 +55,144 @@ export enum FileSource {
   ETL = 'etl',
 }
 
+export enum LLMProviderName {
+  BEDROCK = 'bedrock',
+  OPENAI = 'openai',
+  LOCAL = 'local',
+  FIXTURE = 'fixture',
+}
+
+export enum ReportParameterType {
+  NUMBER = 'number',
+  DATE = 'date',
+  DATE_RANGE = 'date_range',
+  ENUM = 'enum',
+  CAMPAIGN = 'campaign',
+}
+
+export enum ReportFormat {
+  CSV = 'csv',
+  XLSX = 'xlsx',
+}
+
+export enum ReportExportFormat {
+  CSV = 'csv',
+  XLSX = 'xlsx',
+  PDF = 'pdf',
+}
+
+export enum ReportRunStatus {
+  RUNNING = 'running',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+}
+
+export enum ChartType {
+  BAR = 'bar',
+  LINE = 'line',
+  AREA = 'area',
+  PIE = 'pie',
+}
+
+export enum ChartValueFormat {
+  NUMBER = 'number',
+  CURRENCY = 'currency',
+}
+
+export enum DashboardWidgetType {
+  KPI = 'kpi',
+  CHART = 'chart',
+  TABLE = 'table',
+}
+
+// Enums a saved report can offer as the choices of an enum parameter
+export const REPORT_PARAMETER_ENUMS = {
+  ContactStage,
+  OrganizationType,
+  ThankYouStatus,
+  GrantStatus,
+  StaffTeam,
+};
+
+// Tables reports may read, with the columns each of them exposes. Every one of them
+// is tenant-owned through its "tenantId" column.
+export const REPORT_TABLES: Record<string, string[]> = {
+  contacts: [
+    'id', 'tenantId', 'firstName', 'lastName', 'email', 'phone', 'address', 'score',
+    'lifetimeValue', 'stage', 'relationshipManagerId', 'custom', 'createdAt', 'updatedAt',
+  ],
+  organizations: [
+    'id', 'tenantId', 'name', 'type', 'website', 'location', 'relationshipManagerId',
+    'custom', 'createdAt', 'updatedAt',
+  ],
+  donations: [
+    'id', 'tenantId', 'contactId', 'organizationId', 'campaignId', 'amount', 'currency',
+    'date', 'thankYouStatus', 'custom', 'createdAt', 'updatedAt',
+  ],
+  campaigns: [
+    'id', 'tenantId', 'name', 'targetAmount', 'startDate', 'endDate', 'custom', 'createdAt',
+    'updatedAt',
+  ],
+  grant_apps: [
+    'id', 'tenantId', 'organizationId', 'name', 'amountRequested', 'amountAwarded', 'status',
+    'deadline', 'notes', 'custom', 'createdAt', 'updatedAt',
+  ],
+  pipeline_events: [
+    'id', 'tenantId', 'contactId', 'stage', 'note', 'occurredAt', 'createdAt', 'updatedAt',
+  ],
+  staff: [
+    'id', 'tenantId', 'name', 'role', 'email', 'phone', 'team', 'custom', 'createdAt',
+    'updatedAt',
+  ],
+  file_assets: [
+    'id', 'tenantId', 'key', 'bucket', 'contentType', 'size', 'source', 'meta', 'createdAt',
+    'updatedAt',
+  ],
+  reports: [
+    'id', 'tenantId', 'name', 'sql', 'createdBy', 'lastRunAt', 'description', 'createdAt',
+    'updatedAt',
+  ],
+};
+
 // Tenant schemas
+// Named colors as in the web app's WebsiteBranding; palette entries stand in for missing ones
+export const TenantBrandColorsSchema = z.object({
+  primary: z.string(),
+  secondary: z.string(),
+  accent: z.string(),
+  text: z.string(),
+  muted: z.string(),
+  border: z.string(),
+}).partial();
+
 export const TenantBrandingSchema = z.object({
   palette: z.array(z.string()),
+  colors: TenantBrandColorsSchema.optional(),
   logoUrl: z.string().optional(),
   faviconUrl: z.string().optional(),
 });
 
+export const LLMSettingsSchema = z.object({
+  provider: z.nativeEnum(LLMProviderName).optional(),
+  model: z.string().min(1).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().positive().optional(),
+});
+
+// Custom field definitions kept per module, keyed by module name
+export const TenantCustomFieldsSchema = z.record(z.array(z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.enum(['text', 'number', 'date', 'boolean', 'select', 'multiselect']),
+  required: z.boolean().optional(),
+  options: z.array(z.string()).optional(),
+})));
+
 export const TenantSettingsSchema = z.object({
   subdomain: z.string().optional(),
-  customFields: z.record(z.any()).optional(),
+  customFields: TenantCustomFieldsSchema.optional(),
   features: z.record(z.boolean()).optional(),
+  llm: LLMSettingsSchema.optional(),
 });
 
 export const TenantSchema = z.object({
@@ -109,6 +237,7 @@ export const ContactSchema = z.object({
   score: z.number().int().min(0).max(100),
   lifetimeValue: z.number().min(0),
   stage: z.nativeEnum(ContactStage),
+  relationshipManagerId: UuidSchema.optional(),
   custom: z.record(z.any()).optional(),
   createdAt: z.date(),
   updatedAt: z.date(),
@@ -122,6 +251,7 @@ export const OrganizationSchema = z.object({
   type: z.nativeEnum(OrganizationType),
   website: z.string().url().optional(),
   location: z.string().optional(),
+  relationshipManagerId: UuidSchema.optional(),
   custom: z.record(z.any()).optional(),
   createdAt: z.date(),
   updatedAt: z.date(),
@@ -163,6 +293,7 @@ export const GrantAppSchema = z.object({
   organizationId: UuidSchema,
   name: z.string(),
   amountRequested: z.number().positive(),
+  amountAwarded: z.number().min(0).optional(),
   status: z.nativeEnum(GrantStatus),
   deadline: z.date(),
   notes: z.string().optional(),
@@ -212,11 +343,150 @@ export const FileAssetSchema = z.object({
 });
 
 // Report schemas
+export const DateValueSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date as YYYY-MM-DD')
+  .refine(value => !isNaN(Date.parse(value)), 'Invalid date');
+
+export const DateRangeValueSchema = z
+  .object({ from: DateValueSchema, to: DateValueSchema })
+  .refine(range => range.from <= range.to, 'Range must not end before it starts');
+
+// Referenced in report SQL as {{name}}, or {{name.from}} and {{name.to}} for date ranges
+const ReportParameterBaseSchema = z.object({
+  name: z.string().regex(/^[a-z_][a-z0-9_]*$/, 'Parameter names are lowercase letters, digits and underscores'),
+  label: z.string().min(1),
+  required: z.boolean().default(true),
+});
+
+export const ReportParameterSchema = z.discriminatedUnion('type', [
+  ReportParameterBaseSchema.extend({
+    type: z.literal(ReportParameterType.NUMBER),
+    min: z.number().optional(),
+    max: z.number().optional(),
+    default: z.number().optional(),
+  }),
+  ReportParameterBaseSchema.extend({
+    type: z.literal(ReportParameterType.DATE),
+    default: DateValueSchema.optional(),
+  }),
+  ReportParameterBaseSchema.extend({
+    type: z.literal(ReportParameterType.DATE_RANGE),
+    default: DateRangeValueSchema.optional(),
+  }),
+  ReportParameterBaseSchema.extend({
+    type: z.literal(ReportParameterType.ENUM),
+    enum: z.enum(Object.keys(REPORT_PARAMETER_ENUMS) as [keyof typeof REPORT_PARAMETER_ENUMS]),
+    default: z.string().optional(),
+  }),
+  ReportParameterBaseSchema.extend({
+    type: z.literal(ReportParameterType.CAMPAIGN),
+    default: UuidSchema.optional(),
+  }),
+]);
+
+export const ReportParametersSchema = z
+  .array(ReportParameterSchema)
+  .refine(
+    parameters => new Set(parameters.map(parameter => parameter.name)).size === parameters.length,
+    'Parameter names must be unique',
+  );
+
+/** Schema a value supplied for the given parameter must satisfy. */
+export function reportParameterValueSchema(parameter: ReportParameter): z.ZodTypeAny {
+  switch (parameter.type) {
+    case ReportParameterType.NUMBER: {
+      let schema = z.number();
+      if (parameter.min !== undefined) schema = schema.min(parameter.min);
+      if (parameter.max !== undefined) schema = schema.max(parameter.max);
+      return schema;
+    }
+    case ReportParameterType.DATE:
+      return DateValueSchema;
+    case ReportParameterType.DATE_RANGE:
+      return DateRangeValueSchema;
+    case ReportParameterType.ENUM:
+      return z.nativeEnum(REPORT_PARAMETER_ENUMS[parameter.enum]);
+    case ReportParameterType.CAMPAIGN:
+      return UuidSchema;
+  }
+}
+
+// Five cron fields: minute, hour, day of month, month, day of week, as the
+// scheduler reads them, so an expression that saves is one that will run
+export const CronScheduleSchema = z
+  .string()
+  .trim()
+  .regex(/^\S+(\s+\S+){4}$/, 'Expected a cron expression with five fields, e.g. "0 8 * * 1"')
+  .refine(isCronExpression, 'Not a valid cron expression');
+
+export const ReportDeliverySchema = z
+  .object({
+    schedule: CronScheduleSchema.nullable(),
+    timezone: z.string().default('UTC'),
+    recipients: z.array(EmailSchema).default([]),
+    format: z.nativeEnum(ReportFormat).default(ReportFormat.CSV),
+  })
+  .refine(delivery => !delivery.schedule || delivery.recipients.length > 0, {
+    message: 'A scheduled report needs at least one recipient',
+    path: ['recipients'],
+  })
+  .refine(delivery => isTimeZone(delivery.timezone), { message: 'Unknown time zone', path: ['timezone'] });
+
+function isCronExpression(expression: string): boolean {
+  try {
+    parseExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// What the values of a result column turned out to be once the query ran
+export const ResultColumnKindSchema = z.enum(['currency', 'date', 'integer', 'number', 'boolean', 'text']);
+
+export const TypedResultColumnSchema = z.object({
+  name: z.string(),
+  kind: ResultColumnKindSchema,
+});
+
+// How to chart a report result; column names refer to the result columns
+export const ChartSpecSchema = z
+  .object({
+    type: z.nativeEnum(ChartType),
+    // Category or date column along the x axis; the slices of a pie
+    x: z.string().min(1),
+    // Numeric columns plotted against x; a pie uses the first
+    y: z.array(z.string().min(1)).min(1),
+    // Column whose values split the single y column into one series each
+    series: z.string().min(1).nullable().default(null),
+    format: z.nativeEnum(ChartValueFormat).default(ChartValueFormat.NUMBER),
+  })
+  .refine(spec => !spec.series || spec.y.length === 1, {
+    message: 'A chart split into series plots a single y column',
+    path: ['series'],
+  });
+
 export const ReportSchema = z.object({
   id: UuidSchema,
   tenantId: UuidSchema,
   name: z.string(),
   sql: z.string(),
+  parameters: ReportParametersSchema,
+  chart: ChartSpecSchema.nullable(),
+  schedule: z.string().nullable(),
+  timezone: z.string(),
+  recipients: z.array(EmailSchema),
+  format: z.nativeEnum(ReportFormat),
   createdBy: UuidSchema,
   lastRunAt: z.date().optional(),
   description: z.string().optional(),
@@ -224,6 +494,89 @@ export const ReportSchema = z.object({
   updatedAt: z.date(),
 });
 
+export const ReportRunSchema = z.object({
+  id: UuidSchema,
+  tenantId: UuidSchema,
+  reportId: UuidSchema,
+  status: z.nativeEnum(ReportRunStatus),
+  rowCount: z.number().int().nullable(),
+  error: z.string().nullable(),
+  recipients: z.array(EmailSchema),
+  startedAt: z.date(),
+  finishedAt: z.date().nullable(),
+});
+
+// A column of a report query: its output name and the select-list expression behind it
+export const ResultColumnSchema = z.object({
+  name: z.string(),
+  expression: z.string(),
+});
+
+export const ReportSessionTurnSchema = z.object({
+  id: UuidSchema,
+  tenantId: UuidSchema,
+  sessionId: UuidSchema,
+  seq: z.number().int().positive(),
+  prompt: z.string(),
+  sql: z.string(),
+  explanation: z.string(),
+  confidence: z.number(),
+  columns: z.array(ResultColumnSchema),
+  // Chart suggested with the query, checked against the result when it runs
+  chart: ChartSpecSchema.nullable(),
+  diff: z.string().nullable(),
+  createdAt: z.date(),
+});
+
+export const ReportSessionSchema = z.object({
+  id: UuidSchema,
+  tenantId: UuidSchema,
+  createdBy: UuidSchema,
+  title: z.string(),
+  module: z.string().nullable(),
+  turns: z.array(ReportSessionTurnSchema),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+// Dashboard schemas
+export const DASHBOARD_GRID_COLUMNS = 12;
+
+// Bounds of a widget's refresh interval, in seconds
+export const DASHBOARD_REFRESH_SECONDS = { min: 60, max: 86400, default: 300 };
+
+export const DashboardWidgetPositionSchema = z.object({
+  x: z.number().int().min(0).max(DASHBOARD_GRID_COLUMNS - 1),
+  y: z.number().int().min(0),
+  w: z.number().int().min(1).max(DASHBOARD_GRID_COLUMNS),
+  h: z.number().int().min(1).max(12),
+});
+
+export const DashboardWidgetSchema = DashboardWidgetPositionSchema.extend({
+  id: UuidSchema,
+  tenantId: UuidSchema,
+  dashboardId: UuidSchema,
+  reportId: UuidSchema,
+  type: z.nativeEnum(DashboardWidgetType),
+  title: z.string().nullable(),
+  column: z.string().nullable(),
+  values: z.record(z.unknown()),
+  refreshSeconds: z.number().int(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const DashboardSchema = z.object({
+  id: UuidSchema,
+  tenantId: UuidSchema,
+  name: z.string(),
+  // Null when the dashboard is shared with the whole tenant
+  ownerId: UuidSchema.nullable(),
+  widgets: z.array(DashboardWidgetSchema),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
 // Audit log schemas
 export const AuditLogSchema = z.object({
   id: UuidSchema,
@@ -235,6 +588,9 @@ export const AuditLogSchema = z.object({
   meta: z.record(z.any()).optional(),
   ip: z.string().optional(),
   ua: z.string().optional(),
+  seq: z.number().int().positive(),
+  prevHash: z.string().optional(),
+  hash: z.string(),
   createdAt: z.date(),
 });
 
@@ -261,7 +617,14 @@ export const CreateContactRequestSchema = z.object({
   custom: z.record(z.any()).optional(),
 });
 
-export const UpdateContactRequestSchema = CreateContactRequestSchema.partial();
+// Stage changes are pipeline moves, see MoveContactStageRequestSchema
+export const UpdateContactRequestSchema = CreateContactRequestSchema.omit({ stage: true }).partial();
+
+export const MoveContactStageRequestSchema = z.object({
+  stage: z.nativeEnum(ContactStage),
+  note: z.string().optional(),
+  occurredAt: z.date().optional(),
+});
 
 export const CreateDonationRequestSchema = z.object({
   contactId: UuidSchema.optional(),
@@ -276,18 +639,141 @@ export const CreateDonationRequestSchema = z.object({
 
 export const UpdateDonationRequestSchema = CreateDonationRequestSchema.partial();
 
+export const CreateOrganizationRequestSchema = z.object({
+  name: z.string().min(1),
+  type: z.nativeEnum(OrganizationType),
+  website: z.string().url().optional(),
+  location: z.string().optional(),
+  custom: z.record(z.any()).optional(),
+});
+
+export const UpdateOrganizationRequestSchema = CreateOrganizationRequestSchema.partial();
+
+export const CreateCampaignRequestSchema = z.object({
+  name: z.string().min(1),
+  targetAmount: z.number().positive(),
+  startDate: z.date(),
+  endDate: z.date(),
+  custom: z.record(z.any()).optional(),
+});
+
+export const UpdateCampaignRequestSchema = CreateCampaignRequestSchema.partial();
+
+export const AttributeDonationsRequestSchema = z.object({
+  donationIds: z.array(UuidSchema).min(1),
+});
+
+export const CreateStaffRequestSchema = z.object({
+  name: z.string().min(1),
+  role: z.string().min(1),
+  email: EmailSchema.optional(),
+  phone: z.string().optional(),
+  team: z.nativeEnum(StaffTeam),
+  custom: z.record(z.any()).optional(),
+});
+
+export const UpdateStaffRequestSchema = CreateStaffRequestSchema.partial();
+
+export const StaffPortfolioRequestSchema = z.object({
+  contactIds: z.array(UuidSchema).optional(),
+  organizationIds: z.array(UuidSchema).optional(),
+});
+
+export const CreateGrantRequestSchema = z.object({
+  organizationId: UuidSchema,
+  name: z.string().min(1),
+  amountRequested: z.number().positive(),
+  deadline: z.date(),
+  notes: z.string().optional(),
+  custom: z.record(z.any()).optional(),
+});
+
+export const UpdateGrantRequestSchema = CreateGrantRequestSchema.partial();
+
+export const UpdateGrantStatusRequestSchema = z.object({
+  status: z.nativeEnum(GrantStatus),
+  amountAwarded: z.number().min(0).optional(),
+  notes: z.string().optional(),
+});
+
 export const GenerateReportRequestSchema = z.object({
   prompt: z.string().min(1),
   module: z.string().optional(),
+  model: LLMSettingsSchema.shape.model,
+  temperature: LLMSettingsSchema.shape.temperature,
+  maxTokens: LLMSettingsSchema.shape.maxTokens,
 });
 
+export const ReportSessionTurnRequestSchema = GenerateReportRequestSchema.omit({ module: true });
+
 export const RunReportRequestSchema = z.object({
   sql: z.string().min(1),
   limit: z.number().int().positive().max(1000).default(100),
+  // Suggested chart; replaced by one inferred from the result when it does not fit
+  chart: ChartSpecSchema.optional(),
+});
+
+// Exports may return more rows than an interactive run, up to this cap
+export const REPORT_EXPORT_ROW_LIMIT = 10000;
+
+export const ExportReportRequestSchema = z.object({
+  sql: z.string().min(1),
+  format: z.nativeEnum(ReportExportFormat),
+  limit: z.number().int().positive().max(REPORT_EXPORT_ROW_LIMIT).default(REPORT_EXPORT_ROW_LIMIT),
+});
+
+export const SaveReportRequestSchema = z.object({
+  name: z.string().min(1),
+  sql: z.string().min(1),
+  description: z.string().optional(),
+  parameters: ReportParametersSchema.optional(),
+  chart: ChartSpecSchema.nullable().optional(),
+});
+
+// Values are keyed by parameter name; omitted parameters fall back to their defaults
+export const RunSavedReportRequestSchema = z.object({
+  values: z.record(z.unknown()).default({}),
+  limit: RunReportRequestSchema.shape.limit,
+});
+
+export const ExportSavedReportRequestSchema = ExportReportRequestSchema.omit({ sql: true }).extend({
+  values: RunSavedReportRequestSchema.shape.values,
+});
+
+export const CreateDashboardRequestSchema = z.object({
+  name: z.string().min(1).max(100),
+  // Shared dashboards are seen by everyone in the tenant and changed only by admins
+  shared: z.boolean().default(false),
+});
+
+export const UpdateDashboardRequestSchema = CreateDashboardRequestSchema.pick({ name: true });
+
+export const CreateDashboardWidgetRequestSchema = DashboardWidgetPositionSchema.partial().extend({
+  reportId: UuidSchema,
+  type: z.nativeEnum(DashboardWidgetType),
+  title: z.string().max(100).optional(),
+  column: z.string().optional(),
+  values: z.record(z.unknown()).default({}),
+  refreshSeconds: z
+    .number()
+    .int()
+    .min(DASHBOARD_REFRESH_SECONDS.min)
+    .max(DASHBOARD_REFRESH_SECONDS.max)
+    .default(DASHBOARD_REFRESH_SECONDS.default),
+});
+
+export const UpdateDashboardWidgetRequestSchema = CreateDashboardWidgetRequestSchema.omit({ reportId: true }).partial();
+
+// Positions of the widgets after they were dragged or resized; widgets left out keep theirs
+export const UpdateDashboardLayoutRequestSchema = z.object({
+  widgets: z.array(DashboardWidgetPositionSchema.extend({ id: UuidSchema })),
 });
 
 // Type exports
+export type LLMSettings = z.infer<typeof LLMSettingsSchema>;
 export type Tenant = z.infer<typeof TenantSchema>;
+export type TenantSettings = z.infer<typeof TenantSettingsSchema>;
+export type TenantBranding = z.infer<typeof TenantBrandingSchema>;
 export type User = z.infer<typeof UserSchema>;
 export type UserTenant = z.infer<typeof UserTenantSchema>;
 export type Contact = z.infer<typeof ContactSchema>;
@@ -298,17 +784,51 @@ export type GrantApp = z.infer<typeof GrantAppSchema>;
 export type PipelineEvent = z.infer<typeof PipelineEventSchema>;
 export type Staff = z.infer<typeof StaffSchema>;
 export type FileAsset = z.infer<typeof FileAssetSchema>;
+export type ReportParameter = z.infer<typeof ReportParameterSchema>;
 export type Report = z.infer<typeof ReportSchema>;
+export type ReportDelivery = z.infer<typeof ReportDeliverySchema>;
+export type ReportRun = z.infer<typeof ReportRunSchema>;
+export type ResultColumn = z.infer<typeof ResultColumnSchema>;
+export type ResultColumnKind = z.infer<typeof ResultColumnKindSchema>;
+export type TypedResultColumn = z.infer<typeof TypedResultColumnSchema>;
+export type ChartSpec = z.infer<typeof ChartSpecSchema>;
+export type DashboardWidgetPosition = z.infer<typeof DashboardWidgetPositionSchema>;
+export type DashboardWidget = z.infer<typeof DashboardWidgetSchema>;
+export type Dashboard = z.infer<typeof DashboardSchema>;
+export type ReportSessionTurn = z.infer<typeof ReportSessionTurnSchema>;
+export type ReportSession = z.infer<typeof ReportSessionSchema>;
 export type AuditLog = z.infer<typeof AuditLogSchema>;
 
 export type CreateTenantRequest = z.infer<typeof CreateTenantRequestSchema>;
 export type UpdateTenantRequest = z.infer<typeof UpdateTenantRequestSchema>;
 export type CreateContactRequest = z.infer<typeof CreateContactRequestSchema>;
 export type UpdateContactRequest = z.infer<typeof UpdateContactRequestSchema>;
+export type MoveContactStageRequest = z.infer<typeof MoveContactStageRequestSchema>;
 export type CreateDonationRequest = z.infer<typeof CreateDonationRequestSchema>;
 export type UpdateDonationRequest = z.infer<typeof UpdateDonationRequestSchema>;
+export type CreateOrganizationRequest = z.infer<typeof CreateOrganizationRequestSchema>;
+export type UpdateOrganizationRequest = z.infer<typeof UpdateOrganizationRequestSchema>;
+export type CreateCampaignRequest = z.infer<typeof CreateCampaignRequestSchema>;
+export type UpdateCampaignRequest = z.infer<typeof UpdateCampaignRequestSchema>;
+export type AttributeDonationsRequest = z.infer<typeof AttributeDonationsRequestSchema>;
+export type CreateStaffRequest = z.infer<typeof CreateStaffRequestSchema>;
+export type UpdateStaffRequest = z.infer<typeof UpdateStaffRequestSchema>;
+export type StaffPortfolioRequest = z.infer<typeof StaffPortfolioRequestSchema>;
+export type CreateGrantRequest = z.infer<typeof CreateGrantRequestSchema>;
+export type UpdateGrantRequest = z.infer<typeof UpdateGrantRequestSchema>;
+export type UpdateGrantStatusRequest = z.infer<typeof UpdateGrantStatusRequestSchema>;
 export type GenerateReportRequest = z.infer<typeof GenerateReportRequestSchema>;
+export type ReportSessionTurnRequest = z.infer<typeof ReportSessionTurnRequestSchema>;
 export type RunReportRequest = z.infer<typeof RunReportRequestSchema>;
+export type SaveReportRequest = z.infer<typeof SaveReportRequestSchema>;
+export type RunSavedReportRequest = z.infer<typeof RunSavedReportRequestSchema>;
+export type ExportReportRequest = z.infer<typeof ExportReportRequestSchema>;
+export type ExportSavedReportRequest = z.infer<typeof ExportSavedReportRequestSchema>;
+export type CreateDashboardRequest = z.infer<typeof CreateDashboardRequestSchema>;
+export type UpdateDashboardRequest = z.infer<typeof UpdateDashboardRequestSchema>;
+export type CreateDashboardWidgetRequest = z.infer<typeof CreateDashboardWidgetRequestSchema>;
+export type UpdateDashboardWidgetRequest = z.infer<typeof UpdateDashboardWidgetRequestSchema>;
+export type UpdateDashboardLayoutRequest = z.infer<typeof UpdateDashboardLayoutRequestSchema>;
 
 // Database connection types
 export interface DatabaseConfig {
@@ -349,6 +869,12 @@ export interface JWTPayload {
   exp: number;
 }
 
+// Tenant membership resolved for an authenticated request
+export interface TenantMembership {
+  tenantId: string;
+  role: UserRole;
+}
+
 // API response types
 export interface ApiResponse<T = any> {
   success: boolean;
@@ -359,13 +885,101 @@ export interface ApiResponse<T = any> {
 
 export interface PaginatedResponse<T> extends ApiResponse<T[]> {
   pagination: {
-    page: number;
+    page?: number;
     limit: number;
     total: number;
     totalPages: number;
+    nextCursor?: string | null;
   };
 }
 
+// Result of running a report, with its columns typed from the returned values
+export interface ReportResult {
+  data: Record<string, unknown>[];
+  rowCount: number;
+  limit: number;
+  columns: TypedResultColumn[];
+  chart: ChartSpec | null;
+}
+
+// A widget's report result and when it was computed; served from cache until it expires
+export interface DashboardWidgetData {
+  widgetId: string;
+  result: ReportResult;
+  cachedAt: string;
+  expiresAt: string;
+}
+
+// Tenant home page figures, computed from the tenant's records by GET /dashboard
+export interface TenantMetrics {
+  yearToDate: number;
+  last30Days: number;
+  totalDonors: number;
+  avgEngagementScore: number;
+  pendingThankYous: number;
+}
+
+export interface GrantDeadline {
+  id: string;
+  name: string;
+  organizationName: string;
+  status: GrantStatus;
+  deadline: string;
+  daysRemaining: number;
+}
+
+// A contact worth reaching out to, with the next step for their stage
+export interface DonorCultivation {
+  contactId: string;
+  name: string;
+  stage: ContactStage;
+  // Last pipeline move or gift; null if there has been none
+  lastContact: string | null;
+  action: string;
+}
+
+export interface PipelineOverview {
+  identified: number;
+  inCultivation: number;
+  atRisk: number;
+}
+
+export interface RecentDonation {
+  id: string;
+  donorName: string;
+  amount: number;
+  date: string;
+}
+
+export interface ActiveCampaign {
+  id: string;
+  name: string;
+  currentAmount: number;
+  targetAmount: number;
+  progressPercentage: number;
+  endDate: string;
+}
+
+export interface TenantDashboardData {
+  metrics: TenantMetrics;
+  grantDeadlines: GrantDeadline[];
+  donorCultivation: DonorCultivation[];
+  pipelineOverview: PipelineOverview;
+  recentDonations: RecentDonation[];
+  activeCampaigns: ActiveCampaign[];
+}
+
+// Search types
+export type SearchResultType = 'contact' | 'organization' | 'grant';
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  subtitle: string | null;
+  score: number;
+}
+
 // Custom field types
 export interface CustomFieldDefinition {
   id: string;
@@ -0,0 +1,205 @@
+import * as React from "react";
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Line,
+  LineChart,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { ChartSpec, ChartType, ChartValueFormat } from "@crmblr/types";
+import { cn } from "../lib/utils";
+
+const DEFAULT_COLORS = ["#2563eb", "#16a34a", "#f59e0b", "#dc2626", "#7c3aed", "#0891b2", "#db2777", "#65a30d"];
+
+// Key of the x value in chart data, kept apart from column and series names
+const X_KEY = "__x";
+
+const CHART_TYPE_LABELS: Record<ChartType, string> = {
+  [ChartType.BAR]: "Bar",
+  [ChartType.LINE]: "Line",
+  [ChartType.AREA]: "Area",
+  [ChartType.PIE]: "Pie",
+};
+
+type ChartDatum = Record<string, string | number | null>;
+
+// Numeric columns arrive as strings when they are decimals
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+  const number = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+// Timestamps are shortened to their date
+function toLabel(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "(none)";
+  }
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /^\d{4}-\d{2}-\d{2}T/.test(text) ? text.slice(0, 10) : text;
+}
+
+/**
+ * Report rows reshaped for the chart: one entry per x value, with a key per
+ * plotted series. With `series`, each of its values becomes a key of its own.
+ */
+function toChartData(spec: ChartSpec, rows: Record<string, unknown>[]): { data: ChartDatum[]; keys: string[] } {
+  const series = spec.series;
+  if (!series) {
+    return {
+      keys: spec.y,
+      data: rows.map(row => ({
+        [X_KEY]: toLabel(row[spec.x]),
+        ...Object.fromEntries(spec.y.map(key => [key, toNumber(row[key])])),
+      })),
+    };
+  }
+
+  const keys: string[] = [];
+  const byX = new Map<string, ChartDatum>();
+  for (const row of rows) {
+    const x = toLabel(row[spec.x]);
+    const key = toLabel(row[series]);
+    if (!keys.includes(key)) {
+      keys.push(key);
+    }
+    const datum = byX.get(x) ?? { [X_KEY]: x };
+    datum[key] = ((datum[key] as number | null) ?? 0) + (toNumber(row[spec.y[0]]) ?? 0);
+    byX.set(x, datum);
+  }
+  return { keys, data: [...byX.values()] };
+}
+
+function valueFormatter(format: ChartValueFormat, compact = false) {
+  const currency = format === ChartValueFormat.CURRENCY;
+  const formatter = new Intl.NumberFormat("en-US", {
+    style: currency ? "currency" : "decimal",
+    currency: currency ? "USD" : undefined,
+    notation: compact ? "compact" : "standard",
+    maximumFractionDigits: compact ? 1 : 2,
+  });
+  return (value: unknown) => (typeof value === "number" ? formatter.format(value) : String(value ?? ""));
+}
+
+export interface ReportChartProps extends React.HTMLAttributes<HTMLDivElement> {
+  spec: ChartSpec;
+  rows: Record<string, unknown>[];
+  height?: number;
+  colors?: string[];
+}
+
+const ReportChart = React.forwardRef<HTMLDivElement, ReportChartProps>(
+  ({ spec, rows, height = 320, colors = DEFAULT_COLORS, className, style, ...props }, ref) => {
+    // A pie shows one value per slice, so it ignores series and further y columns
+    const { data, keys } = React.useMemo(
+      () => toChartData(spec.type === ChartType.PIE ? { ...spec, y: spec.y.slice(0, 1), series: null } : spec, rows),
+      [spec, rows]
+    );
+    const formatValue = valueFormatter(spec.format);
+    const formatTick = valueFormatter(spec.format, true);
+    const colorOf = (index: number) => colors[index % colors.length];
+
+    const axes = [
+      <CartesianGrid key="grid" strokeDasharray="3 3" vertical={false} />,
+      <XAxis key="x" dataKey={X_KEY} tick={{ fontSize: 12 }} />,
+      <YAxis key="y" tickFormatter={formatTick} tick={{ fontSize: 12 }} width={64} />,
+      <Tooltip key="tooltip" formatter={formatValue} />,
+      keys.length > 1 ? <Legend key="legend" /> : null,
+    ];
+
+    let chart: React.ReactElement;
+    switch (spec.type) {
+      case ChartType.LINE:
+        chart = (
+          <LineChart data={data}>
+            {axes}
+            {keys.map((key, index) => (
+              <Line key={key} type="monotone" dataKey={key} stroke={colorOf(index)} strokeWidth={2} dot={false} connectNulls />
+            ))}
+          </LineChart>
+        );
+        break;
+      case ChartType.AREA:
+        chart = (
+          <AreaChart data={data}>
+            {axes}
+            {keys.map((key, index) => (
+              <Area key={key} type="monotone" dataKey={key} stroke={colorOf(index)} fill={colorOf(index)} fillOpacity={0.2} />
+            ))}
+          </AreaChart>
+        );
+        break;
+      case ChartType.PIE:
+        chart = (
+          <PieChart>
+            <Tooltip formatter={formatValue} />
+            <Legend />
+            <Pie data={data} dataKey={keys[0]} nameKey={X_KEY} outerRadius="80%">
+              {data.map((_, index) => (
+                <Cell key={index} fill={colorOf(index)} />
+              ))}
+            </Pie>
+          </PieChart>
+        );
+        break;
+      default:
+        chart = (
+          <BarChart data={data}>
+            {axes}
+            {keys.map((key, index) => (
+              <Bar key={key} dataKey={key} fill={colorOf(index)} radius={[2, 2, 0, 0]} />
+            ))}
+          </BarChart>
+        );
+    }
+
+    return (
+      <div ref={ref} className={cn("w-full", className)} style={{ height, ...style }} {...props}>
+        <ResponsiveContainer width="100%" height="100%">
+          {chart}
+        </ResponsiveContainer>
+      </div>
+    );
+  }
+);
+ReportChart.displayName = "ReportChart";
+
+export interface ChartTypeSwitcherProps {
+  value: ChartType;
+  onChange: (type: ChartType) => void;
+  className?: string;
+}
+
+const ChartTypeSwitcher = ({ value, onChange, className }: ChartTypeSwitcherProps) => (
+  <div role="radiogroup" aria-label="Chart type" className={cn("inline-flex rounded-md border border-input p-0.5", className)}>
+    {Object.values(ChartType).map(type => (
+      <button
+        key={type}
+        type="button"
+        role="radio"
+        aria-checked={value === type}
+        onClick={() => onChange(type)}
+        className={cn(
+          "rounded px-3 py-1 text-sm font-medium transition-colors",
+          value === type ? "bg-primary text-primary-foreground" : "hover:bg-accent hover:text-accent-foreground"
+        )}
+      >
+        {CHART_TYPE_LABELS[type]}
+      </button>
+    ))}
+  </div>
+);
+
+export { ReportChart, ChartTypeSwitcher };
@@ -1,3 +1,4 @@
 export * from './components/button';
 export * from './components/card';
 export * from './components/input';
+export * from './components/report-chart';